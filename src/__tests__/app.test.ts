@@ -1,7 +1,23 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { ResponseEnvelope } from '../types/response.js';
+import type { WorkOrderPartUsage } from '../types/database.js';
+import { voidPartUsage } from '../services/partUsage.js';
+import { seedFakeSupabase, testEmployee } from './helpers/fakeSupabase.js';
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./helpers/fakeSupabase.js');
+  return {
+    ...(await importOriginal<typeof import('@supabase/supabase-js')>()),
+    createClient: () => fakeSupabase,
+  };
+});
+
+vi.mock('@/services/partUsage.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/partUsage.js')>()),
+  voidPartUsage: vi.fn(),
+}));
 
 describe('App Routes', () => {
   const app = createApp();
@@ -130,6 +146,110 @@ describe('App Routes', () => {
     });
   });
 
+  describe('POST /api/app/work-order/:id/complete', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post(
+        '/api/app/work-order/550e8400-e29b-41d4-a716-446655440000/complete'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+
+    it('should return 401 with invalid Bearer token', async () => {
+      const response = await request(app)
+        .post('/api/app/work-order/550e8400-e29b-41d4-a716-446655440000/complete')
+        .set('Authorization', 'Bearer invalid-token');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/app/work-order/:id/parts', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/app/work-order/550e8400-e29b-41d4-a716-446655440000/parts')
+        .send({
+          part_id: '550e8400-e29b-41d4-a716-446655440001',
+          qty: 2,
+        });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/app/work-order/:id/parts', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/app/work-order/550e8400-e29b-41d4-a716-446655440000/parts'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/app/work-order/:id/parts/:usageId/void', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post(
+          '/api/app/work-order/550e8400-e29b-41d4-a716-446655440000/parts/550e8400-e29b-41d4-a716-446655440001/void'
+        )
+        .send({ reason: 'Wrong part' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+
+    it('should let the office void a line on a work order they are not crewing', async () => {
+      const workOrderId = '550e8400-e29b-41d4-a716-446655440000';
+      const usageId = '550e8400-e29b-41d4-a716-446655440001';
+      const usage = {
+        id: usageId,
+        work_order_id: workOrderId,
+        used_by: '550e8400-e29b-41d4-a716-446655440002',
+      };
+      seedFakeSupabase(
+        {
+          work_orders: [
+            {
+              id: workOrderId,
+              assigned_to: '550e8400-e29b-41d4-a716-446655440002',
+              status: 'IN_PROGRESS',
+              project_id: null,
+            },
+          ],
+          work_order_part_usages: [usage],
+        },
+        testEmployee('OFFICE')
+      );
+      vi.mocked(voidPartUsage).mockResolvedValueOnce({
+        data: { ...usage, voided_at: '2026-10-19T00:00:00Z' } as WorkOrderPartUsage,
+        error: null,
+      });
+
+      const response = await request(app)
+        .post(`/api/app/work-order/${workOrderId}/parts/${usageId}/void`)
+        .set('Authorization', 'Bearer test-token')
+        .send({ reason: 'Wrong part' });
+
+      expect(response.status).toBe(200);
+      expect(voidPartUsage).toHaveBeenCalledOnce();
+    });
+  });
+
   describe('POST /api/app/clock-out', () => {
     it('should return 401 without Authorization header', async () => {
       const response = await request(app)
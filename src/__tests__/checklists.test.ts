@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import type { WorkOrderChecklistItem } from '../types/database.js';
+import { getChecklistItemUpdate, gradeNumericReading } from '../services/checklists.js';
+import { checklistTemplateItemSchema } from '../validations/checklist.js';
+
+describe('Checklist Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/checklist-templates', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/checklist-templates');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/checklist-templates', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/checklist-templates')
+        .send({
+          name: 'RTU PM inspection',
+          work_type: 'RTU_PM',
+          items: [{ label: 'Inspect belts', required: true }],
+        });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/work-orders/:id/checklists', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/work-orders/550e8400-e29b-41d4-a716-446655440000/checklists')
+        .send({ template_id: '550e8400-e29b-41d4-a716-446655440001' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('PATCH /api/app/work-order/:id/checklist-items/:itemId', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .patch(
+          '/api/app/work-order/550e8400-e29b-41d4-a716-446655440000/checklist-items/550e8400-e29b-41d4-a716-446655440001'
+        )
+        .send({ result: 'PASS' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/reports/checklist-failures', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/reports/checklist-failures');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('gradeNumericReading', () => {
+  it('should pass readings inside the range', () => {
+    expect(gradeNumericReading({ min_value: 100, max_value: 130 }, 115)).toBe('PASS');
+  });
+
+  it('should fail readings outside the range', () => {
+    expect(gradeNumericReading({ min_value: 100, max_value: 130 }, 95)).toBe('FAIL');
+    expect(gradeNumericReading({ min_value: null, max_value: 130 }, 131)).toBe('FAIL');
+  });
+
+  it('should pass any reading without a range', () => {
+    expect(gradeNumericReading({ min_value: null, max_value: null }, -40)).toBe('PASS');
+  });
+});
+
+describe('getChecklistItemUpdate', () => {
+  const item: WorkOrderChecklistItem = {
+    id: '550e8400-e29b-41d4-a716-446655440001',
+    checklist_id: '550e8400-e29b-41d4-a716-446655440002',
+    work_order_id: '550e8400-e29b-41d4-a716-446655440000',
+    sort_order: 1,
+    label: 'Suction pressure',
+    item_type: 'NUMERIC',
+    required: true,
+    unit: 'psi',
+    min_value: 100,
+    max_value: 130,
+    result: null,
+    numeric_value: null,
+    text_value: null,
+    notes: null,
+    completed_by: null,
+    completed_at: null,
+    created_at: '2024-01-01T10:00:00Z',
+    updated_at: '2024-01-01T10:00:00Z',
+  };
+  const techId = '550e8400-e29b-41d4-a716-446655440003';
+
+  it('should grade a numeric reading and mark the item done', () => {
+    const update = getChecklistItemUpdate(item, { numeric_value: 140 }, techId);
+
+    expect(update.result).toBe('FAIL');
+    expect(update.completed_by).toBe(techId);
+    expect(update.completed_at).toEqual(expect.any(String));
+  });
+
+  it('should keep an explicit result', () => {
+    const update = getChecklistItemUpdate(item, { result: 'NA', numeric_value: 140 }, techId);
+
+    expect(update.result).toBe('NA');
+  });
+
+  it('should mark the item not done when the answer is cleared', () => {
+    const answered = { ...item, result: 'PASS' as const, numeric_value: 115 };
+    const update = getChecklistItemUpdate(answered, { numeric_value: null }, techId);
+
+    expect(update.result).toBeNull();
+    expect(update.completed_at).toBeNull();
+  });
+});
+
+describe('checklistTemplateItemSchema', () => {
+  it('should reject a unit on a PASS_FAIL item', () => {
+    const result = checklistTemplateItemSchema.safeParse({
+      label: 'Inspect belts',
+      unit: 'psi',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject max_value below min_value', () => {
+    const result = checklistTemplateItemSchema.safeParse({
+      label: 'Suction pressure',
+      item_type: 'NUMERIC',
+      min_value: 130,
+      max_value: 100,
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
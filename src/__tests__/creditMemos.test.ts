@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Credit Memo Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/credit-memos', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/credit-memos');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/credit-memos/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/credit-memos/550e8400-e29b-41d4-a716-446655440000'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
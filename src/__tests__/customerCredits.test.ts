@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Customer Credit Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/customers/:id/credits', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/customers/550e8400-e29b-41d4-a716-446655440000/credits'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/invoices/:id/credit-applications', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/invoices/550e8400-e29b-41d4-a716-446655440000/credit-applications'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/invoices/:id/apply-credit', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/invoices/550e8400-e29b-41d4-a716-446655440000/apply-credit')
+        .send({ credit_id: '550e8400-e29b-41d4-a716-446655440001' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/credit-applications/:id/reverse', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post(
+        '/api/credit-applications/550e8400-e29b-41d4-a716-446655440000/reverse'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { renderEmailTemplate } from '../services/documents/email.js';
+
+describe('Document Email Routes', () => {
+  const app = createApp();
+
+  const documents = ['invoices', 'quotes', 'purchase-orders'];
+
+  for (const document of documents) {
+    const basePath = `/api/${document}/550e8400-e29b-41d4-a716-446655440000`;
+
+    describe(`GET /api/${document}/:id/emails`, () => {
+      it('should return 401 without Authorization header', async () => {
+        const response = await request(app).get(`${basePath}/emails`);
+
+        expect(response.status).toBe(401);
+        const body = response.body as ResponseEnvelope;
+        expect(body.ok).toBe(false);
+        expect(body.data).toBeNull();
+        expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+      });
+    });
+
+    describe(`POST /api/${document}/:id/email`, () => {
+      it('should return 401 without Authorization header', async () => {
+        const response = await request(app)
+          .post(`${basePath}/email`)
+          .send({ to: ['billing@example.com'] });
+
+        expect(response.status).toBe(401);
+        const body = response.body as ResponseEnvelope;
+        expect(body.ok).toBe(false);
+        expect(body.data).toBeNull();
+        expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+      });
+    });
+  }
+});
+
+describe('renderEmailTemplate', () => {
+  it('should replace known placeholders', () => {
+    const result = renderEmailTemplate('Invoice {{document_number}} for {{ total }}', {
+      document_number: 'INV-0001',
+      total: '$100.00',
+    });
+
+    expect(result).toBe('Invoice INV-0001 for $100.00');
+  });
+
+  it('should render unknown placeholders as empty strings', () => {
+    expect(renderEmailTemplate('Hello {{recipient_name}}!', {})).toBe('Hello !');
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Document PDF Routes', () => {
+  const app = createApp();
+
+  const paths = [
+    '/api/invoices/550e8400-e29b-41d4-a716-446655440000/pdf',
+    '/api/quotes/550e8400-e29b-41d4-a716-446655440000/pdf',
+    '/api/change-orders/550e8400-e29b-41d4-a716-446655440000/pdf',
+    '/api/purchase-orders/550e8400-e29b-41d4-a716-446655440000/pdf',
+  ];
+
+  for (const path of paths) {
+    describe(`POST ${path.replace('550e8400-e29b-41d4-a716-446655440000', ':id')}`, () => {
+      it('should return 401 without Authorization header', async () => {
+        const response = await request(app).post(path);
+
+        expect(response.status).toBe(401);
+        const body = response.body as ResponseEnvelope;
+        expect(body.ok).toBe(false);
+        expect(body.data).toBeNull();
+        expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+      });
+    });
+  }
+});
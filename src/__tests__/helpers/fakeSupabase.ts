@@ -0,0 +1,169 @@
+import type { Employee } from '../../types/auth.js';
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+/**
+ * Rows per table backing a fake Supabase client
+ */
+export type FakeTables = Record<string, Row[]>;
+
+let tables: FakeTables = {};
+let signedIn: Employee | null = null;
+
+/**
+ * Replace the fake database contents and sign in as the given employee
+ * The bearer token "test-token" resolves to that employee.
+ */
+export function seedFakeSupabase(seed: FakeTables, employee: Employee): void {
+  tables = { ...seed, employees: [{ ...employee }, ...(seed.employees ?? [])] };
+  signedIn = employee;
+}
+
+/**
+ * Rows currently stored in a fake table
+ */
+export function fakeRows(table: string): Row[] {
+  return tables[table] ?? [];
+}
+
+const rowsFor = (table: string): Row[] => (tables[table] ??= []);
+
+function query(table: string) {
+  const filters: Filter[] = [];
+  let action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  let payload: Row | Row[] = {};
+  let limitTo: number | null = null;
+
+  const run = (): Row[] => {
+    const rows = rowsFor(table);
+
+    if (action === 'insert') {
+      const inserted = (Array.isArray(payload) ? payload : [payload]).map((row) => ({
+        id: `${table}-${rows.length + 1}`,
+        ...row,
+      }));
+      rows.push(...inserted);
+      return inserted;
+    }
+
+    const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+
+    if (action === 'update') {
+      matched.forEach((row) => Object.assign(row, payload));
+    } else if (action === 'delete') {
+      tables[table] = rows.filter((row) => !matched.includes(row));
+    }
+
+    return limitTo === null ? matched : matched.slice(0, limitTo);
+  };
+
+  const builder = {
+    select: () => builder,
+    insert: (values: Row | Row[]) => {
+      action = 'insert';
+      payload = values;
+      return builder;
+    },
+    update: (values: Row) => {
+      action = 'update';
+      payload = values;
+      return builder;
+    },
+    delete: () => {
+      action = 'delete';
+      return builder;
+    },
+    eq: (column: string, value: unknown) => {
+      filters.push((row) => row[column] === value);
+      return builder;
+    },
+    neq: (column: string, value: unknown) => {
+      filters.push((row) => row[column] !== value);
+      return builder;
+    },
+    is: (column: string, value: unknown) => {
+      filters.push((row) => (row[column] ?? null) === value);
+      return builder;
+    },
+    in: (column: string, values: unknown[]) => {
+      filters.push((row) => values.includes(row[column]));
+      return builder;
+    },
+    gt: (column: string, value: string | number) => {
+      filters.push((row) => (row[column] as string | number) > value);
+      return builder;
+    },
+    gte: (column: string, value: string | number) => {
+      filters.push((row) => (row[column] as string | number) >= value);
+      return builder;
+    },
+    lt: (column: string, value: string | number) => {
+      filters.push((row) => (row[column] as string | number) < value);
+      return builder;
+    },
+    lte: (column: string, value: string | number) => {
+      filters.push((row) => (row[column] as string | number) <= value);
+      return builder;
+    },
+    order: () => builder,
+    limit: (count: number) => {
+      limitTo = count;
+      return builder;
+    },
+    returns: () => builder,
+    single: () => {
+      const [row] = run();
+      return Promise.resolve(
+        row
+          ? { data: row, error: null }
+          : { data: null, error: { code: 'PGRST116', message: 'No rows found' } }
+      );
+    },
+    maybeSingle: () => Promise.resolve({ data: run()[0] ?? null, error: null }),
+    then: <T>(resolve: (result: { data: Row[]; error: null; count: number }) => T) => {
+      const rows = run();
+      return Promise.resolve(resolve({ data: rows, error: null, count: rows.length }));
+    },
+  };
+
+  return builder;
+}
+
+/**
+ * Minimal in-memory stand-in for the Supabase client used by route tests
+ * Supports the query builder calls the routes make (select/insert/update/delete with
+ * eq, neq, is, in and range filters). Wire it in with
+ * vi.mock('@supabase/supabase-js') so createClient returns it.
+ */
+export const fakeSupabase = {
+  from: query,
+  rpc: () => Promise.resolve({ data: null, error: null }),
+  auth: {
+    getUser: (token: string) =>
+      Promise.resolve(
+        signedIn && token === 'test-token'
+          ? { data: { user: { id: signedIn.id, user_metadata: {} } }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid token' } }
+      ),
+  },
+};
+
+/**
+ * Active employee record for route tests
+ */
+export function testEmployee(
+  role: Employee['role'],
+  id = '11111111-1111-4111-8111-111111111111'
+): Employee {
+  return {
+    id,
+    display_name: `Test ${role}`,
+    email: null,
+    phone: null,
+    role,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
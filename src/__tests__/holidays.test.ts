@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Holiday Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/holidays', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/holidays');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/holidays', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/holidays')
+        .send({ holiday_date: '2025-12-25', name: 'Christmas Day' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('DELETE /api/holidays/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).delete(
+        '/api/holidays/550e8400-e29b-41d4-a716-446655440000'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { ResponseEnvelope } from '../types/response.js';
+import { computeMovingAverageCost } from '../services/inventoryStock.js';
 
 describe('Inventory Ledger Routes', () => {
   const app = createApp();
@@ -79,3 +80,20 @@ describe('Inventory Ledger Routes', () => {
   // Note: Tests with valid JWT tokens and database operations would be integration tests
   // requiring actual Supabase setup. These unit tests verify the authentication layer.
 });
+
+describe('computeMovingAverageCost', () => {
+  it('should weight the incoming cost by quantity', () => {
+    // 10 @ 5.00 + 30 @ 7.00 = 260 / 40
+    expect(computeMovingAverageCost(10, 5, 30, 7)).toBe(6.5);
+  });
+
+  it('should use the incoming cost when nothing is on hand', () => {
+    expect(computeMovingAverageCost(0, 5, 4, 8.25)).toBe(8.25);
+    expect(computeMovingAverageCost(-2, 5, 4, 8.25)).toBe(8.25);
+  });
+
+  it('should round to 4 decimal places', () => {
+    expect(computeMovingAverageCost(3, 1, 3, 2.00005)).toBe(1.5);
+    expect(computeMovingAverageCost(1, 1, 2, 2)).toBe(1.6667);
+  });
+});
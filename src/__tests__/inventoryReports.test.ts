@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { computeCommittedQty, replayLedger, valueStock } from '../services/inventoryReports.js';
+
+describe('Inventory Report Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/reports/inventory-valuation', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/reports/inventory-valuation');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/reports/stock-status', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/reports/stock-status');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('replayLedger', () => {
+  const row = (
+    txn_type: 'PURCHASE' | 'USAGE' | 'TRANSFER',
+    qty_delta: number,
+    unit_cost: number,
+    txn_date: string
+  ) => ({ txn_type, qty_delta, unit_cost, txn_date, created_at: `${txn_date}T12:00:00Z` });
+
+  it('should blend inbound costs and let outbound rows reduce the quantity', () => {
+    const position = replayLedger([
+      row('USAGE', -5, 5, '2024-01-03'),
+      row('PURCHASE', 10, 5, '2024-01-01'),
+      row('PURCHASE', 10, 8, '2024-01-05'),
+    ]);
+
+    // 5 @ 5.00 left, then 10 @ 8.00 = 105 / 15
+    expect(position).toEqual({ qty_on_hand: 15, avg_cost: 7 });
+    expect(valueStock(position)).toBe(105);
+  });
+
+  it('should bring in rows without a unit cost at the running average', () => {
+    expect(
+      replayLedger([
+        row('PURCHASE', 10, 4, '2024-01-01'),
+        { ...row('PURCHASE', 10, 0, '2024-01-02'), unit_cost: null },
+      ])
+    ).toEqual({ qty_on_hand: 20, avg_cost: 4 });
+  });
+
+  it('should skip transfers between locations', () => {
+    expect(
+      replayLedger([
+        row('PURCHASE', 4, 2.5, '2024-01-01'),
+        row('TRANSFER', -4, 2.5, '2024-01-02'),
+        row('TRANSFER', 4, 2.5, '2024-01-02'),
+      ])
+    ).toEqual({ qty_on_hand: 4, avg_cost: 2.5 });
+  });
+});
+
+describe('computeCommittedQty', () => {
+  it('should subtract usage per work order and never go below zero', () => {
+    const committed = computeCommittedQty(
+      [
+        { work_order_id: 'wo-1', part_id: 'part-a', qty: 6 },
+        { work_order_id: 'wo-2', part_id: 'part-a', qty: 2 },
+      ],
+      [
+        { work_order_id: 'wo-1', part_id: 'part-a', qty: 4 },
+        { work_order_id: 'wo-2', part_id: 'part-a', qty: 3 },
+      ]
+    );
+
+    expect(committed.get('part-a')).toBe(2);
+  });
+});
@@ -94,4 +94,17 @@ describe('Invoice Routes', () => {
       expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
     });
   });
+
+  describe('POST /api/invoices/:id/void', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/invoices/550e8400-e29b-41d4-a716-446655440000/void')
+        .send({ reason: 'Billed to wrong customer' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
 });
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Payment Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/payments', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/payments');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+
+    it('should return 401 with invalid Bearer token', async () => {
+      const response = await request(app)
+        .get('/api/payments')
+        .set('Authorization', 'Bearer invalid-token');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/invoices/:id/payments', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/invoices/550e8400-e29b-41d4-a716-446655440000/payments'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/invoices/:id/payments', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/invoices/550e8400-e29b-41d4-a716-446655440000/payments')
+        .send({
+          payment_date: '2024-01-15',
+          amount: 250,
+          payment_method: 'CHECK',
+        });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/payments/:id/void', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/payments/550e8400-e29b-41d4-a716-446655440000/void')
+        .send({ reason: 'Check returned NSF' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/payments/:id/refund', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/payments/550e8400-e29b-41d4-a716-446655440000/refund')
+        .send({ reason: 'Refunded to customer' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
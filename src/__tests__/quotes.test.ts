@@ -1,7 +1,17 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { ResponseEnvelope } from '../types/response.js';
+import { computeQuoteInvoiceLineAmounts } from '../services/invoices.js';
+import { seedFakeSupabase, testEmployee } from './helpers/fakeSupabase.js';
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./helpers/fakeSupabase.js');
+  return {
+    ...(await importOriginal<typeof import('@supabase/supabase-js')>()),
+    createClient: () => fakeSupabase,
+  };
+});
 
 describe('Quote Routes', () => {
   const app = createApp();
@@ -126,6 +136,67 @@ describe('Quote Routes', () => {
     });
   });
 
+  describe('GET /api/quotes/:id/invoices', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/quotes/550e8400-e29b-41d4-a716-446655440000/invoices'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/quotes/:id/invoice', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/quotes/550e8400-e29b-41d4-a716-446655440000/invoice')
+        .send({ billing: 'DEPOSIT', deposit_percent: 30 });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+    it('should reject a quote whose work order was already invoiced outside the quote', async () => {
+      const quoteId = '550e8400-e29b-41d4-a716-446655440000';
+      const workOrderId = '550e8400-e29b-41d4-a716-446655440002';
+      seedFakeSupabase(
+        {
+          quotes: [
+            { id: quoteId, quote_no: 'Q-0001', status: 'ACCEPTED', work_order_id: workOrderId },
+          ],
+          quote_lines: [{ id: 'line-1', quote_id: quoteId, qty: 1, unit_price: 500 }],
+          invoices: [
+            {
+              id: 'invoice-1',
+              invoice_no: 'INV-0001',
+              work_order_id: workOrderId,
+              source_quote_id: null,
+              status: 'DRAFT',
+            },
+          ],
+        },
+        testEmployee('OFFICE')
+      );
+
+      const response = await request(app)
+        .post(`/api/quotes/${quoteId}/invoice`)
+        .set('Authorization', 'Bearer test-token')
+        .send({ billing: 'FULL' });
+
+      expect(response.status).toBe(400);
+      const body = response.body as ResponseEnvelope;
+      expect(body.error).toHaveProperty('code', 'VALIDATION_ERROR');
+      expect(body.error).toHaveProperty('details', {
+        invoice_id: 'invoice-1',
+        invoice_no: 'INV-0001',
+      });
+    });
+  });
+
   describe('PATCH /api/quote-lines/:id', () => {
     it('should return 401 without Authorization header', async () => {
       const response = await request(app)
@@ -149,3 +220,28 @@ describe('Quote Routes', () => {
     });
   });
 });
+
+describe('computeQuoteInvoiceLineAmounts', () => {
+  it('should bill a deposit as a percentage of each line total', () => {
+    expect(computeQuoteInvoiceLineAmounts([{ qty: 3, unit_price: 10.05 }], 50)).toEqual([15.08]);
+  });
+
+  it('should bill deposit plus remainder to the quote total', () => {
+    const lines = [
+      { qty: 3, unit_price: 10.05 },
+      { qty: 7, unit_price: 1.33 },
+    ];
+    const quoteTotal = 30.15 + 9.31;
+
+    const deposit = computeQuoteInvoiceLineAmounts(lines, 50);
+    const depositTotal = deposit.reduce((sum, amount) => sum + amount, 0);
+    const remainder = computeQuoteInvoiceLineAmounts(
+      lines,
+      50,
+      Math.round((quoteTotal - depositTotal) * 100) / 100
+    );
+    const remainderTotal = remainder.reduce((sum, amount) => sum + amount, 0);
+
+    expect(Math.round((depositTotal + remainderTotal) * 100) / 100).toBe(quoteTotal);
+  });
+});
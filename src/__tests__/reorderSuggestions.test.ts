@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { computeReorderQty } from '../services/reorderSuggestions.js';
+
+describe('Reorder Suggestion Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/purchase-orders/suggestions', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/purchase-orders/suggestions');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/purchase-orders/suggestions', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/purchase-orders/suggestions')
+        .send({ part_ids: ['550e8400-e29b-41d4-a716-446655440000'] });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/purchase-orders/suggestions/refresh', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post('/api/purchase-orders/suggestions/refresh');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('computeReorderQty', () => {
+  it('should order nothing above the reorder point', () => {
+    expect(computeReorderQty(11, { reorder_point: 10, reorder_qty: 20, max_qty: null })).toBe(0);
+  });
+
+  it('should order up to max_qty when set', () => {
+    expect(computeReorderQty(4, { reorder_point: 10, reorder_qty: 20, max_qty: 50 })).toBe(46);
+  });
+
+  it('should order reorder_qty in enough multiples to clear the reorder point', () => {
+    expect(computeReorderQty(10, { reorder_point: 10, reorder_qty: 6, max_qty: null })).toBe(6);
+    expect(computeReorderQty(-3, { reorder_point: 10, reorder_qty: 6, max_qty: null })).toBe(18);
+  });
+
+  it('should order nothing without a reorder point or quantity', () => {
+    expect(computeReorderQty(0, { reorder_point: null, reorder_qty: 6, max_qty: null })).toBe(0);
+    expect(computeReorderQty(0, { reorder_point: 5, reorder_qty: null, max_qty: null })).toBe(0);
+  });
+});
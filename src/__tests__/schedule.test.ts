@@ -2,10 +2,46 @@ import { describe, it, expect } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { ResponseEnvelope } from '../types/response.js';
+import {
+  computeFreeBlocks,
+  getBookedHours,
+  getDispatchRange,
+} from '../services/schedule.js';
 
 describe('Schedule Routes', () => {
   const app = createApp();
 
+  describe('GET /api/schedule', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .get('/api/schedule')
+        .query({ date: '2024-01-03', view: 'week' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/schedule/availability', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .get('/api/schedule/availability')
+        .query({
+          start_at: '2024-01-01T00:00:00Z',
+          end_at: '2024-01-02T00:00:00Z',
+        });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
   describe('PATCH /api/schedule/:id', () => {
     it('should return 401 without Authorization header', async () => {
       const response = await request(app)
@@ -66,3 +102,64 @@ describe('Schedule Routes', () => {
   // Note: Tests with valid JWT tokens and database operations would be integration tests
   // requiring actual Supabase setup. These unit tests verify the authentication layer.
 });
+
+describe('computeFreeBlocks', () => {
+  it('should return the whole range when nothing is busy', () => {
+    expect(computeFreeBlocks('2024-01-01T08:00:00Z', '2024-01-01T17:00:00Z', [])).toEqual([
+      { start_at: '2024-01-01T08:00:00.000Z', end_at: '2024-01-01T17:00:00.000Z' },
+    ]);
+  });
+
+  it('should merge overlapping busy blocks and clip to the range', () => {
+    const free = computeFreeBlocks('2024-01-01T08:00:00Z', '2024-01-01T17:00:00Z', [
+      { start_at: '2024-01-01T07:00:00Z', end_at: '2024-01-01T09:00:00Z' },
+      { start_at: '2024-01-01T12:00:00Z', end_at: '2024-01-01T14:00:00Z' },
+      { start_at: '2024-01-01T13:00:00Z', end_at: '2024-01-01T15:00:00Z' },
+    ]);
+
+    expect(free).toEqual([
+      { start_at: '2024-01-01T09:00:00.000Z', end_at: '2024-01-01T12:00:00.000Z' },
+      { start_at: '2024-01-01T15:00:00.000Z', end_at: '2024-01-01T17:00:00.000Z' },
+    ]);
+  });
+
+  it('should return no free time when fully booked', () => {
+    expect(
+      computeFreeBlocks('2024-01-01T08:00:00Z', '2024-01-01T17:00:00Z', [
+        { start_at: '2024-01-01T06:00:00Z', end_at: '2024-01-01T18:00:00Z' },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('getDispatchRange', () => {
+  it('should cover a single UTC day', () => {
+    expect(getDispatchRange('2024-01-03', 'day')).toEqual({
+      start_at: '2024-01-03T00:00:00.000Z',
+      end_at: '2024-01-04T00:00:00.000Z',
+    });
+  });
+
+  it('should cover Monday through Sunday for a week', () => {
+    // 2024-01-07 is a Sunday
+    expect(getDispatchRange('2024-01-07', 'week')).toEqual({
+      start_at: '2024-01-01T00:00:00.000Z',
+      end_at: '2024-01-08T00:00:00.000Z',
+    });
+  });
+});
+
+describe('getBookedHours', () => {
+  it('should sum slot hours clipped to the range', () => {
+    const hours = getBookedHours(
+      [
+        { start_at: '2024-01-01T22:00:00Z', end_at: '2024-01-02T02:00:00Z' },
+        { start_at: '2024-01-02T08:00:00Z', end_at: '2024-01-02T09:30:00Z' },
+      ],
+      '2024-01-02T00:00:00Z',
+      '2024-01-03T00:00:00Z'
+    );
+
+    expect(hours).toBe(3.5);
+  });
+});
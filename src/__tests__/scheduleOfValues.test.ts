@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Schedule of Values Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/projects/:id/schedule-of-values', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/projects/550e8400-e29b-41d4-a716-446655440000/schedule-of-values'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/projects/:id/schedule-of-values', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/projects/550e8400-e29b-41d4-a716-446655440000/schedule-of-values')
+        .send({ description: 'General conditions', scheduled_value: 5000 });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/projects/:id/schedule-of-values/seed', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post(
+        '/api/projects/550e8400-e29b-41d4-a716-446655440000/schedule-of-values/seed'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('PATCH /api/schedule-of-values/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .patch('/api/schedule-of-values/550e8400-e29b-41d4-a716-446655440000')
+        .send({ scheduled_value: 7500 });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/projects/:id/progress-invoices', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/projects/550e8400-e29b-41d4-a716-446655440000/progress-invoices')
+        .send({
+          tax_rule_id: '550e8400-e29b-41d4-a716-446655440001',
+          lines: [
+            {
+              sov_line_id: '550e8400-e29b-41d4-a716-446655440002',
+              percent_complete: 25,
+            },
+          ],
+        });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/invoices/:id/progress-lines', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/invoices/550e8400-e29b-41d4-a716-446655440000/progress-lines'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
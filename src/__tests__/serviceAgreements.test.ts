@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Service Agreement Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/service-agreements', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/service-agreements');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/service-agreements', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post('/api/service-agreements').send({
+        customer_id: '550e8400-e29b-41d4-a716-446655440000',
+        location_id: '550e8400-e29b-41d4-a716-446655440001',
+        name: 'Quarterly HVAC maintenance',
+        frequency: 'QUARTERLY',
+        amount: 450,
+        tax_rule_id: '550e8400-e29b-41d4-a716-446655440002',
+        start_date: '2026-01-01',
+      });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/service-agreements/run-billing', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post('/api/service-agreements/run-billing').send({});
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/service-agreements/:id/billings', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/service-agreements/550e8400-e29b-41d4-a716-446655440000/billings'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
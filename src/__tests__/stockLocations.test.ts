@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { createStockLocationSchema } from '../validations/stockLocation.js';
+import { createInventoryTransferSchema } from '../validations/inventoryTransfer.js';
+
+describe('Stock Location Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/stock-locations', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/stock-locations');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/stock-locations', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/stock-locations')
+        .send({ name: 'Main Warehouse', location_type: 'WAREHOUSE' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('DELETE /api/stock-locations/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).delete(
+        '/api/stock-locations/550e8400-e29b-41d4-a716-446655440000'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/inventory-transfers', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post('/api/inventory-transfers').send({
+        part_id: '550e8400-e29b-41d4-a716-446655440000',
+        from_location_id: '550e8400-e29b-41d4-a716-446655440001',
+        to_location_id: '550e8400-e29b-41d4-a716-446655440002',
+        qty: 5,
+      });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('createStockLocationSchema', () => {
+  it('should require a tech for a TRUCK location', () => {
+    const result = createStockLocationSchema.safeParse({
+      name: 'Truck 12',
+      location_type: 'TRUCK',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should accept a warehouse without a tech', () => {
+    const result = createStockLocationSchema.safeParse({
+      name: 'Main Warehouse',
+      location_type: 'WAREHOUSE',
+    });
+
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('createInventoryTransferSchema', () => {
+  it('should reject a transfer to the same location', () => {
+    const result = createInventoryTransferSchema.safeParse({
+      part_id: '550e8400-e29b-41d4-a716-446655440000',
+      from_location_id: '550e8400-e29b-41d4-a716-446655440001',
+      to_location_id: '550e8400-e29b-41d4-a716-446655440001',
+      qty: 5,
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
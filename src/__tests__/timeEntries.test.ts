@@ -2,6 +2,13 @@ import { describe, it, expect } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { ResponseEnvelope } from '../types/response.js';
+import {
+  computeCostLineAmount,
+  computeLaborCostLines,
+  DEFAULT_PAY_RULES,
+  getPayRules,
+  splitLaborHours,
+} from '../services/laborCost.js';
 
 describe('Time Entry Routes', () => {
   const app = createApp();
@@ -116,6 +123,108 @@ describe('Time Entry Routes', () => {
     });
   });
 
+  describe('POST /api/time-entries/:id/adjustments', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/time-entries/550e8400-e29b-41d4-a716-446655440000/adjustments')
+        .send({
+          clock_out_at: '2024-01-01T16:30:00Z',
+          reason: 'Tech forgot to clock out',
+        });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
   // Note: Tests with valid JWT tokens and database operations would be integration tests
   // requiring actual Supabase setup. These unit tests verify the authentication layer.
 });
+
+describe('splitLaborHours', () => {
+  const noHoursBefore = { day_hours_before: 0, week_hours_before: 0, is_holiday: false };
+
+  it('should keep hours under the thresholds regular', () => {
+    expect(splitLaborHours(8, noHoursBefore, DEFAULT_PAY_RULES)).toEqual([
+      { pay_type: 'REGULAR', hours: 8, multiplier: 1 },
+    ]);
+  });
+
+  it('should pay hours past the weekly threshold as overtime', () => {
+    expect(
+      splitLaborHours(8, { ...noHoursBefore, week_hours_before: 36 }, DEFAULT_PAY_RULES)
+    ).toEqual([
+      { pay_type: 'REGULAR', hours: 4, multiplier: 1 },
+      { pay_type: 'OVERTIME', hours: 4, multiplier: 1.5 },
+    ]);
+  });
+
+  it('should apply daily overtime and double time thresholds', () => {
+    const rules = {
+      ...DEFAULT_PAY_RULES,
+      ot_daily_threshold_hours: 8,
+      dt_daily_threshold_hours: 12,
+    };
+
+    expect(splitLaborHours(7, { ...noHoursBefore, day_hours_before: 6 }, rules)).toEqual([
+      { pay_type: 'REGULAR', hours: 2, multiplier: 1 },
+      { pay_type: 'OVERTIME', hours: 4, multiplier: 1.5 },
+      { pay_type: 'DOUBLE_TIME', hours: 1, multiplier: 2 },
+    ]);
+  });
+
+  it('should pay holiday work at the holiday rate only when one is set', () => {
+    const holiday = { ...noHoursBefore, is_holiday: true };
+
+    expect(splitLaborHours(4, holiday, { ...DEFAULT_PAY_RULES, holiday_multiplier: 2 })).toEqual([
+      { pay_type: 'HOLIDAY', hours: 4, multiplier: 2 },
+    ]);
+    expect(splitLaborHours(4, holiday, DEFAULT_PAY_RULES)).toEqual([
+      { pay_type: 'REGULAR', hours: 4, multiplier: 1 },
+    ]);
+  });
+});
+
+describe('getPayRules', () => {
+  it('should fall back to defaults for missing columns but keep null thresholds off', () => {
+    expect(getPayRules({ ot_weekly_threshold_hours: null, ot_multiplier: 1.75 })).toEqual({
+      ...DEFAULT_PAY_RULES,
+      ot_weekly_threshold_hours: null,
+      ot_multiplier: 1.75,
+    });
+  });
+});
+
+describe('computeLaborCostLines', () => {
+  it('should apply the pay multiplier and burden to the base rate', () => {
+    expect(
+      computeLaborCostLines(
+        [
+          { pay_type: 'REGULAR', hours: 4, multiplier: 1 },
+          { pay_type: 'OVERTIME', hours: 2.5, multiplier: 1.5 },
+        ],
+        40,
+        25
+      )
+    ).toEqual([
+      { pay_type: 'REGULAR', qty: 4, unit_cost: 50, amount: 200 },
+      { pay_type: 'OVERTIME', qty: 2.5, unit_cost: 75, amount: 187.5 },
+    ]);
+  });
+});
+
+describe('computeCostLineAmount', () => {
+  it('should round like the database on four-decimal qty and unit cost', () => {
+    // 7.3333 × 51.3333 = 376.44248889
+    expect(computeCostLineAmount(7.33333333, 51.33333)).toBe(376.44);
+    expect(computeCostLineAmount(1.5, 0.003)).toBe(0);
+    expect(computeCostLineAmount(0.5, 0.01)).toBe(0.01);
+  });
+
+  it('should mirror the amount of a reversed line', () => {
+    expect(computeCostLineAmount(-0.5, 0.01)).toBe(-0.01);
+    expect(computeCostLineAmount(-7.25, 63.7525)).toBe(-computeCostLineAmount(7.25, 63.7525));
+  });
+});
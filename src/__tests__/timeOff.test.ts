@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+
+describe('Time Off Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/time-off', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/time-off');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/time-off', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post('/api/time-off').send({
+        start_at: '2025-07-01T00:00:00Z',
+        end_at: '2025-07-03T00:00:00Z',
+        reason: 'Vacation',
+      });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/time-off/:id/approve', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post(
+        '/api/time-off/550e8400-e29b-41d4-a716-446655440000/approve'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/time-off/:id/deny', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post(
+        '/api/time-off/550e8400-e29b-41d4-a716-446655440000/deny'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('DELETE /api/time-off/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).delete(
+        '/api/time-off/550e8400-e29b-41d4-a716-446655440000'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
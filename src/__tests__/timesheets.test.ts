@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { getWeekRange, getWeekStart, sumTimeEntryHours } from '../services/timesheets.js';
+import {
+  createTimeEntryAdjustmentSchema,
+  submitTimesheetSchema,
+} from '../validations/timesheet.js';
+
+describe('Timesheet Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/timesheets', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/timesheets');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/timesheets', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/timesheets')
+        .send({ week_start: '2024-01-01' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/timesheets/:id/approve', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).post(
+        '/api/timesheets/550e8400-e29b-41d4-a716-446655440000/approve'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/timesheets/:id/reject', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/timesheets/550e8400-e29b-41d4-a716-446655440000/reject')
+        .send({ review_notes: 'Missing Friday afternoon' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('getWeekStart', () => {
+  it('should return the Monday of the week', () => {
+    expect(getWeekStart('2024-01-03')).toBe('2024-01-01');
+    expect(getWeekStart('2024-01-01')).toBe('2024-01-01');
+  });
+
+  it('should put Sunday in the week that started the Monday before', () => {
+    expect(getWeekStart('2024-01-07')).toBe('2024-01-01');
+  });
+});
+
+describe('getWeekRange', () => {
+  it('should cover Monday to the next Monday in the company time zone', () => {
+    expect(getWeekRange('2024-01-01', 'America/New_York')).toEqual({
+      start_at: '2024-01-01T05:00:00.000Z',
+      end_at: '2024-01-08T05:00:00.000Z',
+    });
+  });
+});
+
+describe('sumTimeEntryHours', () => {
+  it('should total closed entries net of breaks and skip open ones', () => {
+    expect(
+      sumTimeEntryHours([
+        {
+          clock_in_at: '2024-01-01T08:00:00Z',
+          clock_out_at: '2024-01-01T16:30:00Z',
+          break_minutes: 30,
+        },
+        {
+          clock_in_at: '2024-01-02T08:00:00Z',
+          clock_out_at: null,
+          break_minutes: 0,
+        },
+      ])
+    ).toBe(8);
+  });
+});
+
+describe('submitTimesheetSchema', () => {
+  it('should reject a week_start that is not a Monday', () => {
+    const result = submitTimesheetSchema.safeParse({ week_start: '2024-01-03' });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('createTimeEntryAdjustmentSchema', () => {
+  it('should require a change besides the reason', () => {
+    const result = createTimeEntryAdjustmentSchema.safeParse({ reason: 'Typo' });
+
+    expect(result.success).toBe(false);
+  });
+});
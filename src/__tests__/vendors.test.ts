@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import {
+  getSpendPeriod,
+  normalizeVendorName,
+  summarizeVendorSpend,
+  VendorSpendRow,
+} from '../services/vendors.js';
+
+describe('Vendor Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/vendors', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/vendors');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/vendors', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/vendors')
+        .send({ name: 'Acme Supply', payment_terms_days: 30 });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/vendors/match-names', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/vendors/match-names')
+        .send({ create_missing: true, dry_run: true });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/vendors/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/vendors/550e8400-e29b-41d4-a716-446655440000');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('PATCH /api/vendors/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .patch('/api/vendors/550e8400-e29b-41d4-a716-446655440000')
+        .send({ is_active: false });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('DELETE /api/vendors/:id', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).delete(
+        '/api/vendors/550e8400-e29b-41d4-a716-446655440000'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('GET /api/reports/vendor-spend', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get('/api/reports/vendor-spend?period=quarter');
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('normalizeVendorName', () => {
+  it('should ignore case, punctuation and extra spaces', () => {
+    expect(normalizeVendorName('  ACME   Supply ')).toBe('acme supply');
+    expect(normalizeVendorName('Smith & Sons')).toBe(normalizeVendorName('smith and sons'));
+  });
+
+  it('should drop trailing legal suffixes', () => {
+    expect(normalizeVendorName('Acme Supply, Inc.')).toBe('acme supply');
+    expect(normalizeVendorName('Acme Supply Co. LLC')).toBe('acme supply');
+  });
+
+  it('should keep a name that is only a suffix', () => {
+    expect(normalizeVendorName('Company')).toBe('company');
+  });
+});
+
+describe('getSpendPeriod', () => {
+  it('should key weeks by their Monday', () => {
+    expect(getSpendPeriod('2026-10-18', 'week')).toBe('2026-10-12');
+  });
+
+  it('should key months, quarters and years', () => {
+    expect(getSpendPeriod('2026-08-05', 'month')).toBe('2026-08');
+    expect(getSpendPeriod('2026-08-05', 'quarter')).toBe('2026-Q3');
+    expect(getSpendPeriod('2026-12-31', 'quarter')).toBe('2026-Q4');
+    expect(getSpendPeriod('2026-08-05', 'year')).toBe('2026');
+  });
+});
+
+describe('summarizeVendorSpend', () => {
+  const vendorId = '550e8400-e29b-41d4-a716-446655440000';
+  const rows: VendorSpendRow[] = [
+    {
+      vendor_id: vendorId,
+      vendor_name: 'Acme',
+      date: '2026-01-10',
+      source: 'PURCHASE_ORDER',
+      amount: 100,
+    },
+    {
+      vendor_id: vendorId,
+      vendor_name: 'Acme',
+      date: '2026-02-03',
+      source: 'RECEIPT',
+      amount: 25.5,
+    },
+    { vendor_id: null, vendor_name: 'Bolt Co.', date: '2026-01-20', source: 'RECEIPT', amount: 40 },
+    { vendor_id: null, vendor_name: 'bolt co', date: '2026-02-20', source: 'RECEIPT', amount: 10 },
+  ];
+
+  it('should total each source per period without adding them up', () => {
+    const summary = summarizeVendorSpend(rows, 'month');
+
+    expect(summary.periods).toEqual([
+      { period: '2026-01', purchase_orders: 100, receipts: 40 },
+      { period: '2026-02', purchase_orders: 0, receipts: 35.5 },
+    ]);
+  });
+
+  it('should group unlinked rows by normalized name and sort vendors by spend', () => {
+    const summary = summarizeVendorSpend(rows, 'quarter');
+
+    expect(summary.vendors).toHaveLength(2);
+    expect(summary.vendors[0]).toMatchObject({
+      vendor_id: vendorId,
+      purchase_orders: 100,
+      receipts: 25.5,
+    });
+    expect(summary.vendors[1]).toMatchObject({
+      vendor_id: null,
+      vendor_name: 'Bolt Co.',
+      purchase_orders: 0,
+      receipts: 50,
+    });
+    expect(summary.vendors[1].periods).toEqual([
+      { period: '2026-Q1', purchase_orders: 0, receipts: 50 },
+    ]);
+  });
+});
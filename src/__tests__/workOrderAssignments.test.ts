@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { techWorkOrderFilter } from '../services/workOrderAssignments.js';
+import { createAssignmentSchema } from '../validations/workOrderAssignment.js';
+
+describe('Work Order Assignment Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/work-orders/:id/assignments', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/work-orders/550e8400-e29b-41d4-a716-446655440000/assignments'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/work-orders/:id/assignments', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/work-orders/550e8400-e29b-41d4-a716-446655440000/assignments')
+        .send({ employee_id: '550e8400-e29b-41d4-a716-446655440001', role: 'HELPER' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('PATCH /api/work-orders/:id/assignments/:assignmentId', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .patch(
+          '/api/work-orders/550e8400-e29b-41d4-a716-446655440000/assignments/550e8400-e29b-41d4-a716-446655440001'
+        )
+        .send({ role: 'LEAD' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('DELETE /api/work-orders/:id/assignments/:assignmentId', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).delete(
+        '/api/work-orders/550e8400-e29b-41d4-a716-446655440000/assignments/550e8400-e29b-41d4-a716-446655440001'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('techWorkOrderFilter', () => {
+  const techId = '550e8400-e29b-41d4-a716-446655440003';
+
+  it('should match assigned work orders and the listed IDs', () => {
+    expect(techWorkOrderFilter(techId, ['550e8400-e29b-41d4-a716-446655440000'])).toBe(
+      `assigned_to.eq.${techId},id.in.(550e8400-e29b-41d4-a716-446655440000)`
+    );
+  });
+
+  it('should fall back to assigned work orders without IDs', () => {
+    expect(techWorkOrderFilter(techId, [])).toBe(`assigned_to.eq.${techId}`);
+  });
+
+  it('should drop IDs that are not UUIDs', () => {
+    expect(techWorkOrderFilter(techId, ['x),status.eq.CLOSED'])).toBe(`assigned_to.eq.${techId}`);
+  });
+});
+
+describe('createAssignmentSchema', () => {
+  it('should default the role to HELPER', () => {
+    const result = createAssignmentSchema.parse({
+      employee_id: '550e8400-e29b-41d4-a716-446655440001',
+    });
+
+    expect(result.role).toBe('HELPER');
+  });
+
+  it('should reject unknown roles', () => {
+    const result = createAssignmentSchema.safeParse({
+      employee_id: '550e8400-e29b-41d4-a716-446655440001',
+      role: 'FOREMAN',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { completeWorkOrderSchema } from '../validations/app.js';
+
+describe('Work Order Completion Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/work-orders/:id/completion', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/work-orders/550e8400-e29b-41d4-a716-446655440000/completion'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('POST /api/work-orders/:id/completion/review', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/work-orders/550e8400-e29b-41d4-a716-446655440000/completion/review')
+        .send({ review_notes: 'Looks good' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('completeWorkOrderSchema', () => {
+  it('should default photos to an empty list', () => {
+    const result = completeWorkOrderSchema.parse({ resolution_notes: 'Replaced capacitor' });
+
+    expect(result.photo_file_ids).toEqual([]);
+  });
+
+  it('should require signer_name with a signature', () => {
+    const result = completeWorkOrderSchema.safeParse({
+      resolution_notes: 'Replaced capacitor',
+      signature_file_id: '550e8400-e29b-41d4-a716-446655440000',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should not accept a client-submitted checklist', () => {
+    const result = completeWorkOrderSchema.parse({
+      resolution_notes: 'Replaced capacitor',
+      checklist: [{ label: 'Check refrigerant pressure', required: false, done: false }],
+    });
+
+    expect(result).not.toHaveProperty('checklist');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { buildContractInvoiceLines } from '../services/invoices.js';
+import { seedFakeSupabase, testEmployee } from './helpers/fakeSupabase.js';
+
+vi.mock('@supabase/supabase-js', async (importOriginal) => {
+  const { fakeSupabase } = await import('./helpers/fakeSupabase.js');
+  return {
+    ...(await importOriginal<typeof import('@supabase/supabase-js')>()),
+    createClient: () => fakeSupabase,
+  };
+});
+
+describe('Work Order Invoice Routes', () => {
+  const app = createApp();
+
+  describe('POST /api/work-orders/:id/invoice', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .post('/api/work-orders/550e8400-e29b-41d4-a716-446655440000/invoice')
+        .send({ tax_rule_id: '550e8400-e29b-41d4-a716-446655440001' });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+
+    it('should point a work order with a quote deposit at the quote FULL invoice', async () => {
+      const workOrderId = '550e8400-e29b-41d4-a716-446655440000';
+      const taxRuleId = '550e8400-e29b-41d4-a716-446655440001';
+      const quoteId = '550e8400-e29b-41d4-a716-446655440002';
+      seedFakeSupabase(
+        {
+          work_orders: [{ id: workOrderId, status: 'COMPLETED', contract_total: 1000 }],
+          tax_rules: [{ id: taxRuleId, rate: 0 }],
+          invoices: [
+            {
+              id: 'invoice-1',
+              invoice_no: 'INV-0001',
+              work_order_id: workOrderId,
+              source_quote_id: quoteId,
+              status: 'PAID',
+            },
+          ],
+        },
+        testEmployee('OFFICE')
+      );
+
+      const response = await request(app)
+        .post(`/api/work-orders/${workOrderId}/invoice`)
+        .set('Authorization', 'Bearer test-token')
+        .send({ source: 'CONTRACT', tax_rule_id: taxRuleId });
+
+      expect(response.status).toBe(400);
+      const body = response.body as ResponseEnvelope;
+      expect(body.error).toHaveProperty('code', 'VALIDATION_ERROR');
+      expect(body.error).toHaveProperty('details.quote_id', quoteId);
+    });
+  });
+});
+
+describe('buildContractInvoiceLines', () => {
+  const lineTotal = (lines: ReturnType<typeof buildContractInvoiceLines>) =>
+    Math.round(lines.reduce((sum, line) => sum + line.qty * line.unit_price, 0) * 100) / 100;
+
+  it('should total contract_total with the accepted tax on a non-taxable line', () => {
+    const lines = buildContractInvoiceLines({
+      summary: 'Replace RTU',
+      work_order_no: 'WO-0001',
+      contract_subtotal: 1234.56,
+      contract_tax: 101.85,
+      contract_total: 1336.41,
+    });
+
+    expect(lines).toHaveLength(2);
+    expect(lines.every((line) => !line.is_taxable)).toBe(true);
+    expect(lineTotal(lines)).toBe(1336.41);
+  });
+
+  it('should bill a single line when the contract carries no tax', () => {
+    const lines = buildContractInvoiceLines({
+      summary: '',
+      work_order_no: 'WO-0002',
+      contract_subtotal: 500,
+      contract_tax: 0,
+      contract_total: 500,
+    });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].description).toBe('Work order WO-0002');
+    expect(lineTotal(lines)).toBe(500);
+  });
+});
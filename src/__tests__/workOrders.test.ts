@@ -2,6 +2,10 @@ import { describe, it, expect } from 'vitest';
 import request from 'supertest';
 import { createApp } from '../app.js';
 import type { ResponseEnvelope } from '../types/response.js';
+import {
+  canTransitionWorkOrder,
+  getStatusChangeFields,
+} from '../services/workOrderStatus.js';
 
 describe('Work Order Routes', () => {
   const app = createApp();
@@ -123,3 +127,55 @@ describe('Work Order Routes', () => {
   // Note: Tests with valid JWT tokens and database operations would be integration tests
   // requiring actual Supabase setup. These unit tests verify the authentication layer.
 });
+
+describe('canTransitionWorkOrder', () => {
+  it('should allow the normal job lifecycle', () => {
+    expect(canTransitionWorkOrder('UNSCHEDULED', 'SCHEDULED')).toBe(true);
+    expect(canTransitionWorkOrder('SCHEDULED', 'IN_PROGRESS')).toBe(true);
+    expect(canTransitionWorkOrder('IN_PROGRESS', 'COMPLETED')).toBe(true);
+    expect(canTransitionWorkOrder('COMPLETED', 'CLOSED')).toBe(true);
+  });
+
+  it('should allow reverting to UNSCHEDULED when the last slot is removed', () => {
+    expect(canTransitionWorkOrder('SCHEDULED', 'UNSCHEDULED')).toBe(true);
+  });
+
+  it('should reject illegal jumps', () => {
+    expect(canTransitionWorkOrder('CANCELED', 'IN_PROGRESS')).toBe(false);
+    expect(canTransitionWorkOrder('UNSCHEDULED', 'COMPLETED')).toBe(false);
+    expect(canTransitionWorkOrder('SCHEDULED', 'CLOSED')).toBe(false);
+  });
+
+  it('should treat CLOSED as final', () => {
+    expect(canTransitionWorkOrder('CLOSED', 'IN_PROGRESS')).toBe(false);
+    expect(canTransitionWorkOrder('CLOSED', 'CANCELED')).toBe(false);
+  });
+});
+
+describe('getStatusChangeFields', () => {
+  it('should stamp completed_at when completing', () => {
+    const fields = getStatusChangeFields({ completed_at: null, closed_at: null }, 'COMPLETED');
+
+    expect(fields.status).toBe('COMPLETED');
+    expect(fields.completed_at).toEqual(expect.any(String));
+  });
+
+  it('should keep an existing completed_at when closing', () => {
+    const fields = getStatusChangeFields(
+      { completed_at: '2024-01-01T10:00:00Z', closed_at: null },
+      'CLOSED'
+    );
+
+    expect(fields).not.toHaveProperty('completed_at');
+    expect(fields.closed_at).toEqual(expect.any(String));
+  });
+
+  it('should clear completed_at when a job is reopened', () => {
+    const fields = getStatusChangeFields(
+      { completed_at: '2024-01-01T10:00:00Z', closed_at: null },
+      'IN_PROGRESS'
+    );
+
+    expect(fields.completed_at).toBeNull();
+  });
+});
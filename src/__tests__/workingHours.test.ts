@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import type { ResponseEnvelope } from '../types/response.js';
+import { toZonedDate, zonedTimeToUtc } from '../services/workingCalendar.js';
+
+describe('Working Hours Routes', () => {
+  const app = createApp();
+
+  describe('GET /api/employees/:id/working-hours', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app).get(
+        '/api/employees/550e8400-e29b-41d4-a716-446655440000/working-hours'
+      );
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('PUT /api/employees/:id/working-hours', () => {
+    it('should return 401 without Authorization header', async () => {
+      const response = await request(app)
+        .put('/api/employees/550e8400-e29b-41d4-a716-446655440000/working-hours')
+        .send({ hours: [{ weekday: 1, start_time: '07:00', end_time: '15:30' }] });
+
+      expect(response.status).toBe(401);
+      const body = response.body as ResponseEnvelope;
+      expect(body.ok).toBe(false);
+      expect(body.data).toBeNull();
+      expect(body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('should convert wall-clock time in UTC unchanged', () => {
+    expect(zonedTimeToUtc('2024-03-04', '08:00', 'UTC').toISOString()).toBe(
+      '2024-03-04T08:00:00.000Z'
+    );
+  });
+
+  it('should apply standard and daylight offsets', () => {
+    expect(zonedTimeToUtc('2024-01-15', '08:00', 'America/Chicago').toISOString()).toBe(
+      '2024-01-15T14:00:00.000Z'
+    );
+    expect(zonedTimeToUtc('2024-07-15', '08:00', 'America/Chicago').toISOString()).toBe(
+      '2024-07-15T13:00:00.000Z'
+    );
+  });
+});
+
+describe('toZonedDate', () => {
+  it('should return the calendar date in the time zone', () => {
+    expect(toZonedDate(new Date('2024-07-15T03:00:00Z'), 'America/Chicago')).toBe('2024-07-14');
+  });
+});
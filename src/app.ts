@@ -12,26 +12,49 @@ import customersRouter from '@/routes/customers.js';
 import locationsRouter from '@/routes/locations.js';
 import projectsRouter from '@/routes/projects.js';
 import workOrdersRouter from '@/routes/workOrders.js';
+import workOrderInvoicesRouter from '@/routes/workOrderInvoices.js';
+import workOrderCompletionsRouter from '@/routes/workOrderCompletions.js';
+import workOrderAssignmentsRouter from '@/routes/workOrderAssignments.js';
+import checklistsRouter from '@/routes/checklists.js';
 import scheduleRouter from '@/routes/schedule.js';
+import workingHoursRouter from '@/routes/workingHours.js';
+import holidaysRouter from '@/routes/holidays.js';
+import timeOffRouter from '@/routes/timeOff.js';
 import timeEntriesRouter from '@/routes/timeEntries.js';
+import timesheetsRouter from '@/routes/timesheets.js';
 import quotesRouter from '@/routes/quotes.js';
 import quoteLinesRouter from '@/routes/quoteLines.js';
 import receiptsRouter from '@/routes/receipts.js';
 import receiptLinesRouter from '@/routes/receiptLines.js';
 import invoicesRouter from '@/routes/invoices.js';
 import invoiceLinesRouter from '@/routes/invoiceLines.js';
+import paymentsRouter from '@/routes/payments.js';
+import customerCreditsRouter from '@/routes/customerCredits.js';
+import creditMemosRouter from '@/routes/creditMemos.js';
+import scheduleOfValuesRouter from '@/routes/scheduleOfValues.js';
+import retainageRouter from '@/routes/retainage.js';
+import serviceAgreementsRouter from '@/routes/serviceAgreements.js';
 import partsRouter from '@/routes/parts.js';
 import inventoryLedgerRouter from '@/routes/inventoryLedger.js';
+import stockLocationsRouter from '@/routes/stockLocations.js';
+import inventoryTransfersRouter from '@/routes/inventoryTransfers.js';
 import changeOrdersRouter from '@/routes/changeOrders.js';
+import vendorsRouter from '@/routes/vendors.js';
+import purchaseOrderSuggestionsRouter from '@/routes/purchaseOrderSuggestions.js';
 import purchaseOrdersRouter from '@/routes/purchaseOrders.js';
 import purchaseOrderLinesRouter from '@/routes/purchaseOrderLines.js';
 import adminJobsRouter from '@/routes/admin/jobs.js';
 import jobCostingRouter from '@/routes/reports/jobCosting.js';
 import profitLossRouter from '@/routes/reports/profitLoss.js';
 import jobCostDetailRouter from '@/routes/reports/jobCostDetail.js';
+import checklistFailuresRouter from '@/routes/reports/checklistFailures.js';
+import inventoryReportsRouter from '@/routes/reports/inventory.js';
+import vendorSpendRouter from '@/routes/reports/vendorSpend.js';
 import dashboardRouter from '@/routes/dashboard.js';
 import reportsRouter from '@/routes/reports.js';
 import filesRouter from '@/routes/files.js';
+import documentPdfsRouter from '@/routes/documentPdfs.js';
+import documentEmailsRouter from '@/routes/documentEmails.js';
 import appRouter from '@/routes/app.js';
 import webhooksRouter from '@/routes/webhooks.js';
 import costTypesRouter from '@/routes/costTypes.js';
@@ -92,17 +115,35 @@ export function createApp(): Express {
   app.use(locationsRouter);
   app.use(projectsRouter);
   app.use(workOrdersRouter);
+  app.use(workOrderInvoicesRouter);
+  app.use(workOrderCompletionsRouter);
+  app.use(workOrderAssignmentsRouter);
+  app.use(checklistsRouter);
   app.use(scheduleRouter);
+  app.use(workingHoursRouter);
+  app.use(holidaysRouter);
+  app.use(timeOffRouter);
   app.use(timeEntriesRouter);
+  app.use(timesheetsRouter);
   app.use(quotesRouter);
   app.use(quoteLinesRouter);
   app.use(receiptsRouter);
   app.use(receiptLinesRouter);
   app.use(invoicesRouter);
   app.use(invoiceLinesRouter);
+  app.use(paymentsRouter);
+  app.use(customerCreditsRouter);
+  app.use(creditMemosRouter);
+  app.use(scheduleOfValuesRouter);
+  app.use(retainageRouter);
+  app.use(serviceAgreementsRouter);
   app.use(partsRouter);
   app.use(inventoryLedgerRouter);
+  app.use(stockLocationsRouter);
+  app.use(inventoryTransfersRouter);
   app.use(changeOrdersRouter);
+  app.use(vendorsRouter);
+  app.use(purchaseOrderSuggestionsRouter); // Before /api/purchase-orders/:id
   app.use(purchaseOrdersRouter);
   app.use(purchaseOrderLinesRouter);
   app.use(adminJobsRouter);
@@ -111,7 +152,12 @@ export function createApp(): Express {
   app.use(jobCostingRouter);
   app.use(profitLossRouter);
   app.use(jobCostDetailRouter);
+  app.use(checklistFailuresRouter);
+  app.use(inventoryReportsRouter);
+  app.use(vendorSpendRouter);
   app.use(filesRouter);
+  app.use(documentPdfsRouter);
+  app.use(documentEmailsRouter);
   app.use(appRouter);
   app.use(webhooksRouter);
   app.use(quickbooksRouter);
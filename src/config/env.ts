@@ -27,6 +27,15 @@ const envSchema = z.object({
   AWS_ACCESS_KEY_ID: z.string().optional(),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
   AWS_S3_BUCKET: z.string().optional(),
+  // Outbound email configuration
+  EMAIL_PROVIDER: z.enum(['outbox', 'smtp']).default('outbox'),
+  EMAIL_OUTBOX_PATH: z.string().default('outbox'),
+  EMAIL_FROM: z.string().default('no-reply@localhost'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().default('587').transform(Number),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
 });
 
 export type Env = z.infer<typeof envSchema>;
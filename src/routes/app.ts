@@ -6,10 +6,41 @@ import {
 import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
-import { clockInSchema, clockOutSchema } from '@/validations/app.js';
-import { WorkOrder, WorkOrderTimeEntry } from '@/types/database.js';
+import {
+  clockInSchema,
+  clockOutSchema,
+  completeWorkOrderSchema,
+  recordPartUsageSchema,
+  voidPartUsageSchema,
+} from '@/validations/app.js';
+import { recordChecklistItemSchema } from '@/validations/checklist.js';
+import {
+  File,
+  WorkOrder,
+  WorkOrderChecklistItem,
+  WorkOrderCompletion,
+  WorkOrderPartUsage,
+  WorkOrderTimeEntry,
+} from '@/types/database.js';
 import { ZodError } from 'zod';
 import { enqueueJob } from '@/services/jobQueue.js';
+import {
+  canTransitionWorkOrder,
+  invalidTransitionError,
+  transitionWorkOrderStatus,
+} from '@/services/workOrderStatus.js';
+import {
+  getChecklistItemUpdate,
+  getIncompleteRequiredItems,
+  getWorkOrderChecklists,
+} from '@/services/checklists.js';
+import { recordPartUsage, voidPartUsage } from '@/services/partUsage.js';
+import {
+  getTechWorkOrderIds,
+  techHasAccessToWorkOrder,
+  techWorkOrderFilter,
+} from '@/services/workOrderAssignments.js';
+import { findLockingTimesheet, timesheetLockedError } from '@/services/timesheets.js';
 
 const router = Router();
 
@@ -86,7 +117,7 @@ router.get(
 
 /**
  * GET /api/app/my-work-orders
- * Get current tech's assigned/scheduled work orders
+ * Get work orders the current tech leads, crews or is scheduled for
  * TECH role only
  */
 router.get(
@@ -102,23 +133,17 @@ router.get(
       const status = typeof req.query.status === 'string' ? req.query.status : undefined;
       const date = typeof req.query.date === 'string' ? req.query.date : undefined;
 
-      // Get work order IDs from schedule where tech is assigned
-      let scheduleQuery = supabase
-        .from('work_order_schedule')
-        .select('work_order_id')
-        .eq('tech_user_id', techUserId);
-
+      // Crew work orders plus the ones scheduled for the tech (on the date, if given)
+      let scheduleRange: { start_at: string; end_at: string } | undefined;
       if (date) {
         const startOfDay = new Date(date);
         startOfDay.setHours(0, 0, 0, 0);
         const endOfDay = new Date(date);
         endOfDay.setHours(23, 59, 59, 999);
-        scheduleQuery = scheduleQuery.gte('start_at', startOfDay.toISOString()).lte('end_at', endOfDay.toISOString());
+        scheduleRange = { start_at: startOfDay.toISOString(), end_at: endOfDay.toISOString() };
       }
 
-      const { data: scheduleData } = await scheduleQuery;
-
-      const scheduledWorkOrderIds = scheduleData?.map((s) => s.work_order_id as string) || [];
+      const techWorkOrderIds = await getTechWorkOrderIds(supabase, techUserId, scheduleRange);
 
       // Build work orders query
       let query = supabase
@@ -129,20 +154,8 @@ router.get(
           location:locations(id, label, street, city, state, zip)
         `);
 
-      // Filter: assigned_to = self OR id in scheduledWorkOrderIds
-      if (scheduledWorkOrderIds.length > 0) {
-        const safeIds = scheduledWorkOrderIds
-          .filter((id) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id))
-          .join(',');
-        
-        if (safeIds) {
-          query = query.or(`assigned_to.eq.${techUserId},id.in.(${safeIds})`);
-        } else {
-          query = query.eq('assigned_to', techUserId);
-        }
-      } else {
-        query = query.eq('assigned_to', techUserId);
-      }
+      // Filter: assigned_to = self OR id in techWorkOrderIds
+      query = query.or(techWorkOrderFilter(techUserId, techWorkOrderIds));
 
       // Apply status filter
       if (status) {
@@ -175,8 +188,8 @@ router.get(
 
 /**
  * GET /api/app/work-order/:id
- * Get work order details with customer and location info
- * TECH role: can only see work orders assigned to them or scheduled for them
+ * Get work order details with customer and location info and its checklists
+ * TECH role: can only see work orders they are on the crew of or scheduled for
  */
 router.get(
   '/api/app/work-order/:id',
@@ -217,19 +230,14 @@ router.get(
       }
 
       // Check if tech has access to this work order
-      const isAssigned = data.assigned_to === techUserId;
-
-      // Check if scheduled for them
-      const { data: scheduleData } = await supabase
-        .from('work_order_schedule')
-        .select('id')
-        .eq('work_order_id', id)
-        .eq('tech_user_id', techUserId)
-        .limit(1);
-
-      const isScheduled = scheduleData && scheduleData.length > 0;
-
-      if (!isAssigned && !isScheduled) {
+      const hasAccess = await techHasAccessToWorkOrder(
+        supabase,
+        id,
+        techUserId,
+        data.assigned_to
+      );
+
+      if (!hasAccess) {
         res
           .status(403)
           .json(
@@ -241,7 +249,18 @@ router.get(
         return;
       }
 
-      res.json(successResponse(data));
+      const { data: checklists, error: checklistError } =
+        await getWorkOrderChecklists(supabase, id);
+
+      if (checklistError) {
+        const apiError = translateDbError(checklistError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      res.json(successResponse({ ...data, checklists: checklists ?? [] }));
     } catch (error) {
       console.error('Error fetching work order:', error);
       res
@@ -256,7 +275,9 @@ router.get(
 /**
  * POST /api/app/clock-in
  * Clock in to a work order
- * Creates a time entry with clock_in_at = now()
+ * Creates a time entry with clock_in_at = now() and moves the work order to IN_PROGRESS
+ * Not allowed on CLOSED or CANCELED work orders (400) or in a week whose timesheet is
+ * already approved (409 TIMESHEET_LOCKED)
  */
 router.post(
   '/api/app/clock-in',
@@ -272,9 +293,9 @@ router.post(
       // Verify work order exists
       const { data: workOrder, error: workOrderError } = await supabase
         .from('work_orders')
-        .select('id, assigned_to')
+        .select('id, assigned_to, status')
         .eq('id', validatedData.work_order_id)
-        .single<Pick<WorkOrder, 'id' | 'assigned_to'>>();
+        .single<Pick<WorkOrder, 'id' | 'assigned_to' | 'status'>>();
 
       if (workOrderError) {
         if (workOrderError.code === 'PGRST116') {
@@ -291,18 +312,14 @@ router.post(
       }
 
       // Verify tech has access to this work order
-      const isAssigned = workOrder.assigned_to === techUserId;
-
-      const { data: scheduleData } = await supabase
-        .from('work_order_schedule')
-        .select('id')
-        .eq('work_order_id', validatedData.work_order_id)
-        .eq('tech_user_id', techUserId)
-        .limit(1);
-
-      const isScheduled = scheduleData && scheduleData.length > 0;
-
-      if (!isAssigned && !isScheduled) {
+      const hasAccess = await techHasAccessToWorkOrder(
+        supabase,
+        validatedData.work_order_id,
+        techUserId,
+        workOrder.assigned_to
+      );
+
+      if (!hasAccess) {
         res
           .status(403)
           .json(
@@ -314,6 +331,22 @@ router.post(
         return;
       }
 
+      // Clocking in starts work, so the work order must be able to go IN_PROGRESS
+      if (
+        workOrder.status !== 'IN_PROGRESS' &&
+        !canTransitionWorkOrder(workOrder.status, 'IN_PROGRESS')
+      ) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              `Cannot clock in to a ${workOrder.status} work order`
+            )
+          );
+        return;
+      }
+
       // Check for existing open time entry
       const { data: existingEntry } = await supabase
         .from('work_order_time_entries')
@@ -335,13 +368,34 @@ router.post(
         return;
       }
 
+      // No clocking in to a week whose timesheet is already approved
+      const clockInAt = new Date().toISOString();
+      const { data: lockingTimesheet, error: lockError } =
+        await findLockingTimesheet(supabase, techUserId, clockInAt);
+
+      if (lockError) {
+        const apiError = translateDbError(lockError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (lockingTimesheet) {
+        const apiError = timesheetLockedError(lockingTimesheet);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
       // Create time entry
       const { data, error } = await supabase
         .from('work_order_time_entries')
         .insert({
           work_order_id: validatedData.work_order_id,
           tech_user_id: techUserId,
-          clock_in_at: new Date().toISOString(),
+          clock_in_at: clockInAt,
           break_minutes: 0,
         })
         .select()
@@ -355,6 +409,22 @@ router.post(
         return;
       }
 
+      // The first clock-in starts the job
+      if (workOrder.status !== 'IN_PROGRESS') {
+        const { error: statusError } = await transitionWorkOrderStatus(
+          supabase,
+          workOrder.id,
+          'IN_PROGRESS',
+          techUserId,
+          'Technician clocked in'
+        );
+
+        if (statusError) {
+          console.error('Error updating work order status:', statusError);
+          // Don't fail the request, the time entry is already saved
+        }
+      }
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -373,6 +443,676 @@ router.post(
   }
 );
 
+/**
+ * POST /api/app/work-order/:id/complete
+ * Close out a job: records resolution notes, photos and the customer signature,
+ * then moves the work order to COMPLETED (sets completed_at)
+ * Photos and the signature must be files uploaded against this work order.
+ * Every required item on the work order's checklists must be answered, and the
+ * tech must have clocked out.
+ * TECH role: can only complete work orders they are on the crew of or scheduled for
+ */
+router.post(
+  '/api/app/work-order/:id/complete',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = completeWorkOrderSchema.parse(req.body);
+      const supabase = createServerClient();
+      const techUserId = req.employee!.id;
+
+      // Verify work order exists
+      const { data: workOrder, error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id, assigned_to, status')
+        .eq('id', id)
+        .single<Pick<WorkOrder, 'id' | 'assigned_to' | 'status'>>();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Verify tech has access to this work order
+      const hasAccess = await techHasAccessToWorkOrder(
+        supabase,
+        id,
+        techUserId,
+        workOrder.assigned_to
+      );
+
+      if (!hasAccess) {
+        res
+          .status(403)
+          .json(
+            errorResponse(
+              'FORBIDDEN',
+              'You do not have access to this work order'
+            )
+          );
+        return;
+      }
+
+      // Open time would never be costed against a completed job
+      const { data: openEntry } = await supabase
+        .from('work_order_time_entries')
+        .select('id')
+        .eq('work_order_id', id)
+        .eq('tech_user_id', techUserId)
+        .is('clock_out_at', null)
+        .limit(1);
+
+      if (openEntry && openEntry.length > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Clock out of this work order before completing it'
+            )
+          );
+        return;
+      }
+
+      if (!canTransitionWorkOrder(workOrder.status, 'COMPLETED')) {
+        const apiError = invalidTransitionError(workOrder.status, 'COMPLETED');
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Required items on attached checklists must be answered
+      const { data: incomplete, error: checklistError } =
+        await getIncompleteRequiredItems(supabase, id);
+
+      if (checklistError) {
+        const apiError = translateDbError(checklistError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (incomplete && incomplete.length > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Required checklist items are not done',
+              { incomplete }
+            )
+          );
+        return;
+      }
+
+      // Photos and signature must already be stored against this work order
+      const fileIds = [
+        ...validatedData.photo_file_ids,
+        ...(validatedData.signature_file_id ? [validatedData.signature_file_id] : []),
+      ];
+
+      if (fileIds.length > 0) {
+        const { data: files, error: filesError } = await supabase
+          .from('files')
+          .select('id')
+          .in('id', fileIds)
+          .eq('entity_type', 'work_order')
+          .eq('entity_id', id)
+          .returns<Pick<File, 'id'>[]>();
+
+        if (filesError) {
+          const apiError = translateDbError(filesError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        const found = new Set((files || []).map((file) => file.id));
+        const missing = fileIds.filter((fileId) => !found.has(fileId));
+
+        if (missing.length > 0) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'Files must be uploaded to this work order first',
+                { missing }
+              )
+            );
+          return;
+        }
+      }
+
+      // Record the sign-off
+      const { data: completion, error: completionError } = await supabase
+        .from('work_order_completions')
+        .insert({
+          work_order_id: id,
+          completed_by: techUserId,
+          completed_at: new Date().toISOString(),
+          resolution_notes: validatedData.resolution_notes,
+          photo_file_ids: validatedData.photo_file_ids,
+          signature_file_id: validatedData.signature_file_id ?? null,
+          signer_name: validatedData.signer_name ?? null,
+        })
+        .select()
+        .single<WorkOrderCompletion>();
+
+      if (completionError) {
+        const apiError = translateDbError(completionError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const { data, error } = await transitionWorkOrderStatus(
+        supabase,
+        id,
+        'COMPLETED',
+        techUserId,
+        'Technician completed the job'
+      );
+
+      if (error) {
+        // Roll back the sign-off so the job can be completed again
+        await supabase.from('work_order_completions').delete().eq('id', completion.id);
+
+        res
+          .status(error.statusCode)
+          .json(errorResponse(error.code, error.message, error.details));
+        return;
+      }
+
+      res.json(successResponse({ ...data, completion }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error completing work order:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to complete work order')
+        );
+    }
+  }
+);
+
+/**
+ * PATCH /api/app/work-order/:id/checklist-items/:itemId
+ * Record a checklist answer: result (PASS/FAIL/NA), numeric_value and/or text_value
+ * NUMERIC readings without an explicit result are graded against the item's range.
+ * TECH role: can only fill in work orders they are on the crew of or scheduled for
+ */
+router.patch(
+  '/api/app/work-order/:id/checklist-items/:itemId',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, itemId } = req.params;
+      const validatedData = recordChecklistItemSchema.parse(req.body);
+      const supabase = createServerClient();
+      const techUserId = req.employee!.id;
+
+      // Verify work order exists
+      const { data: workOrder, error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id, assigned_to, status')
+        .eq('id', id)
+        .single<Pick<WorkOrder, 'id' | 'assigned_to' | 'status'>>();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Verify tech has access to this work order
+      const hasAccess = await techHasAccessToWorkOrder(
+        supabase,
+        id,
+        techUserId,
+        workOrder.assigned_to
+      );
+
+      if (!hasAccess) {
+        res
+          .status(403)
+          .json(
+            errorResponse(
+              'FORBIDDEN',
+              'You do not have access to this work order'
+            )
+          );
+        return;
+      }
+
+      if (['CLOSED', 'CANCELED'].includes(workOrder.status)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              `Cannot update checklists on a ${workOrder.status} work order`
+            )
+          );
+        return;
+      }
+
+      const { data: item, error: itemError } = await supabase
+        .from('work_order_checklist_items')
+        .select('*')
+        .eq('id', itemId)
+        .eq('work_order_id', id)
+        .single<WorkOrderChecklistItem>();
+
+      if (itemError) {
+        if (itemError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Checklist item not found'));
+          return;
+        }
+        const apiError = translateDbError(itemError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('work_order_checklist_items')
+        .update(getChecklistItemUpdate(item, validatedData, techUserId))
+        .eq('id', itemId)
+        .select()
+        .single<WorkOrderChecklistItem>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error updating checklist item:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update checklist item')
+        );
+    }
+  }
+);
+
+/**
+ * GET /api/app/work-order/:id/parts
+ * Parts used on a work order, newest first (voided lines included)
+ * TECH role: can only see work orders they are on the crew of or scheduled for
+ */
+router.get(
+  '/api/app/work-order/:id/parts',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+      const techUserId = req.employee!.id;
+
+      // Verify work order exists
+      const { data: workOrder, error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id, assigned_to, status, project_id')
+        .eq('id', id)
+        .single<
+          Pick<WorkOrder, 'id' | 'assigned_to' | 'status' | 'project_id'>
+        >();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Verify tech has access to this work order
+      const hasAccess = await techHasAccessToWorkOrder(
+        supabase,
+        id,
+        techUserId,
+        workOrder.assigned_to
+      );
+
+      if (!hasAccess) {
+        res
+          .status(403)
+          .json(
+            errorResponse(
+              'FORBIDDEN',
+              'You do not have access to this work order'
+            )
+          );
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('work_order_part_usages')
+        .select('*, part:parts(id, sku, name, uom)')
+        .eq('work_order_id', id)
+        .order('used_at', { ascending: false })
+        .returns<(WorkOrderPartUsage & { part: unknown })[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error fetching work order parts:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch work order parts')
+        );
+    }
+  }
+);
+
+/**
+ * POST /api/app/work-order/:id/parts
+ * Record a part used on the job: writes a USAGE inventory ledger entry, decrements
+ * stock on the tech's truck (or stock_location_id) and posts a job cost entry at the
+ * part's avg_cost
+ * Not allowed on CLOSED or CANCELED work orders (400)
+ * TECH role: can only record on work orders they are on the crew of or scheduled for
+ */
+router.post(
+  '/api/app/work-order/:id/parts',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = recordPartUsageSchema.parse(req.body);
+      const supabase = createServerClient();
+      const techUserId = req.employee!.id;
+
+      // Verify work order exists
+      const { data: workOrder, error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id, assigned_to, status, project_id')
+        .eq('id', id)
+        .single<
+          Pick<WorkOrder, 'id' | 'assigned_to' | 'status' | 'project_id'>
+        >();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Verify tech has access to this work order
+      const hasAccess = await techHasAccessToWorkOrder(
+        supabase,
+        id,
+        techUserId,
+        workOrder.assigned_to
+      );
+
+      if (!hasAccess) {
+        res
+          .status(403)
+          .json(
+            errorResponse(
+              'FORBIDDEN',
+              'You do not have access to this work order'
+            )
+          );
+        return;
+      }
+
+      if (['CLOSED', 'CANCELED'].includes(workOrder.status)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              `Cannot record parts on a ${workOrder.status} work order`
+            )
+          );
+        return;
+      }
+
+      const { data, error } = await recordPartUsage(
+        supabase,
+        workOrder,
+        validatedData,
+        techUserId
+      );
+
+      if (error) {
+        res
+          .status(error.statusCode)
+          .json(errorResponse(error.code, error.message, error.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error recording part usage:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to record part usage')
+        );
+    }
+  }
+);
+
+/**
+ * POST /api/app/work-order/:id/parts/:usageId/void
+ * Void a part usage line: writes a RETURN inventory ledger entry, restores the
+ * stock where it was taken from and reverses the job cost
+ * Not allowed on CLOSED or CANCELED work orders (400)
+ * TECH role: only lines they recorded, on work orders they have access to
+ * OFFICE/ADMIN: any line
+ */
+router.post(
+  '/api/app/work-order/:id/parts/:usageId/void',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, usageId } = req.params;
+      const validatedData = voidPartUsageSchema.parse(req.body ?? {});
+      const supabase = createServerClient();
+      const techUserId = req.employee!.id;
+
+      // Verify work order exists
+      const { data: workOrder, error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id, assigned_to, status, project_id')
+        .eq('id', id)
+        .single<
+          Pick<WorkOrder, 'id' | 'assigned_to' | 'status' | 'project_id'>
+        >();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Verify tech has access to this work order; the office can correct any line
+      if (req.employee!.role === 'TECH') {
+        const hasAccess = await techHasAccessToWorkOrder(
+          supabase,
+          id,
+          techUserId,
+          workOrder.assigned_to
+        );
+
+        if (!hasAccess) {
+          res
+            .status(403)
+            .json(
+              errorResponse(
+                'FORBIDDEN',
+                'You do not have access to this work order'
+              )
+            );
+          return;
+        }
+      }
+
+      if (['CLOSED', 'CANCELED'].includes(workOrder.status)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              `Cannot void parts on a ${workOrder.status} work order`
+            )
+          );
+        return;
+      }
+
+      const { data: usage, error: usageError } = await supabase
+        .from('work_order_part_usages')
+        .select('*')
+        .eq('id', usageId)
+        .eq('work_order_id', id)
+        .single<WorkOrderPartUsage>();
+
+      if (usageError) {
+        if (usageError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Part usage not found'));
+          return;
+        }
+        const apiError = translateDbError(usageError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (req.employee!.role === 'TECH' && usage.used_by !== techUserId) {
+        res
+          .status(403)
+          .json(
+            errorResponse(
+              'FORBIDDEN',
+              'You can only void parts you recorded'
+            )
+          );
+        return;
+      }
+
+      const { data, error } = await voidPartUsage(
+        supabase,
+        usage,
+        techUserId,
+        validatedData.reason
+      );
+
+      if (error) {
+        res
+          .status(error.statusCode)
+          .json(errorResponse(error.code, error.message, error.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error voiding part usage:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to void part usage')
+        );
+    }
+  }
+);
+
 /**
  * POST /api/app/clock-out
  * Clock out of a work order
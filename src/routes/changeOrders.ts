@@ -13,6 +13,7 @@ import { ChangeOrder } from '@/types/database.js';
 import { createAuditLog } from '@/services/auditLog.js';
 import { ZodError } from 'zod';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
 
 const router = Router();
 
@@ -173,6 +174,9 @@ router.post(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'change_order', data.id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -306,6 +310,9 @@ router.patch(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'change_order', id);
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -449,6 +456,9 @@ router.post(
         // Don't fail the request if audit log fails
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'change_order', id);
+
       res.json(successResponse(updatedCO));
     } catch (error) {
       console.error('Error approving change order:', error);
@@ -564,6 +574,9 @@ router.post(
         // Don't fail the request if audit log fails
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'change_order', id);
+
       res.json(successResponse(updatedCO));
     } catch (error) {
       if (error instanceof ZodError) {
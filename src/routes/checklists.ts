@@ -0,0 +1,530 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  ChecklistTemplateItemInput,
+  attachChecklistSchema,
+  createChecklistTemplateSchema,
+  updateChecklistTemplateSchema,
+} from '@/validations/checklist.js';
+import { ChecklistTemplate, ChecklistTemplateItem, WorkOrderChecklist } from '@/types/database.js';
+import { attachChecklistTemplate, getWorkOrderChecklists } from '@/services/checklists.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * Template item rows in the order given, numbered from 1
+ */
+function toTemplateItemRows(
+  templateId: string,
+  items: ChecklistTemplateItemInput[]
+): Omit<ChecklistTemplateItem, 'id' | 'created_at'>[] {
+  return items.map((item, index) => ({
+    template_id: templateId,
+    sort_order: index + 1,
+    label: item.label,
+    item_type: item.item_type,
+    required: item.required,
+    unit: item.unit ?? null,
+    min_value: item.min_value ?? null,
+    max_value: item.max_value ?? null,
+  }));
+}
+
+/**
+ * GET /api/checklist-templates
+ * List checklist templates by name
+ * Query: work_type, is_active (true|false)
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/checklist-templates',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+
+      let query = supabase
+        .from('checklist_templates')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (typeof req.query.work_type === 'string') {
+        query = query.eq('work_type', req.query.work_type);
+      }
+      if (req.query.is_active === 'true' || req.query.is_active === 'false') {
+        query = query.eq('is_active', req.query.is_active === 'true');
+      }
+
+      const { data, error } = await query.returns<ChecklistTemplate[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error listing checklist templates:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list checklist templates'));
+    }
+  }
+);
+
+/**
+ * GET /api/checklist-templates/:id
+ * Get a checklist template with its items
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/checklist-templates/:id',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data: template, error } = await supabase
+        .from('checklist_templates')
+        .select('*')
+        .eq('id', id)
+        .single<ChecklistTemplate>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Checklist template not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: items, error: itemsError } = await supabase
+        .from('checklist_template_items')
+        .select('*')
+        .eq('template_id', id)
+        .order('sort_order', { ascending: true })
+        .returns<ChecklistTemplateItem[]>();
+
+      if (itemsError) {
+        const apiError = translateDbError(itemsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse({ ...template, items: items || [] }));
+    } catch (error) {
+      console.error('Error fetching checklist template:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch checklist template'));
+    }
+  }
+);
+
+/**
+ * POST /api/checklist-templates
+ * Create a checklist template with its items
+ * Templates with a work_type attach automatically to new work orders of that type.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/checklist-templates',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { items, ...templateData } = createChecklistTemplateSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { data: template, error } = await supabase
+        .from('checklist_templates')
+        .insert({ ...templateData, created_by: req.employee!.id })
+        .select()
+        .single<ChecklistTemplate>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: itemRows, error: itemsError } = await supabase
+        .from('checklist_template_items')
+        .insert(toTemplateItemRows(template.id, items))
+        .select()
+        .order('sort_order', { ascending: true })
+        .returns<ChecklistTemplateItem[]>();
+
+      if (itemsError) {
+        // Don't leave a template without items behind
+        await supabase.from('checklist_templates').delete().eq('id', template.id);
+
+        const apiError = translateDbError(itemsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse({ ...template, items: itemRows || [] }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error creating checklist template:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to create checklist template'));
+    }
+  }
+);
+
+/**
+ * PATCH /api/checklist-templates/:id
+ * Update a checklist template; items, when given, replace the existing items
+ * Checklists already attached to work orders are copies and don't change.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.patch(
+  '/api/checklist-templates/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { items, ...templateData } = updateChecklistTemplateSchema.parse(req.body);
+
+      if (Object.keys(templateData).length === 0 && !items) {
+        res
+          .status(400)
+          .json(
+            errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+          );
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      const { data: template, error } =
+        Object.keys(templateData).length > 0
+          ? await supabase
+              .from('checklist_templates')
+              .update(templateData)
+              .eq('id', id)
+              .select()
+              .single<ChecklistTemplate>()
+          : await supabase
+              .from('checklist_templates')
+              .select('*')
+              .eq('id', id)
+              .single<ChecklistTemplate>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Checklist template not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (items) {
+        const { error: deleteError } = await supabase
+          .from('checklist_template_items')
+          .delete()
+          .eq('template_id', id);
+
+        if (deleteError) {
+          const apiError = translateDbError(deleteError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        const { error: insertError } = await supabase
+          .from('checklist_template_items')
+          .insert(toTemplateItemRows(id, items));
+
+        if (insertError) {
+          const apiError = translateDbError(insertError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+      }
+
+      const { data: itemRows, error: itemsError } = await supabase
+        .from('checklist_template_items')
+        .select('*')
+        .eq('template_id', id)
+        .order('sort_order', { ascending: true })
+        .returns<ChecklistTemplateItem[]>();
+
+      if (itemsError) {
+        const apiError = translateDbError(itemsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse({ ...template, items: itemRows || [] }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating checklist template:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update checklist template'));
+    }
+  }
+);
+
+/**
+ * DELETE /api/checklist-templates/:id
+ * Delete a checklist template (attached work order checklists are kept)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.delete(
+  '/api/checklist-templates/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('checklist_templates')
+        .delete()
+        .eq('id', id)
+        .select()
+        .single<ChecklistTemplate>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Checklist template not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      console.error('Error deleting checklist template:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to delete checklist template'));
+    }
+  }
+);
+
+/**
+ * GET /api/work-orders/:id/checklists
+ * Checklists attached to a work order with their items and answers
+ * TECH role: not allowed (403), techs use GET /api/app/work-order/:id
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/work-orders/:id/checklists',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await getWorkOrderChecklists(supabase, id);
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error fetching work order checklists:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch work order checklists'));
+    }
+  }
+);
+
+/**
+ * POST /api/work-orders/:id/checklists
+ * Attach a checklist template to a work order
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/work-orders/:id/checklists',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = attachChecklistSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Verify work order exists
+      const { error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id')
+        .eq('id', id)
+        .single();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: template, error: templateError } = await supabase
+        .from('checklist_templates')
+        .select('id, name')
+        .eq('id', validatedData.template_id)
+        .single<Pick<ChecklistTemplate, 'id' | 'name'>>();
+
+      if (templateError) {
+        if (templateError.code === 'PGRST116') {
+          res
+            .status(400)
+            .json(errorResponse('VALIDATION_ERROR', 'Checklist template does not exist'));
+          return;
+        }
+        const apiError = translateDbError(templateError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data, error } = await attachChecklistTemplate(
+        supabase,
+        id,
+        template,
+        req.employee!.id
+      );
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error attaching checklist:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to attach checklist'));
+    }
+  }
+);
+
+/**
+ * DELETE /api/work-orders/:id/checklists/:checklistId
+ * Remove a checklist (and its answers) from a work order
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.delete(
+  '/api/work-orders/:id/checklists/:checklistId',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, checklistId } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('work_order_checklists')
+        .delete()
+        .eq('id', checklistId)
+        .eq('work_order_id', id)
+        .select()
+        .single<WorkOrderChecklist>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Checklist not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      console.error('Error removing checklist:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to remove checklist'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, parsePagination, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { CreditMemo, CreditMemoLine } from '@/types/database.js';
+
+const router = Router();
+
+/**
+ * GET /api/credit-memos
+ * List credit memos with pagination and filters
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: full access (allowed)
+ */
+router.get(
+  '/api/credit-memos',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+
+      // Parse pagination params
+      const pagination = parsePagination(req.query);
+
+      // Parse filter params
+      const invoiceId = typeof req.query.invoice_id === 'string' ? req.query.invoice_id.trim() : '';
+      const projectId = typeof req.query.project_id === 'string' ? req.query.project_id.trim() : '';
+      const workOrderId =
+        typeof req.query.work_order_id === 'string' ? req.query.work_order_id.trim() : '';
+
+      // Build query
+      let query = supabase.from('credit_memos').select('*', { count: 'exact' });
+
+      if (invoiceId) {
+        query = query.eq('invoice_id', invoiceId);
+      }
+
+      if (projectId) {
+        query = query.eq('project_id', projectId);
+      }
+
+      if (workOrderId) {
+        query = query.eq('work_order_id', workOrderId);
+      }
+
+      // Apply sort (default: newest first)
+      query = query.order('created_at', { ascending: false });
+
+      // Apply pagination
+      query = query.range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse(data ?? [], {
+          pagination: {
+            limit: pagination.limit,
+            offset: pagination.offset,
+            total: count ?? 0,
+          },
+        })
+      );
+    } catch (error) {
+      console.error('Error listing credit memos:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list credit memos'));
+    }
+  }
+);
+
+/**
+ * GET /api/credit-memos/:id
+ * Get a single credit memo by ID with lines
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: full access (allowed)
+ */
+router.get(
+  '/api/credit-memos/:id',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Get credit memo
+      const { data: memoData, error: memoError } = await supabase
+        .from('credit_memos')
+        .select('*')
+        .eq('id', id)
+        .single<CreditMemo>();
+
+      if (memoError) {
+        if (memoError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Credit memo not found'));
+          return;
+        }
+        const apiError = translateDbError(memoError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Get credit memo lines
+      const { data: lines, error: linesError } = await supabase
+        .from('credit_memo_lines')
+        .select('*')
+        .eq('credit_memo_id', id)
+        .order('line_no', { ascending: true })
+        .returns<CreditMemoLine[]>();
+
+      if (linesError) {
+        const apiError = translateDbError(linesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse({ ...memoData, lines: lines || [] }));
+    } catch (error) {
+      console.error('Error fetching credit memo:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch credit memo'));
+    }
+  }
+);
+
+export default router;
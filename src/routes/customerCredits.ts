@@ -0,0 +1,521 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { applyCreditSchema } from '@/validations/customerCredit.js';
+import { CustomerCredit, CustomerCreditApplication, Invoice } from '@/types/database.js';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/services/auditLog.js';
+import {
+  adjustInvoicePaidAmount,
+  getInvoiceAmountDue,
+  getInvoiceCustomerId,
+  roundCurrency,
+} from '@/services/invoicePayments.js';
+
+const router = Router();
+
+/**
+ * GET /api/customers/:id/credits
+ * List a customer's credits with the open credit balance
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/customers/:id/credits',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Verify customer exists
+      const { error: customerError } = await supabase
+        .from('customers')
+        .select('id')
+        .eq('id', id)
+        .single<{ id: string }>();
+
+      if (customerError) {
+        if (customerError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Customer not found'));
+          return;
+        }
+        const apiError = translateDbError(customerError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('customer_credits')
+        .select('*')
+        .eq('customer_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const credits = (data ?? []) as CustomerCredit[];
+      const creditBalance = roundCurrency(
+        credits
+          .filter((credit) => credit.status === 'OPEN')
+          .reduce((sum, credit) => sum + Number(credit.remaining_amount), 0)
+      );
+
+      res.json(successResponse({ credit_balance: creditBalance, credits }));
+    } catch (error) {
+      console.error('Error listing customer credits:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list customer credits'));
+    }
+  }
+);
+
+/**
+ * GET /api/invoices/:id/credit-applications
+ * List customer credits applied to an invoice
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/invoices/:id/credit-applications',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('customer_credit_applications')
+        .select('*')
+        .eq('invoice_id', id)
+        .order('applied_at', { ascending: true });
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error listing credit applications:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list credit applications'));
+    }
+  }
+);
+
+/**
+ * POST /api/invoices/:id/apply-credit
+ * Apply an open customer credit to an invoice
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Validate invoice status is SENT or PARTIAL
+ * 2. Validate credit is OPEN and belongs to the invoice's customer
+ * 3. Apply min(amount, credit remaining, invoice balance)
+ * 4. Insert customer_credit_applications row, reduce customer_credits.remaining_amount
+ * 5. Update invoices.paid_amount/status and projects.paid_amount
+ * 6. Create audit_logs entry
+ */
+router.post(
+  '/api/invoices/:id/apply-credit',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = applyCreditSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Get invoice
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', id)
+        .single<Invoice>();
+
+      if (invoiceError) {
+        if (invoiceError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Invoice not found'));
+          return;
+        }
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (invoiceData.status !== 'SENT' && invoiceData.status !== 'PARTIAL') {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Credits can only be applied to SENT or PARTIAL invoices'
+            )
+          );
+        return;
+      }
+
+      // Get credit
+      const { data: credit, error: creditError } = await supabase
+        .from('customer_credits')
+        .select('*')
+        .eq('id', validatedData.credit_id)
+        .single<CustomerCredit>();
+
+      if (creditError) {
+        if (creditError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Customer credit not found'));
+          return;
+        }
+        const apiError = translateDbError(creditError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (credit.status !== 'OPEN') {
+        res
+          .status(400)
+          .json(
+            errorResponse('VALIDATION_ERROR', `Cannot apply credit with status: ${credit.status}`)
+          );
+        return;
+      }
+
+      const customerId = await getInvoiceCustomerId(supabase, invoiceData);
+      if (customerId !== credit.customer_id) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Credit belongs to a different customer than the invoice'
+            )
+          );
+        return;
+      }
+
+      const balanceDue = roundCurrency(
+        getInvoiceAmountDue(invoiceData) - Number(invoiceData.paid_amount)
+      );
+      const remainingCredit = Number(credit.remaining_amount);
+      const requestedAmount = validatedData.amount ?? Math.min(remainingCredit, balanceDue);
+
+      if (requestedAmount > remainingCredit) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Amount exceeds the remaining credit balance', {
+            remaining_amount: remainingCredit,
+          })
+        );
+        return;
+      }
+
+      if (requestedAmount > balanceDue) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Amount exceeds invoice balance', {
+            balance_due: balanceDue,
+          })
+        );
+        return;
+      }
+
+      const appliedAmount = roundCurrency(requestedAmount);
+
+      // Insert credit application
+      const { data: application, error: applicationError } = await supabase
+        .from('customer_credit_applications')
+        .insert({
+          credit_id: credit.id,
+          invoice_id: id,
+          amount: appliedAmount,
+          applied_at: new Date().toISOString(),
+          created_by: req.employee!.id,
+        })
+        .select()
+        .single<CustomerCreditApplication>();
+
+      if (applicationError) {
+        const apiError = translateDbError(applicationError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Reduce the credit balance
+      const newRemaining = roundCurrency(remainingCredit - appliedAmount);
+      const { data: updatedCredit, error: creditUpdateError } = await supabase
+        .from('customer_credits')
+        .update({
+          remaining_amount: newRemaining,
+          status: newRemaining > 0 ? 'OPEN' : 'APPLIED',
+          updated_by: req.employee!.id,
+        })
+        .eq('id', credit.id)
+        .select()
+        .single<CustomerCredit>();
+
+      if (creditUpdateError) {
+        const apiError = translateDbError(creditUpdateError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Update invoice paid_amount/status and roll up to the project
+      const { data: updatedInvoice, error: updateError } = await adjustInvoicePaidAmount(
+        supabase,
+        invoiceData,
+        appliedAmount,
+        req.employee!.id
+      );
+
+      if (updateError || !updatedInvoice) {
+        const apiError = translateDbError(updateError!);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: id,
+        action: 'CREDIT_APPLIED',
+        actor_user_id: req.employee!.id,
+        before_data: {
+          status: invoiceData.status,
+          paid_amount: invoiceData.paid_amount,
+        },
+        after_data: {
+          status: updatedInvoice.status,
+          paid_amount: updatedInvoice.paid_amount,
+          credit_id: credit.id,
+          application_id: application.id,
+          amount: appliedAmount,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res
+        .status(201)
+        .json(successResponse({ application, credit: updatedCredit, invoice: updatedInvoice }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error applying credit:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to apply credit'));
+    }
+  }
+);
+
+/**
+ * POST /api/credit-applications/:id/reverse
+ * Reverse a credit application, returning the amount to the customer's credit balance
+ * The invoice must be SENT, PARTIAL or PAID.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/credit-applications/:id/reverse',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Get credit application
+      const { data: application, error: applicationError } = await supabase
+        .from('customer_credit_applications')
+        .select('*')
+        .eq('id', id)
+        .single<CustomerCreditApplication>();
+
+      if (applicationError) {
+        if (applicationError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Credit application not found'));
+          return;
+        }
+        const apiError = translateDbError(applicationError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (application.reversed_at) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Credit application is already reversed'));
+        return;
+      }
+
+      // Get credit and invoice
+      const { data: credit, error: creditError } = await supabase
+        .from('customer_credits')
+        .select('*')
+        .eq('id', application.credit_id)
+        .single<CustomerCredit>();
+
+      if (creditError) {
+        const apiError = translateDbError(creditError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', application.invoice_id)
+        .single<Invoice>();
+
+      if (invoiceError) {
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Voided and draft invoices carry no paid amount to unwind
+      if (!['SENT', 'PARTIAL', 'PAID'].includes(invoiceData.status)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Credits can only be reversed on SENT, PARTIAL or PAID invoices'
+            )
+          );
+        return;
+      }
+
+      // Mark the application reversed
+      const { data: reversedApplication, error: reverseError } = await supabase
+        .from('customer_credit_applications')
+        .update({
+          reversed_at: new Date().toISOString(),
+          reversed_by: req.employee!.id,
+        })
+        .eq('id', id)
+        .select()
+        .single<CustomerCreditApplication>();
+
+      if (reverseError) {
+        const apiError = translateDbError(reverseError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Return the amount to the credit
+      const { error: creditUpdateError } = await supabase
+        .from('customer_credits')
+        .update({
+          remaining_amount: roundCurrency(
+            Number(credit.remaining_amount) + Number(application.amount)
+          ),
+          status: 'OPEN',
+          updated_by: req.employee!.id,
+        })
+        .eq('id', credit.id);
+
+      if (creditUpdateError) {
+        const apiError = translateDbError(creditUpdateError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Unwind invoice paid_amount/status and the project roll-up
+      const { data: updatedInvoice, error: updateError } = await adjustInvoicePaidAmount(
+        supabase,
+        invoiceData,
+        -Number(application.amount),
+        req.employee!.id
+      );
+
+      if (updateError || !updatedInvoice) {
+        const apiError = translateDbError(updateError!);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: invoiceData.id,
+        action: 'CREDIT_APPLICATION_REVERSED',
+        actor_user_id: req.employee!.id,
+        before_data: {
+          status: invoiceData.status,
+          paid_amount: invoiceData.paid_amount,
+        },
+        after_data: {
+          status: updatedInvoice.status,
+          paid_amount: updatedInvoice.paid_amount,
+          credit_id: credit.id,
+          application_id: application.id,
+          amount: application.amount,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res.json(successResponse({ application: reversedApplication, invoice: updatedInvoice }));
+    } catch (error) {
+      console.error('Error reversing credit application:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to reverse credit application'));
+    }
+  }
+);
+
+export default router;
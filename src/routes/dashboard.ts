@@ -4,7 +4,18 @@ import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
-import { dashboardQuerySchema } from '@/validations/reports.js';
+import { dashboardQuerySchema, techWorkloadQuerySchema } from '@/validations/reports.js';
+import { getBookedHours } from '@/services/schedule.js';
+import {
+  getAvailableHours,
+  getCompanyTimeZone,
+  toZonedDate,
+  zonedTimeToUtc,
+} from '@/services/workingCalendar.js';
+import {
+  getCrewAssignments,
+  techWorkOrderFilter,
+} from '@/services/workOrderAssignments.js';
 import { ZodError } from 'zod';
 
 const router = Router();
@@ -283,7 +294,12 @@ router.get(
 
 /**
  * GET /api/dashboard/tech-workload
- * Technician current assignments
+ * Technician current assignments and utilization: booked schedule hours against
+ * available working hours
+ * Query: date_from, date_to (YYYY-MM-DD in the company time zone, default today; the range
+ * covers at most 31 days)
+ * scheduled_today and hours_logged_today cover the requested range (today by default).
+ * Available hours come from each tech's shift, minus holidays and approved time off.
  * OFFICE/ADMIN: full access
  * TECH: denied (403)
  */
@@ -292,8 +308,21 @@ router.get(
   requireAuth,
   requireEmployee,
   requireRole(['OFFICE', 'ADMIN']),
-  async (_req: Request, res: Response): Promise<void> => {
+  async (req: Request, res: Response): Promise<void> => {
     try {
+      let queryParams;
+      try {
+        queryParams = techWorkloadQuerySchema.parse(req.query);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          res.status(400).json(
+            errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues)
+          );
+          return;
+        }
+        throw error;
+      }
+
       const supabase = createServerClient();
 
       // Get all tech employees
@@ -308,52 +337,94 @@ router.get(
         return;
       }
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayStr = today.toISOString();
-      const tomorrowStr = new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString();
+      const timeZone = await getCompanyTimeZone(supabase);
+      const today = toZonedDate(new Date(), timeZone);
+      const dateFrom = queryParams.date_from ?? queryParams.date_to ?? today;
+      const dateTo = queryParams.date_to ?? dateFrom;
+
+      const dayAfter = new Date(`${dateTo}T00:00:00Z`);
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+      const rangeStart = zonedTimeToUtc(dateFrom, '00:00', timeZone).toISOString();
+      const rangeEnd = zonedTimeToUtc(
+        dayAfter.toISOString().split('T')[0],
+        '00:00',
+        timeZone
+      ).toISOString();
+
+      const techIds = techs.map((tech) => String(tech.id));
+
+      const { data: availableHours, error: availabilityError } = await getAvailableHours(
+        supabase,
+        techIds,
+        dateFrom,
+        dateTo
+      );
+
+      if (availabilityError || !availableHours) {
+        console.error('Error calculating available hours:', availabilityError);
+        res.status(500).json(
+          errorResponse('INTERNAL_ERROR', 'Failed to fetch tech workload')
+        );
+        return;
+      }
+
+      // Booked slots in the range (canceled work orders free the time)
+      const { data: slots } = await supabase
+        .from('work_order_schedule')
+        .select('tech_user_id, start_at, end_at, work_orders!inner(status)')
+        .in('tech_user_id', techIds)
+        .lt('start_at', rangeEnd)
+        .gt('end_at', rangeStart)
+        .neq('work_orders.status', 'CANCELED')
+        .returns<{ tech_user_id: string; start_at: string; end_at: string }[]>();
 
       const workload = await Promise.all(
         techs.map(async (tech) => {
-          // Count assigned work orders (any open status)
+          // Count open work orders the tech leads or crews
+          const { data: crew } = await getCrewAssignments(supabase, String(tech.id));
           const { count: assignedCount } = await supabase
             .from('work_orders')
             .select('*', { count: 'exact', head: true })
-            .eq('assigned_to', tech.id)
+            .or(
+              techWorkOrderFilter(
+                String(tech.id),
+                (crew || []).map((a) => a.work_order_id)
+              )
+            )
             .in('status', ['SCHEDULED', 'IN_PROGRESS']);
 
-          // Count scheduled today
-          const { count: scheduledToday } = await supabase
-            .from('work_order_schedule')
-            .select('*', { count: 'exact', head: true })
-            .eq('tech_user_id', tech.id)
-            .gte('scheduled_date', todayStr)
-            .lt('scheduled_date', tomorrowStr);
-
-          // Calculate hours logged today
+          // Calculate hours logged in the range
           const { data: timeEntries } = await supabase
             .from('work_order_time_entries')
             .select('clock_in_at, clock_out_at, break_minutes')
             .eq('tech_user_id', tech.id)
-            .gte('clock_in_at', todayStr)
-            .lt('clock_in_at', tomorrowStr);
+            .gte('clock_in_at', rangeStart)
+            .lt('clock_in_at', rangeEnd);
 
-          let hoursLoggedToday = 0;
+          let hoursLogged = 0;
           timeEntries?.forEach((entry) => {
             if (entry.clock_in_at && entry.clock_out_at) {
               const clockIn = new Date(String(entry.clock_in_at)).getTime();
               const clockOut = new Date(String(entry.clock_out_at)).getTime();
               const minutes = (clockOut - clockIn) / (1000 * 60) - (entry.break_minutes || 0);
-              hoursLoggedToday += minutes / 60;
+              hoursLogged += minutes / 60;
             }
           });
 
+          const techSlots = (slots || []).filter((slot) => slot.tech_user_id === tech.id);
+          const bookedHours = getBookedHours(techSlots, rangeStart, rangeEnd);
+          const available = availableHours.get(String(tech.id)) ?? 0;
+
           return {
             tech_id: String(tech.id),
             tech_name: String(tech.display_name),
             assigned_work_orders: assignedCount || 0,
-            scheduled_today: scheduledToday || 0,
-            hours_logged_today: Math.round(hoursLoggedToday * 100) / 100,
+            scheduled_today: techSlots.length,
+            hours_logged_today: Math.round(hoursLogged * 100) / 100,
+            available_hours: available,
+            booked_hours: bookedHours,
+            utilization_percent:
+              available > 0 ? Math.round((bookedHours / available) * 1000) / 10 : null,
           };
         })
       );
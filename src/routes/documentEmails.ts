@@ -0,0 +1,260 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { emailDocumentSchema } from '@/validations/documentEmail.js';
+import { DocumentEmail } from '@/types/database.js';
+import { ZodError } from 'zod';
+import {
+  EmailDocumentType,
+  prepareDocumentEmail,
+  queueDocumentEmail,
+} from '@/services/documents/email.js';
+
+const router = Router();
+
+const DOCUMENTS: Record<EmailDocumentType, { table: string; label: string }> = {
+  invoice: { table: 'invoices', label: 'Invoice' },
+  quote: { table: 'quotes', label: 'Quote' },
+  purchase_order: { table: 'purchase_orders', label: 'Purchase order' },
+};
+
+/**
+ * Shared handler: delivery history for a document, newest first
+ */
+async function listEmails(
+  req: Request,
+  res: Response,
+  documentType: EmailDocumentType
+): Promise<void> {
+  const { table, label } = DOCUMENTS[documentType];
+
+  try {
+    const { id } = req.params;
+    const supabase = createServerClient();
+
+    const { error: fetchError } = await supabase
+      .from(table)
+      .select('id')
+      .eq('id', id)
+      .single<{ id: string }>();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        res.status(404).json(errorResponse('NOT_FOUND', `${label} not found`));
+        return;
+      }
+      const apiError = translateDbError(fetchError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('document_emails')
+      .select('*')
+      .eq('document_type', documentType)
+      .eq('document_id', id)
+      .order('created_at', { ascending: false })
+      .returns<DocumentEmail[]>();
+
+    if (error) {
+      const apiError = translateDbError(error);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    res.json(successResponse(data || []));
+  } catch (error) {
+    console.error(`Error fetching ${documentType} emails:`, error);
+    res
+      .status(500)
+      .json(
+        errorResponse('INTERNAL_SERVER_ERROR', `Failed to fetch ${label.toLowerCase()} emails`)
+      );
+  }
+}
+
+/**
+ * Shared handler: queue another email for a document that was already sent
+ */
+async function emailDocument(
+  req: Request,
+  res: Response,
+  documentType: EmailDocumentType
+): Promise<void> {
+  const { table, label } = DOCUMENTS[documentType];
+
+  try {
+    const { id } = req.params;
+    const supabase = createServerClient();
+    const validatedData = emailDocumentSchema.parse(req.body ?? {});
+
+    const { data: document, error: fetchError } = await supabase
+      .from(table)
+      .select('status')
+      .eq('id', id)
+      .single<{ status: string }>();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        res.status(404).json(errorResponse('NOT_FOUND', `${label} not found`));
+        return;
+      }
+      const apiError = translateDbError(fetchError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    if (document.status === 'DRAFT') {
+      res
+        .status(400)
+        .json(errorResponse('VALIDATION_ERROR', `${label} is still DRAFT; use the send endpoint`));
+      return;
+    }
+
+    const { data: prepared, error: prepareError } = await prepareDocumentEmail(
+      supabase,
+      documentType,
+      id,
+      validatedData
+    );
+
+    if (prepareError || !prepared) {
+      console.error(`Error preparing ${documentType} email:`, prepareError);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', `Failed to prepare ${label.toLowerCase()} email`)
+        );
+      return;
+    }
+
+    if (prepared.to.length === 0) {
+      res
+        .status(400)
+        .json(errorResponse('VALIDATION_ERROR', 'No recipient email on file; provide "to"'));
+      return;
+    }
+
+    const { data, error } = await queueDocumentEmail(
+      supabase,
+      documentType,
+      id,
+      prepared,
+      req.employee!.id
+    );
+
+    if (error) {
+      const apiError = translateDbError(error);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+      return;
+    }
+    console.error(`Error emailing ${documentType}:`, error);
+    res
+      .status(500)
+      .json(errorResponse('INTERNAL_SERVER_ERROR', `Failed to email ${label.toLowerCase()}`));
+  }
+}
+
+/**
+ * GET /api/invoices/:id/emails
+ * List emails sent for an invoice with their delivery status
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/invoices/:id/emails',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => listEmails(req, res, 'invoice')
+);
+
+/**
+ * POST /api/invoices/:id/email
+ * Email a sent invoice again (reminder or new recipients)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/invoices/:id/email',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => emailDocument(req, res, 'invoice')
+);
+
+/**
+ * GET /api/quotes/:id/emails
+ * List emails sent for a quote with their delivery status
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/quotes/:id/emails',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => listEmails(req, res, 'quote')
+);
+
+/**
+ * POST /api/quotes/:id/email
+ * Email a sent quote again
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/quotes/:id/email',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => emailDocument(req, res, 'quote')
+);
+
+/**
+ * GET /api/purchase-orders/:id/emails
+ * List emails sent for a purchase order with their delivery status
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/purchase-orders/:id/emails',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => listEmails(req, res, 'purchase_order')
+);
+
+/**
+ * POST /api/purchase-orders/:id/email
+ * Email a sent purchase order again
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/purchase-orders/:id/email',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => emailDocument(req, res, 'purchase_order')
+);
+
+export default router;
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { DocumentType, generateDocumentPdf } from '@/services/documents/index.js';
+
+const router = Router();
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  invoice: 'Invoice',
+  quote: 'Quote',
+  change_order: 'Change order',
+  purchase_order: 'Purchase order',
+};
+
+/**
+ * Shared handler: render the document now and return the new files record
+ * Download the PDF through GET /api/files/:id/download
+ */
+async function renderPdf(req: Request, res: Response, documentType: DocumentType): Promise<void> {
+  const label = DOCUMENT_LABELS[documentType];
+
+  try {
+    const { id } = req.params;
+    const supabase = createServerClient();
+
+    const { data, error } = await generateDocumentPdf(supabase, documentType, id, req.employee!.id);
+
+    if (error) {
+      if ('code' in error && error.code === 'PGRST116') {
+        res.status(404).json(errorResponse('NOT_FOUND', `${label} not found`));
+        return;
+      }
+      if ('details' in error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+      throw error;
+    }
+
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    console.error(`Error rendering ${documentType} PDF:`, error);
+    res
+      .status(500)
+      .json(errorResponse('INTERNAL_SERVER_ERROR', `Failed to render ${label.toLowerCase()} PDF`));
+  }
+}
+
+/**
+ * POST /api/invoices/:id/pdf
+ * Render (or re-render) the invoice PDF and set pdf_file_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/invoices/:id/pdf',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => renderPdf(req, res, 'invoice')
+);
+
+/**
+ * POST /api/quotes/:id/pdf
+ * Render (or re-render) the quote PDF and set pdf_file_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/quotes/:id/pdf',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => renderPdf(req, res, 'quote')
+);
+
+/**
+ * POST /api/change-orders/:id/pdf
+ * Render (or re-render) the change order PDF and set pdf_file_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/change-orders/:id/pdf',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => renderPdf(req, res, 'change_order')
+);
+
+/**
+ * POST /api/purchase-orders/:id/pdf
+ * Render (or re-render) the purchase order PDF and set pdf_file_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/purchase-orders/:id/pdf',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => renderPdf(req, res, 'purchase_order')
+);
+
+export default router;
@@ -78,9 +78,16 @@ router.post(
       const supabase = createServerClient();
 
       // Verify entity exists based on entity_type
-      const entityTable = metadata.entity_type === 'quote' ? 'quotes' :
-                          metadata.entity_type === 'project' ? 'projects' :
-                          metadata.entity_type === 'customer' ? 'customers' : 'settings';
+      const entityTables: Record<string, string> = {
+        quote: 'quotes',
+        project: 'projects',
+        customer: 'customers',
+        invoice: 'invoices',
+        change_order: 'change_orders',
+        purchase_order: 'purchase_orders',
+        work_order: 'work_orders',
+      };
+      const entityTable = entityTables[metadata.entity_type] ?? 'settings';
       
       if (entityTable !== 'settings') {
         const { data: entity, error: entityError } = await supabase
@@ -546,9 +553,9 @@ router.post(
 
 /**
  * GET /api/work-orders/:id/files
- * List all files for a work order
- * This is a placeholder - work orders don't have direct file relationships in current schema
- * but the endpoint is included for future use
+ * List all files for a work order (job photos, customer signatures)
+ * TECH role: read-only access
+ * OFFICE/ADMIN: full access
  */
 router.get(
   '/api/work-orders/:id/files',
@@ -573,9 +580,23 @@ router.get(
         return;
       }
 
-      // Work orders don't have direct file entity type in current schema
-      // Return empty array for now
-      res.json(successResponse([]));
+      // Get all files for this work order
+      const { data: files, error } = await supabase
+        .from('files')
+        .select('*')
+        .eq('entity_type', 'work_order')
+        .eq('entity_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      res.json(successResponse(files ?? []));
     } catch (error) {
       console.error('Error listing work order files:', error);
       res.status(500).json(
@@ -0,0 +1,142 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { createHolidaySchema } from '@/validations/holiday.js';
+import { Holiday } from '@/types/database.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * GET /api/holidays
+ * List company holidays, optionally for one year (?year=2025)
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/holidays',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+      const year =
+        typeof req.query.year === 'string' && /^\d{4}$/.test(req.query.year)
+          ? req.query.year
+          : undefined;
+
+      let query = supabase.from('holidays').select('*').order('holiday_date', { ascending: true });
+
+      if (year) {
+        query = query.gte('holiday_date', `${year}-01-01`).lte('holiday_date', `${year}-12-31`);
+      }
+
+      const { data, error } = await query.returns<Holiday[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error listing holidays:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list holidays'));
+    }
+  }
+);
+
+/**
+ * POST /api/holidays
+ * Add a company holiday (no working hours that day)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/holidays',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = createHolidaySchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('holidays')
+        .insert({ ...validatedData, created_by: req.employee!.id })
+        .select()
+        .single<Holiday>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error creating holiday:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to create holiday'));
+    }
+  }
+);
+
+/**
+ * DELETE /api/holidays/:id
+ * Remove a company holiday
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.delete(
+  '/api/holidays/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('holidays')
+        .delete()
+        .eq('id', id)
+        .select()
+        .single<Holiday>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Holiday not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to delete holiday'));
+    }
+  }
+);
+
+export default router;
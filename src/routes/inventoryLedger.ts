@@ -5,7 +5,8 @@ import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
 import { createInventoryLedgerSchema } from '@/validations/inventoryLedger.js';
-import { InventoryLedger } from '@/types/database.js';
+import { InventoryLedger, Part } from '@/types/database.js';
+import { adjustStock, getActiveStockLocation } from '@/services/inventoryStock.js';
 import { ZodError } from 'zod';
 
 const router = Router();
@@ -81,6 +82,11 @@ router.get(
 /**
  * POST /api/parts/:id/inventory-ledger
  * Create a new inventory ledger transaction for a specific part
+ * The entry moves the part's qty_on_hand, and with stock_location_id that location's
+ * stock too (e.g. a cycle count ADJUSTMENT on a truck). Inbound entries (RECEIPT, RETURN,
+ * positive ADJUSTMENT) recompute the moving average cost at unit_cost, defaulting to the
+ * current average; a given unit_cost on a RECEIPT or ADJUSTMENT also becomes last_cost.
+ * Outbound entries are always valued at the current average cost.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -99,11 +105,11 @@ router.post(
       const supabase = createServerClient();
       
       // Verify part exists
-      const { error: partError } = await supabase
+      const { data: part, error: partError } = await supabase
         .from('parts')
-        .select('id')
+        .select('id, avg_cost')
         .eq('id', id)
-        .single();
+        .single<Pick<Part, 'id' | 'avg_cost'>>();
       
       if (partError) {
         if (partError.code === 'PGRST116') {
@@ -119,12 +125,34 @@ router.post(
         return;
       }
       
+      // Verify stock location
+      if (validatedData.stock_location_id) {
+        const { error: locationError } = await getActiveStockLocation(
+          supabase,
+          validatedData.stock_location_id
+        );
+
+        if (locationError) {
+          res.status(locationError.statusCode).json(
+            errorResponse(locationError.code, locationError.message, locationError.details)
+          );
+          return;
+        }
+      }
+      
+      // Store the cost the entry is valued at so historic valuations stay reproducible
+      const isInbound = validatedData.qty_delta > 0;
+      const unitCost = isInbound
+        ? validatedData.unit_cost ?? Number(part.avg_cost)
+        : Number(part.avg_cost);
+      
       // Insert inventory ledger entry
       const { data, error } = await supabase
         .from('inventory_ledger')
         .insert({
           part_id: id,
           ...validatedData,
+          unit_cost: unitCost,
         })
         .select()
         .single<InventoryLedger>();
@@ -137,6 +165,27 @@ router.post(
         return;
       }
       
+      const { error: stockError } = await adjustStock(
+        supabase,
+        id,
+        validatedData.stock_location_id ?? null,
+        validatedData.qty_delta,
+        isInbound
+          ? {
+              unit_cost: unitCost,
+              set_last_cost:
+                validatedData.unit_cost !== undefined && validatedData.txn_type !== 'RETURN',
+            }
+          : undefined
+      );
+
+      if (stockError) {
+        res.status(stockError.statusCode).json(
+          errorResponse(stockError.code, stockError.message, stockError.details)
+        );
+        return;
+      }
+      
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -182,9 +231,11 @@ router.get(
       const partId = typeof req.query.part_id === 'string' ? req.query.part_id : undefined;
       const txnType = typeof req.query.txn_type === 'string' ? req.query.txn_type : undefined;
       const referenceId = typeof req.query.reference_id === 'string' ? req.query.reference_id : undefined;
+      const stockLocationId =
+        typeof req.query.stock_location_id === 'string' ? req.query.stock_location_id : undefined;
       
       // Validate txn_type if provided
-      const validTxnTypes = ['RECEIPT', 'ADJUSTMENT', 'USAGE', 'RETURN'];
+      const validTxnTypes = ['RECEIPT', 'ADJUSTMENT', 'USAGE', 'RETURN', 'TRANSFER'];
       if (txnType && !validTxnTypes.includes(txnType)) {
         res.status(400).json(
           errorResponse('VALIDATION_ERROR', `Invalid txn_type. Must be one of: ${validTxnTypes.join(', ')}`)
@@ -210,6 +261,10 @@ router.get(
         query = query.eq('reference_id', referenceId);
       }
       
+      if (stockLocationId) {
+        query = query.eq('stock_location_id', stockLocationId);
+      }
+      
       // Apply sort
       if (sort) {
         query = query.order(sort.field, { ascending: sort.direction === 'asc' });
@@ -0,0 +1,136 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, parsePagination, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { createInventoryTransferSchema } from '@/validations/inventoryTransfer.js';
+import { getTechTruck, transferStock } from '@/services/inventoryStock.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/inventory-transfers
+ * List stock transfers, newest first (?part_id=, ?stock_location_id= matches either side)
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/inventory-transfers',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+      const pagination = parsePagination(req.query);
+      const partId = typeof req.query.part_id === 'string' ? req.query.part_id : undefined;
+      const stockLocationId =
+        typeof req.query.stock_location_id === 'string' ? req.query.stock_location_id : undefined;
+
+      if (stockLocationId && !UUID_PATTERN.test(stockLocationId)) {
+        res.status(400).json(errorResponse('VALIDATION_ERROR', 'stock_location_id must be a UUID'));
+        return;
+      }
+
+      let query = supabase
+        .from('inventory_transfers')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false });
+
+      if (partId) {
+        query = query.eq('part_id', partId);
+      }
+
+      if (stockLocationId) {
+        query = query.or(
+          `from_location_id.eq.${stockLocationId},to_location_id.eq.${stockLocationId}`
+        );
+      }
+
+      query = query.range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse(data ?? [], {
+          pagination: {
+            limit: pagination.limit,
+            offset: pagination.offset,
+            total: count ?? 0,
+          },
+        })
+      );
+    } catch (error) {
+      console.error('Error listing inventory transfers:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list inventory transfers'));
+    }
+  }
+);
+
+/**
+ * POST /api/inventory-transfers
+ * Move stock between locations, e.g. loading a truck from the warehouse
+ * Writes a TRANSFER ledger entry out of the source and one into the destination.
+ * Returns 400 if the source doesn't have enough on hand.
+ * TECH role: only transfers into or out of their own truck
+ * OFFICE/ADMIN: any transfer
+ */
+router.post(
+  '/api/inventory-transfers',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = createInventoryTransferSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      if (req.employee!.role === 'TECH') {
+        const truck = await getTechTruck(supabase, req.employee!.id);
+
+        if (
+          !truck ||
+          (truck.id !== validatedData.from_location_id && truck.id !== validatedData.to_location_id)
+        ) {
+          res
+            .status(403)
+            .json(
+              errorResponse('FORBIDDEN', 'You can only transfer stock into or out of your truck')
+            );
+          return;
+        }
+      }
+
+      const { data, error } = await transferStock(supabase, validatedData, req.employee!.id);
+
+      if (error) {
+        res.status(error.statusCode).json(errorResponse(error.code, error.message, error.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error transferring stock:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to transfer stock'));
+    }
+  }
+);
+
+export default router;
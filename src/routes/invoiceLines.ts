@@ -1,100 +1,54 @@
 import { Router, Request, Response } from 'express';
-import { createServerClient, translateDbError } from '@/db/index.js';
+import { ApiError, createServerClient, translateDbError } from '@/db/index.js';
 import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
 import { createInvoiceLineSchema, updateInvoiceLineSchema } from '@/validations/invoiceLine.js';
-import { InvoiceLine } from '@/types/database.js';
+import { InvoiceLine, InvoiceType } from '@/types/database.js';
 import { ZodError } from 'zod';
+import { recalculateInvoiceTotals } from '@/services/invoices.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
 import { SupabaseClient } from '@supabase/supabase-js';
 
 const router = Router();
 
 /**
- * Helper function to recalculate invoice totals from lines
+ * Reason an invoice's lines can't be edited by hand, or null if they can
+ * Progress invoice lines are generated from the schedule of values and must stay in step
+ * with invoice_progress_lines, which the next period bills against. Retainage release
+ * lines bill the retainage held on the project and can't be changed either.
+ * A failed lookup returns the error rather than treating the lines as editable.
  */
-async function recalculateInvoiceTotals(
+async function getLockedLinesReason(
   supabase: SupabaseClient,
-  invoiceId: string
-): Promise<{ success: boolean; error: unknown }> {
-  // Get invoice to fetch tax rate
-  const { data: invoiceData, error: invoiceError } = await supabase
-    .from('invoices')
-    .select('tax_rule_id, tax_rate_snapshot')
-    .eq('id', invoiceId)
-    .single<{ tax_rule_id: string; tax_rate_snapshot: number | null }>();
-
-  if (invoiceError || !invoiceData) {
-    return { success: false, error: invoiceError };
+  invoiceId: string,
+  invoiceType: InvoiceType
+): Promise<{ data: string | null; error: ApiError | null }> {
+  if (invoiceType === 'RETAINAGE_RELEASE') {
+    return {
+      data: 'Lines on retainage release invoices bill the retainage held; delete the draft and generate it again',
+      error: null,
+    };
   }
 
-  // Get tax rate from tax_rule if not snapshotted
-  let taxRate = invoiceData.tax_rate_snapshot;
-  if (taxRate === null) {
-    const { data: taxRule, error: taxError } = await supabase
-      .from('tax_rules')
-      .select('rate')
-      .eq('id', invoiceData.tax_rule_id)
-      .single<{ rate: number }>();
-
-    if (taxError || !taxRule) {
-      return { success: false, error: taxError };
-    }
-    taxRate = taxRule.rate;
-  }
-
-  // Get all lines for this invoice
-  const { data: lines, error: linesError } = await supabase
-    .from('invoice_lines')
-    .select('*')
-    .eq('invoice_id', invoiceId)
-    .returns<InvoiceLine[]>();
-
-  if (linesError) {
-    return { success: false, error: linesError };
-  }
+  const { count, error } = await supabase
+    .from('invoice_progress_lines')
+    .select('*', { count: 'exact', head: true })
+    .eq('invoice_id', invoiceId);
 
-  // Calculate totals
-  let subtotal = 0;
-  let taxTotal = 0;
-
-  for (const line of lines || []) {
-    const lineSubtotal = Number(line.qty) * Number(line.unit_price);
-    const lineTax = line.is_taxable ? lineSubtotal * taxRate : 0;
-    const lineTotal = lineSubtotal + lineTax;
-
-    // Update line totals
-    await supabase
-      .from('invoice_lines')
-      .update({
-        line_subtotal: lineSubtotal,
-        line_tax: lineTax,
-        line_total: lineTotal,
-      })
-      .eq('id', line.id);
-
-    subtotal += lineSubtotal;
-    taxTotal += lineTax;
+  if (error) {
+    return { data: null, error: translateDbError(error) };
   }
 
-  const totalAmount = subtotal + taxTotal;
-
-  // Update invoice totals
-  const { error: updateError } = await supabase
-    .from('invoices')
-    .update({
-      subtotal,
-      tax_total: taxTotal,
-      total_amount: totalAmount,
-    })
-    .eq('id', invoiceId);
-
-  if (updateError) {
-    return { success: false, error: updateError };
+  if (count && count > 0) {
+    return {
+      data: 'Lines on progress invoices come from the schedule of values; delete the draft and generate it again',
+      error: null,
+    };
   }
 
-  return { success: true, error: null };
+  return { data: null, error: null };
 }
 
 /**
@@ -160,7 +114,7 @@ router.get(
 
 /**
  * POST /api/invoices/:id/lines
- * Add a line to an invoice (only if DRAFT)
+ * Add a line to an invoice (only if DRAFT and not a progress or retainage release invoice)
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -181,9 +135,9 @@ router.post(
       // Check if invoice exists and is DRAFT
       const { data: invoice, error: invoiceError } = await supabase
         .from('invoices')
-        .select('status')
+        .select('status, invoice_type')
         .eq('id', id)
-        .single();
+        .single<{ status: string; invoice_type: InvoiceType }>();
 
       if (invoiceError) {
         if (invoiceError.code === 'PGRST116') {
@@ -206,6 +160,22 @@ router.post(
         return;
       }
 
+      const { data: lockedReason, error: lockedError } = await getLockedLinesReason(
+        supabase,
+        id,
+        invoice.invoice_type
+      );
+      if (lockedError) {
+        res
+          .status(lockedError.statusCode)
+          .json(errorResponse(lockedError.code, lockedError.message, lockedError.details));
+        return;
+      }
+      if (lockedReason) {
+        res.status(400).json(errorResponse('VALIDATION_ERROR', lockedReason));
+        return;
+      }
+
       // If quote_line_id is provided, verify it exists
       if (validatedData.quote_line_id) {
         const { data: quoteLine, error: quoteLineError } = await supabase
@@ -259,6 +229,9 @@ router.post(
         // Don't fail the request, just log the error
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -277,7 +250,8 @@ router.post(
 
 /**
  * PATCH /api/invoice-lines/:id
- * Update an invoice line (only if invoice is DRAFT)
+ * Update an invoice line (only if invoice is DRAFT and not a progress or retainage
+ * release invoice)
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -306,9 +280,9 @@ router.patch(
       // Get invoice line with invoice status
       const { data: lineData, error: lineError } = await supabase
         .from('invoice_lines')
-        .select('*, invoices!inner(status)')
+        .select('*, invoices!inner(status, invoice_type)')
         .eq('id', id)
-        .single<InvoiceLine & { invoices: { status: string } }>();
+        .single<InvoiceLine & { invoices: { status: string; invoice_type: InvoiceType } }>();
 
       if (lineError) {
         if (lineError.code === 'PGRST116') {
@@ -333,6 +307,22 @@ router.patch(
         return;
       }
 
+      const { data: lockedReason, error: lockedError } = await getLockedLinesReason(
+        supabase,
+        lineData.invoice_id,
+        lineData.invoices.invoice_type
+      );
+      if (lockedError) {
+        res
+          .status(lockedError.statusCode)
+          .json(errorResponse(lockedError.code, lockedError.message, lockedError.details));
+        return;
+      }
+      if (lockedReason) {
+        res.status(400).json(errorResponse('VALIDATION_ERROR', lockedReason));
+        return;
+      }
+
       // If quote_line_id is being updated, verify it exists
       if (validatedData.quote_line_id) {
         const { data: quoteLine, error: quoteLineError } = await supabase
@@ -372,6 +362,9 @@ router.patch(
         // Don't fail the request, just log the error
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', lineData.invoice_id);
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -390,7 +383,8 @@ router.patch(
 
 /**
  * DELETE /api/invoice-lines/:id
- * Delete an invoice line (only if invoice is DRAFT)
+ * Delete an invoice line (only if invoice is DRAFT and not a progress or retainage
+ * release invoice)
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -407,9 +401,9 @@ router.delete(
       // Get invoice line with invoice status
       const { data: lineData, error: lineError } = await supabase
         .from('invoice_lines')
-        .select('*, invoices!inner(status)')
+        .select('*, invoices!inner(status, invoice_type)')
         .eq('id', id)
-        .single<InvoiceLine & { invoices: { status: string } }>();
+        .single<InvoiceLine & { invoices: { status: string; invoice_type: InvoiceType } }>();
 
       if (lineError) {
         if (lineError.code === 'PGRST116') {
@@ -434,6 +428,22 @@ router.delete(
         return;
       }
 
+      const { data: lockedReason, error: lockedError } = await getLockedLinesReason(
+        supabase,
+        lineData.invoice_id,
+        lineData.invoices.invoice_type
+      );
+      if (lockedError) {
+        res
+          .status(lockedError.statusCode)
+          .json(errorResponse(lockedError.code, lockedError.message, lockedError.details));
+        return;
+      }
+      if (lockedReason) {
+        res.status(400).json(errorResponse('VALIDATION_ERROR', lockedReason));
+        return;
+      }
+
       const invoiceId = lineData.invoice_id;
 
       // Delete invoice line
@@ -457,6 +467,9 @@ router.delete(
         // Don't fail the request, just log the error
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', invoiceId);
+
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting invoice line:', error);
@@ -4,26 +4,44 @@ import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
-import { createInvoiceSchema, updateInvoiceSchema } from '@/validations/invoice.js';
-import { Invoice, InvoiceLine } from '@/types/database.js';
+import {
+  createInvoiceSchema,
+  updateInvoiceSchema,
+  voidInvoiceSchema,
+} from '@/validations/invoice.js';
+import { CreditMemo, CreditMemoLine, Invoice, InvoiceLine } from '@/types/database.js';
 import { ZodError } from 'zod';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { createAuditLog } from '@/services/auditLog.js';
+import { getNextInvoiceNumber, recalculateInvoiceTotals } from '@/services/invoices.js';
+import {
+  adjustInvoicePaidAmount,
+  getInvoiceAmountDue,
+  getNextPaymentNumber,
+  roundCurrency,
+} from '@/services/invoicePayments.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+import {
+  PreparedDocumentEmail,
+  prepareDocumentEmail,
+  queueDocumentEmail,
+} from '@/services/documents/email.js';
+import { sendDocumentSchema } from '@/validations/documentEmail.js';
 
 const router = Router();
 
 /**
- * Helper function to get next invoice number from database
+ * Helper function to get next credit memo number from database
  */
-async function getNextInvoiceNumber(
+async function getNextCreditMemoNumber(
   supabase: SupabaseClient
-): Promise<{ invoiceNo: string | null; error: unknown }> {
+): Promise<{ creditMemoNo: string | null; error: unknown }> {
   const result = await supabase.rpc('get_next_number', {
-    p_kind: 'invoice',
+    p_kind: 'credit_memo',
   });
 
   return {
-    invoiceNo: typeof result.data === 'string' ? result.data : null,
+    creditMemoNo: typeof result.data === 'string' ? result.data : null,
     error: result.error,
   };
 }
@@ -151,12 +169,13 @@ router.post(
       }
 
       // Verify project or work_order exists
+      let retainagePercent = validatedData.retainage_percent ?? 0;
       if (validatedData.project_id) {
         const { data: project, error: projectError } = await supabase
           .from('projects')
-          .select('id')
+          .select('id, retainage_percent')
           .eq('id', validatedData.project_id)
-          .single();
+          .single<{ id: string; retainage_percent: number | null }>();
 
         if (projectError || !project) {
           res.status(400).json(
@@ -164,6 +183,14 @@ router.post(
           );
           return;
         }
+
+        // Progress and final billings withhold the project's retainage by default
+        if (
+          validatedData.retainage_percent === undefined &&
+          (validatedData.invoice_type === 'PROGRESS' || validatedData.invoice_type === 'FINAL')
+        ) {
+          retainagePercent = Number(project.retainage_percent ?? 0);
+        }
       } else if (validatedData.work_order_id) {
         const { data: workOrder, error: workOrderError } = await supabase
           .from('work_orders')
@@ -196,6 +223,7 @@ router.post(
         .insert({
           ...validatedData,
           invoice_no: invoiceNo,
+          retainage_percent: retainagePercent,
           created_by: req.employee!.id,
           updated_by: req.employee!.id,
         })
@@ -210,6 +238,9 @@ router.post(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', data.id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -369,6 +400,29 @@ router.patch(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', id);
+
+      // Retainage withheld depends on the percentage, so recalculate totals
+      if (validatedData.retainage_percent !== undefined) {
+        const { success, error: recalcError } = await recalculateInvoiceTotals(supabase, id);
+        if (!success) {
+          console.error('Error recalculating invoice totals:', recalcError);
+          // Don't fail the request, just log the error
+        } else {
+          const { data: recalculated } = await supabase
+            .from('invoices')
+            .select('*')
+            .eq('id', id)
+            .single<Invoice>();
+
+          if (recalculated) {
+            res.json(successResponse(recalculated));
+            return;
+          }
+        }
+      }
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -387,7 +441,11 @@ router.patch(
 
 /**
  * POST /api/invoices/:id/send
- * Set invoice status to SENT
+ * Set invoice status to SENT and queue an email to the customer with the PDF attached
+ * A retainage release is rejected if it bills more than the project's retainage_held.
+ * Body (optional): to, cc, subject, message, send_email
+ * Without send_email, a document with no recipient on file is sent without an email and the
+ * response carries meta.warning; send_email: true returns 400 instead.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -400,13 +458,20 @@ router.post(
     try {
       const { id } = req.params;
       const supabase = createServerClient();
+      const validatedData = sendDocumentSchema.parse(req.body ?? {});
 
       // Check if invoice exists and is DRAFT
       const { data: existingInvoiceData, error: fetchError } = await supabase
         .from('invoices')
-        .select('status, project_id, total_amount, tax_rule_id')
+        .select('status, invoice_type, project_id, total_amount, tax_rule_id')
         .eq('id', id)
-        .single<{ status: string; project_id: string | null; total_amount: number; tax_rule_id: string }>();
+        .single<{
+          status: string;
+          invoice_type: string;
+          project_id: string | null;
+          total_amount: number;
+          tax_rule_id: string;
+        }>();
 
       if (fetchError) {
         if (fetchError.code === 'PGRST116') {
@@ -429,6 +494,71 @@ router.post(
         return;
       }
 
+      // A retainage release can't bill more than the project still holds
+      if (existingInvoiceData.invoice_type === 'RETAINAGE_RELEASE' && existingInvoiceData.project_id) {
+        const { data: heldProject, error: heldError } = await supabase
+          .from('projects')
+          .select('retainage_held')
+          .eq('id', existingInvoiceData.project_id)
+          .single<{ retainage_held: number | null }>();
+
+        if (heldError) {
+          const apiError = translateDbError(heldError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        const retainageHeld = roundCurrency(Number(heldProject.retainage_held ?? 0));
+        if (Number(existingInvoiceData.total_amount) > retainageHeld) {
+          res.status(400).json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Retainage release total exceeds the retainage held on the project',
+              { total_amount: Number(existingInvoiceData.total_amount), retainage_held: retainageHeld }
+            )
+          );
+          return;
+        }
+      }
+
+      // Resolve recipients before changing status so a missing email can be fixed first
+      let email: PreparedDocumentEmail | null = null;
+      let warning: string | null = null;
+      if (validatedData.send_email !== false) {
+        const { data: prepared, error: prepareError } = await prepareDocumentEmail(
+          supabase,
+          'invoice',
+          id,
+          validatedData
+        );
+
+        if (prepareError || !prepared) {
+          console.error('Error preparing invoice email:', prepareError);
+          res.status(500).json(
+            errorResponse('INTERNAL_SERVER_ERROR', 'Failed to prepare invoice email')
+          );
+          return;
+        }
+
+        if (prepared.to.length === 0) {
+          if (validatedData.send_email) {
+            res.status(400).json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'No recipient email on file; provide "to" or set send_email to false'
+              )
+            );
+            return;
+          }
+          // Email wasn't asked for explicitly, so send without it and say so
+          warning = 'No recipient email on file; status changed without emailing';
+        } else {
+          email = prepared;
+        }
+      }
+
       // Get tax rate from tax_rule to snapshot
       const { data: taxRule, error: taxError } = await supabase
         .from('tax_rules')
@@ -465,24 +595,34 @@ router.post(
         return;
       }
 
-      // If invoice is linked to a project, update project invoiced_amount
+      // If invoice is linked to a project, update project invoiced_amount and retainage held.
+      // A retainage release bills amounts already counted as invoiced, so it only draws down
+      // the held balance.
       if (data.project_id) {
         const { data: projectData, error: projectError } = await supabase
           .from('projects')
-          .select('invoiced_amount')
+          .select('invoiced_amount, retainage_held')
           .eq('id', data.project_id)
-          .single<{ invoiced_amount: number }>();
+          .single<{ invoiced_amount: number; retainage_held: number | null }>();
 
         if (projectError) {
           console.error('Error fetching project:', projectError);
           // Don't fail the request if project update fails
         } else {
-          const newInvoicedAmount = Number(projectData.invoiced_amount) + Number(data.total_amount);
+          const isRetainageRelease = data.invoice_type === 'RETAINAGE_RELEASE';
+          const newInvoicedAmount = isRetainageRelease
+            ? Number(projectData.invoiced_amount)
+            : Number(projectData.invoiced_amount) + Number(data.total_amount);
+          const newRetainageHeld = roundCurrency(
+            Number(projectData.retainage_held ?? 0) +
+              (isRetainageRelease ? -Number(data.total_amount) : Number(data.retainage_amount ?? 0))
+          );
 
           const { error: projectUpdateError } = await supabase
             .from('projects')
             .update({
               invoiced_amount: newInvoicedAmount,
+              retainage_held: newRetainageHeld,
               updated_by: req.employee!.id,
             })
             .eq('id', data.project_id);
@@ -507,8 +647,33 @@ router.post(
         // Don't fail the request if audit log fails
       }
 
-      res.json(successResponse(data));
+      // Queue email delivery (the worker renders the PDF it attaches)
+      if (email) {
+        const { error: emailError } = await queueDocumentEmail(
+          supabase,
+          'invoice',
+          id,
+          email,
+          req.employee!.id
+        );
+
+        if (emailError) {
+          console.error('Error queueing invoice email:', emailError);
+          // Don't fail the request, the email can be resent
+        }
+      } else {
+        // Queue PDF re-render
+        await queueDocumentPdf(supabase, 'invoice', id);
+      }
+
+      res.json(successResponse(data, warning ? { warning } : undefined));
     } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
       console.error('Error sending invoice:', error);
       res.status(500).json(
         errorResponse('INTERNAL_SERVER_ERROR', 'Failed to send invoice')
@@ -554,21 +719,260 @@ router.post(
         return;
       }
 
-      // Validate invoice status (must be SENT)
-      if (invoiceData.status !== 'SENT') {
+      // Validate invoice status (must be SENT or PARTIAL)
+      if (invoiceData.status !== 'SENT' && invoiceData.status !== 'PARTIAL') {
         res.status(400).json(
-          errorResponse('VALIDATION_ERROR', 'Only SENT invoices can be marked as paid')
+          errorResponse('VALIDATION_ERROR', 'Only SENT or PARTIAL invoices can be marked as paid')
+        );
+        return;
+      }
+
+      // Record the outstanding balance as a payment so it can be voided or refunded later
+      const balanceDue = roundCurrency(
+        getInvoiceAmountDue(invoiceData) - Number(invoiceData.paid_amount)
+      );
+
+      const { paymentNo, error: paymentNoError } = await getNextPaymentNumber(supabase);
+
+      if (paymentNoError || !paymentNo) {
+        console.error('Error generating payment number:', paymentNoError);
+        res.status(500).json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate payment number')
+        );
+        return;
+      }
+
+      const { error: paymentError } = await supabase.from('payments').insert({
+        invoice_id: id,
+        payment_no: paymentNo,
+        payment_date: new Date().toISOString().split('T')[0],
+        amount: balanceDue,
+        payment_method: 'OTHER',
+        notes: 'Recorded by mark-paid',
+        status: 'APPLIED',
+        unapplied_amount: 0,
+        created_by: req.employee!.id,
+        updated_by: req.employee!.id,
+      });
+
+      if (paymentError) {
+        const apiError = translateDbError(paymentError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Update invoice status to PAID and roll up to the project
+      const { data: updatedInvoice, error: updateError } = await adjustInvoicePaidAmount(
+        supabase,
+        invoiceData,
+        balanceDue,
+        req.employee!.id
+      );
+
+      if (updateError || !updatedInvoice) {
+        const apiError = translateDbError(updateError!);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
         );
         return;
       }
 
-      // Update invoice status to PAID
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: id,
+        action: 'INVOICE_PAID',
+        actor_user_id: req.employee!.id,
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res.json(successResponse(updatedInvoice));
+    } catch (error) {
+      console.error('Error marking invoice as paid:', error);
+      res.status(500).json(
+        errorResponse('INTERNAL_SERVER_ERROR', 'Failed to mark invoice as paid')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/invoices/:id/void
+ * Void an invoice
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Validate status is DRAFT or SENT with nothing paid
+ *    (payments and applied credits must be voided/reversed first)
+ * 2. For SENT invoices, create a numbered credit memo mirroring the invoice lines
+ *    and reverse projects.invoiced_amount
+ * 3. Set status = 'VOID', voided_at, voided_by, void_reason
+ * 4. Create audit_logs entry
+ */
+router.post(
+  '/api/invoices/:id/void',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = voidInvoiceSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Get invoice
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', id)
+        .single<Invoice>();
+
+      if (invoiceError) {
+        if (invoiceError.code === 'PGRST116') {
+          res.status(404).json(
+            errorResponse('NOT_FOUND', 'Invoice not found')
+          );
+          return;
+        }
+        const apiError = translateDbError(invoiceError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (invoiceData.status === 'VOID') {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invoice is already void')
+        );
+        return;
+      }
+
+      // Payments and applied credits must be reversed before voiding
+      if (
+        invoiceData.status === 'PARTIAL' ||
+        invoiceData.status === 'PAID' ||
+        Number(invoiceData.paid_amount) > 0
+      ) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'Invoice has payments applied; void or refund them before voiding the invoice',
+            { paid_amount: invoiceData.paid_amount }
+          )
+        );
+        return;
+      }
+
+      // A SENT invoice has been issued and rolled up, so it gets a credit memo
+      let creditMemo: (CreditMemo & { lines: CreditMemoLine[] }) | null = null;
+
+      if (invoiceData.status === 'SENT') {
+        const { data: lines, error: linesError } = await supabase
+          .from('invoice_lines')
+          .select('*')
+          .eq('invoice_id', id)
+          .order('line_no', { ascending: true })
+          .returns<InvoiceLine[]>();
+
+        if (linesError) {
+          const apiError = translateDbError(linesError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        const { creditMemoNo, error: creditMemoNoError } =
+          await getNextCreditMemoNumber(supabase);
+
+        if (creditMemoNoError || !creditMemoNo) {
+          console.error('Error generating credit memo number:', creditMemoNoError);
+          res.status(500).json(
+            errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate credit memo number')
+          );
+          return;
+        }
+
+        const { data: memo, error: memoError } = await supabase
+          .from('credit_memos')
+          .insert({
+            credit_memo_no: creditMemoNo,
+            invoice_id: id,
+            project_id: invoiceData.project_id,
+            work_order_id: invoiceData.work_order_id,
+            memo_date: new Date().toISOString().split('T')[0],
+            reason: validatedData.reason,
+            tax_rate_snapshot: invoiceData.tax_rate_snapshot,
+            subtotal: invoiceData.subtotal,
+            tax_total: invoiceData.tax_total,
+            total_amount: invoiceData.total_amount,
+            created_by: req.employee!.id,
+            updated_by: req.employee!.id,
+          })
+          .select()
+          .single<CreditMemo>();
+
+        if (memoError) {
+          const apiError = translateDbError(memoError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        let memoLines: CreditMemoLine[] = [];
+        if (lines && lines.length > 0) {
+          const { data: insertedLines, error: memoLinesError } = await supabase
+            .from('credit_memo_lines')
+            .insert(
+              lines.map((line) => ({
+                credit_memo_id: memo.id,
+                invoice_line_id: line.id,
+                line_no: line.line_no,
+                part_id: line.part_id,
+                description: line.description,
+                uom: line.uom,
+                qty: line.qty,
+                unit_price: line.unit_price,
+                is_taxable: line.is_taxable,
+                line_subtotal: line.line_subtotal,
+                line_tax: line.line_tax,
+                line_total: line.line_total,
+              }))
+            )
+            .select()
+            .returns<CreditMemoLine[]>();
+
+          if (memoLinesError) {
+            const apiError = translateDbError(memoLinesError);
+            res.status(apiError.statusCode).json(
+              errorResponse(apiError.code, apiError.message, apiError.details)
+            );
+            return;
+          }
+
+          memoLines = insertedLines ?? [];
+        }
+
+        creditMemo = { ...memo, lines: memoLines };
+      }
+
+      // Update invoice status to VOID
       const { data: updatedInvoice, error: updateError } = await supabase
         .from('invoices')
         .update({
-          status: 'PAID',
-          paid_at: new Date().toISOString(),
-          paid_amount: invoiceData.total_amount,
+          status: 'VOID',
+          voided_at: new Date().toISOString(),
+          voided_by: req.employee!.id,
+          void_reason: validatedData.reason,
           updated_by: req.employee!.id,
         })
         .eq('id', id)
@@ -583,30 +987,40 @@ router.post(
         return;
       }
 
-      // If invoice is linked to a project, update project paid_amount
-      if (invoiceData.project_id) {
+      // Reverse the invoiced_amount and retainage roll-ups made when the invoice was sent
+      if (invoiceData.status === 'SENT' && invoiceData.project_id) {
         const { data: projectData, error: projectError } = await supabase
           .from('projects')
-          .select('paid_amount')
+          .select('invoiced_amount, retainage_held')
           .eq('id', invoiceData.project_id)
-          .single<{ paid_amount: number }>();
+          .single<{ invoiced_amount: number; retainage_held: number | null }>();
 
         if (projectError) {
           console.error('Error fetching project:', projectError);
           // Don't fail the request if project update fails
         } else {
-          const newPaidAmount = Number(projectData.paid_amount) + Number(invoiceData.total_amount);
+          const isRetainageRelease = invoiceData.invoice_type === 'RETAINAGE_RELEASE';
+          const newInvoicedAmount = isRetainageRelease
+            ? Number(projectData.invoiced_amount)
+            : Number(projectData.invoiced_amount) - Number(invoiceData.total_amount);
+          const newRetainageHeld = roundCurrency(
+            Number(projectData.retainage_held ?? 0) +
+              (isRetainageRelease
+                ? Number(invoiceData.total_amount)
+                : -Number(invoiceData.retainage_amount ?? 0))
+          );
 
           const { error: projectUpdateError } = await supabase
             .from('projects')
             .update({
-              paid_amount: newPaidAmount,
+              invoiced_amount: newInvoicedAmount,
+              retainage_held: newRetainageHeld,
               updated_by: req.employee!.id,
             })
             .eq('id', invoiceData.project_id);
 
           if (projectUpdateError) {
-            console.error('Error updating project paid amount:', projectUpdateError);
+            console.error('Error updating project invoiced amount:', projectUpdateError);
             // Don't fail the request if project update fails
           }
         }
@@ -616,8 +1030,15 @@ router.post(
       const { error: auditError } = await createAuditLog(supabase, {
         entity_type: 'invoice',
         entity_id: id,
-        action: 'INVOICE_PAID',
+        action: 'INVOICE_VOIDED',
         actor_user_id: req.employee!.id,
+        before_data: { status: invoiceData.status },
+        after_data: {
+          status: 'VOID',
+          credit_memo_id: creditMemo?.id ?? null,
+          credit_memo_no: creditMemo?.credit_memo_no ?? null,
+        },
+        notes: validatedData.reason,
       });
 
       if (auditError) {
@@ -625,11 +1046,17 @@ router.post(
         // Don't fail the request if audit log fails
       }
 
-      res.json(successResponse(updatedInvoice));
+      res.json(successResponse({ invoice: updatedInvoice, credit_memo: creditMemo }));
     } catch (error) {
-      console.error('Error marking invoice as paid:', error);
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error voiding invoice:', error);
       res.status(500).json(
-        errorResponse('INTERNAL_SERVER_ERROR', 'Failed to mark invoice as paid')
+        errorResponse('INTERNAL_SERVER_ERROR', 'Failed to void invoice')
       );
     }
   }
@@ -6,6 +6,7 @@ import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
 import { createPartSchema, updatePartSchema } from '@/validations/part.js';
 import { Part } from '@/types/database.js';
+import { getPartStockByLocation } from '@/services/inventoryStock.js';
 import { ZodError } from 'zod';
 
 const router = Router();
@@ -152,7 +153,7 @@ router.post(
 
 /**
  * GET /api/parts/:id
- * Get a single part by ID
+ * Get a single part by ID, with its on-hand quantity at each stock location
  * TECH role: read-only (allowed)
  * OFFICE/ADMIN: full access (allowed)
  */
@@ -185,7 +186,20 @@ router.get(
         return;
       }
       
-      res.json(successResponse(data));
+      // On-hand quantity per stock location
+      const { data: stockByLocation, error: stockError } = await getPartStockByLocation(
+        supabase,
+        id
+      );
+      
+      if (stockError) {
+        res.status(stockError.statusCode).json(
+          errorResponse(stockError.code, stockError.message, stockError.details)
+        );
+        return;
+      }
+      
+      res.json(successResponse({ ...data, stock_by_location: stockByLocation ?? [] }));
     } catch (error) {
       console.error('Error fetching part:', error);
       res.status(500).json(
@@ -0,0 +1,584 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, parsePagination, parseSort, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { recordPaymentSchema, reversePaymentSchema } from '@/validations/payment.js';
+import { CustomerCredit, Invoice, Payment } from '@/types/database.js';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/services/auditLog.js';
+import {
+  adjustInvoicePaidAmount,
+  getInvoiceAmountDue,
+  getInvoiceCustomerId,
+  getNextPaymentNumber,
+  roundCurrency,
+} from '@/services/invoicePayments.js';
+
+const router = Router();
+
+/**
+ * GET /api/payments
+ * List payments with pagination and filters
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/payments',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+      const pagination = parsePagination(req.query);
+      const sort = parseSort(
+        req.query,
+        ['payment_no', 'payment_date', 'amount', 'created_at', 'updated_at'],
+        'payment_date',
+        'desc'
+      );
+
+      // Parse filter params
+      const invoiceId = typeof req.query.invoice_id === 'string' ? req.query.invoice_id.trim() : '';
+      const paymentMethod =
+        typeof req.query.payment_method === 'string' ? req.query.payment_method.trim() : '';
+      const dateFrom = typeof req.query.date_from === 'string' ? req.query.date_from.trim() : '';
+      const dateTo = typeof req.query.date_to === 'string' ? req.query.date_to.trim() : '';
+
+      let query = supabase.from('payments').select('*', { count: 'exact' });
+
+      if (invoiceId) {
+        query = query.eq('invoice_id', invoiceId);
+      }
+
+      if (paymentMethod) {
+        query = query.eq('payment_method', paymentMethod);
+      }
+
+      if (dateFrom) {
+        query = query.gte('payment_date', dateFrom);
+      }
+
+      if (dateTo) {
+        query = query.lte('payment_date', dateTo);
+      }
+
+      if (sort) {
+        query = query.order(sort.field, { ascending: sort.direction === 'asc' });
+      }
+
+      query = query.range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse(data ?? [], {
+          pagination: {
+            limit: pagination.limit,
+            offset: pagination.offset,
+            total: count ?? 0,
+          },
+        })
+      );
+    } catch (error) {
+      console.error('Error listing payments:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list payments'));
+    }
+  }
+);
+
+/**
+ * GET /api/invoices/:id/payments
+ * List payments recorded against an invoice
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/invoices/:id/payments',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Verify invoice exists
+      const { error: invoiceError } = await supabase
+        .from('invoices')
+        .select('id')
+        .eq('id', id)
+        .single<{ id: string }>();
+
+      if (invoiceError) {
+        if (invoiceError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Invoice not found'));
+          return;
+        }
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('invoice_id', id)
+        .order('payment_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error listing invoice payments:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list invoice payments'));
+    }
+  }
+);
+
+/**
+ * POST /api/invoices/:id/payments
+ * Record a (partial or full) payment against an invoice
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Validate invoice status is SENT or PARTIAL
+ * 2. Insert payments row with next payment_no
+ * 3. Apply up to the remaining balance: invoices.paid_amount, status, projects.paid_amount
+ * 4. Any overpayment is kept as a customer_credits row (payments.unapplied_amount)
+ * 5. Create audit_logs entry
+ */
+router.post(
+  '/api/invoices/:id/payments',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = recordPaymentSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Get invoice
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', id)
+        .single<Invoice>();
+
+      if (invoiceError) {
+        if (invoiceError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Invoice not found'));
+          return;
+        }
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Validate invoice status (must be SENT or PARTIAL)
+      if (invoiceData.status !== 'SENT' && invoiceData.status !== 'PARTIAL') {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Payments can only be recorded against SENT or PARTIAL invoices'
+            )
+          );
+        return;
+      }
+
+      const balanceDue = roundCurrency(
+        getInvoiceAmountDue(invoiceData) - Number(invoiceData.paid_amount)
+      );
+      const appliedAmount = Math.min(validatedData.amount, balanceDue);
+      const unappliedAmount = roundCurrency(validatedData.amount - appliedAmount);
+
+      // Overpayments become a credit on the customer's account
+      let customerId: string | null = null;
+      if (unappliedAmount > 0) {
+        customerId = await getInvoiceCustomerId(supabase, invoiceData);
+
+        if (!customerId) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'Payment amount exceeds invoice balance and no customer was found to credit',
+                { balance_due: balanceDue }
+              )
+            );
+          return;
+        }
+      }
+
+      // Get next payment number
+      const { paymentNo, error: paymentNoError } = await getNextPaymentNumber(supabase);
+
+      if (paymentNoError || !paymentNo) {
+        console.error('Error generating payment number:', paymentNoError);
+        res
+          .status(500)
+          .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate payment number'));
+        return;
+      }
+
+      // Insert payment
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          ...validatedData,
+          invoice_id: id,
+          payment_no: paymentNo,
+          status: 'APPLIED',
+          unapplied_amount: unappliedAmount,
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<Payment>();
+
+      if (paymentError) {
+        const apiError = translateDbError(paymentError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Update invoice paid_amount/status and roll up to the project
+      const { data: updatedInvoice, error: updateError } = await adjustInvoicePaidAmount(
+        supabase,
+        invoiceData,
+        appliedAmount,
+        req.employee!.id
+      );
+
+      if (updateError || !updatedInvoice) {
+        const apiError = translateDbError(updateError!);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Keep the overpayment as a customer credit
+      let credit: CustomerCredit | null = null;
+      if (customerId && unappliedAmount > 0) {
+        const { data: creditData, error: creditError } = await supabase
+          .from('customer_credits')
+          .insert({
+            customer_id: customerId,
+            source_payment_id: payment.id,
+            amount: unappliedAmount,
+            remaining_amount: unappliedAmount,
+            status: 'OPEN',
+            notes: `Overpayment on invoice ${invoiceData.invoice_no}`,
+            created_by: req.employee!.id,
+            updated_by: req.employee!.id,
+          })
+          .select()
+          .single<CustomerCredit>();
+
+        if (creditError) {
+          const apiError = translateDbError(creditError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        credit = creditData;
+      }
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: id,
+        action: 'PAYMENT_RECORDED',
+        actor_user_id: req.employee!.id,
+        before_data: {
+          status: invoiceData.status,
+          paid_amount: invoiceData.paid_amount,
+        },
+        after_data: {
+          status: updatedInvoice.status,
+          paid_amount: updatedInvoice.paid_amount,
+          payment_id: payment.id,
+          payment_no: payment.payment_no,
+          amount: payment.amount,
+          unapplied_amount: payment.unapplied_amount,
+          credit_id: credit?.id ?? null,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res.status(201).json(successResponse({ payment, invoice: updatedInvoice, credit }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error recording payment:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to record payment'));
+    }
+  }
+);
+
+/**
+ * Shared handler for voiding and refunding a payment
+ *
+ * Workflow:
+ * 1. Validate payment status is APPLIED
+ * 2. If the payment created a customer credit, it must not have been applied yet
+ * 3. Set payment status, reversed_at, reversed_by, reversal_reason
+ * 4. Unwind invoices.paid_amount/status and projects.paid_amount by the applied amount
+ * 5. Void the overpayment credit, if any
+ * 6. Create audit_logs entry
+ */
+async function reversePayment(
+  req: Request,
+  res: Response,
+  status: 'VOID' | 'REFUNDED'
+): Promise<void> {
+  const verb = status === 'VOID' ? 'void' : 'refund';
+
+  try {
+    const { id } = req.params;
+    const validatedData = reversePaymentSchema.parse(req.body);
+    const supabase = createServerClient();
+
+    // Get payment
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', id)
+      .single<Payment>();
+
+    if (paymentError) {
+      if (paymentError.code === 'PGRST116') {
+        res.status(404).json(errorResponse('NOT_FOUND', 'Payment not found'));
+        return;
+      }
+      const apiError = translateDbError(paymentError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    if (payment.status !== 'APPLIED') {
+      res
+        .status(400)
+        .json(
+          errorResponse('VALIDATION_ERROR', `Cannot ${verb} payment with status: ${payment.status}`)
+        );
+      return;
+    }
+
+    // An overpayment credit that has already been used elsewhere must be unwound first
+    let credit: CustomerCredit | null = null;
+    if (Number(payment.unapplied_amount) > 0) {
+      const { data: creditData, error: creditError } = await supabase
+        .from('customer_credits')
+        .select('*')
+        .eq('source_payment_id', payment.id)
+        .maybeSingle<CustomerCredit>();
+
+      if (creditError) {
+        const apiError = translateDbError(creditError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (creditData && Number(creditData.remaining_amount) < Number(creditData.amount)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'The credit from this payment has been applied to other invoices; reverse those applications first',
+              { credit_id: creditData.id }
+            )
+          );
+        return;
+      }
+
+      credit = creditData;
+    }
+
+    // Get invoice
+    const { data: invoiceData, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', payment.invoice_id)
+      .single<Invoice>();
+
+    if (invoiceError) {
+      const apiError = translateDbError(invoiceError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    // Update payment status
+    const { data: updatedPayment, error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status,
+        reversed_at: new Date().toISOString(),
+        reversed_by: req.employee!.id,
+        reversal_reason: validatedData.reason,
+        updated_by: req.employee!.id,
+      })
+      .eq('id', id)
+      .select()
+      .single<Payment>();
+
+    if (updateError) {
+      const apiError = translateDbError(updateError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    // Unwind invoice paid_amount/status and the project roll-up
+    const appliedAmount = roundCurrency(Number(payment.amount) - Number(payment.unapplied_amount));
+
+    const { data: updatedInvoice, error: invoiceUpdateError } = await adjustInvoicePaidAmount(
+      supabase,
+      invoiceData,
+      -appliedAmount,
+      req.employee!.id
+    );
+
+    if (invoiceUpdateError || !updatedInvoice) {
+      const apiError = translateDbError(invoiceUpdateError!);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    // Void the overpayment credit
+    if (credit) {
+      const { error: creditUpdateError } = await supabase
+        .from('customer_credits')
+        .update({
+          status: 'VOID',
+          remaining_amount: 0,
+          updated_by: req.employee!.id,
+        })
+        .eq('id', credit.id);
+
+      if (creditUpdateError) {
+        const apiError = translateDbError(creditUpdateError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+    }
+
+    // Create audit log
+    const { error: auditError } = await createAuditLog(supabase, {
+      entity_type: 'invoice',
+      entity_id: invoiceData.id,
+      action: status === 'VOID' ? 'PAYMENT_VOIDED' : 'PAYMENT_REFUNDED',
+      actor_user_id: req.employee!.id,
+      before_data: {
+        status: invoiceData.status,
+        paid_amount: invoiceData.paid_amount,
+      },
+      after_data: {
+        status: updatedInvoice.status,
+        paid_amount: updatedInvoice.paid_amount,
+        payment_id: payment.id,
+        payment_no: payment.payment_no,
+        amount: payment.amount,
+        credit_id: credit?.id ?? null,
+      },
+      notes: validatedData.reason,
+    });
+
+    if (auditError) {
+      console.error('Error creating audit log:', auditError);
+      // Don't fail the request if audit log fails
+    }
+
+    res.json(successResponse({ payment: updatedPayment, invoice: updatedInvoice }));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+      return;
+    }
+    console.error(`Error attempting to ${verb} payment:`, error);
+    res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', `Failed to ${verb} payment`));
+  }
+}
+
+/**
+ * POST /api/payments/:id/void
+ * Void a payment (e.g. bounced check) and unwind the invoice and project balances
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/payments/:id/void',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => reversePayment(req, res, 'VOID')
+);
+
+/**
+ * POST /api/payments/:id/refund
+ * Refund a payment to the customer and unwind the invoice and project balances
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/payments/:id/refund',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => reversePayment(req, res, 'REFUNDED')
+);
+
+export default router;
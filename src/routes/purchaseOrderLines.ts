@@ -14,6 +14,7 @@ import {
 import { PurchaseOrder, PurchaseOrderLine } from '@/types/database.js';
 import { ZodError } from 'zod';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
 
 const router = Router();
 
@@ -223,6 +224,9 @@ router.post(
       // Recalculate PO totals
       await recalculatePurchaseOrderTotals(supabase, id);
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'purchase_order', id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -346,6 +350,9 @@ router.patch(
       // Recalculate PO totals
       await recalculatePurchaseOrderTotals(supabase, currentLine.po_id);
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'purchase_order', currentLine.po_id);
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -444,6 +451,9 @@ router.delete(
       // Recalculate PO totals
       await recalculatePurchaseOrderTotals(supabase, currentLine.po_id);
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'purchase_order', currentLine.po_id);
+
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting purchase order line:', error);
@@ -0,0 +1,169 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { generatePurchaseOrdersSchema } from '@/validations/reorderSuggestion.js';
+import { ReorderSuggestion } from '@/types/database.js';
+import { createPurchaseOrdersFromSuggestions } from '@/services/reorderSuggestions.js';
+import { enqueueJob } from '@/services/jobQueue.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * GET /api/purchase-orders/suggestions
+ * List parts at or below their reorder point (counting stock on open purchase orders)
+ * with the quantity to order, grouped by preferred vendor
+ * The list is rebuilt nightly by the reorder_suggestions_refresh job, which the worker
+ * starts when it boots; generated_at shows when.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/purchase-orders/suggestions',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('reorder_suggestions')
+        .select('*, part:parts(id, sku, name, uom)')
+        .order('vendor_name', { ascending: true, nullsFirst: false })
+        .returns<ReorderSuggestion[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const suggestions = data ?? [];
+      const vendors = new Map<
+        string,
+        { vendor_id: string | null; vendor_name: string | null; line_count: number; total: number }
+      >();
+
+      for (const suggestion of suggestions) {
+        const key = suggestion.vendor_id ?? '';
+        const vendor = vendors.get(key) ?? {
+          vendor_id: suggestion.vendor_id,
+          vendor_name: suggestion.vendor_name,
+          line_count: 0,
+          total: 0,
+        };
+        vendor.line_count++;
+        vendor.total = roundCurrency(
+          vendor.total + suggestion.suggested_qty * suggestion.unit_cost
+        );
+        vendors.set(key, vendor);
+      }
+
+      res.json(
+        successResponse({
+          generated_at: suggestions.length > 0 ? suggestions[0].generated_at : null,
+          vendors: Array.from(vendors.values()),
+          suggestions,
+        })
+      );
+    } catch (error) {
+      console.error('Error listing reorder suggestions:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list reorder suggestions'));
+    }
+  }
+);
+
+/**
+ * POST /api/purchase-orders/suggestions
+ * Generate DRAFT purchase orders from current reorder suggestions, one per vendor
+ * Suggestions are recalculated first. Parts without a preferred vendor are skipped and
+ * returned in skipped_part_ids.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/purchase-orders/suggestions',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = generatePurchaseOrdersSchema.parse(req.body ?? {});
+      const supabase = createServerClient();
+
+      const { data, error } = await createPurchaseOrdersFromSuggestions(
+        supabase,
+        validatedData.part_ids,
+        req.employee!.id
+      );
+
+      if (error) {
+        res.status(error.statusCode).json(errorResponse(error.code, error.message, error.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error generating purchase orders:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate purchase orders'));
+    }
+  }
+);
+
+/**
+ * POST /api/purchase-orders/suggestions/refresh
+ * Queue a rebuild of the reorder suggestion list
+ * The job also keeps the nightly refresh schedule going.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/purchase-orders/suggestions/refresh',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+
+      // Pin requested_at so the run is not mistaken for the already scheduled nightly one
+      const { data, error } = await enqueueJob(supabase, 'reorder_suggestions_refresh', {
+        requested_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        console.error('Error enqueueing reorder suggestions refresh:', error);
+        res
+          .status(500)
+          .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to queue suggestions refresh'));
+        return;
+      }
+
+      res.status(202).json(successResponse({ job: data, already_queued: data === null }));
+    } catch (error) {
+      console.error('Error queueing reorder suggestions refresh:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to queue suggestions refresh'));
+    }
+  }
+);
+
+export default router;
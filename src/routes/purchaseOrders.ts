@@ -16,29 +16,26 @@ import {
 import { receivePurchaseOrderSchema } from '@/validations/receive.js';
 import { PurchaseOrder, PurchaseOrderLine, Part } from '@/types/database.js';
 import { ZodError } from 'zod';
-import { SupabaseClient } from '@supabase/supabase-js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+import {
+  PreparedDocumentEmail,
+  prepareDocumentEmail,
+  queueDocumentEmail,
+} from '@/services/documents/email.js';
+import {
+  adjustStock,
+  getActiveStockLocation,
+  getDefaultStockLocationId,
+} from '@/services/inventoryStock.js';
+import { sendDocumentSchema } from '@/validations/documentEmail.js';
+import { getNextPurchaseOrderNumber } from '@/services/purchaseOrders.js';
+import { getActiveVendor } from '@/services/vendors.js';
 
 const router = Router();
 
-/**
- * Helper function to get next purchase order number from database
- */
-async function getNextPurchaseOrderNumber(
-  supabase: SupabaseClient
-): Promise<{ poNo: string | null; error: unknown }> {
-  const result = await supabase.rpc('get_next_number', {
-    p_kind: 'purchase_order',
-  });
-
-  return {
-    poNo: typeof result.data === 'string' ? result.data : null,
-    error: result.error,
-  };
-}
-
 /**
  * GET /api/purchase-orders
- * List purchase orders with filters and pagination
+ * List purchase orders with filters and pagination (?vendor_id=, ?vendor_name=, ?status=)
  * TECH role: read-only access
  * OFFICE/ADMIN: full access
  */
@@ -62,6 +59,8 @@ router.get(
       );
 
       // Parse filter params
+      const vendorId =
+        typeof req.query.vendor_id === 'string' ? req.query.vendor_id : undefined;
       const vendorName =
         typeof req.query.vendor_name === 'string'
           ? req.query.vendor_name
@@ -73,6 +72,9 @@ router.get(
       let query = supabase.from('purchase_orders').select('*', { count: 'exact' });
 
       // Apply filters
+      if (vendorId) {
+        query = query.eq('vendor_id', vendorId);
+      }
       if (vendorName) {
         query = query.ilike('vendor_name', `%${vendorName}%`);
       }
@@ -123,7 +125,8 @@ router.get(
 
 /**
  * POST /api/purchase-orders
- * Create a new purchase order
+ * Create a new purchase order for a vendor (vendor_id) or a free-text vendor_name
+ * With vendor_id the vendor's name is copied to vendor_name.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -139,6 +142,22 @@ router.post(
 
       const supabase = createServerClient();
 
+      if (validatedData.vendor_id) {
+        const { data: vendor, error: vendorError } = await getActiveVendor(
+          supabase,
+          validatedData.vendor_id
+        );
+
+        if (vendorError) {
+          res
+            .status(vendorError.statusCode)
+            .json(errorResponse(vendorError.code, vendorError.message, vendorError.details));
+          return;
+        }
+
+        validatedData.vendor_name = vendor!.name;
+      }
+
       // Call DB function to get next purchase order number
       const { poNo, error: numberError } =
         await getNextPurchaseOrderNumber(supabase);
@@ -177,6 +196,9 @@ router.post(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'purchase_order', data.id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -266,6 +288,7 @@ router.get(
 /**
  * PATCH /api/purchase-orders/:id
  * Update a purchase order (only if DRAFT)
+ * Setting vendor_id copies the vendor's name to vendor_name; null unlinks the vendor.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -326,6 +349,22 @@ router.patch(
         return;
       }
 
+      if (validatedData.vendor_id) {
+        const { data: vendor, error: vendorError } = await getActiveVendor(
+          supabase,
+          validatedData.vendor_id
+        );
+
+        if (vendorError) {
+          res
+            .status(vendorError.statusCode)
+            .json(errorResponse(vendorError.code, vendorError.message, vendorError.details));
+          return;
+        }
+
+        validatedData.vendor_name = vendor!.name;
+      }
+
       // Prepare update data
       const updateData: Record<string, unknown> = {
         ...validatedData,
@@ -348,6 +387,9 @@ router.patch(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'purchase_order', id);
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -368,7 +410,10 @@ router.patch(
 
 /**
  * POST /api/purchase-orders/:id/send
- * Set purchase order status to SENT
+ * Set purchase order status to SENT and queue an email to the vendor with the PDF attached
+ * Body (optional): to (defaults to the linked vendor's email), cc, subject, message, send_email
+ * Without send_email, a purchase order with no recipient on file is sent without an email and
+ * the response carries meta.warning; send_email: true returns 400 instead.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -381,6 +426,7 @@ router.post(
     try {
       const { id } = req.params;
       const supabase = createServerClient();
+      const validatedData = sendDocumentSchema.parse(req.body ?? {});
 
       // Get current purchase order
       const { data: currentPO, error: fetchError } = await supabase
@@ -414,6 +460,42 @@ router.post(
         return;
       }
 
+      // Resolve recipients before changing status so a missing email can be fixed first
+      let email: PreparedDocumentEmail | null = null;
+      let warning: string | null = null;
+      if (validatedData.send_email !== false) {
+        const { data: prepared, error: prepareError } = await prepareDocumentEmail(
+          supabase,
+          'purchase_order',
+          id,
+          validatedData
+        );
+
+        if (prepareError || !prepared) {
+          console.error('Error preparing purchase order email:', prepareError);
+          res.status(500).json(
+            errorResponse('INTERNAL_SERVER_ERROR', 'Failed to prepare purchase order email')
+          );
+          return;
+        }
+
+        if (prepared.to.length === 0) {
+          if (validatedData.send_email) {
+            res.status(400).json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'No recipient email on file; provide "to" or set send_email to false'
+              )
+            );
+            return;
+          }
+          // Email wasn't asked for explicitly, so send without it and say so
+          warning = 'No recipient email on file; status changed without emailing';
+        } else {
+          email = prepared;
+        }
+      }
+
       // Update status to SENT
       const { data, error } = await supabase
         .from('purchase_orders')
@@ -433,8 +515,33 @@ router.post(
         return;
       }
 
-      res.json(successResponse(data));
+      // Queue email delivery (the worker renders the PDF it attaches)
+      if (email) {
+        const { error: emailError } = await queueDocumentEmail(
+          supabase,
+          'purchase_order',
+          id,
+          email,
+          req.employee!.id
+        );
+
+        if (emailError) {
+          console.error('Error queueing purchase order email:', emailError);
+          // Don't fail the request, the email can be resent
+        }
+      } else {
+        // Queue PDF re-render
+        await queueDocumentPdf(supabase, 'purchase_order', id);
+      }
+
+      res.json(successResponse(data, warning ? { warning } : undefined));
     } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
       console.error('Error sending purchase order:', error);
       res
         .status(500)
@@ -448,6 +555,8 @@ router.post(
 /**
  * POST /api/purchase-orders/:id/receive
  * Mark items as received, update inventory
+ * Stock goes into stock_location_id, or the default stock location from settings.
+ * Each inventoried line updates the part's moving average cost and last_cost.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -497,6 +606,21 @@ router.post(
         return;
       }
 
+      // Stock location the inventoried parts go into
+      const stockLocationId =
+        validatedData.stock_location_id ?? (await getDefaultStockLocationId(supabase));
+
+      if (stockLocationId) {
+        const { error: locationError } = await getActiveStockLocation(supabase, stockLocationId);
+
+        if (locationError) {
+          res.status(locationError.statusCode).json(
+            errorResponse(locationError.code, locationError.message, locationError.details)
+          );
+          return;
+        }
+      }
+
       // Process each line
       for (const receiveLine of validatedData.lines) {
         // Get the purchase order line
@@ -538,9 +662,9 @@ router.post(
         if (line.part_id) {
           const { data: part, error: partError } = await supabase
             .from('parts')
-            .select('is_inventoried, qty_on_hand')
+            .select('is_inventoried')
             .eq('id', line.part_id)
-            .single<Pick<Part, 'is_inventoried' | 'qty_on_hand'>>();
+            .single<Pick<Part, 'is_inventoried'>>();
 
           if (partError) {
             const apiError = translateDbError(partError);
@@ -562,6 +686,7 @@ router.post(
                 txn_date: new Date().toISOString().split('T')[0],
                 reference_type: 'purchase_order',
                 reference_id: id,
+                stock_location_id: stockLocationId,
               });
 
             if (txnError) {
@@ -572,19 +697,18 @@ router.post(
               return;
             }
 
-            // Update parts.qty_on_hand
-            const newQtyOnHand = Number(part.qty_on_hand) + receiveLine.qty_received;
-            const { error: updatePartError } = await supabase
-              .from('parts')
-              .update({
-                qty_on_hand: newQtyOnHand,
-              })
-              .eq('id', line.part_id);
-
-            if (updatePartError) {
-              const apiError = translateDbError(updatePartError);
-              res.status(apiError.statusCode).json(
-                errorResponse(apiError.code, apiError.message, apiError.details)
+            // Update parts.qty_on_hand, the location's stock and the part's costs
+            const { error: stockError } = await adjustStock(
+              supabase,
+              line.part_id,
+              stockLocationId,
+              receiveLine.qty_received,
+              { unit_cost: Number(line.unit_price), set_last_cost: true }
+            );
+
+            if (stockError) {
+              res.status(stockError.statusCode).json(
+                errorResponse(stockError.code, stockError.message, stockError.details)
               );
               return;
             }
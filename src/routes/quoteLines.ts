@@ -8,6 +8,7 @@ import { createQuoteLineSchema, updateQuoteLineSchema } from '@/validations/quot
 import { QuoteLine } from '@/types/database.js';
 import { ZodError } from 'zod';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
 
 const router = Router();
 
@@ -259,6 +260,9 @@ router.post(
         // Don't fail the request, just log the error
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'quote', id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -372,6 +376,9 @@ router.patch(
         // Don't fail the request, just log the error
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'quote', lineData.quote_id);
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -457,6 +464,9 @@ router.delete(
         // Don't fail the request, just log the error
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'quote', quoteId);
+
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting quote line:', error);
@@ -4,11 +4,28 @@ import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
-import { createQuoteSchema, updateQuoteSchema } from '@/validations/quote.js';
-import { Quote, QuoteLine } from '@/types/database.js';
+import {
+  createQuoteSchema,
+  updateQuoteSchema,
+  createQuoteInvoiceSchema,
+} from '@/validations/quote.js';
+import { Invoice, InvoiceLine, Quote, QuoteLine } from '@/types/database.js';
 import { ZodError } from 'zod';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { createAuditLog } from '@/services/auditLog.js';
+import {
+  computeQuoteInvoiceLineAmounts,
+  getNextInvoiceNumber,
+  recalculateInvoiceTotals,
+} from '@/services/invoices.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+import {
+  PreparedDocumentEmail,
+  prepareDocumentEmail,
+  queueDocumentEmail,
+} from '@/services/documents/email.js';
+import { sendDocumentSchema } from '@/validations/documentEmail.js';
 
 const router = Router();
 
@@ -200,6 +217,9 @@ router.post(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'quote', data.id);
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -359,6 +379,9 @@ router.patch(
         return;
       }
 
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'quote', id);
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -377,7 +400,10 @@ router.patch(
 
 /**
  * POST /api/quotes/:id/send
- * Set quote status to SENT
+ * Set quote status to SENT and queue an email to the customer with the PDF attached
+ * Body (optional): to, cc, subject, message, send_email
+ * Without send_email, a document with no recipient on file is sent without an email and the
+ * response carries meta.warning; send_email: true returns 400 instead.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -390,6 +416,7 @@ router.post(
     try {
       const { id } = req.params;
       const supabase = createServerClient();
+      const validatedData = sendDocumentSchema.parse(req.body ?? {});
 
       // Check if quote exists and is DRAFT
       const { data: existingQuoteData, error: fetchError } = await supabase
@@ -419,6 +446,42 @@ router.post(
         return;
       }
 
+      // Resolve recipients before changing status so a missing email can be fixed first
+      let email: PreparedDocumentEmail | null = null;
+      let warning: string | null = null;
+      if (validatedData.send_email !== false) {
+        const { data: prepared, error: prepareError } = await prepareDocumentEmail(
+          supabase,
+          'quote',
+          id,
+          validatedData
+        );
+
+        if (prepareError || !prepared) {
+          console.error('Error preparing quote email:', prepareError);
+          res.status(500).json(
+            errorResponse('INTERNAL_SERVER_ERROR', 'Failed to prepare quote email')
+          );
+          return;
+        }
+
+        if (prepared.to.length === 0) {
+          if (validatedData.send_email) {
+            res.status(400).json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'No recipient email on file; provide "to" or set send_email to false'
+              )
+            );
+            return;
+          }
+          // Email wasn't asked for explicitly, so send without it and say so
+          warning = 'No recipient email on file; status changed without emailing';
+        } else {
+          email = prepared;
+        }
+      }
+
       // Update quote status to SENT
       const { data, error } = await supabase
         .from('quotes')
@@ -438,8 +501,33 @@ router.post(
         return;
       }
 
-      res.json(successResponse(data));
+      // Queue email delivery (the worker renders the PDF it attaches)
+      if (email) {
+        const { error: emailError } = await queueDocumentEmail(
+          supabase,
+          'quote',
+          id,
+          email,
+          req.employee!.id
+        );
+
+        if (emailError) {
+          console.error('Error queueing quote email:', emailError);
+          // Don't fail the request, the email can be resent
+        }
+      } else {
+        // Queue PDF re-render
+        await queueDocumentPdf(supabase, 'quote', id);
+      }
+
+      res.json(successResponse(data, warning ? { warning } : undefined));
     } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
       console.error('Error sending quote:', error);
       res.status(500).json(
         errorResponse('INTERNAL_SERVER_ERROR', 'Failed to send quote')
@@ -613,4 +701,365 @@ router.post(
   }
 );
 
+/**
+ * GET /api/quotes/:id/invoices
+ * List invoices generated from a quote
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: full access (allowed)
+ */
+router.get(
+  '/api/quotes/:id/invoices',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Verify quote exists
+      const { error: quoteError } = await supabase
+        .from('quotes')
+        .select('id')
+        .eq('id', id)
+        .single();
+
+      if (quoteError) {
+        if (quoteError.code === 'PGRST116') {
+          res.status(404).json(
+            errorResponse('NOT_FOUND', 'Quote not found')
+          );
+          return;
+        }
+        const apiError = translateDbError(quoteError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('source_quote_id', id)
+        .order('created_at', { ascending: true })
+        .returns<Invoice[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error fetching quote invoices:', error);
+      res.status(500).json(
+        errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch quote invoices')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/quotes/:id/invoice
+ * Generate a DRAFT invoice from an accepted quote
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Verify quote is ACCEPTED and its work order has not been invoiced outside the quote
+ * 2. Work out the percentage to bill: deposit_percent for DEPOSIT, the unbilled
+ *    remainder (100 less non-void invoices from this quote) for FULL
+ * 3. Insert invoice on the quote's project or work order, reusing its tax_rule_id
+ *    and tax_rate_snapshot, and linked back via source_quote_id
+ * 4. Copy quote_lines; a partial invoice bills each line as a lump sum of its share of
+ *    the line total, and FULL bills the quote subtotal less earlier invoices exactly
+ * 5. Recalculate totals and create audit_logs entry
+ */
+router.post(
+  '/api/quotes/:id/invoice',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = createQuoteInvoiceSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Get quote
+      const { data: quoteData, error: quoteError } = await supabase
+        .from('quotes')
+        .select('*')
+        .eq('id', id)
+        .single<Quote>();
+
+      if (quoteError) {
+        if (quoteError.code === 'PGRST116') {
+          res.status(404).json(
+            errorResponse('NOT_FOUND', 'Quote not found')
+          );
+          return;
+        }
+        const apiError = translateDbError(quoteError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (quoteData.status !== 'ACCEPTED') {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Only ACCEPTED quotes can be invoiced')
+        );
+        return;
+      }
+
+      // Work the quote covers may already be billed from the work order itself
+      if (quoteData.work_order_id) {
+        const { data: workOrderInvoices, error: workOrderInvoicesError } = await supabase
+          .from('invoices')
+          .select('id, invoice_no')
+          .eq('work_order_id', quoteData.work_order_id)
+          .is('source_quote_id', null)
+          .neq('status', 'VOID')
+          .limit(1)
+          .returns<Pick<Invoice, 'id' | 'invoice_no'>[]>();
+
+        if (workOrderInvoicesError) {
+          const apiError = translateDbError(workOrderInvoicesError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        if (workOrderInvoices && workOrderInvoices.length > 0) {
+          res.status(400).json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Work order has already been invoiced; void that invoice before invoicing the quote',
+              {
+                invoice_id: workOrderInvoices[0].id,
+                invoice_no: workOrderInvoices[0].invoice_no,
+              }
+            )
+          );
+          return;
+        }
+      }
+
+      // Percentage and amount already billed by non-void invoices from this quote
+      const { data: priorInvoices, error: priorError } = await supabase
+        .from('invoices')
+        .select('source_quote_percent, subtotal')
+        .eq('source_quote_id', id)
+        .neq('status', 'VOID')
+        .returns<Pick<Invoice, 'source_quote_percent' | 'subtotal'>[]>();
+
+      if (priorError) {
+        const apiError = translateDbError(priorError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const billedPercent = (priorInvoices || []).reduce(
+        (sum, invoice) => sum + Number(invoice.source_quote_percent ?? 0),
+        0
+      );
+      const remainingPercent = roundCurrency(100 - billedPercent);
+
+      const percent =
+        validatedData.billing === 'DEPOSIT'
+          ? validatedData.deposit_percent!
+          : remainingPercent;
+
+      if (percent <= 0 || percent > remainingPercent) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            remainingPercent <= 0
+              ? 'Quote has already been fully invoiced'
+              : 'Deposit exceeds the unbilled percentage of the quote',
+            { billed_percent: roundCurrency(billedPercent), remaining_percent: remainingPercent }
+          )
+        );
+        return;
+      }
+
+      // Get quote lines
+      const { data: quoteLines, error: linesError } = await supabase
+        .from('quote_lines')
+        .select('*')
+        .eq('quote_id', id)
+        .order('line_no', { ascending: true })
+        .returns<QuoteLine[]>();
+
+      if (linesError) {
+        const apiError = translateDbError(linesError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (!quoteLines || quoteLines.length === 0) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Quote has no lines to invoice')
+        );
+        return;
+      }
+
+      // Call DB function to get next invoice number
+      const { invoiceNo, error: numberError } = await getNextInvoiceNumber(supabase);
+
+      if (numberError || !invoiceNo) {
+        console.error('Error generating invoice number:', numberError);
+        res.status(500).json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate invoice number')
+        );
+        return;
+      }
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .insert({
+          project_id: quoteData.project_id,
+          work_order_id: quoteData.work_order_id,
+          invoice_type: quoteData.quote_type === 'CHANGE_ORDER' ? 'CHANGE_ORDER' : 'STANDARD',
+          invoice_date: validatedData.invoice_date,
+          due_date: validatedData.due_date,
+          tax_rule_id: quoteData.tax_rule_id,
+          tax_rate_snapshot: quoteData.tax_rate_snapshot,
+          source_quote_id: id,
+          source_quote_percent: percent,
+          invoice_no: invoiceNo,
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<Invoice>();
+
+      if (invoiceError) {
+        const apiError = translateDbError(invoiceError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const isPartial = percent !== 100;
+      let lineAmounts: number[] = [];
+      if (isPartial) {
+        const quoteSubtotal = quoteLines.reduce(
+          (sum, line) => sum + Number(line.qty) * Number(line.unit_price),
+          0
+        );
+        const billedAmount = (priorInvoices || []).reduce(
+          (sum, invoice) => sum + Number(invoice.subtotal),
+          0
+        );
+        lineAmounts = computeQuoteInvoiceLineAmounts(
+          quoteLines,
+          percent,
+          validatedData.billing === 'FULL'
+            ? roundCurrency(quoteSubtotal - billedAmount)
+            : undefined
+        );
+      }
+
+      const { error: invoiceLinesError } = await supabase
+        .from('invoice_lines')
+        .insert(
+          quoteLines.map((line, index) => ({
+            invoice_id: invoice.id,
+            line_no: index + 1,
+            part_id: line.part_id,
+            description: isPartial
+              ? `${line.description} (${percent}% of quote ${quoteData.quote_no})`
+              : line.description,
+            uom: isPartial ? 'LS' : line.uom,
+            qty: isPartial ? 1 : line.qty,
+            unit_price: isPartial ? lineAmounts[index] : line.unit_price,
+            is_taxable: line.is_taxable,
+          }))
+        );
+
+      if (invoiceLinesError) {
+        // Rollback: delete the empty invoice
+        await supabase.from('invoices').delete().eq('id', invoice.id);
+
+        const apiError = translateDbError(invoiceLinesError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const { success, error: recalcError } = await recalculateInvoiceTotals(
+        supabase,
+        invoice.id
+      );
+      if (!success) {
+        console.error('Error recalculating invoice totals:', recalcError);
+        // Don't fail the request, just log the error
+      }
+
+      const { data: updatedInvoice } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoice.id)
+        .single<Invoice>();
+
+      const { data: invoiceLines } = await supabase
+        .from('invoice_lines')
+        .select('*')
+        .eq('invoice_id', invoice.id)
+        .order('line_no', { ascending: true })
+        .returns<InvoiceLine[]>();
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: invoice.id,
+        action: 'QUOTE_INVOICE_GENERATED',
+        actor_user_id: req.employee!.id,
+        after_data: {
+          quote_id: id,
+          quote_no: quoteData.quote_no,
+          billing: validatedData.billing,
+          percent,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', invoice.id);
+
+      res.status(201).json(
+        successResponse({ ...(updatedInvoice ?? invoice), lines: invoiceLines || [] })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error generating quote invoice:', error);
+      res.status(500).json(
+        errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate quote invoice')
+      );
+    }
+  }
+);
+
 export default router;
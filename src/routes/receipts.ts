@@ -19,6 +19,7 @@ import {
 import { Receipt } from '@/types/database.js';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/services/auditLog.js';
+import { getActiveVendor } from '@/services/vendors.js';
 
 const router = Router();
 
@@ -31,7 +32,7 @@ function isWorkOrderAllocation(
 
 /**
  * GET /api/receipts
- * List receipts with filters and pagination
+ * List receipts with filters and pagination (?work_order_id=, ?vendor_id=, ?vendor_name=)
  * TECH role: read-only access
  * OFFICE/ADMIN: full access
  */
@@ -63,6 +64,8 @@ router.get(
         typeof req.query.work_order_id === 'string'
           ? req.query.work_order_id
           : undefined;
+      const vendorId =
+        typeof req.query.vendor_id === 'string' ? req.query.vendor_id : undefined;
       const vendorName =
         typeof req.query.vendor_name === 'string'
           ? req.query.vendor_name
@@ -78,6 +81,9 @@ router.get(
       if (workOrderId) {
         query = query.eq('allocated_to_work_order_id', workOrderId);
       }
+      if (vendorId) {
+        query = query.eq('vendor_id', vendorId);
+      }
       if (vendorName) {
         query = query.ilike('vendor_name', `%${vendorName}%`);
       }
@@ -126,6 +132,7 @@ router.get(
 /**
  * POST /api/receipts
  * Create a new receipt
+ * With vendor_id the vendor's name is copied to vendor_name.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -141,6 +148,22 @@ router.post(
 
       const supabase = createServerClient();
 
+      if (validatedData.vendor_id) {
+        const { data: vendor, error: vendorError } = await getActiveVendor(
+          supabase,
+          validatedData.vendor_id
+        );
+
+        if (vendorError) {
+          res
+            .status(vendorError.statusCode)
+            .json(errorResponse(vendorError.code, vendorError.message, vendorError.details));
+          return;
+        }
+
+        validatedData.vendor_name = vendor!.name;
+      }
+
       // Insert receipt
       const { data, error } = await supabase
         .from('receipts')
@@ -233,6 +256,7 @@ router.get(
 /**
  * PATCH /api/receipts/:id
  * Update a receipt (only if not allocated)
+ * Setting vendor_id copies the vendor's name to vendor_name; null unlinks the vendor.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -293,6 +317,22 @@ router.patch(
         return;
       }
 
+      if (validatedData.vendor_id) {
+        const { data: vendor, error: vendorError } = await getActiveVendor(
+          supabase,
+          validatedData.vendor_id
+        );
+
+        if (vendorError) {
+          res
+            .status(vendorError.statusCode)
+            .json(errorResponse(vendorError.code, vendorError.message, vendorError.details));
+          return;
+        }
+
+        validatedData.vendor_name = vendor!.name;
+      }
+
       // Update receipt
       const { data, error } = await supabase
         .from('receipts')
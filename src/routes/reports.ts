@@ -5,10 +5,72 @@ import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
 import { reportQuerySchema, dateRangeSchema } from '@/validations/reports.js';
+import { WorkOrder } from '@/types/database.js';
 import { ZodError } from 'zod';
+import {
+  getCrewAssignments,
+  getTechWorkOrderIds,
+  techHasAccessToWorkOrder,
+  techWorkOrderFilter,
+} from '@/services/workOrderAssignments.js';
 
 const router = Router();
 
+/**
+ * Completed work order counts for a tech over a date range
+ * A work order counts once per tech, as led when they're assigned_to or the crew LEAD and
+ * as helped otherwise.
+ */
+async function getCompletedWorkOrderStats(
+  supabase: ReturnType<typeof createServerClient>,
+  techId: string,
+  dateFrom: string,
+  dateTo: string
+): Promise<{
+  work_orders_completed: number;
+  work_orders_led: number;
+  work_orders_helped: number;
+  avg_completion_time: number;
+}> {
+  const { data: crew } = await getCrewAssignments(supabase, techId);
+  const crewRoles = new Map((crew || []).map((a) => [a.work_order_id, a.role]));
+
+  const { data: completedWOs } = await supabase
+    .from('work_orders')
+    .select('id, assigned_to, opened_at, completed_at')
+    .or(techWorkOrderFilter(techId, Array.from(crewRoles.keys())))
+    .eq('status', 'COMPLETED')
+    .gte('completed_at', dateFrom)
+    .lte('completed_at', dateTo)
+    .not('completed_at', 'is', null)
+    .returns<Pick<WorkOrder, 'id' | 'assigned_to' | 'opened_at' | 'completed_at'>[]>();
+
+  const workOrders = completedWOs || [];
+  let led = 0;
+  let totalCompletionHours = 0;
+
+  workOrders.forEach((wo) => {
+    if (wo.assigned_to === techId || crewRoles.get(wo.id) === 'LEAD') {
+      led++;
+    }
+    if (wo.opened_at && wo.completed_at) {
+      const opened = new Date(wo.opened_at).getTime();
+      const completed = new Date(wo.completed_at).getTime();
+      totalCompletionHours += (completed - opened) / (1000 * 60 * 60);
+    }
+  });
+
+  const avgCompletionTime =
+    workOrders.length > 0 ? totalCompletionHours / workOrders.length : 0;
+
+  return {
+    work_orders_completed: workOrders.length,
+    work_orders_led: led,
+    work_orders_helped: workOrders.length - led,
+    avg_completion_time: Math.round(avgCompletionTime * 100) / 100,
+  };
+}
+
 /**
  * GET /api/reports/projects
  * Project list with financial summary
@@ -104,7 +166,7 @@ router.get(
       // Get project details
       const { data: project, error: projectError } = await supabase
         .from('projects')
-        .select('id, project_no, name, status, contract_amount, base_contract_amount, change_order_amount')
+        .select('id, project_no, name, status, contract_amount, base_contract_amount, change_order_amount, retainage_percent, retainage_held')
         .eq('id', id)
         .single();
 
@@ -116,9 +178,11 @@ router.get(
       }
 
       // Get invoice summary
+      // Retainage withheld is tracked separately from ordinary AR: outstanding_amount
+      // only counts what is currently due, retainage_receivable what is held back
       const { data: invoices } = await supabase
         .from('invoices')
-        .select('status, total_amount')
+        .select('status, invoice_type, total_amount, retainage_amount, paid_amount')
         .eq('project_id', id);
 
       let invoicedAmount = 0;
@@ -127,13 +191,19 @@ router.get(
 
       invoices?.forEach((inv) => {
         const amount = Number(inv.total_amount || 0);
-        if (inv.status === 'SENT' || inv.status === 'PAID') {
+        const amountDue = amount - Number(inv.retainage_amount || 0);
+        const paid = Number(inv.paid_amount || 0);
+        const isIssued = inv.status === 'SENT' || inv.status === 'PARTIAL' || inv.status === 'PAID';
+
+        // Release invoices re-bill retainage already counted when it was withheld
+        if (isIssued && inv.invoice_type !== 'RETAINAGE_RELEASE') {
           invoicedAmount += amount;
         }
-        if (inv.status === 'PAID') {
-          paidAmount += amount;
-        } else if (inv.status === 'SENT') {
-          outstandingAmount += amount;
+        if (isIssued) {
+          paidAmount += paid;
+        }
+        if (inv.status === 'SENT' || inv.status === 'PARTIAL') {
+          outstandingAmount += amountDue - paid;
         }
       });
 
@@ -160,7 +230,9 @@ router.get(
           change_order_amount: Number(project.change_order_amount || 0),
           invoiced_amount: invoicedAmount,
           paid_amount: paidAmount,
-          outstanding_amount: outstandingAmount,
+          outstanding_amount: Math.round(outstandingAmount * 100) / 100,
+          retainage_percent: Number(project.retainage_percent || 0),
+          retainage_receivable: Number(project.retainage_held || 0),
           total_cost: totalCost,
           margin,
           margin_percent: Math.round(marginPercent * 100) / 100,
@@ -372,8 +444,9 @@ router.get(
 
       // Apply role-based filtering
       if (req.employee?.role === 'TECH') {
-        // TECH can only see their assigned work orders
-        query = query.eq('assigned_to', req.employee.id);
+        // TECH can only see work orders they lead, crew or are scheduled for
+        const techWorkOrderIds = await getTechWorkOrderIds(supabase, req.employee.id);
+        query = query.or(techWorkOrderFilter(req.employee.id, techWorkOrderIds));
       }
 
       // Apply filters
@@ -384,7 +457,8 @@ router.get(
         query = query.eq('status', queryParams.status);
       }
       if (queryParams.tech_id && req.employee?.role !== 'TECH') {
-        query = query.eq('assigned_to', queryParams.tech_id);
+        const techWorkOrderIds = await getTechWorkOrderIds(supabase, queryParams.tech_id);
+        query = query.or(techWorkOrderFilter(queryParams.tech_id, techWorkOrderIds));
       }
       if (queryParams.date_from) {
         query = query.gte('opened_at', queryParams.date_from);
@@ -478,7 +552,15 @@ router.get(
       }
 
       // Check access for TECH role
-      if (req.employee?.role === 'TECH' && workOrder.assigned_to !== req.employee.id) {
+      if (
+        req.employee?.role === 'TECH' &&
+        !(await techHasAccessToWorkOrder(
+          supabase,
+          id,
+          req.employee.id,
+          workOrder.assigned_to as string | null
+        ))
+      ) {
         res.status(403).json(
           errorResponse('FORBIDDEN', 'Access denied')
         );
@@ -552,7 +634,7 @@ router.get(
 
 /**
  * GET /api/reports/tech-productivity
- * Tech hours worked, jobs completed
+ * Tech hours worked, jobs completed (split into led and helped by crew role)
  * Query params: date_from, date_to (required or defaults to current month)
  * OFFICE/ADMIN: full access
  * TECH: can only view their own productivity
@@ -632,45 +714,20 @@ router.get(
             }
           });
 
-          // Get completed work orders
-          const { count: completedCount } = await supabase
-            .from('work_orders')
-            .select('*', { count: 'exact', head: true })
-            .eq('assigned_to', tech.id)
-            .eq('status', 'COMPLETED')
-            .gte('completed_at', dateFrom)
-            .lte('completed_at', dateTo);
-
-          // Calculate average completion time
-          const { data: completedWOs } = await supabase
-            .from('work_orders')
-            .select('opened_at, completed_at')
-            .eq('assigned_to', tech.id)
-            .eq('status', 'COMPLETED')
-            .gte('completed_at', dateFrom)
-            .lte('completed_at', dateTo)
-            .not('completed_at', 'is', null);
-
-          let avgCompletionTime = 0;
-          if (completedWOs && completedWOs.length > 0) {
-            const totalCompletionHours = completedWOs.reduce((sum, wo) => {
-              if (wo.opened_at && wo.completed_at) {
-                const opened = new Date(String(wo.opened_at)).getTime();
-                const completed = new Date(String(wo.completed_at)).getTime();
-                return sum + (completed - opened) / (1000 * 60 * 60);
-              }
-              return sum;
-            }, 0);
-            avgCompletionTime = totalCompletionHours / completedWOs.length;
-          }
+          // Completed work orders the tech led or helped on
+          const completed = await getCompletedWorkOrderStats(
+            supabase,
+            String(tech.id),
+            dateFrom,
+            dateTo
+          );
 
           return {
             tech_id: String(tech.id),
             tech_name: String(tech.display_name),
             total_hours: Math.round(totalHours * 100) / 100,
             billable_hours: Math.round(billableHours * 100) / 100,
-            work_orders_completed: completedCount || 0,
-            avg_completion_time: Math.round(avgCompletionTime * 100) / 100,
+            ...completed,
           };
         })
       );
@@ -763,37 +820,8 @@ router.get(
         }
       });
 
-      // Get completed work orders
-      const { count: completedCount } = await supabase
-        .from('work_orders')
-        .select('*', { count: 'exact', head: true })
-        .eq('assigned_to', id)
-        .eq('status', 'COMPLETED')
-        .gte('completed_at', dateFrom)
-        .lte('completed_at', dateTo);
-
-      // Calculate average completion time
-      const { data: completedWOs } = await supabase
-        .from('work_orders')
-        .select('opened_at, completed_at')
-        .eq('assigned_to', id)
-        .eq('status', 'COMPLETED')
-        .gte('completed_at', dateFrom)
-        .lte('completed_at', dateTo)
-        .not('completed_at', 'is', null);
-
-      let avgCompletionTime = 0;
-      if (completedWOs && completedWOs.length > 0) {
-        const totalCompletionHours = completedWOs.reduce((sum, wo) => {
-          if (wo.opened_at && wo.completed_at) {
-            const opened = new Date(String(wo.opened_at)).getTime();
-            const completed = new Date(String(wo.completed_at)).getTime();
-            return sum + (completed - opened) / (1000 * 60 * 60);
-          }
-          return sum;
-        }, 0);
-        avgCompletionTime = totalCompletionHours / completedWOs.length;
-      }
+      // Completed work orders the tech led or helped on
+      const completed = await getCompletedWorkOrderStats(supabase, id, dateFrom, dateTo);
 
       res.json(
         successResponse({
@@ -801,8 +829,7 @@ router.get(
           tech_name: String(tech.display_name),
           total_hours: Math.round(totalHours * 100) / 100,
           billable_hours: Math.round(billableHours * 100) / 100,
-          work_orders_completed: completedCount || 0,
-          avg_completion_time: Math.round(avgCompletionTime * 100) / 100,
+          ...completed,
         })
       );
     } catch (error) {
@@ -929,11 +956,17 @@ router.get(
     try {
       const supabase = createServerClient();
 
-      // Get all SENT invoices (unpaid)
+      // Get all SENT/PARTIAL invoices (unpaid)
       const { data: invoices } = await supabase
         .from('invoices')
-        .select('due_date, total_amount')
-        .eq('status', 'SENT');
+        .select('due_date, total_amount, retainage_amount, paid_amount')
+        .in('status', ['SENT', 'PARTIAL']);
+
+      // Retainage is not due until released, so it is reported apart from aged AR
+      const { data: retainageProjects } = await supabase
+        .from('projects')
+        .select('id, project_no, name, retainage_held')
+        .gt('retainage_held', 0);
 
       const now = new Date();
       const aging = {
@@ -942,10 +975,33 @@ router.get(
         days_60: { count: 0, amount: 0 },
         days_90_plus: { count: 0, amount: 0 },
         total_outstanding: 0,
+        retainage: {
+          total_receivable: 0,
+          projects: [] as {
+            project_id: string;
+            project_no: string;
+            project_name: string;
+            retainage_held: number;
+          }[],
+        },
       };
 
+      retainageProjects?.forEach((project) => {
+        const held = Number(project.retainage_held || 0);
+        aging.retainage.total_receivable += held;
+        aging.retainage.projects.push({
+          project_id: String(project.id),
+          project_no: String(project.project_no),
+          project_name: String(project.name),
+          retainage_held: held,
+        });
+      });
+
       invoices?.forEach((inv) => {
-        const amount = Number(inv.total_amount || 0);
+        const amount =
+          Number(inv.total_amount || 0) -
+          Number(inv.retainage_amount || 0) -
+          Number(inv.paid_amount || 0);
         aging.total_outstanding += amount;
 
         if (!inv.due_date) {
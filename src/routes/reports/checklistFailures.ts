@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { checklistFailuresQuerySchema } from '@/validations/reports.js';
+import { WorkOrder, WorkOrderChecklist, WorkOrderChecklistItem } from '@/types/database.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+type FailedChecklistItem = WorkOrderChecklistItem & {
+  checklist: Pick<WorkOrderChecklist, 'id' | 'name' | 'template_id'>;
+  work_order: Pick<WorkOrder, 'id' | 'work_order_no' | 'status' | 'work_type' | 'customer_id'>;
+};
+
+/**
+ * GET /api/reports/checklist-failures
+ * Checklist items answered FAIL across all work orders, newest first, with a count per
+ * checklist item
+ * Query: date_from, date_to (answered date), template_id, work_type
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/reports/checklist-failures',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = checklistFailuresQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+
+      let query = supabase
+        .from('work_order_checklist_items')
+        .select(
+          `
+          *,
+          checklist:work_order_checklists!inner(id, name, template_id),
+          work_order:work_orders!inner(id, work_order_no, status, work_type, customer_id)
+        `
+        )
+        .eq('result', 'FAIL')
+        .order('completed_at', { ascending: false });
+
+      if (filters.date_from) {
+        query = query.gte('completed_at', `${filters.date_from}T00:00:00Z`);
+      }
+      if (filters.date_to) {
+        query = query.lte('completed_at', `${filters.date_to}T23:59:59Z`);
+      }
+      if (filters.template_id) {
+        query = query.eq('work_order_checklists.template_id', filters.template_id);
+      }
+      if (filters.work_type) {
+        query = query.eq('work_orders.work_type', filters.work_type);
+      }
+
+      const { data, error } = await query.returns<FailedChecklistItem[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const items = data || [];
+      const counts = new Map<
+        string,
+        { checklist_name: string; label: string; fail_count: number; work_order_ids: Set<string> }
+      >();
+
+      for (const item of items) {
+        const key = `${item.checklist.name}\u0000${item.label}`;
+        const entry = counts.get(key) ?? {
+          checklist_name: item.checklist.name,
+          label: item.label,
+          fail_count: 0,
+          work_order_ids: new Set<string>(),
+        };
+        entry.fail_count++;
+        entry.work_order_ids.add(item.work_order_id);
+        counts.set(key, entry);
+      }
+
+      const summary = Array.from(counts.values())
+        .map(({ work_order_ids, ...entry }) => ({
+          ...entry,
+          work_order_count: work_order_ids.size,
+        }))
+        .sort((a, b) => b.fail_count - a.fail_count || a.label.localeCompare(b.label));
+
+      res.json(
+        successResponse({
+          total_failures: items.length,
+          summary,
+          items,
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues));
+        return;
+      }
+      console.error('Error generating checklist failures report:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate checklist failures report')
+        );
+    }
+  }
+);
+
+export default router;
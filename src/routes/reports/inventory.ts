@@ -0,0 +1,381 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { inventoryValuationQuerySchema, stockStatusQuerySchema } from '@/validations/reports.js';
+import {
+  CostType,
+  InventoryLedger,
+  Part,
+  PurchaseOrderLine,
+  QuoteLine,
+  WorkOrderPartUsage,
+} from '@/types/database.js';
+import { getCompanyTimeZone, toZonedDate } from '@/services/workingCalendar.js';
+import { computeCommittedQty, replayLedger, valueStock } from '@/services/inventoryReports.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { ZodError } from 'zod';
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+
+const router = Router();
+
+const OPEN_WORK_ORDER_STATUSES = ['UNSCHEDULED', 'SCHEDULED', 'IN_PROGRESS'];
+
+type ReportPart = Pick<Part, 'id' | 'sku' | 'name' | 'uom' | 'category_id' | 'cost_type_id'> & {
+  category: { id: string; name: string } | null;
+  cost_type: Pick<CostType, 'id' | 'name'> | null;
+};
+
+type LedgerRow = Pick<
+  InventoryLedger,
+  'part_id' | 'txn_type' | 'qty_delta' | 'unit_cost' | 'txn_date' | 'created_at'
+>;
+
+// PostgREST caps every response (max-rows, 1000 by default), so the ledger is read in pages
+const LEDGER_PAGE_SIZE = 1000;
+
+/**
+ * Every inventory_ledger row dated on or before asOf, read page by page
+ */
+async function fetchLedgerThrough(
+  supabase: SupabaseClient,
+  asOf: string
+): Promise<{ data: LedgerRow[]; error: PostgrestError | null }> {
+  const rows: LedgerRow[] = [];
+
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('inventory_ledger')
+      .select('part_id, txn_type, qty_delta, unit_cost, txn_date, created_at')
+      .lte('txn_date', asOf)
+      .order('id', { ascending: true })
+      .range(from, from + LEDGER_PAGE_SIZE - 1)
+      .returns<LedgerRow[]>();
+
+    if (error) {
+      return { data: [], error };
+    }
+
+    rows.push(...(data || []));
+
+    if (!data || data.length < LEDGER_PAGE_SIZE) {
+      return { data: rows, error: null };
+    }
+  }
+}
+
+/**
+ * Total value per group, sorted by value
+ */
+function summarize(
+  rows: { group_id: string | null; group_name: string; total_value: number }[]
+): { id: string | null; name: string; part_count: number; total_value: number }[] {
+  const groups = new Map<
+    string,
+    { id: string | null; name: string; part_count: number; total_value: number }
+  >();
+
+  for (const row of rows) {
+    const key = row.group_id ?? '';
+    const group = groups.get(key) ?? {
+      id: row.group_id,
+      name: row.group_name,
+      part_count: 0,
+      total_value: 0,
+    };
+    group.part_count++;
+    group.total_value = roundCurrency(group.total_value + row.total_value);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.total_value - a.total_value);
+}
+
+/**
+ * GET /api/reports/inventory-valuation
+ * Value of inventoried parts on hand (qty × moving average cost), per part and grouped
+ * by part category and by cost type
+ * Quantities and costs are rebuilt from inventory_ledger up to as_of (default today), so
+ * past dates give the valuation as it stood then.
+ * Query: as_of, category_id, cost_type_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/reports/inventory-valuation',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = inventoryValuationQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+      const asOf = filters.as_of ?? toZonedDate(new Date(), await getCompanyTimeZone(supabase));
+
+      let partsQuery = supabase
+        .from('parts')
+        .select(
+          'id, sku, name, uom, category_id, cost_type_id, category:part_categories(id, name), cost_type:cost_types(id, name)'
+        )
+        .eq('is_inventoried', true);
+
+      if (filters.category_id) {
+        partsQuery = partsQuery.eq('category_id', filters.category_id);
+      }
+      if (filters.cost_type_id) {
+        partsQuery = partsQuery.eq('cost_type_id', filters.cost_type_id);
+      }
+
+      const { data: parts, error: partsError } = await partsQuery.returns<ReportPart[]>();
+
+      if (partsError) {
+        const apiError = translateDbError(partsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: ledger, error: ledgerError } = await fetchLedgerThrough(supabase, asOf);
+
+      if (ledgerError) {
+        const apiError = translateDbError(ledgerError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const ledgerByPart = new Map<string, LedgerRow[]>();
+      for (const row of ledger) {
+        const rows = ledgerByPart.get(row.part_id) ?? [];
+        rows.push(row);
+        ledgerByPart.set(row.part_id, rows);
+      }
+
+      const valuedParts = (parts || [])
+        .map((part) => {
+          const position = replayLedger(ledgerByPart.get(part.id) ?? []);
+          return {
+            part_id: part.id,
+            sku: part.sku,
+            name: part.name,
+            uom: part.uom,
+            category_id: part.category_id,
+            category_name: part.category?.name ?? 'Uncategorized',
+            cost_type_id: part.cost_type_id,
+            cost_type_name: part.cost_type?.name ?? 'No cost type',
+            qty_on_hand: position.qty_on_hand,
+            avg_cost: position.avg_cost,
+            total_value: valueStock(position),
+          };
+        })
+        .filter((part) => part.qty_on_hand !== 0)
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      res.json(
+        successResponse({
+          as_of: asOf,
+          total_value: roundCurrency(valuedParts.reduce((sum, part) => sum + part.total_value, 0)),
+          by_category: summarize(
+            valuedParts.map((part) => ({
+              group_id: part.category_id,
+              group_name: part.category_name,
+              total_value: part.total_value,
+            }))
+          ),
+          by_cost_type: summarize(
+            valuedParts.map((part) => ({
+              group_id: part.cost_type_id,
+              group_name: part.cost_type_name,
+              total_value: part.total_value,
+            }))
+          ),
+          parts: valuedParts,
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues));
+        return;
+      }
+      console.error('Error generating inventory valuation report:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate inventory valuation report')
+        );
+    }
+  }
+);
+
+/**
+ * GET /api/reports/stock-status
+ * Per inventoried part: on hand, committed to open work orders, on order from open
+ * purchase orders, and available (on hand − committed)
+ * Committed is the part quantity on accepted quotes for open work orders, less what has
+ * already been used on them. On order is qty_ordered − qty_received on SENT and PARTIAL
+ * purchase orders.
+ * Query: part_id, category_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/reports/stock-status',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = stockStatusQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+
+      let partsQuery = supabase
+        .from('parts')
+        .select('id, sku, name, uom, category_id, qty_on_hand')
+        .eq('is_inventoried', true)
+        .eq('is_active', true)
+        .order('name', { ascending: true });
+
+      if (filters.part_id) {
+        partsQuery = partsQuery.eq('id', filters.part_id);
+      }
+      if (filters.category_id) {
+        partsQuery = partsQuery.eq('category_id', filters.category_id);
+      }
+
+      const { data: parts, error: partsError } =
+        await partsQuery.returns<
+          Pick<Part, 'id' | 'sku' | 'name' | 'uom' | 'category_id' | 'qty_on_hand'>[]
+        >();
+
+      if (partsError) {
+        const apiError = translateDbError(partsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Accepted quotes on open work orders
+      const { data: quotes, error: quotesError } = await supabase
+        .from('quotes')
+        .select('id, work_order_id, work_order:work_orders!inner(status)')
+        .eq('status', 'ACCEPTED')
+        .not('work_order_id', 'is', null)
+        .in('work_orders.status', OPEN_WORK_ORDER_STATUSES)
+        .returns<{ id: string; work_order_id: string }[]>();
+
+      if (quotesError) {
+        const apiError = translateDbError(quotesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const workOrderByQuote = new Map((quotes || []).map((q) => [q.id, q.work_order_id]));
+      let committed = new Map<string, number>();
+
+      if (workOrderByQuote.size > 0) {
+        const { data: quoteLines, error: quoteLinesError } = await supabase
+          .from('quote_lines')
+          .select('quote_id, part_id, qty')
+          .in('quote_id', Array.from(workOrderByQuote.keys()))
+          .not('part_id', 'is', null)
+          .returns<Pick<QuoteLine, 'quote_id' | 'part_id' | 'qty'>[]>();
+
+        if (quoteLinesError) {
+          const apiError = translateDbError(quoteLinesError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        const { data: usages, error: usagesError } = await supabase
+          .from('work_order_part_usages')
+          .select('work_order_id, part_id, qty')
+          .in('work_order_id', Array.from(new Set(workOrderByQuote.values())))
+          .is('voided_at', null)
+          .returns<Pick<WorkOrderPartUsage, 'work_order_id' | 'part_id' | 'qty'>[]>();
+
+        if (usagesError) {
+          const apiError = translateDbError(usagesError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        committed = computeCommittedQty(
+          (quoteLines || []).map((line) => ({
+            work_order_id: workOrderByQuote.get(line.quote_id)!,
+            part_id: line.part_id!,
+            qty: Number(line.qty),
+          })),
+          usages || []
+        );
+      }
+
+      // Open purchase order lines
+      const { data: poLines, error: poLinesError } = await supabase
+        .from('purchase_order_lines')
+        .select('part_id, qty_ordered, qty_received, purchase_order:purchase_orders!inner(status)')
+        .in('purchase_orders.status', ['SENT', 'PARTIAL'])
+        .not('part_id', 'is', null)
+        .returns<Pick<PurchaseOrderLine, 'part_id' | 'qty_ordered' | 'qty_received'>[]>();
+
+      if (poLinesError) {
+        const apiError = translateDbError(poLinesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const onOrder = new Map<string, number>();
+      for (const line of poLines || []) {
+        const outstanding = Number(line.qty_ordered) - Number(line.qty_received);
+        if (line.part_id && outstanding > 0) {
+          onOrder.set(line.part_id, (onOrder.get(line.part_id) ?? 0) + outstanding);
+        }
+      }
+
+      const rows = (parts || []).map((part) => {
+        const onHand = Number(part.qty_on_hand);
+        const partCommitted = committed.get(part.id) ?? 0;
+        return {
+          part_id: part.id,
+          sku: part.sku,
+          name: part.name,
+          uom: part.uom,
+          category_id: part.category_id,
+          on_hand: onHand,
+          committed: partCommitted,
+          on_order: onOrder.get(part.id) ?? 0,
+          available: onHand - partCommitted,
+        };
+      });
+
+      res.json(successResponse(rows));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues));
+        return;
+      }
+      console.error('Error generating stock status report:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate stock status report'));
+    }
+  }
+);
+
+export default router;
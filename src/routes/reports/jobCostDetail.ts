@@ -5,39 +5,10 @@ import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { jobCostDetailQuerySchema } from '@/validations/reports.js';
 import { ZodError } from 'zod';
+import { techHasAccessToWorkOrder } from '@/services/workOrderAssignments.js';
 
 const router = Router();
 
-/**
- * Helper function to check if tech has access to work order
- */
-async function techHasAccessToWorkOrder(
-  supabase: ReturnType<typeof createServerClient>,
-  workOrderId: string,
-  techUserId: string
-): Promise<boolean> {
-  // Check if work order is assigned to tech
-  const { data: workOrder } = await supabase
-    .from('work_orders')
-    .select('assigned_to')
-    .eq('id', workOrderId)
-    .single();
-
-  if (workOrder && workOrder.assigned_to === techUserId) {
-    return true;
-  }
-
-  // Check if tech is scheduled for work order
-  const { data: scheduleData } = await supabase
-    .from('work_order_schedule')
-    .select('id')
-    .eq('work_order_id', workOrderId)
-    .eq('tech_user_id', techUserId)
-    .limit(1);
-
-  return scheduleData !== null && scheduleData.length > 0;
-}
-
 /**
  * Helper function to check if tech has access to project via any work order
  */
@@ -5,39 +5,13 @@ import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { jobCostingQuerySchema } from '@/validations/reports.js';
 import { ZodError } from 'zod';
+import {
+  getTechWorkOrderIds,
+  techHasAccessToWorkOrder,
+} from '@/services/workOrderAssignments.js';
 
 const router = Router();
 
-/**
- * Helper function to check if tech has access to work order
- */
-async function techHasAccessToWorkOrder(
-  supabase: ReturnType<typeof createServerClient>,
-  workOrderId: string,
-  techUserId: string
-): Promise<boolean> {
-  // Check if work order is assigned to tech
-  const { data: workOrder } = await supabase
-    .from('work_orders')
-    .select('assigned_to')
-    .eq('id', workOrderId)
-    .single();
-
-  if (workOrder && workOrder.assigned_to === techUserId) {
-    return true;
-  }
-
-  // Check if tech is scheduled for work order
-  const { data: scheduleData } = await supabase
-    .from('work_order_schedule')
-    .select('id')
-    .eq('work_order_id', workOrderId)
-    .eq('tech_user_id', techUserId)
-    .limit(1);
-
-  return scheduleData !== null && scheduleData.length > 0;
-}
-
 /**
  * GET /api/reports/job-costing
  * Aggregate costs by project/work order
@@ -117,28 +91,20 @@ router.get(
 
       // For TECH role without specific work_order_id, filter to their work orders
       if (req.employee!.role === 'TECH' && !query.work_order_id) {
-        // Get work orders assigned to or scheduled for this tech
+        // Get work orders assigned to, crewed or scheduled for this tech
         const { data: assignedWorkOrders } = await supabase
           .from('work_orders')
           .select('id')
           .eq('assigned_to', req.employee!.id);
 
-        const { data: scheduledWorkOrders } = await supabase
-          .from('work_order_schedule')
-          .select('work_order_id')
-          .eq('tech_user_id', req.employee!.id);
-
-        const workOrderIds = new Set<string>();
+        const workOrderIds = new Set<string>(
+          await getTechWorkOrderIds(supabase, req.employee!.id)
+        );
         
         if (assignedWorkOrders) {
           // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
           assignedWorkOrders.forEach((wo) => workOrderIds.add(wo.id));
         }
-        
-        if (scheduledWorkOrders) {
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-          scheduledWorkOrders.forEach((wo) => workOrderIds.add(wo.work_order_id));
-        }
 
         if (workOrderIds.size > 0) {
           dbQuery = dbQuery.in('work_order_id', Array.from(workOrderIds));
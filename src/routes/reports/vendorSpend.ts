@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { vendorSpendQuerySchema } from '@/validations/reports.js';
+import { PurchaseOrder, Receipt, Vendor } from '@/types/database.js';
+import { getCompanyTimeZone, toZonedDate } from '@/services/workingCalendar.js';
+import { summarizeVendorSpend, VendorSpendRow } from '@/services/vendors.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+type LinkedVendor = { vendor: Pick<Vendor, 'name'> | null };
+
+/**
+ * GET /api/reports/vendor-spend
+ * Spend per vendor and period: purchase orders (anything past DRAFT, by po_date) and
+ * receipts (by receipt_date)
+ * Documents not linked to a vendor are grouped by their vendor_name text. The two sources
+ * are reported side by side, not added up, since a receipt may bill a purchase order.
+ * Query: date_from, date_to (default the last 12 months), period (week | month | quarter |
+ * year, default month), vendor_id
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/reports/vendor-spend',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = vendorSpendQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+      const period = filters.period ?? 'month';
+
+      const dateTo = filters.date_to ?? toZonedDate(new Date(), await getCompanyTimeZone(supabase));
+      const yearBefore = new Date(`${dateTo}T00:00:00Z`);
+      yearBefore.setUTCFullYear(yearBefore.getUTCFullYear() - 1);
+      const dateFrom = filters.date_from ?? yearBefore.toISOString().split('T')[0];
+
+      let poQuery = supabase
+        .from('purchase_orders')
+        .select('vendor_id, vendor_name, po_date, total, vendor:vendors(name)')
+        .neq('status', 'DRAFT')
+        .gte('po_date', dateFrom)
+        .lte('po_date', dateTo);
+
+      let receiptQuery = supabase
+        .from('receipts')
+        .select('vendor_id, vendor_name, receipt_date, total_amount, vendor:vendors(name)')
+        .gte('receipt_date', dateFrom)
+        .lte('receipt_date', dateTo);
+
+      if (filters.vendor_id) {
+        poQuery = poQuery.eq('vendor_id', filters.vendor_id);
+        receiptQuery = receiptQuery.eq('vendor_id', filters.vendor_id);
+      }
+
+      const { data: purchaseOrders, error: poError } =
+        await poQuery.returns<
+          (Pick<PurchaseOrder, 'vendor_id' | 'vendor_name' | 'po_date' | 'total'> & LinkedVendor)[]
+        >();
+
+      if (poError) {
+        const apiError = translateDbError(poError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: receipts, error: receiptError } =
+        await receiptQuery.returns<
+          (Pick<Receipt, 'vendor_id' | 'vendor_name' | 'receipt_date' | 'total_amount'> &
+            LinkedVendor)[]
+        >();
+
+      if (receiptError) {
+        const apiError = translateDbError(receiptError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Linked documents report under the vendor's current name
+      const rows: VendorSpendRow[] = [
+        ...(purchaseOrders || []).map((po) => ({
+          vendor_id: po.vendor_id,
+          vendor_name: po.vendor?.name ?? po.vendor_name,
+          date: po.po_date,
+          source: 'PURCHASE_ORDER' as const,
+          amount: Number(po.total),
+        })),
+        ...(receipts || []).map((receipt) => ({
+          vendor_id: receipt.vendor_id,
+          vendor_name: receipt.vendor?.name ?? receipt.vendor_name,
+          date: receipt.receipt_date!,
+          source: 'RECEIPT' as const,
+          amount: Number(receipt.total_amount),
+        })),
+      ];
+
+      const summary = summarizeVendorSpend(rows, period);
+
+      res.json(
+        successResponse({
+          date_from: dateFrom,
+          date_to: dateTo,
+          period,
+          purchase_orders: roundCurrency(
+            summary.periods.reduce((sum, spend) => sum + spend.purchase_orders, 0)
+          ),
+          receipts: roundCurrency(summary.periods.reduce((sum, spend) => sum + spend.receipts, 0)),
+          periods: summary.periods,
+          vendors: summary.vendors,
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues));
+        return;
+      }
+      console.error('Error generating vendor spend report:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate vendor spend report'));
+    }
+  }
+);
+
+export default router;
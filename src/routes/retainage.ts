@@ -0,0 +1,325 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { releaseRetainageSchema } from '@/validations/retainage.js';
+import { Invoice } from '@/types/database.js';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/services/auditLog.js';
+import { getNextInvoiceNumber, recalculateInvoiceTotals } from '@/services/invoices.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/projects/:id/retainage
+ * Retainage receivable for a project with the invoices that withheld or released it
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/projects/:id/retainage',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('id, retainage_percent, retainage_held')
+        .eq('id', id)
+        .single<{ id: string; retainage_percent: number | null; retainage_held: number | null }>();
+
+      if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Project not found'));
+          return;
+        }
+        const apiError = translateDbError(projectError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Sent (non-draft, non-void) invoices that withheld or released retainage
+      const { data: invoices, error: invoicesError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('project_id', id)
+        .not('status', 'in', '(DRAFT,VOID)')
+        .order('invoice_date', { ascending: true })
+        .returns<Invoice[]>();
+
+      if (invoicesError) {
+        const apiError = translateDbError(invoicesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      let withheldTotal = 0;
+      let releasedTotal = 0;
+
+      const history = (invoices || [])
+        .filter(
+          (invoice) =>
+            invoice.invoice_type === 'RETAINAGE_RELEASE' || Number(invoice.retainage_amount) > 0
+        )
+        .map((invoice) => {
+          const isRelease = invoice.invoice_type === 'RETAINAGE_RELEASE';
+          const amount = isRelease
+            ? Number(invoice.total_amount)
+            : Number(invoice.retainage_amount);
+
+          if (isRelease) {
+            releasedTotal += amount;
+          } else {
+            withheldTotal += amount;
+          }
+
+          return {
+            invoice_id: invoice.id,
+            invoice_no: invoice.invoice_no,
+            invoice_type: invoice.invoice_type,
+            invoice_date: invoice.invoice_date,
+            status: invoice.status,
+            withheld: isRelease ? 0 : amount,
+            released: isRelease ? amount : 0,
+          };
+        });
+
+      res.json(
+        successResponse({
+          project_id: project.id,
+          retainage_percent: Number(project.retainage_percent ?? 0),
+          retainage_held: Number(project.retainage_held ?? 0),
+          withheld_total: roundCurrency(withheldTotal),
+          released_total: roundCurrency(releasedTotal),
+          history,
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching project retainage:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch project retainage'));
+    }
+  }
+);
+
+/**
+ * POST /api/projects/:id/retainage-release
+ * Generate a DRAFT RETAINAGE_RELEASE invoice billing held retainage at close-out
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Validate amount (default: full retainage_held) does not exceed projects.retainage_held
+ * 2. Reject if another release invoice is still DRAFT
+ * 3. Insert the invoice with a single non-taxable line and recalculate totals
+ * 4. Create audit_logs entry
+ * projects.retainage_held is drawn down when the invoice is sent
+ */
+router.post(
+  '/api/projects/:id/retainage-release',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = releaseRetainageSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('id, retainage_held')
+        .eq('id', id)
+        .single<{ id: string; retainage_held: number | null }>();
+
+      if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Project not found'));
+          return;
+        }
+        const apiError = translateDbError(projectError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Verify tax_rule exists
+      const { data: taxRule, error: taxError } = await supabase
+        .from('tax_rules')
+        .select('id')
+        .eq('id', validatedData.tax_rule_id)
+        .single();
+
+      if (taxError || !taxRule) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid tax_rule_id: tax rule does not exist'));
+        return;
+      }
+
+      const retainageHeld = Number(project.retainage_held ?? 0);
+      const amount = roundCurrency(validatedData.amount ?? retainageHeld);
+
+      if (amount <= 0) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Project has no retainage held to release'));
+        return;
+      }
+
+      if (amount > retainageHeld) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Amount exceeds the retainage held on the project', {
+            retainage_held: retainageHeld,
+          })
+        );
+        return;
+      }
+
+      const { data: drafts, error: draftsError } = await supabase
+        .from('invoices')
+        .select('id, invoice_no')
+        .eq('project_id', id)
+        .eq('invoice_type', 'RETAINAGE_RELEASE')
+        .eq('status', 'DRAFT')
+        .returns<{ id: string; invoice_no: string }[]>();
+
+      if (draftsError) {
+        const apiError = translateDbError(draftsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (drafts && drafts.length > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Project already has a DRAFT retainage release invoice; send or void it first',
+              { invoice_id: drafts[0].id, invoice_no: drafts[0].invoice_no }
+            )
+          );
+        return;
+      }
+
+      // Call DB function to get next invoice number
+      const { invoiceNo, error: numberError } = await getNextInvoiceNumber(supabase);
+
+      if (numberError || !invoiceNo) {
+        console.error('Error generating invoice number:', numberError);
+        res
+          .status(500)
+          .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate invoice number'));
+        return;
+      }
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .insert({
+          project_id: id,
+          invoice_type: 'RETAINAGE_RELEASE',
+          invoice_date: validatedData.invoice_date,
+          due_date: validatedData.due_date,
+          tax_rule_id: validatedData.tax_rule_id,
+          retainage_percent: 0,
+          invoice_no: invoiceNo,
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<Invoice>();
+
+      if (invoiceError) {
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Retainage was withheld from already-taxed billings, so the release is non-taxable
+      const { error: lineError } = await supabase.from('invoice_lines').insert({
+        invoice_id: invoice.id,
+        line_no: 1,
+        description: 'Retainage release',
+        uom: 'LS',
+        qty: 1,
+        unit_price: amount,
+        is_taxable: false,
+      });
+
+      if (lineError) {
+        const apiError = translateDbError(lineError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { success, error: recalcError } = await recalculateInvoiceTotals(supabase, invoice.id);
+      if (!success) {
+        console.error('Error recalculating invoice totals:', recalcError);
+        // Don't fail the request, just log the error
+      }
+
+      const { data: updatedInvoice } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoice.id)
+        .single<Invoice>();
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: invoice.id,
+        action: 'RETAINAGE_RELEASE_GENERATED',
+        actor_user_id: req.employee!.id,
+        after_data: {
+          project_id: id,
+          amount,
+          retainage_held: retainageHeld,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', invoice.id);
+
+      res.status(201).json(successResponse(updatedInvoice ?? invoice));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error generating retainage release:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate retainage release'));
+    }
+  }
+);
+
+export default router;
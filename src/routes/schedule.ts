@@ -7,15 +7,364 @@ import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
 import { requireRole } from '@/middleware/requireRole.js';
-import { updateScheduleSchema } from '@/validations/schedule.js';
-import { WorkOrderSchedule } from '@/types/database.js';
+import {
+  dispatchBoardQuerySchema,
+  scheduleAvailabilityQuerySchema,
+  updateScheduleSchema,
+} from '@/validations/schedule.js';
+import {
+  EmployeeTimeOff,
+  WorkOrder,
+  WorkOrderSchedule,
+} from '@/types/database.js';
 import { ZodError } from 'zod';
+import {
+  BusyBlock,
+  computeFreeBlocks,
+  findScheduleConflicts,
+  getBookedHours,
+  getDispatchRange,
+} from '@/services/schedule.js';
+import {
+  getCompanyTimeZone,
+  getScheduleWarnings,
+  toZonedDate,
+  zonedTimeToUtc,
+} from '@/services/workingCalendar.js';
+import { transitionWorkOrderStatus } from '@/services/workOrderStatus.js';
+import { ensureCrewMember } from '@/services/workOrderAssignments.js';
 
 const router = Router();
 
+// Work order columns shown on dispatch board cards
+const DISPATCH_WORK_ORDER_SELECT = `
+  id, work_order_no, summary, priority, status,
+  requested_window_start, requested_window_end,
+  customer:customers(id, name, customer_no),
+  location:locations(id, label, street, city, state, zip)
+`;
+
+type DispatchWorkOrder = Pick<
+  WorkOrder,
+  | 'id'
+  | 'work_order_no'
+  | 'summary'
+  | 'priority'
+  | 'status'
+  | 'requested_window_start'
+  | 'requested_window_end'
+> & {
+  customer: { id: string; name: string; customer_no: string } | null;
+  location: {
+    id: string;
+    label: string | null;
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+  } | null;
+};
+
+/**
+ * GET /api/schedule
+ * Dispatch board: every slot in a day or week, grouped by technician
+ * Query: date (YYYY-MM-DD, default today), view (day|week, default day),
+ * tech_user_ids (comma-separated, default all active techs)
+ * Days run midnight to midnight in the company time zone (settings.time_zone).
+ * Each tech lane includes booked_hours within the range. The backlog lane lists
+ * UNSCHEDULED work orders, highest priority (1) first.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/schedule',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = dispatchBoardQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+
+      const timeZone = await getCompanyTimeZone(supabase);
+      const date = query.date ?? toZonedDate(new Date(), timeZone);
+      const days = getDispatchRange(date, query.view);
+
+      // Days start at midnight in the company time zone, as on the dashboard
+      const range = {
+        start_at: zonedTimeToUtc(days.start_at.split('T')[0], '00:00', timeZone).toISOString(),
+        end_at: zonedTimeToUtc(days.end_at.split('T')[0], '00:00', timeZone).toISOString(),
+      };
+
+      // Slots overlapping the range, with work order card details
+      let slotQuery = supabase
+        .from('work_order_schedule')
+        .select(`*, work_order:work_orders!inner(${DISPATCH_WORK_ORDER_SELECT})`)
+        .lt('start_at', range.end_at)
+        .gt('end_at', range.start_at)
+        .neq('work_order.status', 'CANCELED');
+
+      if (query.tech_user_ids) {
+        slotQuery = slotQuery.in('tech_user_id', query.tech_user_ids);
+      }
+
+      const { data: slots, error: slotError } = await slotQuery
+        .order('start_at', { ascending: true })
+        .returns<(WorkOrderSchedule & { work_order: DispatchWorkOrder })[]>();
+
+      if (slotError) {
+        const apiError = translateDbError(slotError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Lanes: requested techs, or every active tech plus anyone holding a slot
+      let techQuery = supabase.from('employees').select('id, display_name');
+      if (query.tech_user_ids) {
+        techQuery = techQuery.in('id', query.tech_user_ids);
+      } else {
+        const slotTechIds = [
+          ...new Set((slots || []).map((slot) => slot.tech_user_id)),
+        ];
+        techQuery =
+          slotTechIds.length > 0
+            ? techQuery.or(
+                `and(role.eq.TECH,is_active.eq.true),id.in.(${slotTechIds.join(',')})`
+              )
+            : techQuery.eq('role', 'TECH').eq('is_active', true);
+      }
+
+      const { data: techs, error: techError } = await techQuery
+        .order('display_name', { ascending: true })
+        .returns<{ id: string; display_name: string }[]>();
+
+      if (techError) {
+        const apiError = translateDbError(techError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Backlog lane
+      const { data: backlog, error: backlogError } = await supabase
+        .from('work_orders')
+        .select(DISPATCH_WORK_ORDER_SELECT)
+        .eq('status', 'UNSCHEDULED')
+        .order('priority', { ascending: true })
+        .order('opened_at', { ascending: true })
+        .returns<DispatchWorkOrder[]>();
+
+      if (backlogError) {
+        const apiError = translateDbError(backlogError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const lanes = (techs || []).map((tech) => {
+        const techSlots = (slots || []).filter(
+          (slot) => slot.tech_user_id === tech.id
+        );
+
+        return {
+          tech_user_id: tech.id,
+          display_name: tech.display_name,
+          booked_hours: getBookedHours(techSlots, range.start_at, range.end_at),
+          slots: techSlots,
+        };
+      });
+
+      res.json(
+        successResponse({
+          view: query.view,
+          start_at: range.start_at,
+          end_at: range.end_at,
+          techs: lanes,
+          backlog: backlog || [],
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues)
+        );
+        return;
+      }
+      console.error('Error fetching dispatch board:', error);
+      res.status(500).json(
+        errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch dispatch board')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/schedule/availability
+ * Free and busy blocks per technician for a time range
+ * Query: start_at, end_at (ISO timestamps, max 31 days), tech_user_ids (comma-separated,
+ * default all active techs)
+ * Busy blocks come from schedule slots (excluding CANCELED work orders) and approved time off.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/schedule/availability',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = scheduleAvailabilityQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+
+      // Resolve which techs to report on
+      let techQuery = supabase.from('employees').select('id, display_name');
+      if (query.tech_user_ids) {
+        techQuery = techQuery.in('id', query.tech_user_ids);
+      } else {
+        techQuery = techQuery.eq('role', 'TECH').eq('is_active', true);
+      }
+
+      const { data: techs, error: techError } = await techQuery
+        .order('display_name', { ascending: true })
+        .returns<{ id: string; display_name: string }[]>();
+
+      if (techError) {
+        const apiError = translateDbError(techError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const techIds = (techs || []).map((tech) => tech.id);
+      if (techIds.length === 0) {
+        res.json(
+          successResponse({
+            start_at: query.start_at,
+            end_at: query.end_at,
+            techs: [],
+          })
+        );
+        return;
+      }
+
+      // Slots overlapping the range
+      const { data: slots, error: slotError } = await supabase
+        .from('work_order_schedule')
+        .select(
+          'id, tech_user_id, work_order_id, start_at, end_at, work_orders!inner(work_order_no, status)'
+        )
+        .in('tech_user_id', techIds)
+        .lt('start_at', query.end_at)
+        .gt('end_at', query.start_at)
+        .neq('work_orders.status', 'CANCELED')
+        .returns<
+          (WorkOrderSchedule & {
+            work_orders: { work_order_no: string | null };
+          })[]
+        >();
+
+      if (slotError) {
+        const apiError = translateDbError(slotError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      // Approved time off overlapping the range
+      const { data: timeOff, error: timeOffError } = await supabase
+        .from('employee_time_off')
+        .select('id, employee_id, start_at, end_at')
+        .in('employee_id', techIds)
+        .eq('status', 'APPROVED')
+        .lt('start_at', query.end_at)
+        .gt('end_at', query.start_at)
+        .returns<
+          Pick<EmployeeTimeOff, 'id' | 'employee_id' | 'start_at' | 'end_at'>[]
+        >();
+
+      if (timeOffError) {
+        const apiError = translateDbError(timeOffError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const availability = (techs || []).map((tech) => {
+        const busy: BusyBlock[] = [
+          ...(slots || [])
+            .filter((slot) => slot.tech_user_id === tech.id)
+            .map(
+              (slot): BusyBlock => ({
+                start_at: slot.start_at,
+                end_at: slot.end_at,
+                source: 'SCHEDULE',
+                schedule_id: slot.id,
+                work_order_id: slot.work_order_id,
+                work_order_no: slot.work_orders.work_order_no,
+              })
+            ),
+          ...(timeOff || [])
+            .filter((entry) => entry.employee_id === tech.id)
+            .map(
+              (entry): BusyBlock => ({
+                start_at: entry.start_at,
+                end_at: entry.end_at,
+                source: 'TIME_OFF',
+                time_off_id: entry.id,
+              })
+            ),
+        ].sort(
+          (a, b) => new Date(a.start_at).getTime() - new Date(b.start_at).getTime()
+        );
+
+        return {
+          tech_user_id: tech.id,
+          display_name: tech.display_name,
+          busy,
+          free: computeFreeBlocks(query.start_at, query.end_at, busy),
+        };
+      });
+
+      res.json(
+        successResponse({
+          start_at: query.start_at,
+          end_at: query.end_at,
+          techs: availability,
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues)
+        );
+        return;
+      }
+      console.error('Error fetching schedule availability:', error);
+      res.status(500).json(
+        errorResponse(
+          'INTERNAL_SERVER_ERROR',
+          'Failed to fetch schedule availability'
+        )
+      );
+    }
+  }
+);
+
 /**
  * PATCH /api/schedule/:id
  * Update a schedule slot
+ * Returns 409 SCHEDULE_CONFLICT (details.conflicts) if the tech is already booked,
+ * unless override_conflicts is true. The saved slot includes warnings for times
+ * outside the tech's shift, holidays and approved time off. Moving the slot to another
+ * tech adds them to the work order crew as a HELPER.
  * TECH role: can only update their own schedule entries
  * OFFICE/ADMIN: can update any schedule entry
  */
@@ -28,7 +377,8 @@ router.patch(
       const { id } = req.params;
 
       // Validate request body
-      const validatedData = updateScheduleSchema.parse(req.body);
+      const { override_conflicts: overrideConflicts, ...validatedData } =
+        updateScheduleSchema.parse(req.body);
 
       // Ensure at least one field is being updated
       if (Object.keys(validatedData).length === 0) {
@@ -89,6 +439,16 @@ router.patch(
           );
           return;
         }
+
+        if (overrideConflicts) {
+          res.status(403).json(
+            errorResponse(
+              'FORBIDDEN',
+              'Only dispatchers can override schedule conflicts'
+            )
+          );
+          return;
+        }
       }
 
       // Additional validation: check end_at > start_at considering current values
@@ -109,6 +469,37 @@ router.patch(
         return;
       }
 
+      // Reject double-booking unless a dispatcher explicitly overrides
+      if (!overrideConflicts) {
+        const { data: conflicts, error: conflictError } =
+          await findScheduleConflicts(
+            supabase,
+            validatedData.tech_user_id || currentSchedule.tech_user_id,
+            startAt,
+            endAt,
+            id
+          );
+
+        if (conflictError) {
+          const apiError = translateDbError(conflictError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        if (conflicts && conflicts.length > 0) {
+          res.status(409).json(
+            errorResponse(
+              'SCHEDULE_CONFLICT',
+              'Technician is already booked during this time',
+              { conflicts }
+            )
+          );
+          return;
+        }
+      }
+
       // Update schedule entry
       const { data, error } = await supabase
         .from('work_order_schedule')
@@ -125,7 +516,35 @@ router.patch(
         return;
       }
 
-      res.json(successResponse(data));
+      // Flag slots outside the tech's shift, on holidays or during time off
+      const { data: warnings, error: warningError } = await getScheduleWarnings(
+        supabase,
+        data.tech_user_id,
+        data.start_at,
+        data.end_at
+      );
+
+      if (warningError) {
+        console.error('Error checking schedule warnings:', warningError);
+        // Don't fail the request, the slot is already saved
+      }
+
+      // A tech the slot is handed to joins the crew
+      if (data.tech_user_id !== currentSchedule.tech_user_id) {
+        const { error: crewError } = await ensureCrewMember(
+          supabase,
+          data.work_order_id,
+          data.tech_user_id,
+          req.employee!.id
+        );
+
+        if (crewError) {
+          console.error('Error adding tech to crew:', crewError);
+          // Don't fail the request, the slot is already saved
+        }
+      }
+
+      res.json(successResponse({ ...data, warnings: warnings ?? [] }));
     } catch (error) {
       if (error instanceof ZodError) {
         res.status(400).json(
@@ -147,6 +566,7 @@ router.patch(
 /**
  * DELETE /api/schedule/:id
  * Delete a schedule slot
+ * Removing the last slot moves a SCHEDULED work order back to UNSCHEDULED.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -182,6 +602,37 @@ router.delete(
         return;
       }
 
+      // Revert to UNSCHEDULED once the last slot is gone
+      const { count, error: countError } = await supabase
+        .from('work_order_schedule')
+        .select('*', { count: 'exact', head: true })
+        .eq('work_order_id', data.work_order_id);
+
+      if (countError) {
+        console.error('Error counting remaining schedule slots:', countError);
+      } else if (count === 0) {
+        const { data: workOrder } = await supabase
+          .from('work_orders')
+          .select('status')
+          .eq('id', data.work_order_id)
+          .single<Pick<WorkOrder, 'status'>>();
+
+        if (workOrder?.status === 'SCHEDULED') {
+          const { error: statusError } = await transitionWorkOrderStatus(
+            supabase,
+            data.work_order_id,
+            'UNSCHEDULED',
+            req.employee!.id,
+            'Last schedule slot removed'
+          );
+
+          if (statusError) {
+            console.error('Error updating work order status:', statusError);
+            // Don't fail the request, the slot is already deleted
+          }
+        }
+      }
+
       res.json(successResponse(data));
     } catch (error) {
       console.error('Error deleting schedule entry:', error);
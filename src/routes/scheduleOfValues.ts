@@ -0,0 +1,1070 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  createProgressInvoiceSchema,
+  createSovLineSchema,
+  updateSovLineSchema,
+} from '@/validations/scheduleOfValues.js';
+import {
+  ChangeOrder,
+  Invoice,
+  InvoiceProgressLine,
+  Project,
+  Quote,
+  QuoteLine,
+  ScheduleOfValuesLine,
+} from '@/types/database.js';
+import { ZodError } from 'zod';
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { createAuditLog } from '@/services/auditLog.js';
+import { getNextInvoiceNumber, recalculateInvoiceTotals } from '@/services/invoices.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+
+const router = Router();
+
+/**
+ * Billing position of a schedule of values line across non-void progress invoices
+ */
+interface SovBillingStatus {
+  completed_to_date: number;
+  stored_materials: number;
+}
+
+/**
+ * Helper function to compute billed-to-date and stored materials per SOV line
+ * Work completed accumulates across invoices; stored materials is a balance,
+ * so the value from the most recent invoice wins
+ */
+async function getSovBillingStatus(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<{ data: Map<string, SovBillingStatus> | null; error: PostgrestError | null }> {
+  const { data: invoices, error: invoicesError } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('project_id', projectId)
+    .neq('status', 'VOID')
+    .order('created_at', { ascending: true })
+    .returns<{ id: string }[]>();
+
+  if (invoicesError) {
+    return { data: null, error: invoicesError };
+  }
+
+  const status = new Map<string, SovBillingStatus>();
+  const invoiceIds = (invoices || []).map((invoice) => invoice.id);
+
+  if (invoiceIds.length === 0) {
+    return { data: status, error: null };
+  }
+
+  const { data: progressLines, error: linesError } = await supabase
+    .from('invoice_progress_lines')
+    .select('*')
+    .in('invoice_id', invoiceIds)
+    .returns<InvoiceProgressLine[]>();
+
+  if (linesError) {
+    return { data: null, error: linesError };
+  }
+
+  // Walk lines in invoice order so the latest stored materials balance wins
+  const sortedLines = [...(progressLines || [])].sort(
+    (a, b) => invoiceIds.indexOf(a.invoice_id) - invoiceIds.indexOf(b.invoice_id)
+  );
+
+  for (const line of sortedLines) {
+    const current = status.get(line.sov_line_id) ?? { completed_to_date: 0, stored_materials: 0 };
+    status.set(line.sov_line_id, {
+      completed_to_date: roundCurrency(current.completed_to_date + Number(line.this_period)),
+      stored_materials: Number(line.stored_materials),
+    });
+  }
+
+  return { data: status, error: null };
+}
+
+/**
+ * Helper function to get the next SOV line_no for a project
+ */
+async function getNextSovLineNo(supabase: SupabaseClient, projectId: string): Promise<number> {
+  const { data: maxLineData } = await supabase
+    .from('schedule_of_values_lines')
+    .select('line_no')
+    .eq('project_id', projectId)
+    .order('line_no', { ascending: false })
+    .limit(1)
+    .single<{ line_no: number }>();
+
+  return maxLineData ? maxLineData.line_no + 1 : 1;
+}
+
+/**
+ * GET /api/projects/:id/schedule-of-values
+ * List a project's schedule of values with billed-to-date figures
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/projects/:id/schedule-of-values',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Verify project exists
+      const { error: projectError } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', id)
+        .single<{ id: string }>();
+
+      if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Project not found'));
+          return;
+        }
+        const apiError = translateDbError(projectError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: lines, error: linesError } = await supabase
+        .from('schedule_of_values_lines')
+        .select('*')
+        .eq('project_id', id)
+        .order('line_no', { ascending: true })
+        .returns<ScheduleOfValuesLine[]>();
+
+      if (linesError) {
+        const apiError = translateDbError(linesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: billingStatus, error: statusError } = await getSovBillingStatus(supabase, id);
+
+      if (statusError || !billingStatus) {
+        const apiError = translateDbError(statusError!);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      let totalScheduled = 0;
+      let totalCompletedAndStored = 0;
+
+      const result = (lines || []).map((line) => {
+        const status = billingStatus.get(line.id) ?? { completed_to_date: 0, stored_materials: 0 };
+        const scheduledValue = Number(line.scheduled_value);
+        const completedAndStored = roundCurrency(
+          status.completed_to_date + status.stored_materials
+        );
+
+        totalScheduled += scheduledValue;
+        totalCompletedAndStored += completedAndStored;
+
+        return {
+          ...line,
+          completed_to_date: status.completed_to_date,
+          stored_materials: status.stored_materials,
+          total_completed_and_stored: completedAndStored,
+          percent_complete:
+            scheduledValue > 0
+              ? Math.round((completedAndStored / scheduledValue) * 10000) / 100
+              : 0,
+          balance_to_finish: roundCurrency(scheduledValue - completedAndStored),
+        };
+      });
+
+      res.json(
+        successResponse({
+          lines: result,
+          totals: {
+            scheduled_value: roundCurrency(totalScheduled),
+            total_completed_and_stored: roundCurrency(totalCompletedAndStored),
+            balance_to_finish: roundCurrency(totalScheduled - totalCompletedAndStored),
+          },
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching schedule of values:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch schedule of values'));
+    }
+  }
+);
+
+/**
+ * POST /api/projects/:id/schedule-of-values/seed
+ * Seed a project's schedule of values from the accepted BASE quote lines
+ * and approved change orders. Sources already on the schedule are skipped,
+ * so this can be re-run after new change orders are approved.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/projects/:id/schedule-of-values/seed',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Verify project exists
+      const { error: projectError } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', id)
+        .single<{ id: string }>();
+
+      if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Project not found'));
+          return;
+        }
+        const apiError = translateDbError(projectError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Find the accepted BASE quote
+      const { data: baseQuotes, error: quoteError } = await supabase
+        .from('quotes')
+        .select('*')
+        .eq('project_id', id)
+        .eq('quote_type', 'BASE')
+        .eq('status', 'ACCEPTED')
+        .order('accepted_at', { ascending: false })
+        .limit(1)
+        .returns<Quote[]>();
+
+      if (quoteError) {
+        const apiError = translateDbError(quoteError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const baseQuote = baseQuotes && baseQuotes.length > 0 ? baseQuotes[0] : null;
+
+      let quoteLines: QuoteLine[] = [];
+      if (baseQuote) {
+        const { data: quoteLineData, error: quoteLinesError } = await supabase
+          .from('quote_lines')
+          .select('*')
+          .eq('quote_id', baseQuote.id)
+          .order('line_no', { ascending: true })
+          .returns<QuoteLine[]>();
+
+        if (quoteLinesError) {
+          const apiError = translateDbError(quoteLinesError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        quoteLines = quoteLineData || [];
+      }
+
+      // Approved change orders
+      const { data: changeOrders, error: changeOrdersError } = await supabase
+        .from('change_orders')
+        .select('*')
+        .eq('project_id', id)
+        .eq('status', 'APPROVED')
+        .order('approved_at', { ascending: true })
+        .returns<ChangeOrder[]>();
+
+      if (changeOrdersError) {
+        const apiError = translateDbError(changeOrdersError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (!baseQuote && (!changeOrders || changeOrders.length === 0)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Project has no accepted BASE quote or approved change orders to seed from'
+            )
+          );
+        return;
+      }
+
+      // Skip sources that are already on the schedule
+      const { data: existingLines, error: existingError } = await supabase
+        .from('schedule_of_values_lines')
+        .select('*')
+        .eq('project_id', id)
+        .returns<ScheduleOfValuesLine[]>();
+
+      if (existingError) {
+        const apiError = translateDbError(existingError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const seededQuoteLineIds = new Set(
+        (existingLines || []).map((line) => line.quote_line_id).filter(Boolean)
+      );
+      const seededChangeOrderIds = new Set(
+        (existingLines || []).map((line) => line.change_order_id).filter(Boolean)
+      );
+
+      let nextLineNo = await getNextSovLineNo(supabase, id);
+      const newLines: Record<string, unknown>[] = [];
+
+      for (const quoteLine of quoteLines) {
+        if (seededQuoteLineIds.has(quoteLine.id)) {
+          continue;
+        }
+        newLines.push({
+          project_id: id,
+          line_no: nextLineNo++,
+          source_type: 'QUOTE_LINE',
+          quote_line_id: quoteLine.id,
+          description: quoteLine.description,
+          scheduled_value: Number(quoteLine.line_total),
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        });
+      }
+
+      for (const changeOrder of changeOrders || []) {
+        if (seededChangeOrderIds.has(changeOrder.id)) {
+          continue;
+        }
+        newLines.push({
+          project_id: id,
+          line_no: nextLineNo++,
+          source_type: 'CHANGE_ORDER',
+          change_order_id: changeOrder.id,
+          description: `CO ${changeOrder.co_no}: ${changeOrder.description}`,
+          scheduled_value: Number(changeOrder.amount),
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        });
+      }
+
+      let inserted: ScheduleOfValuesLine[] = [];
+      if (newLines.length > 0) {
+        const { data, error } = await supabase
+          .from('schedule_of_values_lines')
+          .insert(newLines)
+          .select()
+          .returns<ScheduleOfValuesLine[]>();
+
+        if (error) {
+          const apiError = translateDbError(error);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        inserted = data || [];
+      }
+
+      res.status(201).json(
+        successResponse(inserted, {
+          seeded: inserted.length,
+          skipped: quoteLines.length + (changeOrders || []).length - inserted.length,
+        })
+      );
+    } catch (error) {
+      console.error('Error seeding schedule of values:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to seed schedule of values'));
+    }
+  }
+);
+
+/**
+ * POST /api/projects/:id/schedule-of-values
+ * Add a manual line to a project's schedule of values
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/projects/:id/schedule-of-values',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = createSovLineSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Verify project exists
+      const { error: projectError } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', id)
+        .single<{ id: string }>();
+
+      if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Project not found'));
+          return;
+        }
+        const apiError = translateDbError(projectError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const nextLineNo = await getNextSovLineNo(supabase, id);
+
+      const { data, error } = await supabase
+        .from('schedule_of_values_lines')
+        .insert({
+          ...validatedData,
+          project_id: id,
+          line_no: nextLineNo,
+          source_type: 'MANUAL',
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<ScheduleOfValuesLine>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error creating schedule of values line:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to create schedule of values line'));
+    }
+  }
+);
+
+/**
+ * PATCH /api/schedule-of-values/:id
+ * Update a schedule of values line
+ * scheduled_value cannot drop below what has already been billed and stored
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.patch(
+  '/api/schedule-of-values/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateSovLineSchema.parse(req.body);
+
+      if (Object.keys(validatedData).length === 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+          );
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      const { data: currentLine, error: fetchError } = await supabase
+        .from('schedule_of_values_lines')
+        .select('*')
+        .eq('id', id)
+        .single<ScheduleOfValuesLine>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Schedule of values line not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (validatedData.scheduled_value !== undefined) {
+        const { data: billingStatus, error: statusError } = await getSovBillingStatus(
+          supabase,
+          currentLine.project_id
+        );
+
+        if (statusError || !billingStatus) {
+          const apiError = translateDbError(statusError!);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        const status = billingStatus.get(id);
+        const billed = status ? status.completed_to_date + status.stored_materials : 0;
+
+        if (validatedData.scheduled_value < billed) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'scheduled_value cannot be less than the amount already billed',
+                { total_completed_and_stored: roundCurrency(billed) }
+              )
+            );
+          return;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('schedule_of_values_lines')
+        .update({ ...validatedData, updated_by: req.employee!.id })
+        .eq('id', id)
+        .select()
+        .single<ScheduleOfValuesLine>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating schedule of values line:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update schedule of values line'));
+    }
+  }
+);
+
+/**
+ * POST /api/projects/:id/progress-invoices
+ * Generate a DRAFT progress (or final) invoice from the schedule of values
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Reject if the project already has a DRAFT progress/final invoice
+ * 2. For each SOV line, derive work completed this period from percent_complete
+ *    or amount_this_period, and the stored materials balance
+ *    (FINAL bills every line to its full scheduled value with nothing stored)
+ * 3. Validate nothing is billed past the scheduled value
+ * 4. Insert the invoice, one invoice_progress_lines row per SOV line (G703),
+ *    and one invoice_lines row per SOV line with an amount due this period
+ * 5. Recalculate invoice totals and create audit_logs entry
+ */
+router.post(
+  '/api/projects/:id/progress-invoices',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = createProgressInvoiceSchema.parse(req.body);
+      const invoiceType = validatedData.invoice_type ?? 'PROGRESS';
+      const supabase = createServerClient();
+
+      // Verify project exists
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('id, retainage_percent')
+        .eq('id', id)
+        .single<{ id: string; retainage_percent: number | null }>();
+
+      if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Project not found'));
+          return;
+        }
+        const apiError = translateDbError(projectError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Verify tax_rule exists
+      const { data: taxRule, error: taxError } = await supabase
+        .from('tax_rules')
+        .select('id')
+        .eq('id', validatedData.tax_rule_id)
+        .single();
+
+      if (taxError || !taxRule) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid tax_rule_id: tax rule does not exist'));
+        return;
+      }
+
+      // Only one draft application at a time, otherwise previously billed figures go stale
+      const { data: drafts, error: draftsError } = await supabase
+        .from('invoices')
+        .select('id, invoice_no')
+        .eq('project_id', id)
+        .eq('status', 'DRAFT')
+        .in('invoice_type', ['PROGRESS', 'FINAL'])
+        .returns<{ id: string; invoice_no: string }[]>();
+
+      if (draftsError) {
+        const apiError = translateDbError(draftsError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (drafts && drafts.length > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Project already has a DRAFT progress invoice; send or void it first',
+              { invoice_id: drafts[0].id, invoice_no: drafts[0].invoice_no }
+            )
+          );
+        return;
+      }
+
+      // Load schedule of values and billing position
+      const { data: sovLines, error: sovError } = await supabase
+        .from('schedule_of_values_lines')
+        .select('*')
+        .eq('project_id', id)
+        .order('line_no', { ascending: true })
+        .returns<ScheduleOfValuesLine[]>();
+
+      if (sovError) {
+        const apiError = translateDbError(sovError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (!sovLines || sovLines.length === 0) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Project has no schedule of values'));
+        return;
+      }
+
+      const sovById = new Map(sovLines.map((line) => [line.id, line]));
+      const unknownLine = validatedData.lines.find((line) => !sovById.has(line.sov_line_id));
+      if (unknownLine) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'sov_line_id does not belong to this project schedule of values',
+              { sov_line_id: unknownLine.sov_line_id }
+            )
+          );
+        return;
+      }
+
+      const { data: billingStatus, error: statusError } = await getSovBillingStatus(supabase, id);
+
+      if (statusError || !billingStatus) {
+        const apiError = translateDbError(statusError!);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const inputBySovId = new Map(validatedData.lines.map((line) => [line.sov_line_id, line]));
+      const progressRows: Omit<
+        InvoiceProgressLine,
+        'id' | 'invoice_id' | 'created_at' | 'updated_at'
+      >[] = [];
+      const billedAmounts: { sov: ScheduleOfValuesLine; amount: number }[] = [];
+
+      for (const sov of sovLines) {
+        const scheduledValue = Number(sov.scheduled_value);
+        const status = billingStatus.get(sov.id) ?? { completed_to_date: 0, stored_materials: 0 };
+        const input = inputBySovId.get(sov.id);
+
+        let thisPeriod = 0;
+        let storedMaterials = status.stored_materials;
+
+        if (invoiceType === 'FINAL') {
+          thisPeriod = roundCurrency(scheduledValue - status.completed_to_date);
+          storedMaterials = 0;
+        } else if (input) {
+          if (input.percent_complete !== undefined) {
+            thisPeriod = roundCurrency(
+              (scheduledValue * input.percent_complete) / 100 - status.completed_to_date
+            );
+          } else if (input.amount_this_period !== undefined) {
+            thisPeriod = roundCurrency(input.amount_this_period);
+          }
+          if (input.stored_materials !== undefined) {
+            storedMaterials = roundCurrency(input.stored_materials);
+          }
+        }
+
+        if (thisPeriod < 0) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'percent_complete is below the work already billed for this line',
+                { sov_line_id: sov.id, completed_to_date: status.completed_to_date }
+              )
+            );
+          return;
+        }
+
+        const completedToDate = roundCurrency(status.completed_to_date + thisPeriod);
+        const totalCompletedAndStored = roundCurrency(completedToDate + storedMaterials);
+
+        if (totalCompletedAndStored > scheduledValue) {
+          res.status(400).json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Work completed and stored cannot exceed the scheduled value',
+              {
+                sov_line_id: sov.id,
+                scheduled_value: scheduledValue,
+                total_completed_and_stored: totalCompletedAndStored,
+              }
+            )
+          );
+          return;
+        }
+
+        // Amount due this period: new work plus the change in stored materials
+        const amountDue = roundCurrency(thisPeriod + storedMaterials - status.stored_materials);
+
+        if (amountDue < 0) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'Stored materials can only be reduced by billing them as work completed',
+                { sov_line_id: sov.id }
+              )
+            );
+          return;
+        }
+
+        progressRows.push({
+          sov_line_id: sov.id,
+          line_no: sov.line_no,
+          description: sov.description,
+          scheduled_value: scheduledValue,
+          previously_billed: status.completed_to_date,
+          this_period: thisPeriod,
+          stored_materials: storedMaterials,
+          total_completed_and_stored: totalCompletedAndStored,
+          percent_complete:
+            scheduledValue > 0
+              ? Math.round((totalCompletedAndStored / scheduledValue) * 10000) / 100
+              : 0,
+          balance_to_finish: roundCurrency(scheduledValue - totalCompletedAndStored),
+        });
+
+        if (amountDue > 0) {
+          billedAmounts.push({ sov, amount: amountDue });
+        }
+      }
+
+      if (billedAmounts.length === 0) {
+        res.status(400).json(errorResponse('VALIDATION_ERROR', 'Nothing to bill this period'));
+        return;
+      }
+
+      // Call DB function to get next invoice number
+      const { invoiceNo, error: numberError } = await getNextInvoiceNumber(supabase);
+
+      if (numberError || !invoiceNo) {
+        console.error('Error generating invoice number:', numberError);
+        res
+          .status(500)
+          .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate invoice number'));
+        return;
+      }
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .insert({
+          project_id: id,
+          invoice_type: invoiceType,
+          invoice_date: validatedData.invoice_date,
+          due_date: validatedData.due_date,
+          tax_rule_id: validatedData.tax_rule_id,
+          retainage_percent: Number(project.retainage_percent ?? 0),
+          invoice_no: invoiceNo,
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<Invoice>();
+
+      if (invoiceError) {
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: insertedProgressLines, error: progressError } = await supabase
+        .from('invoice_progress_lines')
+        .insert(progressRows.map((row) => ({ ...row, invoice_id: invoice.id })))
+        .select()
+        .returns<InvoiceProgressLine[]>();
+
+      if (progressError) {
+        const apiError = translateDbError(progressError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Schedule of values amounts already include tax from the quote, so lines are non-taxable
+      const { error: linesError } = await supabase.from('invoice_lines').insert(
+        billedAmounts.map((billed, index) => ({
+          invoice_id: invoice.id,
+          line_no: index + 1,
+          quote_line_id: billed.sov.quote_line_id,
+          description: `${billed.sov.line_no}. ${billed.sov.description}`,
+          uom: 'LS',
+          qty: 1,
+          unit_price: billed.amount,
+          is_taxable: false,
+        }))
+      );
+
+      if (linesError) {
+        const apiError = translateDbError(linesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { success, error: recalcError } = await recalculateInvoiceTotals(supabase, invoice.id);
+      if (!success) {
+        console.error('Error recalculating invoice totals:', recalcError);
+        // Don't fail the request, just log the error
+      }
+
+      const { data: updatedInvoice } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoice.id)
+        .single<Invoice>();
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: invoice.id,
+        action: 'PROGRESS_INVOICE_GENERATED',
+        actor_user_id: req.employee!.id,
+        after_data: {
+          project_id: id,
+          invoice_type: invoiceType,
+          lines_billed: billedAmounts.length,
+          total_amount: updatedInvoice?.total_amount ?? null,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', invoice.id);
+
+      res.status(201).json(
+        successResponse({
+          ...(updatedInvoice ?? invoice),
+          progress_lines: insertedProgressLines || [],
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error generating progress invoice:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate progress invoice'));
+    }
+  }
+);
+
+/**
+ * GET /api/invoices/:id/progress-lines
+ * Get the G702 summary and G703 continuation sheet for a progress invoice
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/invoices/:id/progress-lines',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', id)
+        .single<Invoice>();
+
+      if (invoiceError) {
+        if (invoiceError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Invoice not found'));
+          return;
+        }
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: lines, error: linesError } = await supabase
+        .from('invoice_progress_lines')
+        .select('*')
+        .eq('invoice_id', id)
+        .order('line_no', { ascending: true })
+        .returns<InvoiceProgressLine[]>();
+
+      if (linesError) {
+        const apiError = translateDbError(linesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      let project: Pick<
+        Project,
+        'base_contract_amount' | 'change_order_amount' | 'contract_amount'
+      > | null = null;
+
+      if (invoice.project_id) {
+        const { data: projectData, error: projectError } = await supabase
+          .from('projects')
+          .select('base_contract_amount, change_order_amount, contract_amount')
+          .eq('id', invoice.project_id)
+          .single<
+            Pick<Project, 'base_contract_amount' | 'change_order_amount' | 'contract_amount'>
+          >();
+
+        if (projectError) {
+          console.error('Error fetching project:', projectError);
+        } else {
+          project = projectData;
+        }
+      }
+
+      const totalCompletedAndStored = roundCurrency(
+        (lines || []).reduce((sum, line) => sum + Number(line.total_completed_and_stored), 0)
+      );
+      const retainage = Number(invoice.retainage_amount ?? 0);
+      const currentPaymentDue = roundCurrency(Number(invoice.subtotal) - retainage);
+      const contractSumToDate = project ? Number(project.contract_amount) : null;
+
+      res.json(
+        successResponse({
+          invoice,
+          summary: {
+            original_contract_sum: project ? Number(project.base_contract_amount) : null,
+            net_change_orders: project ? Number(project.change_order_amount) : null,
+            contract_sum_to_date: contractSumToDate,
+            total_completed_and_stored: totalCompletedAndStored,
+            retainage_percent: Number(invoice.retainage_percent ?? 0),
+            retainage_this_period: retainage,
+            less_previous_certificates: roundCurrency(
+              totalCompletedAndStored - Number(invoice.subtotal)
+            ),
+            current_payment_due: currentPaymentDue,
+            balance_to_finish:
+              contractSumToDate !== null
+                ? roundCurrency(contractSumToDate - totalCompletedAndStored)
+                : null,
+          },
+          lines: lines || [],
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching invoice progress lines:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch invoice progress lines'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,519 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, parsePagination, parseSort, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  createServiceAgreementSchema,
+  runAgreementBillingSchema,
+  updateServiceAgreementSchema,
+  ServiceAgreementLineInput,
+} from '@/validations/serviceAgreement.js';
+import {
+  ServiceAgreement,
+  ServiceAgreementBilling,
+  ServiceAgreementLineTemplate,
+} from '@/types/database.js';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/services/auditLog.js';
+import { enqueueJob } from '@/services/jobQueue.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+
+const router = Router();
+
+/**
+ * Normalizes template lines with defaults and returns their billed total
+ */
+function buildLineTemplate(lines: ServiceAgreementLineInput[]): {
+  lineTemplate: ServiceAgreementLineTemplate[];
+  amount: number;
+} {
+  const lineTemplate = lines.map((line) => ({
+    part_id: line.part_id ?? null,
+    description: line.description,
+    uom: line.uom ?? 'EA',
+    qty: line.qty,
+    unit_price: line.unit_price,
+    is_taxable: line.is_taxable ?? true,
+  }));
+
+  const amount = roundCurrency(
+    lineTemplate.reduce((sum, line) => sum + line.qty * line.unit_price, 0)
+  );
+
+  return { lineTemplate, amount };
+}
+
+/**
+ * GET /api/service-agreements
+ * List service agreements with pagination and filters
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/service-agreements',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+      const pagination = parsePagination(req.query);
+      const sort = parseSort(
+        req.query,
+        ['name', 'start_date', 'next_billing_date', 'amount', 'created_at', 'updated_at'],
+        'next_billing_date',
+        'asc'
+      );
+
+      // Parse filter params
+      const customerId =
+        typeof req.query.customer_id === 'string' ? req.query.customer_id.trim() : '';
+      const locationId =
+        typeof req.query.location_id === 'string' ? req.query.location_id.trim() : '';
+      const status = typeof req.query.status === 'string' ? req.query.status.trim() : '';
+
+      let query = supabase.from('service_agreements').select('*', { count: 'exact' });
+
+      if (customerId) {
+        query = query.eq('customer_id', customerId);
+      }
+
+      if (locationId) {
+        query = query.eq('location_id', locationId);
+      }
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      if (sort) {
+        query = query.order(sort.field, { ascending: sort.direction === 'asc' });
+      }
+
+      query = query.range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse(data ?? [], {
+          pagination: {
+            limit: pagination.limit,
+            offset: pagination.offset,
+            total: count ?? 0,
+          },
+        })
+      );
+    } catch (error) {
+      console.error('Error listing service agreements:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list service agreements'));
+    }
+  }
+);
+
+/**
+ * POST /api/service-agreements
+ * Create a recurring service agreement for a customer location
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/service-agreements',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = createServiceAgreementSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Verify location exists and belongs to the customer
+      const { data: location, error: locationError } = await supabase
+        .from('locations')
+        .select('id, customer_id')
+        .eq('id', validatedData.location_id)
+        .single<{ id: string; customer_id: string }>();
+
+      if (locationError || !location || location.customer_id !== validatedData.customer_id) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Invalid location_id: location does not exist for this customer'
+            )
+          );
+        return;
+      }
+
+      // Verify tax_rule exists
+      const { data: taxRule, error: taxError } = await supabase
+        .from('tax_rules')
+        .select('id')
+        .eq('id', validatedData.tax_rule_id)
+        .single();
+
+      if (taxError || !taxRule) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid tax_rule_id: tax rule does not exist'));
+        return;
+      }
+
+      const { line_template: lines, ...agreementData } = validatedData;
+      const { lineTemplate, amount } = lines
+        ? buildLineTemplate(lines)
+        : { lineTemplate: [], amount: validatedData.amount! };
+
+      const { data, error } = await supabase
+        .from('service_agreements')
+        .insert({
+          ...agreementData,
+          amount,
+          line_template: lineTemplate,
+          next_billing_date: validatedData.start_date,
+          status: 'ACTIVE',
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<ServiceAgreement>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'service_agreement',
+        entity_id: data.id,
+        action: 'SERVICE_AGREEMENT_CREATED',
+        actor_user_id: req.employee!.id,
+        after_data: data as unknown as Record<string, unknown>,
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error creating service agreement:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to create service agreement'));
+    }
+  }
+);
+
+/**
+ * POST /api/service-agreements/run-billing
+ * Queue a billing run for due agreements (or a single agreement)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ * A run without service_agreement_id is a full sweep and keeps the daily schedule going
+ */
+router.post(
+  '/api/service-agreements/run-billing',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = runAgreementBillingSchema.parse(req.body ?? {});
+      const supabase = createServerClient();
+
+      // Pin as_of so the run is not mistaken for the already scheduled next-day sweep
+      const { data, error } = await enqueueJob(supabase, 'service_agreement_billing', {
+        ...validatedData,
+        as_of: validatedData.as_of ?? new Date().toISOString().split('T')[0],
+      });
+
+      if (error) {
+        console.error('Error enqueueing service agreement billing:', error);
+        res
+          .status(500)
+          .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to queue agreement billing'));
+        return;
+      }
+
+      // A null job means an identical run is already pending
+      res.status(202).json(successResponse({ job: data, already_queued: data === null }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error queueing service agreement billing:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to queue agreement billing'));
+    }
+  }
+);
+
+/**
+ * GET /api/service-agreements/:id
+ * Get a single service agreement by ID
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/service-agreements/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('service_agreements')
+        .select('*')
+        .eq('id', id)
+        .single<ServiceAgreement>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Service agreement not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      console.error('Error fetching service agreement:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch service agreement'));
+    }
+  }
+);
+
+/**
+ * PATCH /api/service-agreements/:id
+ * Update a service agreement (not allowed once CANCELED)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.patch(
+  '/api/service-agreements/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateServiceAgreementSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('service_agreements')
+        .select('*')
+        .eq('id', id)
+        .single<ServiceAgreement>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Service agreement not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (existing.status === 'CANCELED') {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Canceled service agreements cannot be updated'));
+        return;
+      }
+
+      const { line_template: lines, ...updateData } = validatedData;
+      const updates: Record<string, unknown> = { ...updateData };
+
+      if (lines) {
+        const { lineTemplate, amount } = buildLineTemplate(lines);
+        updates.line_template = lineTemplate;
+        updates.amount = amount;
+      } else if (validatedData.amount !== undefined && existing.line_template?.length > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Agreement amount is derived from line_template; update the template instead'
+            )
+          );
+        return;
+      }
+
+      const endDate =
+        validatedData.end_date !== undefined ? validatedData.end_date : existing.end_date;
+      if (endDate && endDate < existing.start_date) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'end_date must be on or after start_date'));
+        return;
+      }
+
+      if (validatedData.tax_rule_id) {
+        const { data: taxRule, error: taxError } = await supabase
+          .from('tax_rules')
+          .select('id')
+          .eq('id', validatedData.tax_rule_id)
+          .single();
+
+        if (taxError || !taxRule) {
+          res
+            .status(400)
+            .json(
+              errorResponse('VALIDATION_ERROR', 'Invalid tax_rule_id: tax rule does not exist')
+            );
+          return;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('service_agreements')
+        .update({
+          ...updates,
+          updated_by: req.employee!.id,
+        })
+        .eq('id', id)
+        .select()
+        .single<ServiceAgreement>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'service_agreement',
+        entity_id: id,
+        action: 'SERVICE_AGREEMENT_UPDATED',
+        actor_user_id: req.employee!.id,
+        before_data: existing as unknown as Record<string, unknown>,
+        after_data: data as unknown as Record<string, unknown>,
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating service agreement:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update service agreement'));
+    }
+  }
+);
+
+/**
+ * GET /api/service-agreements/:id/billings
+ * Billing history for a service agreement, newest period first, with invoice status
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/service-agreements/:id/billings',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // Verify agreement exists
+      const { error: agreementError } = await supabase
+        .from('service_agreements')
+        .select('id')
+        .eq('id', id)
+        .single();
+
+      if (agreementError) {
+        if (agreementError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Service agreement not found'));
+          return;
+        }
+        const apiError = translateDbError(agreementError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('service_agreement_billings')
+        .select('*, invoices(invoice_no, status, total_amount, paid_amount)')
+        .eq('service_agreement_id', id)
+        .order('period_start', { ascending: false })
+        .returns<ServiceAgreementBilling[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error fetching service agreement billings:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch service agreement billings'));
+    }
+  }
+);
+
+export default router;
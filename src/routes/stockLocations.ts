@@ -0,0 +1,465 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  createStockLocationSchema,
+  updateStockLocationSchema,
+} from '@/validations/stockLocation.js';
+import { StockLocation } from '@/types/database.js';
+import { Employee } from '@/types/auth.js';
+import { ZodError } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const router = Router();
+
+const LOCATION_TYPES = ['WAREHOUSE', 'TRUCK', 'JOB_SITE'];
+
+/**
+ * Problem with making an employee a truck's owner, or null if they can own it
+ * A tech has at most one active truck, so usage knows which stock to draw from.
+ */
+async function checkTruckOwner(
+  supabase: SupabaseClient,
+  techUserId: string,
+  excludeLocationId?: string
+): Promise<{ status: number; code: string; message: string } | null> {
+  const { data: employee } = await supabase
+    .from('employees')
+    .select('id, is_active')
+    .eq('id', techUserId)
+    .maybeSingle<Pick<Employee, 'id' | 'is_active'>>();
+
+  if (!employee || !employee.is_active) {
+    return {
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      message: 'Employee does not exist or is inactive',
+    };
+  }
+
+  let query = supabase
+    .from('stock_locations')
+    .select('id')
+    .eq('location_type', 'TRUCK')
+    .eq('tech_user_id', techUserId)
+    .eq('is_active', true);
+
+  if (excludeLocationId) {
+    query = query.neq('id', excludeLocationId);
+  }
+
+  const { data: trucks } = await query.limit(1);
+
+  if (trucks && trucks.length > 0) {
+    return { status: 409, code: 'CONFLICT', message: 'Employee already has an active truck' };
+  }
+
+  return null;
+}
+
+/**
+ * Number of parts with stock on hand at a location
+ */
+async function countStockedParts(supabase: SupabaseClient, stockLocationId: string) {
+  return supabase
+    .from('part_stock')
+    .select('*', { count: 'exact', head: true })
+    .eq('stock_location_id', stockLocationId)
+    .neq('qty_on_hand', 0);
+}
+
+/**
+ * GET /api/stock-locations
+ * List stock locations (?location_type=TRUCK, ?tech_user_id=, ?is_active=true)
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/stock-locations',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+      const locationType =
+        typeof req.query.location_type === 'string' ? req.query.location_type : undefined;
+      const techUserId =
+        typeof req.query.tech_user_id === 'string' ? req.query.tech_user_id : undefined;
+      const isActive = typeof req.query.is_active === 'string' ? req.query.is_active : undefined;
+
+      if (locationType && !LOCATION_TYPES.includes(locationType)) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              `Invalid location_type. Must be one of: ${LOCATION_TYPES.join(', ')}`
+            )
+          );
+        return;
+      }
+
+      let query = supabase
+        .from('stock_locations')
+        .select('*')
+        .order('location_type', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (locationType) {
+        query = query.eq('location_type', locationType);
+      }
+
+      if (techUserId) {
+        query = query.eq('tech_user_id', techUserId);
+      }
+
+      if (isActive !== undefined) {
+        query = query.eq('is_active', isActive === 'true');
+      }
+
+      const { data, error } = await query.returns<StockLocation[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error listing stock locations:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list stock locations'));
+    }
+  }
+);
+
+/**
+ * POST /api/stock-locations
+ * Add a warehouse, a tech's truck or a job site
+ * Returns 409 if the tech already has an active truck.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/stock-locations',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = createStockLocationSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      if (validatedData.location_type === 'TRUCK' && validatedData.is_active !== false) {
+        const problem = await checkTruckOwner(supabase, validatedData.tech_user_id!);
+
+        if (problem) {
+          res.status(problem.status).json(errorResponse(problem.code, problem.message));
+          return;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('stock_locations')
+        .insert({
+          ...validatedData,
+          // Only trucks have an owner
+          tech_user_id: validatedData.location_type === 'TRUCK' ? validatedData.tech_user_id : null,
+        })
+        .select()
+        .single<StockLocation>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error creating stock location:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to create stock location'));
+    }
+  }
+);
+
+/**
+ * GET /api/stock-locations/:id
+ * Get a stock location with the parts on hand there
+ * TECH role: read-only (allowed)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/stock-locations/:id',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('stock_locations')
+        .select('*')
+        .eq('id', id)
+        .single<StockLocation>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Stock location not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: stock, error: stockError } = await supabase
+        .from('part_stock')
+        .select('part_id, qty_on_hand, part:parts(id, sku, name, uom)')
+        .eq('stock_location_id', id)
+        .neq('qty_on_hand', 0);
+
+      if (stockError) {
+        const apiError = translateDbError(stockError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse({ ...data, stock: stock ?? [] }));
+    } catch (error) {
+      console.error('Error fetching stock location:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch stock location'));
+    }
+  }
+);
+
+/**
+ * PATCH /api/stock-locations/:id
+ * Rename, reassign or deactivate a stock location
+ * A location can't be deactivated while it has stock on hand (400).
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.patch(
+  '/api/stock-locations/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateStockLocationSchema.parse(req.body);
+
+      if (Object.keys(validatedData).length === 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+          );
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      const { data: current, error: fetchError } = await supabase
+        .from('stock_locations')
+        .select('*')
+        .eq('id', id)
+        .single<StockLocation>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Stock location not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (current.location_type === 'TRUCK') {
+        if (validatedData.tech_user_id === null) {
+          res
+            .status(400)
+            .json(errorResponse('VALIDATION_ERROR', 'A TRUCK location must have a tech_user_id'));
+          return;
+        }
+
+        const techUserId = validatedData.tech_user_id ?? current.tech_user_id;
+        const isActive = validatedData.is_active ?? current.is_active;
+
+        if (techUserId && isActive && (techUserId !== current.tech_user_id || !current.is_active)) {
+          const problem = await checkTruckOwner(supabase, techUserId, id);
+
+          if (problem) {
+            res.status(problem.status).json(errorResponse(problem.code, problem.message));
+            return;
+          }
+        }
+      } else if (validatedData.tech_user_id) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Only TRUCK locations have a tech_user_id'));
+        return;
+      }
+
+      if (validatedData.is_active === false && current.is_active) {
+        const { count } = await countStockedParts(supabase, id);
+
+        if (count && count > 0) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'Transfer the stock out before deactivating this location',
+                { stocked_parts: count }
+              )
+            );
+          return;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('stock_locations')
+        .update(validatedData)
+        .eq('id', id)
+        .select()
+        .single<StockLocation>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating stock location:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update stock location'));
+    }
+  }
+);
+
+/**
+ * DELETE /api/stock-locations/:id
+ * Delete a stock location
+ * Not allowed while it has stock on hand (400); locations with ledger history should be
+ * deactivated instead.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.delete(
+  '/api/stock-locations/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { error: fetchError } = await supabase
+        .from('stock_locations')
+        .select('id')
+        .eq('id', id)
+        .single<Pick<StockLocation, 'id'>>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Stock location not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { count } = await countStockedParts(supabase, id);
+
+      if (count && count > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Transfer the stock out before deleting this location',
+              { stocked_parts: count }
+            )
+          );
+        return;
+      }
+
+      // Empty stock rows go with the location
+      const { error: stockError } = await supabase
+        .from('part_stock')
+        .delete()
+        .eq('stock_location_id', id);
+
+      if (stockError) {
+        const apiError = translateDbError(stockError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { error } = await supabase.from('stock_locations').delete().eq('id', id);
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting stock location:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to delete stock location'));
+    }
+  }
+);
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
 import {
   createServerClient,
   translateDbError,
@@ -6,60 +7,26 @@ import {
 import { successResponse, errorResponse } from '@/types/response.js';
 import { requireAuth } from '@/middleware/requireAuth.js';
 import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
 import {
   createTimeEntrySchema,
   updateTimeEntrySchema,
 } from '@/validations/timeEntry.js';
-import { WorkOrder, WorkOrderTimeEntry } from '@/types/database.js';
+import { createTimeEntryAdjustmentSchema } from '@/validations/timesheet.js';
+import { TimeEntryAdjustment, WorkOrderTimeEntry } from '@/types/database.js';
 import { ZodError } from 'zod';
+import { techHasAccessToWorkOrder } from '@/services/workOrderAssignments.js';
+import {
+  computeTimeEntryHours,
+  findLockingTimesheet,
+  getWeekStart,
+  timesheetLockedError,
+} from '@/services/timesheets.js';
+import { getCompanyTimeZone, toZonedDate } from '@/services/workingCalendar.js';
 import { enqueueJob } from '@/services/jobQueue.js';
 
 const router = Router();
 
-/**
- * Helper function to compute hours from time entry
- */
-function computeHours(entry: WorkOrderTimeEntry): number | null {
-  if (!entry.clock_out_at) {
-    return null;
-  }
-  const clockInMs = new Date(entry.clock_in_at).getTime();
-  const clockOutMs = new Date(entry.clock_out_at).getTime();
-  const totalMinutes = (clockOutMs - clockInMs) / 60000;
-  const workedMinutes = totalMinutes - entry.break_minutes;
-  return workedMinutes / 60;
-}
-
-/**
- * Helper function to check if tech has access to work order
- */
-async function techHasAccessToWorkOrder(
-  supabase: ReturnType<typeof createServerClient>,
-  workOrderId: string,
-  techUserId: string
-): Promise<boolean> {
-  // Check if work order is assigned to tech
-  const { data: workOrder } = await supabase
-    .from('work_orders')
-    .select('assigned_to')
-    .eq('id', workOrderId)
-    .single<Pick<WorkOrder, 'assigned_to'>>();
-
-  if (workOrder && workOrder.assigned_to === techUserId) {
-    return true;
-  }
-
-  // Check if tech is scheduled for work order
-  const { data: scheduleData } = await supabase
-    .from('work_order_schedule')
-    .select('id')
-    .eq('work_order_id', workOrderId)
-    .eq('tech_user_id', techUserId)
-    .limit(1);
-
-  return scheduleData !== null && scheduleData.length > 0;
-}
-
 /**
  * GET /api/work-orders/:id/time-entries
  * List time entries for a work order
@@ -116,7 +83,7 @@ router.get(
         const typedEntry = entry as WorkOrderTimeEntry;
         return {
           ...typedEntry,
-          hours: computeHours(typedEntry),
+          hours: computeTimeEntryHours(typedEntry),
         };
       });
 
@@ -135,6 +102,7 @@ router.get(
 /**
  * POST /api/work-orders/:id/time-entries
  * Create a new time entry (clock in)
+ * Returns 409 TIMESHEET_LOCKED if the tech's timesheet for that week is approved.
  * TECH role: can only create their own time entries
  * OFFICE/ADMIN: can create time entries for any tech
  */
@@ -185,6 +153,30 @@ router.post(
         return;
       }
 
+      // Approved weeks are locked
+      const { data: lockingTimesheet, error: lockError } =
+        await findLockingTimesheet(
+          supabase,
+          validatedData.tech_user_id,
+          validatedData.clock_in_at
+        );
+
+      if (lockError) {
+        const apiError = translateDbError(lockError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (lockingTimesheet) {
+        const apiError = timesheetLockedError(lockingTimesheet);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
       // Insert time entry
       const { data, error } = await supabase
         .from('work_order_time_entries')
@@ -221,7 +213,7 @@ router.post(
       // Add computed hours
       const responseData = {
         ...data,
-        hours: computeHours(data),
+        hours: computeTimeEntryHours(data),
       };
 
       res.status(201).json(successResponse(responseData));
@@ -295,7 +287,7 @@ router.get(
       // Add computed hours
       const responseData = {
         ...data,
-        hours: computeHours(data),
+        hours: computeTimeEntryHours(data),
       };
 
       res.json(successResponse(responseData));
@@ -313,6 +305,9 @@ router.get(
 /**
  * PATCH /api/time-entries/:id
  * Update a time entry (clock out, add break, notes)
+ * Changing the hours of a clocked-out entry re-posts the labor cost difference.
+ * Returns 409 TIMESHEET_LOCKED if the entry is in an approved week; use
+ * POST /api/time-entries/:id/adjustments instead.
  * TECH role: can only update their own time entries
  * OFFICE/ADMIN: can update any time entry
  */
@@ -376,6 +371,30 @@ router.patch(
         }
       }
 
+      // Approved weeks are locked; corrections go through adjustments
+      const { data: lockingTimesheet, error: lockError } =
+        await findLockingTimesheet(
+          supabase,
+          currentEntry.tech_user_id,
+          currentEntry.clock_in_at
+        );
+
+      if (lockError) {
+        const apiError = translateDbError(lockError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (lockingTimesheet) {
+        const apiError = timesheetLockedError(lockingTimesheet);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
       // Validate clock_out_at if provided
       if (validatedData.clock_out_at) {
         const clockOutDate = new Date(validatedData.clock_out_at);
@@ -416,12 +435,26 @@ router.patch(
           console.error('Failed to enqueue cost posting job:', jobError);
           // Continue - time entry was updated successfully, job can be manually triggered
         }
+      } else if (
+        currentEntry.clock_out_at &&
+        computeTimeEntryHours(data) !== computeTimeEntryHours(currentEntry)
+      ) {
+        // Cost was already posted for the old hours; re-post the difference under a
+        // key of its own so it isn't mistaken for the original post
+        const { error: jobError } = await enqueueJob(supabase, 'time_entry_cost_post', {
+          time_entry_id: data.id,
+          repost_key: randomUUID(),
+        });
+        if (jobError) {
+          console.error('Failed to enqueue cost re-posting job:', jobError);
+          // Continue - time entry was updated successfully, job can be manually triggered
+        }
       }
 
       // Add computed hours
       const responseData = {
         ...data,
-        hours: computeHours(data),
+        hours: computeTimeEntryHours(data),
       };
 
       res.json(successResponse(responseData));
@@ -442,4 +475,294 @@ router.patch(
   }
 );
 
+/**
+ * GET /api/time-entries/:id/adjustments
+ * List corrections made to a time entry after its week was locked, oldest first
+ * TECH role: can only see adjustments to their own time entries
+ * OFFICE/ADMIN: can see all adjustments
+ */
+router.get(
+  '/api/time-entries/:id/adjustments',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data: entry, error: fetchError } = await supabase
+        .from('work_order_time_entries')
+        .select('tech_user_id')
+        .eq('id', id)
+        .single<Pick<WorkOrderTimeEntry, 'tech_user_id'>>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Time entry not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (
+        req.employee!.role === 'TECH' &&
+        entry.tech_user_id !== req.employee!.id
+      ) {
+        res
+          .status(403)
+          .json(
+            errorResponse('FORBIDDEN', 'You can only view your own time entries')
+          );
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('time_entry_adjustments')
+        .select('*')
+        .eq('time_entry_id', id)
+        .order('created_at', { ascending: true })
+        .returns<TimeEntryAdjustment[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error listing time entry adjustments:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse(
+            'INTERNAL_SERVER_ERROR',
+            'Failed to list time entry adjustments'
+          )
+        );
+    }
+  }
+);
+
+/**
+ * POST /api/time-entries/:id/adjustments
+ * Correct a closed time entry in an approved (locked) week
+ * Updates the entry, records the before/after values with a reason, adds the hours
+ * difference to the timesheet and queues a time_entry_cost_post job that posts the
+ * labor cost difference to job_cost_entries. The corrected clock-in must stay in the
+ * same week.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/time-entries/:id/adjustments',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { reason, ...changes } = createTimeEntryAdjustmentSchema.parse(
+        req.body
+      );
+      const supabase = createServerClient();
+
+      const { data: currentEntry, error: fetchError } = await supabase
+        .from('work_order_time_entries')
+        .select('*')
+        .eq('id', id)
+        .single<WorkOrderTimeEntry>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res
+            .status(404)
+            .json(errorResponse('NOT_FOUND', 'Time entry not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (!currentEntry.clock_out_at) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'Only clocked-out time entries can be adjusted'
+          )
+        );
+        return;
+      }
+
+      const { data: timesheet, error: lockError } = await findLockingTimesheet(
+        supabase,
+        currentEntry.tech_user_id,
+        currentEntry.clock_in_at
+      );
+
+      if (lockError) {
+        const apiError = translateDbError(lockError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      if (!timesheet) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'Time entry is not in a locked week; update it directly'
+          )
+        );
+        return;
+      }
+
+      const before = {
+        clock_in_at: currentEntry.clock_in_at,
+        clock_out_at: currentEntry.clock_out_at,
+        break_minutes: currentEntry.break_minutes,
+      };
+      const after = { ...before, ...changes };
+
+      if (new Date(after.clock_out_at) <= new Date(after.clock_in_at)) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'clock_out_at must be after clock_in_at'
+          )
+        );
+        return;
+      }
+
+      const hoursAfter = computeTimeEntryHours(after) ?? 0;
+      if (hoursAfter <= 0) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'Break cannot be longer than the time worked'
+          )
+        );
+        return;
+      }
+
+      const timeZone = await getCompanyTimeZone(supabase);
+      if (
+        getWeekStart(toZonedDate(new Date(after.clock_in_at), timeZone)) !==
+        timesheet.week_start
+      ) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'An adjustment cannot move a time entry to another week'
+          )
+        );
+        return;
+      }
+
+      const hoursDelta =
+        Math.round((hoursAfter - (computeTimeEntryHours(before) ?? 0)) * 100) /
+        100;
+
+      const { data: entry, error: updateError } = await supabase
+        .from('work_order_time_entries')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single<WorkOrderTimeEntry>();
+
+      if (updateError) {
+        const apiError = translateDbError(updateError);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const { data: adjustment, error } = await supabase
+        .from('time_entry_adjustments')
+        .insert({
+          time_entry_id: id,
+          timesheet_id: timesheet.id,
+          before_data: before,
+          after_data: after,
+          hours_delta: hoursDelta,
+          reason,
+          adjusted_by: req.employee!.id,
+        })
+        .select()
+        .single<TimeEntryAdjustment>();
+
+      if (error) {
+        // Put the entry back so the change isn't left unrecorded
+        await supabase
+          .from('work_order_time_entries')
+          .update(before)
+          .eq('id', id);
+        const apiError = translateDbError(error);
+        res.status(apiError.statusCode).json(
+          errorResponse(apiError.code, apiError.message, apiError.details)
+        );
+        return;
+      }
+
+      const { error: totalError } = await supabase
+        .from('timesheets')
+        .update({
+          total_hours:
+            Math.round((Number(timesheet.total_hours) + hoursDelta) * 100) /
+            100,
+        })
+        .eq('id', timesheet.id);
+
+      if (totalError) {
+        console.error('Error updating timesheet total:', totalError);
+        // Don't fail the request, the adjustment is already recorded
+      }
+
+      // Re-post the labor cost difference
+      const { error: jobError } = await enqueueJob(
+        supabase,
+        'time_entry_cost_post',
+        { time_entry_id: id, adjustment_id: adjustment.id }
+      );
+      if (jobError) {
+        console.error('Failed to enqueue cost posting job:', jobError);
+        // Continue - the adjustment was recorded, job can be manually triggered
+      }
+
+      res.status(201).json(
+        successResponse({
+          ...adjustment,
+          time_entry: { ...entry, hours: computeTimeEntryHours(entry) },
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues)
+        );
+        return;
+      }
+      console.error('Error adjusting time entry:', error);
+      res
+        .status(500)
+        .json(
+          errorResponse('INTERNAL_SERVER_ERROR', 'Failed to adjust time entry')
+        );
+    }
+  }
+);
+
 export default router;
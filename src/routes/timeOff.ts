@@ -0,0 +1,309 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { createTimeOffSchema, timeOffQuerySchema } from '@/validations/timeOff.js';
+import { EmployeeTimeOff } from '@/types/database.js';
+import { createAuditLog } from '@/services/auditLog.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * GET /api/time-off
+ * List time-off requests, newest first
+ * Query: employee_id, status, from/to (ISO timestamps, overlap filter)
+ * TECH role: only their own requests
+ * OFFICE/ADMIN: all requests
+ */
+router.get(
+  '/api/time-off',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = timeOffQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+
+      let query = supabase
+        .from('employee_time_off')
+        .select('*')
+        .order('start_at', { ascending: false });
+
+      if (req.employee!.role === 'TECH') {
+        query = query.eq('employee_id', req.employee!.id);
+      } else if (filters.employee_id) {
+        query = query.eq('employee_id', filters.employee_id);
+      }
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.from) {
+        query = query.gt('end_at', filters.from);
+      }
+      if (filters.to) {
+        query = query.lt('start_at', filters.to);
+      }
+
+      const { data, error } = await query.returns<EmployeeTimeOff[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues));
+        return;
+      }
+      console.error('Error listing time off:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list time off'));
+    }
+  }
+);
+
+/**
+ * POST /api/time-off
+ * Request time off (status PENDING until reviewed)
+ * TECH role: can only request for themselves
+ * OFFICE/ADMIN: can request for any employee
+ */
+router.post(
+  '/api/time-off',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = createTimeOffSchema.parse(req.body);
+      const employeeId = validatedData.employee_id ?? req.employee!.id;
+
+      if (req.employee!.role === 'TECH' && employeeId !== req.employee!.id) {
+        res
+          .status(403)
+          .json(errorResponse('FORBIDDEN', 'You can only request time off for yourself'));
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('employee_time_off')
+        .insert({
+          employee_id: employeeId,
+          start_at: validatedData.start_at,
+          end_at: validatedData.end_at,
+          reason: validatedData.reason ?? null,
+          status: 'PENDING',
+          created_by: req.employee!.id,
+        })
+        .select()
+        .single<EmployeeTimeOff>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error requesting time off:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to request time off'));
+    }
+  }
+);
+
+/**
+ * Shared handler: approve or deny a PENDING time-off request
+ */
+async function reviewTimeOff(
+  req: Request,
+  res: Response,
+  status: 'APPROVED' | 'DENIED'
+): Promise<void> {
+  const verb = status === 'APPROVED' ? 'approve' : 'deny';
+
+  try {
+    const { id } = req.params;
+    const supabase = createServerClient();
+
+    const { data: current, error: fetchError } = await supabase
+      .from('employee_time_off')
+      .select('*')
+      .eq('id', id)
+      .single<EmployeeTimeOff>();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        res.status(404).json(errorResponse('NOT_FOUND', 'Time-off request not found'));
+        return;
+      }
+      const apiError = translateDbError(fetchError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    if (current.status !== 'PENDING') {
+      res
+        .status(400)
+        .json(errorResponse('VALIDATION_ERROR', 'Only PENDING time-off requests can be reviewed'));
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('employee_time_off')
+      .update({
+        status,
+        reviewed_by: req.employee!.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single<EmployeeTimeOff>();
+
+    if (error) {
+      const apiError = translateDbError(error);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    // Create audit log
+    const { error: auditError } = await createAuditLog(supabase, {
+      entity_type: 'employee_time_off',
+      entity_id: id,
+      action: `TIME_OFF_${status}`,
+      actor_user_id: req.employee!.id,
+      before_data: current as unknown as Record<string, unknown>,
+      after_data: data as unknown as Record<string, unknown>,
+    });
+
+    if (auditError) {
+      console.error('Error creating audit log:', auditError);
+      // Don't fail the request if audit log fails
+    }
+
+    res.json(successResponse(data));
+  } catch (error) {
+    console.error(`Error trying to ${verb} time off:`, error);
+    res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', `Failed to ${verb} time off`));
+  }
+}
+
+/**
+ * POST /api/time-off/:id/approve
+ * Approve a PENDING time-off request (blocks scheduling availability)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/time-off/:id/approve',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => reviewTimeOff(req, res, 'APPROVED')
+);
+
+/**
+ * POST /api/time-off/:id/deny
+ * Deny a PENDING time-off request
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/time-off/:id/deny',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => reviewTimeOff(req, res, 'DENIED')
+);
+
+/**
+ * DELETE /api/time-off/:id
+ * Withdraw a time-off request
+ * TECH role: only their own PENDING requests
+ * OFFICE/ADMIN: any request
+ */
+router.delete(
+  '/api/time-off/:id',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data: current, error: fetchError } = await supabase
+        .from('employee_time_off')
+        .select('employee_id, status')
+        .eq('id', id)
+        .single<Pick<EmployeeTimeOff, 'employee_id' | 'status'>>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Time-off request not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (
+        req.employee!.role === 'TECH' &&
+        (current.employee_id !== req.employee!.id || current.status !== 'PENDING')
+      ) {
+        res
+          .status(403)
+          .json(
+            errorResponse('FORBIDDEN', 'You can only withdraw your own PENDING time-off requests')
+          );
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('employee_time_off')
+        .delete()
+        .eq('id', id)
+        .select()
+        .single<EmployeeTimeOff>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      console.error('Error deleting time off:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to delete time off'));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,431 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  approveTimesheetSchema,
+  rejectTimesheetSchema,
+  submitTimesheetSchema,
+  timesheetQuerySchema,
+} from '@/validations/timesheet.js';
+import { Timesheet } from '@/types/database.js';
+import { createAuditLog } from '@/services/auditLog.js';
+import {
+  computeTimeEntryHours,
+  getWeekEnd,
+  getWeekTimeEntries,
+  sumTimeEntryHours,
+} from '@/services/timesheets.js';
+import { getCompanyTimeZone } from '@/services/workingCalendar.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * GET /api/timesheets
+ * List weekly timesheets, newest week first
+ * Query: tech_user_id, status, week_start
+ * TECH role: only their own timesheets
+ * OFFICE/ADMIN: all timesheets
+ */
+router.get(
+  '/api/timesheets',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = timesheetQuerySchema.parse(req.query);
+      const supabase = createServerClient();
+
+      let query = supabase.from('timesheets').select('*').order('week_start', { ascending: false });
+
+      if (req.employee!.role === 'TECH') {
+        query = query.eq('tech_user_id', req.employee!.id);
+      } else if (filters.tech_user_id) {
+        query = query.eq('tech_user_id', filters.tech_user_id);
+      }
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.week_start) {
+        query = query.eq('week_start', filters.week_start);
+      }
+
+      const { data, error } = await query.returns<Timesheet[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid query parameters', error.issues));
+        return;
+      }
+      console.error('Error listing timesheets:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list timesheets'));
+    }
+  }
+);
+
+/**
+ * GET /api/timesheets/:id
+ * Get a timesheet with the week's time entries
+ * TECH role: can only see their own timesheets
+ * OFFICE/ADMIN: can see all timesheets
+ */
+router.get(
+  '/api/timesheets/:id',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('timesheets')
+        .select('*')
+        .eq('id', id)
+        .single<Timesheet>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Timesheet not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (req.employee!.role === 'TECH' && data.tech_user_id !== req.employee!.id) {
+        res.status(403).json(errorResponse('FORBIDDEN', 'You can only view your own timesheets'));
+        return;
+      }
+
+      const timeZone = await getCompanyTimeZone(supabase);
+      const { data: entries, error: entriesError } = await getWeekTimeEntries(
+        supabase,
+        data.tech_user_id,
+        data.week_start,
+        timeZone
+      );
+
+      if (entriesError) {
+        const apiError = translateDbError(entriesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse({
+          ...data,
+          entries: (entries || []).map((entry) => ({
+            ...entry,
+            hours: computeTimeEntryHours(entry),
+          })),
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch timesheet'));
+    }
+  }
+);
+
+/**
+ * POST /api/timesheets
+ * Submit a tech's timesheet for a week (Monday week_start, company time zone)
+ * Every time entry in the week must be clocked out. A REJECTED timesheet can be
+ * submitted again; SUBMITTED and APPROVED ones cannot.
+ * TECH role: can only submit their own timesheet
+ * OFFICE/ADMIN: can submit for any tech
+ */
+router.post(
+  '/api/timesheets',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = submitTimesheetSchema.parse(req.body);
+      const techUserId = validatedData.tech_user_id ?? req.employee!.id;
+
+      if (req.employee!.role === 'TECH' && techUserId !== req.employee!.id) {
+        res.status(403).json(errorResponse('FORBIDDEN', 'You can only submit your own timesheet'));
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      const { data: existing, error: existingError } = await supabase
+        .from('timesheets')
+        .select('*')
+        .eq('tech_user_id', techUserId)
+        .eq('week_start', validatedData.week_start)
+        .maybeSingle<Timesheet>();
+
+      if (existingError) {
+        const apiError = translateDbError(existingError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (existing && existing.status !== 'REJECTED') {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              `Timesheet for this week is already ${existing.status}`
+            )
+          );
+        return;
+      }
+
+      const timeZone = await getCompanyTimeZone(supabase);
+      const { data: entries, error: entriesError } = await getWeekTimeEntries(
+        supabase,
+        techUserId,
+        validatedData.week_start,
+        timeZone
+      );
+
+      if (entriesError) {
+        const apiError = translateDbError(entriesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const openEntries = (entries || []).filter((entry) => !entry.clock_out_at);
+      if (openEntries.length > 0) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Clock out of every time entry before submitting', {
+            open_entries: openEntries.map((entry) => entry.id),
+          })
+        );
+        return;
+      }
+
+      const submission = {
+        status: 'SUBMITTED',
+        total_hours: sumTimeEntryHours(entries || []),
+        submitted_by: req.employee!.id,
+        submitted_at: new Date().toISOString(),
+        reviewed_by: null,
+        reviewed_at: null,
+        review_notes: null,
+      };
+
+      const { data, error } = existing
+        ? await supabase
+            .from('timesheets')
+            .update(submission)
+            .eq('id', existing.id)
+            .select()
+            .single<Timesheet>()
+        : await supabase
+            .from('timesheets')
+            .insert({
+              ...submission,
+              tech_user_id: techUserId,
+              week_start: validatedData.week_start,
+              week_end: getWeekEnd(validatedData.week_start),
+            })
+            .select()
+            .single<Timesheet>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(existing ? 200 : 201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error submitting timesheet:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to submit timesheet'));
+    }
+  }
+);
+
+/**
+ * Shared handler: approve or reject a SUBMITTED timesheet
+ * Approving recalculates the total and locks the week.
+ */
+async function reviewTimesheet(
+  req: Request,
+  res: Response,
+  status: 'APPROVED' | 'REJECTED'
+): Promise<void> {
+  const verb = status === 'APPROVED' ? 'approve' : 'reject';
+
+  try {
+    const { id } = req.params;
+    const validatedData =
+      status === 'APPROVED'
+        ? approveTimesheetSchema.parse(req.body ?? {})
+        : rejectTimesheetSchema.parse(req.body ?? {});
+    const supabase = createServerClient();
+
+    const { data: current, error: fetchError } = await supabase
+      .from('timesheets')
+      .select('*')
+      .eq('id', id)
+      .single<Timesheet>();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        res.status(404).json(errorResponse('NOT_FOUND', 'Timesheet not found'));
+        return;
+      }
+      const apiError = translateDbError(fetchError);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    if (current.status !== 'SUBMITTED') {
+      res
+        .status(400)
+        .json(errorResponse('VALIDATION_ERROR', 'Only SUBMITTED timesheets can be reviewed'));
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const update: Partial<Timesheet> = {
+      status,
+      reviewed_by: req.employee!.id,
+      reviewed_at: now,
+      review_notes: validatedData.review_notes ?? null,
+    };
+
+    // Entries may have changed since submission, so total them again before locking
+    if (status === 'APPROVED') {
+      const timeZone = await getCompanyTimeZone(supabase);
+      const { data: entries, error: entriesError } = await getWeekTimeEntries(
+        supabase,
+        current.tech_user_id,
+        current.week_start,
+        timeZone
+      );
+
+      if (entriesError) {
+        const apiError = translateDbError(entriesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const openEntries = (entries || []).filter((entry) => !entry.clock_out_at);
+      if (openEntries.length > 0) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'The week has time entries that are still open', {
+            open_entries: openEntries.map((entry) => entry.id),
+          })
+        );
+        return;
+      }
+
+      update.total_hours = sumTimeEntryHours(entries || []);
+      update.locked_at = now;
+    }
+
+    const { data, error } = await supabase
+      .from('timesheets')
+      .update(update)
+      .eq('id', id)
+      .eq('status', 'SUBMITTED')
+      .select()
+      .single<Timesheet>();
+
+    if (error) {
+      const apiError = translateDbError(error);
+      res
+        .status(apiError.statusCode)
+        .json(errorResponse(apiError.code, apiError.message, apiError.details));
+      return;
+    }
+
+    // Create audit log
+    const { error: auditError } = await createAuditLog(supabase, {
+      entity_type: 'timesheet',
+      entity_id: id,
+      action: `TIMESHEET_${status}`,
+      actor_user_id: req.employee!.id,
+      before_data: current as unknown as Record<string, unknown>,
+      after_data: data as unknown as Record<string, unknown>,
+    });
+
+    if (auditError) {
+      console.error('Error creating audit log:', auditError);
+      // Don't fail the request if audit log fails
+    }
+
+    res.json(successResponse(data));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+      return;
+    }
+    console.error(`Error trying to ${verb} timesheet:`, error);
+    res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', `Failed to ${verb} timesheet`));
+  }
+}
+
+/**
+ * POST /api/timesheets/:id/approve
+ * Approve a SUBMITTED timesheet and lock the week's time entries
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/timesheets/:id/approve',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => reviewTimesheet(req, res, 'APPROVED')
+);
+
+/**
+ * POST /api/timesheets/:id/reject
+ * Send a SUBMITTED timesheet back to the tech (review_notes required)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/timesheets/:id/reject',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  (req: Request, res: Response): Promise<void> => reviewTimesheet(req, res, 'REJECTED')
+);
+
+export default router;
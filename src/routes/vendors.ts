@@ -0,0 +1,396 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, parsePagination, parseSort, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  createVendorSchema,
+  matchVendorNamesSchema,
+  updateVendorSchema,
+} from '@/validations/vendor.js';
+import { Vendor } from '@/types/database.js';
+import { matchVendorNames } from '@/services/vendors.js';
+import { ZodError } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const router = Router();
+
+/**
+ * Check if another vendor already uses a name (case-insensitive)
+ */
+async function vendorNameTaken(
+  supabase: SupabaseClient,
+  name: string,
+  excludeVendorId?: string
+): Promise<boolean> {
+  let query = supabase
+    .from('vendors')
+    .select('id')
+    .ilike('name', name.replace(/[\\%_]/g, '\\$&'));
+
+  if (excludeVendorId) {
+    query = query.neq('id', excludeVendorId);
+  }
+
+  const { data } = await query.limit(1);
+
+  return data !== null && data.length > 0;
+}
+
+/**
+ * GET /api/vendors
+ * List vendors with pagination, search and sort (?search=, ?is_active=true)
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/vendors',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const supabase = createServerClient();
+      const pagination = parsePagination(req.query);
+      const sort = parseSort(req.query, ['name', 'created_at', 'updated_at'], 'name', 'asc');
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+      const isActive = typeof req.query.is_active === 'string' ? req.query.is_active : undefined;
+
+      let query = supabase.from('vendors').select('*', { count: 'exact' });
+
+      if (search) {
+        query = query.or(
+          `name.ilike.%${search}%,contact_name.ilike.%${search}%,email.ilike.%${search}%`
+        );
+      }
+
+      if (isActive !== undefined) {
+        query = query.eq('is_active', isActive === 'true');
+      }
+
+      if (sort) {
+        query = query.order(sort.field, { ascending: sort.direction === 'asc' });
+      }
+
+      query = query.range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse(data ?? [], {
+          pagination: {
+            limit: pagination.limit,
+            offset: pagination.offset,
+            total: count ?? 0,
+          },
+        })
+      );
+    } catch (error) {
+      console.error('Error listing vendors:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to list vendors'));
+    }
+  }
+);
+
+/**
+ * POST /api/vendors
+ * Create a vendor
+ * Returns 409 if a vendor with the same name exists.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/vendors',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = createVendorSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      if (await vendorNameTaken(supabase, validatedData.name)) {
+        res.status(409).json(errorResponse('CONFLICT', 'A vendor with this name already exists'));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('vendors')
+        .insert({
+          ...validatedData,
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<Vendor>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error creating vendor:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to create vendor'));
+    }
+  }
+);
+
+/**
+ * POST /api/vendors/match-names
+ * Link purchase orders and receipts that only have a vendor_name, and parts that only have
+ * a preferred_vendor_name, to vendor records
+ * Names match regardless of case, punctuation and suffixes like "Inc." or "LLC".
+ * Body: create_missing (create a vendor for each unmatched name), dry_run (report only)
+ * Returns one entry per name found, with the vendor it matched (null if unmatched).
+ * TECH/OFFICE role: not allowed (403)
+ * ADMIN: allowed
+ */
+router.post(
+  '/api/vendors/match-names',
+  requireAuth,
+  requireEmployee,
+  requireRole(['ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validatedData = matchVendorNamesSchema.parse(req.body ?? {});
+      const supabase = createServerClient();
+
+      const { data, error } = await matchVendorNames(
+        supabase,
+        {
+          createMissing: validatedData.create_missing ?? false,
+          dryRun: validatedData.dry_run ?? false,
+        },
+        req.employee!.id
+      );
+
+      if (error) {
+        res.status(error.statusCode).json(errorResponse(error.code, error.message, error.details));
+        return;
+      }
+
+      res.json(
+        successResponse({
+          dry_run: validatedData.dry_run ?? false,
+          matched: (data ?? []).filter((match) => match.vendor_id || match.created).length,
+          unmatched: (data ?? []).filter((match) => !match.vendor_id && !match.created).length,
+          names: data ?? [],
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error matching vendor names:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to match vendor names'));
+    }
+  }
+);
+
+/**
+ * GET /api/vendors/:id
+ * Get a single vendor
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/vendors/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('vendors')
+        .select('*, default_cost_code:cost_codes(id, code, name)')
+        .eq('id', id)
+        .single<Vendor>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Vendor not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      console.error('Error fetching vendor:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch vendor'));
+    }
+  }
+);
+
+/**
+ * PATCH /api/vendors/:id
+ * Update a vendor
+ * Purchase orders and receipts keep the vendor name they were created with.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.patch(
+  '/api/vendors/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateVendorSchema.parse(req.body);
+
+      if (Object.keys(validatedData).length === 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+          );
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      if (validatedData.name && (await vendorNameTaken(supabase, validatedData.name, id))) {
+        res.status(409).json(errorResponse('CONFLICT', 'A vendor with this name already exists'));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('vendors')
+        .update({ ...validatedData, updated_by: req.employee!.id })
+        .eq('id', id)
+        .select()
+        .single<Vendor>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Vendor not found'));
+          return;
+        }
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating vendor:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update vendor'));
+    }
+  }
+);
+
+/**
+ * DELETE /api/vendors/:id
+ * Delete a vendor
+ * Returns 400 while purchase orders, receipts or parts reference it; deactivate it instead.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.delete(
+  '/api/vendors/:id',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { error: fetchError } = await supabase
+        .from('vendors')
+        .select('id')
+        .eq('id', id)
+        .single<Pick<Vendor, 'id'>>();
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Vendor not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const countReferences = (table: string, column: string) =>
+        supabase.from(table).select('*', { count: 'exact', head: true }).eq(column, id);
+
+      const [{ count: poCount }, { count: receiptCount }, { count: partCount }] = await Promise.all(
+        [
+          countReferences('purchase_orders', 'vendor_id'),
+          countReferences('receipts', 'vendor_id'),
+          countReferences('parts', 'preferred_vendor_id'),
+        ]
+      );
+
+      if (poCount || receiptCount || partCount) {
+        res.status(400).json(
+          errorResponse('VALIDATION_ERROR', 'Vendor is in use; deactivate it instead', {
+            purchase_orders: poCount ?? 0,
+            receipts: receiptCount ?? 0,
+            parts: partCount ?? 0,
+          })
+        );
+        return;
+      }
+
+      const { error } = await supabase.from('vendors').delete().eq('id', id);
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting vendor:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to delete vendor'));
+    }
+  }
+);
+
+export default router;
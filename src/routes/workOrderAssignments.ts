@@ -0,0 +1,387 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import {
+  createAssignmentSchema,
+  updateAssignmentSchema,
+} from '@/validations/workOrderAssignment.js';
+import { WorkOrder, WorkOrderAssignment } from '@/types/database.js';
+import { Employee } from '@/types/auth.js';
+import { createAuditLog } from '@/services/auditLog.js';
+import {
+  ensureCrewMember,
+  setWorkOrderLead,
+  techHasAccessToWorkOrder,
+} from '@/services/workOrderAssignments.js';
+import { ZodError } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const router = Router();
+
+/**
+ * Record a crew change in the audit log
+ */
+async function logCrewChange(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  actorUserId: string,
+  before: WorkOrderAssignment | null,
+  after: WorkOrderAssignment | null
+): Promise<void> {
+  const { error } = await createAuditLog(supabase, {
+    entity_type: 'work_order',
+    entity_id: workOrderId,
+    action: 'WORK_ORDER_CREW_CHANGED',
+    actor_user_id: actorUserId,
+    before_data: (before ?? undefined) as unknown as Record<string, unknown> | undefined,
+    after_data: (after ?? undefined) as unknown as Record<string, unknown> | undefined,
+  });
+
+  if (error) {
+    console.error('Error creating audit log:', error);
+    // Don't fail the request if audit log fails
+  }
+}
+
+/**
+ * Fetch one crew assignment on a work order
+ */
+async function getAssignment(supabase: SupabaseClient, workOrderId: string, assignmentId: string) {
+  return supabase
+    .from('work_order_assignments')
+    .select('*')
+    .eq('id', assignmentId)
+    .eq('work_order_id', workOrderId)
+    .single<WorkOrderAssignment>();
+}
+
+/**
+ * GET /api/work-orders/:id/assignments
+ * List the crew on a work order, lead first, with employee names
+ * TECH role: can only see crews of work orders they have access to
+ * OFFICE/ADMIN: can see all crews
+ */
+router.get(
+  '/api/work-orders/:id/assignments',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      // TECH role: verify they have access to this work order
+      if (req.employee!.role === 'TECH') {
+        const hasAccess = await techHasAccessToWorkOrder(supabase, id, req.employee!.id);
+
+        if (!hasAccess) {
+          res
+            .status(403)
+            .json(errorResponse('FORBIDDEN', 'You do not have access to this work order'));
+          return;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('work_order_assignments')
+        .select('*, employee:employees(id, display_name, role)')
+        .eq('work_order_id', id)
+        .order('role', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(successResponse(data ?? []));
+    } catch (error) {
+      console.error('Error fetching work order crew:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch work order crew'));
+    }
+  }
+);
+
+/**
+ * POST /api/work-orders/:id/assignments
+ * Add an employee to the crew
+ * Adding a LEAD makes them the work order's assigned_to and moves the previous lead to
+ * HELPER. Returns 409 if the employee is already on the crew.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/work-orders/:id/assignments',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = createAssignmentSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('id')
+        .eq('id', id)
+        .single<Pick<WorkOrder, 'id'>>();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data: employee } = await supabase
+        .from('employees')
+        .select('id, is_active')
+        .eq('id', validatedData.employee_id)
+        .maybeSingle<Pick<Employee, 'id' | 'is_active'>>();
+
+      if (!employee || !employee.is_active) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Employee does not exist or is inactive'));
+        return;
+      }
+
+      const { data: existing } = await supabase
+        .from('work_order_assignments')
+        .select('id')
+        .eq('work_order_id', id)
+        .eq('employee_id', validatedData.employee_id)
+        .limit(1);
+
+      if (existing && existing.length > 0) {
+        res
+          .status(409)
+          .json(errorResponse('CONFLICT', 'Employee is already on this work order crew'));
+        return;
+      }
+
+      const { error: crewError } =
+        validatedData.role === 'LEAD'
+          ? await setWorkOrderLead(supabase, id, validatedData.employee_id, req.employee!.id)
+          : await ensureCrewMember(supabase, id, validatedData.employee_id, req.employee!.id);
+
+      if (crewError) {
+        const apiError = translateDbError(crewError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('work_order_assignments')
+        .select('*')
+        .eq('work_order_id', id)
+        .eq('employee_id', validatedData.employee_id)
+        .single<WorkOrderAssignment>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      await logCrewChange(supabase, id, req.employee!.id, null, data);
+
+      res.status(201).json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error adding crew member:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to add crew member'));
+    }
+  }
+);
+
+/**
+ * PATCH /api/work-orders/:id/assignments/:assignmentId
+ * Change a crew member's role
+ * Promoting to LEAD moves the previous lead to HELPER; demoting the lead leaves the work
+ * order without an assigned_to.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.patch(
+  '/api/work-orders/:id/assignments/:assignmentId',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, assignmentId } = req.params;
+      const validatedData = updateAssignmentSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { data: current, error: fetchError } = await getAssignment(supabase, id, assignmentId);
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Crew assignment not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (current.role === validatedData.role) {
+        res.json(successResponse(current));
+        return;
+      }
+
+      const { error: crewError } = await setWorkOrderLead(
+        supabase,
+        id,
+        validatedData.role === 'LEAD' ? current.employee_id : null,
+        req.employee!.id
+      );
+
+      if (crewError) {
+        const apiError = translateDbError(crewError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { data, error } = await getAssignment(supabase, id, assignmentId);
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      await logCrewChange(supabase, id, req.employee!.id, current, data);
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating crew member:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update crew member'));
+    }
+  }
+);
+
+/**
+ * DELETE /api/work-orders/:id/assignments/:assignmentId
+ * Remove an employee from the crew
+ * Removing the lead clears the work order's assigned_to. Returns 400 while the employee
+ * still has schedule slots on the work order.
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.delete(
+  '/api/work-orders/:id/assignments/:assignmentId',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, assignmentId } = req.params;
+      const supabase = createServerClient();
+
+      const { data: current, error: fetchError } = await getAssignment(supabase, id, assignmentId);
+
+      if (fetchError) {
+        if (fetchError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Crew assignment not found'));
+          return;
+        }
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Scheduled techs stay on the crew until their slots are removed
+      const { count: slotCount } = await supabase
+        .from('work_order_schedule')
+        .select('*', { count: 'exact', head: true })
+        .eq('work_order_id', id)
+        .eq('tech_user_id', current.employee_id);
+
+      if (slotCount && slotCount > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Remove the employee from the schedule before removing them from the crew',
+              { schedule_slots: slotCount }
+            )
+          );
+        return;
+      }
+
+      if (current.role === 'LEAD') {
+        const { error: leadError } = await setWorkOrderLead(supabase, id, null, req.employee!.id);
+
+        if (leadError) {
+          const apiError = translateDbError(leadError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+      }
+
+      const { error } = await supabase
+        .from('work_order_assignments')
+        .delete()
+        .eq('id', assignmentId);
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      await logCrewChange(supabase, id, req.employee!.id, current, null);
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error removing crew member:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to remove crew member'));
+    }
+  }
+);
+
+export default router;
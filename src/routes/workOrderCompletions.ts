@@ -0,0 +1,196 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { reviewCompletionSchema } from '@/validations/workOrder.js';
+import { File, WorkOrderCompletion } from '@/types/database.js';
+import { createAuditLog } from '@/services/auditLog.js';
+import { getWorkOrderChecklists } from '@/services/checklists.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * GET /api/work-orders/:id/completion
+ * Latest tech sign-off for a work order with its photo and signature files and the
+ * work order's answered checklists
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.get(
+  '/api/work-orders/:id/completion',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const supabase = createServerClient();
+
+      const { data: completions, error } = await supabase
+        .from('work_order_completions')
+        .select('*')
+        .eq('work_order_id', id)
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .returns<WorkOrderCompletion[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const completion = completions?.[0];
+      if (!completion) {
+        res.status(404).json(errorResponse('NOT_FOUND', 'Work order has no completion sign-off'));
+        return;
+      }
+
+      const fileIds = [
+        ...completion.photo_file_ids,
+        ...(completion.signature_file_id ? [completion.signature_file_id] : []),
+      ];
+
+      let files: File[] = [];
+      if (fileIds.length > 0) {
+        const { data: fileData, error: filesError } = await supabase
+          .from('files')
+          .select('*')
+          .in('id', fileIds)
+          .returns<File[]>();
+
+        if (filesError) {
+          const apiError = translateDbError(filesError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+        files = fileData || [];
+      }
+
+      const { data: checklists, error: checklistError } = await getWorkOrderChecklists(
+        supabase,
+        id
+      );
+
+      if (checklistError) {
+        const apiError = translateDbError(checklistError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      res.json(
+        successResponse({
+          ...completion,
+          photos: files.filter((file) => completion.photo_file_ids.includes(file.id)),
+          signature: files.find((file) => file.id === completion.signature_file_id) ?? null,
+          checklists: checklists ?? [],
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching work order completion:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch work order completion'));
+    }
+  }
+);
+
+/**
+ * POST /api/work-orders/:id/completion/review
+ * Mark the latest tech sign-off as reviewed by the office
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.post(
+  '/api/work-orders/:id/completion/review',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = reviewCompletionSchema.parse(req.body ?? {});
+      const supabase = createServerClient();
+
+      const { data: completions, error: fetchError } = await supabase
+        .from('work_order_completions')
+        .select('*')
+        .eq('work_order_id', id)
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .returns<WorkOrderCompletion[]>();
+
+      if (fetchError) {
+        const apiError = translateDbError(fetchError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const current = completions?.[0];
+      if (!current) {
+        res.status(404).json(errorResponse('NOT_FOUND', 'Work order has no completion sign-off'));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('work_order_completions')
+        .update({
+          reviewed_by: req.employee!.id,
+          reviewed_at: new Date().toISOString(),
+          review_notes: validatedData.review_notes ?? null,
+        })
+        .eq('id', current.id)
+        .select()
+        .single<WorkOrderCompletion>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'work_order',
+        entity_id: id,
+        action: 'WORK_ORDER_COMPLETION_REVIEWED',
+        actor_user_id: req.employee!.id,
+        before_data: current as unknown as Record<string, unknown>,
+        after_data: data as unknown as Record<string, unknown>,
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      res.json(successResponse(data));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error reviewing work order completion:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to review work order completion'));
+    }
+  }
+);
+
+export default router;
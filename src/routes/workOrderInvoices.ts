@@ -0,0 +1,529 @@
+import { Router, Request, Response } from 'express';
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { createWorkOrderInvoiceSchema } from '@/validations/invoice.js';
+import {
+  CostEntry,
+  EquipmentUsage,
+  InventoryLedger,
+  Invoice,
+  InvoiceLine,
+  Part,
+  WorkOrder,
+  WorkOrderTimeEntry,
+} from '@/types/database.js';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/services/auditLog.js';
+import {
+  buildContractInvoiceLines,
+  getNextInvoiceNumber,
+  recalculateInvoiceTotals,
+} from '@/services/invoices.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+
+const router = Router();
+
+/**
+ * Invoice line to be inserted, before line numbers and totals are assigned
+ */
+interface DraftInvoiceLine {
+  part_id: string | null;
+  description: string;
+  uom: string;
+  qty: number;
+  unit_price: number;
+  is_taxable: boolean;
+}
+
+/**
+ * Hours between two timestamps less any break minutes, rounded to 2 decimal places
+ */
+function hoursBetween(startAt: string, endAt: string, breakMinutes = 0): number {
+  const minutes = (new Date(endAt).getTime() - new Date(startAt).getTime()) / 60000;
+  return Math.max(Math.round(((minutes - breakMinutes) / 60) * 100) / 100, 0);
+}
+
+/**
+ * Build invoice lines from what was actually recorded against a work order
+ * - Labor: one line per tech from closed time entries at the billable labor rate
+ * - Parts: net inventory USAGE/RETURN per part at the part's sell price
+ * - Equipment: one line per closed usage record at its billed_rate
+ * - Receipt costs: one line per cost entry at unit cost plus markup
+ */
+async function buildActualsLines(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  laborRate: number,
+  markupPercent: number
+): Promise<{ lines: DraftInvoiceLine[]; laborHours: number; error: PostgrestError | null }> {
+  const lines: DraftInvoiceLine[] = [];
+
+  // Labor
+  const { data: timeEntries, error: timeError } = await supabase
+    .from('work_order_time_entries')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .not('clock_out_at', 'is', null)
+    .order('clock_in_at', { ascending: true })
+    .returns<WorkOrderTimeEntry[]>();
+
+  if (timeError) {
+    return { lines: [], laborHours: 0, error: timeError };
+  }
+
+  let laborHours = 0;
+  const hoursByTech = new Map<string, number>();
+  for (const entry of timeEntries || []) {
+    const hours = hoursBetween(entry.clock_in_at, entry.clock_out_at!, entry.break_minutes);
+    hoursByTech.set(entry.tech_user_id, (hoursByTech.get(entry.tech_user_id) ?? 0) + hours);
+    laborHours += hours;
+  }
+
+  if (hoursByTech.size > 0) {
+    const { data: employees, error: employeesError } = await supabase
+      .from('employees')
+      .select('id, display_name')
+      .in('id', [...hoursByTech.keys()])
+      .returns<{ id: string; display_name: string }[]>();
+
+    if (employeesError) {
+      return { lines: [], laborHours: 0, error: employeesError };
+    }
+
+    const names = new Map((employees || []).map((e) => [e.id, e.display_name]));
+
+    for (const [techId, hours] of hoursByTech) {
+      if (hours <= 0) continue;
+      lines.push({
+        part_id: null,
+        description: `Labor - ${names.get(techId) ?? 'Technician'}`,
+        uom: 'HR',
+        qty: roundCurrency(hours),
+        unit_price: laborRate,
+        is_taxable: false,
+      });
+    }
+  }
+
+  // Parts consumed from inventory (USAGE is a negative qty_delta, RETURN puts stock back)
+  const { data: ledgerEntries, error: ledgerError } = await supabase
+    .from('inventory_ledger')
+    .select('*')
+    .eq('reference_type', 'work_order')
+    .eq('reference_id', workOrderId)
+    .in('txn_type', ['USAGE', 'RETURN'])
+    .returns<InventoryLedger[]>();
+
+  if (ledgerError) {
+    return { lines: [], laborHours: 0, error: ledgerError };
+  }
+
+  const qtyByPart = new Map<string, number>();
+  for (const entry of ledgerEntries || []) {
+    qtyByPart.set(entry.part_id, (qtyByPart.get(entry.part_id) ?? 0) - Number(entry.qty_delta));
+  }
+
+  // Receipt costs
+  const { data: costEntries, error: costError } = await supabase
+    .from('cost_entries')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .order('occurred_at', { ascending: true })
+    .returns<CostEntry[]>();
+
+  if (costError) {
+    return { lines: [], laborHours: 0, error: costError };
+  }
+
+  const partIds = new Set([...qtyByPart.keys()]);
+  for (const entry of costEntries || []) {
+    if (entry.part_id) partIds.add(entry.part_id);
+  }
+
+  let parts = new Map<string, Part>();
+  if (partIds.size > 0) {
+    const { data: partData, error: partsError } = await supabase
+      .from('parts')
+      .select('*')
+      .in('id', [...partIds])
+      .returns<Part[]>();
+
+    if (partsError) {
+      return { lines: [], laborHours: 0, error: partsError };
+    }
+
+    parts = new Map((partData || []).map((p) => [p.id, p]));
+  }
+
+  for (const [partId, qty] of qtyByPart) {
+    if (qty <= 0) continue;
+    const part = parts.get(partId);
+    lines.push({
+      part_id: partId,
+      description: part?.name ?? 'Part',
+      uom: part?.uom ?? 'EA',
+      qty,
+      unit_price: Number(part?.sell_price ?? 0),
+      is_taxable: part?.is_taxable ?? true,
+    });
+  }
+
+  // Equipment
+  const { data: usage, error: usageError } = await supabase
+    .from('equipment_usage')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .not('end_at', 'is', null)
+    .order('start_at', { ascending: true })
+    .returns<EquipmentUsage[]>();
+
+  if (usageError) {
+    return { lines: [], laborHours: 0, error: usageError };
+  }
+
+  if (usage && usage.length > 0) {
+    const { data: equipment, error: equipmentError } = await supabase
+      .from('equipment')
+      .select('id, name, hourly_rate, daily_rate')
+      .in('id', [...new Set(usage.map((u) => u.equipment_id))])
+      .returns<{ id: string; name: string; hourly_rate: number; daily_rate: number }[]>();
+
+    if (equipmentError) {
+      return { lines: [], laborHours: 0, error: equipmentError };
+    }
+
+    const equipmentById = new Map((equipment || []).map((e) => [e.id, e]));
+
+    for (const entry of usage) {
+      const item = equipmentById.get(entry.equipment_id);
+      const hours = hoursBetween(entry.start_at, entry.end_at!);
+      const billedRate = Number(entry.billed_rate);
+
+      // billed_rate holds either the hourly or daily rate; bill whole days when it is the daily one
+      const isDaily =
+        !!item &&
+        billedRate === Number(item.daily_rate) &&
+        Number(item.daily_rate) !== Number(item.hourly_rate);
+
+      lines.push({
+        part_id: null,
+        description: `Equipment - ${item?.name ?? 'Equipment'}`,
+        uom: isDaily ? 'DAY' : 'HR',
+        qty: isDaily ? Math.max(Math.ceil(hours / 24), 1) : hours,
+        unit_price: billedRate,
+        is_taxable: false,
+      });
+    }
+  }
+
+  for (const entry of costEntries || []) {
+    const part = entry.part_id ? parts.get(entry.part_id) : undefined;
+    lines.push({
+      part_id: entry.part_id,
+      description: part?.name ?? `Materials - ${entry.bucket}`,
+      uom: part?.uom ?? 'EA',
+      qty: Number(entry.qty),
+      unit_price: roundCurrency(Number(entry.unit_cost) * (1 + markupPercent / 100)),
+      // Receipt purchases are resold materials unless linked to a non-taxable part
+      is_taxable: part?.is_taxable ?? true,
+    });
+  }
+
+  return { lines, laborHours: roundCurrency(laborHours), error: null };
+}
+
+/**
+ * POST /api/work-orders/:id/invoice
+ * Generate a DRAFT invoice from a work order's actuals or its contract total
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ *
+ * Workflow:
+ * 1. Reject canceled work orders and work orders that already have a non-void invoice;
+ *    work orders billed from a quote are pointed at the quote's FULL invoice instead
+ * 2. source ACTUALS: build lines from time entries, inventory usage, equipment usage
+ *    and receipt cost entries (labor_rate / markup_percent default from settings)
+ * 3. source CONTRACT: bill contract_subtotal plus the accepted contract_tax as its own
+ *    non-taxable line, so the invoice totals contract_total
+ * 4. Insert the invoice and lines, then recalculate totals
+ * 5. Create audit_logs entry
+ */
+router.post(
+  '/api/work-orders/:id/invoice',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = createWorkOrderInvoiceSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      const { data: workOrder, error: workOrderError } = await supabase
+        .from('work_orders')
+        .select('*')
+        .eq('id', id)
+        .single<WorkOrder>();
+
+      if (workOrderError) {
+        if (workOrderError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Work order not found'));
+          return;
+        }
+        const apiError = translateDbError(workOrderError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      if (workOrder.status === 'CANCELED') {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Cannot invoice a canceled work order'));
+        return;
+      }
+
+      // Verify tax_rule exists
+      const { data: taxRule, error: taxError } = await supabase
+        .from('tax_rules')
+        .select('id')
+        .eq('id', validatedData.tax_rule_id)
+        .single();
+
+      if (taxError || !taxRule) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid tax_rule_id: tax rule does not exist'));
+        return;
+      }
+
+      // Guard against billing the same work twice
+      const { data: existing, error: existingError } = await supabase
+        .from('invoices')
+        .select('id, invoice_no, source_quote_id')
+        .eq('work_order_id', id)
+        .neq('status', 'VOID')
+        .returns<Pick<Invoice, 'id' | 'invoice_no' | 'source_quote_id'>[]>();
+
+      if (existingError) {
+        const apiError = translateDbError(existingError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      // Work billed from a quote (e.g. a deposit) is finished through the quote
+      const quoteInvoice = (existing || []).find((invoice) => invoice.source_quote_id);
+      if (quoteInvoice) {
+        res.status(400).json(
+          errorResponse(
+            'VALIDATION_ERROR',
+            'Work order is being billed from a quote; invoice the balance with POST /api/quotes/:id/invoice (billing FULL)',
+            {
+              quote_id: quoteInvoice.source_quote_id,
+              invoice_id: quoteInvoice.id,
+              invoice_no: quoteInvoice.invoice_no,
+            }
+          )
+        );
+        return;
+      }
+
+      if (existing && existing.length > 0) {
+        res
+          .status(400)
+          .json(
+            errorResponse(
+              'VALIDATION_ERROR',
+              'Work order already has an invoice; void it before generating a new one',
+              { invoice_id: existing[0].id, invoice_no: existing[0].invoice_no }
+            )
+          );
+        return;
+      }
+
+      let lines: DraftInvoiceLine[] = [];
+
+      if (validatedData.source === 'CONTRACT') {
+        if (Number(workOrder.contract_total) <= 0) {
+          res
+            .status(400)
+            .json(errorResponse('VALIDATION_ERROR', 'Work order has no contract amount to bill'));
+          return;
+        }
+
+        lines = buildContractInvoiceLines(workOrder);
+      } else {
+        const { data: settings, error: settingsError } = await supabase
+          .from('settings')
+          .select('default_bill_rate, default_markup_percent')
+          .limit(1)
+          .single<{ default_bill_rate: number | null; default_markup_percent: number | null }>();
+
+        if (settingsError && settingsError.code !== 'PGRST116') {
+          const apiError = translateDbError(settingsError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        const laborRate = validatedData.labor_rate ?? Number(settings?.default_bill_rate ?? 0);
+        const markupPercent =
+          validatedData.markup_percent ?? Number(settings?.default_markup_percent ?? 0);
+
+        const {
+          lines: actualsLines,
+          laborHours,
+          error: actualsError,
+        } = await buildActualsLines(supabase, id, laborRate, markupPercent);
+
+        if (actualsError) {
+          const apiError = translateDbError(actualsError);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+
+        if (laborRate <= 0 && laborHours > 0) {
+          res
+            .status(400)
+            .json(
+              errorResponse(
+                'VALIDATION_ERROR',
+                'No billable labor rate: set settings.default_bill_rate or pass labor_rate'
+              )
+            );
+          return;
+        }
+
+        lines = actualsLines;
+      }
+
+      if (lines.length === 0) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Work order has no billable actuals'));
+        return;
+      }
+
+      // Call DB function to get next invoice number
+      const { invoiceNo, error: numberError } = await getNextInvoiceNumber(supabase);
+
+      if (numberError || !invoiceNo) {
+        console.error('Error generating invoice number:', numberError);
+        res
+          .status(500)
+          .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate invoice number'));
+        return;
+      }
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .insert({
+          work_order_id: id,
+          invoice_type: 'STANDARD',
+          invoice_date: validatedData.invoice_date,
+          due_date: validatedData.due_date,
+          tax_rule_id: validatedData.tax_rule_id,
+          invoice_no: invoiceNo,
+          created_by: req.employee!.id,
+          updated_by: req.employee!.id,
+        })
+        .select()
+        .single<Invoice>();
+
+      if (invoiceError) {
+        const apiError = translateDbError(invoiceError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { error: linesError } = await supabase.from('invoice_lines').insert(
+        lines.map((line, index) => ({
+          invoice_id: invoice.id,
+          line_no: index + 1,
+          ...line,
+        }))
+      );
+
+      if (linesError) {
+        // Rollback: delete the empty invoice
+        await supabase.from('invoices').delete().eq('id', invoice.id);
+
+        const apiError = translateDbError(linesError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { success, error: recalcError } = await recalculateInvoiceTotals(supabase, invoice.id);
+      if (!success) {
+        console.error('Error recalculating invoice totals:', recalcError);
+        // Don't fail the request, just log the error
+      }
+
+      const { data: updatedInvoice } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoice.id)
+        .single<Invoice>();
+
+      const { data: invoiceLines } = await supabase
+        .from('invoice_lines')
+        .select('*')
+        .eq('invoice_id', invoice.id)
+        .order('line_no', { ascending: true })
+        .returns<InvoiceLine[]>();
+
+      // Create audit log
+      const { error: auditError } = await createAuditLog(supabase, {
+        entity_type: 'invoice',
+        entity_id: invoice.id,
+        action: 'WORK_ORDER_INVOICE_GENERATED',
+        actor_user_id: req.employee!.id,
+        after_data: {
+          work_order_id: id,
+          source: validatedData.source,
+          line_count: lines.length,
+        },
+      });
+
+      if (auditError) {
+        console.error('Error creating audit log:', auditError);
+        // Don't fail the request if audit log fails
+      }
+
+      // Queue PDF re-render
+      await queueDocumentPdf(supabase, 'invoice', invoice.id);
+
+      res
+        .status(201)
+        .json(successResponse({ ...(updatedInvoice ?? invoice), lines: invoiceLines || [] }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error generating work order invoice:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to generate work order invoice'));
+    }
+  }
+);
+
+export default router;
@@ -14,6 +14,23 @@ import {
   updateWorkOrderSchema,
 } from '@/validations/workOrder.js';
 import { createScheduleSchema } from '@/validations/schedule.js';
+import { findScheduleConflicts } from '@/services/schedule.js';
+import { getScheduleWarnings } from '@/services/workingCalendar.js';
+import {
+  canTransitionWorkOrder,
+  getStatusChangeFields,
+  invalidTransitionError,
+  logWorkOrderStatusChange,
+  transitionWorkOrderStatus,
+} from '@/services/workOrderStatus.js';
+import { attachChecklistsForWorkType } from '@/services/checklists.js';
+import {
+  ensureCrewMember,
+  getTechWorkOrderIds,
+  syncLeadAssignment,
+  techHasAccessToWorkOrder,
+  techWorkOrderFilter,
+} from '@/services/workOrderAssignments.js';
 import { WorkOrder, WorkOrderSchedule } from '@/types/database.js';
 import { ZodError } from 'zod';
 import { SupabaseClient } from '@supabase/supabase-js';
@@ -39,7 +56,7 @@ async function getNextWorkOrderNumber(
 /**
  * GET /api/work-orders
  * List work orders with pagination, filters, and sort
- * TECH role: can only see work orders assigned to them or scheduled for them
+ * TECH role: can only see work orders they are on the crew of or scheduled for
  * OFFICE/ADMIN: can see all work orders
  */
 router.get(
@@ -87,35 +104,13 @@ router.get(
       // Build query based on user role
       let query = supabase.from('work_orders').select('*', { count: 'exact' });
 
-      // TECH role: only see work orders assigned to them or scheduled for them
+      // TECH role: only see work orders they lead, crew or are scheduled for
       if (req.employee!.role === 'TECH') {
-        // Get work order IDs from schedule where tech is assigned
-        const { data: scheduleData } = await supabase
-          .from('work_order_schedule')
-          .select('work_order_id')
-          .eq('tech_user_id', req.employee!.id);
-
-        const scheduledWorkOrderIds =
-          scheduleData?.map((s) => s.work_order_id as string) || [];
-
-        // Filter: assigned_to = self OR id in scheduledWorkOrderIds
-        // Use Supabase's .or() method with safe parameterization
-        if (scheduledWorkOrderIds.length > 0) {
-          // Escape and validate UUIDs for safety (though they come from DB)
-          const safeIds = scheduledWorkOrderIds
-            .filter((id) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id))
-            .join(',');
-          
-          if (safeIds) {
-            query = query.or(
-              `assigned_to.eq.${req.employee!.id},id.in.(${safeIds})`
-            );
-          } else {
-            query = query.eq('assigned_to', req.employee!.id);
-          }
-        } else {
-          query = query.eq('assigned_to', req.employee!.id);
-        }
+        const techWorkOrderIds = await getTechWorkOrderIds(
+          supabase,
+          req.employee!.id
+        );
+        query = query.or(techWorkOrderFilter(req.employee!.id, techWorkOrderIds));
       }
 
       // Apply filters
@@ -176,6 +171,7 @@ router.get(
 /**
  * POST /api/work-orders
  * Create a new work order
+ * Active checklist templates matching work_type are attached automatically.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -228,6 +224,36 @@ router.post(
         return;
       }
 
+      // The assigned tech leads the crew
+      if (data.assigned_to) {
+        const { error: crewError } = await syncLeadAssignment(
+          supabase,
+          data.id,
+          data.assigned_to,
+          req.employee!.id
+        );
+
+        if (crewError) {
+          console.error('Error assigning lead tech:', crewError);
+          // Don't fail the request, the crew can be fixed from the assignments endpoints
+        }
+      }
+
+      // Attach the checklist templates for this kind of work
+      if (data.work_type) {
+        const { error: checklistError } = await attachChecklistsForWorkType(
+          supabase,
+          data.id,
+          data.work_type,
+          req.employee!.id
+        );
+
+        if (checklistError) {
+          console.error('Error attaching checklists:', checklistError);
+          // Don't fail the request, checklists can be attached manually
+        }
+      }
+
       res.status(201).json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -249,7 +275,7 @@ router.post(
 /**
  * GET /api/work-orders/:id
  * Get a single work order by ID with related customer and location names
- * TECH role: can only see work orders assigned to them or scheduled for them
+ * TECH role: can only see work orders they are on the crew of or scheduled for
  * OFFICE/ADMIN: can see all work orders
  */
 router.get(
@@ -302,20 +328,14 @@ router.get(
 
       // TECH role: check if they have access to this work order
       if (req.employee!.role === 'TECH') {
-        // Check if assigned to them
-        const isAssigned = data.assigned_to === req.employee!.id;
-
-        // Check if scheduled for them
-        const { data: scheduleData } = await supabase
-          .from('work_order_schedule')
-          .select('id')
-          .eq('work_order_id', id)
-          .eq('tech_user_id', req.employee!.id)
-          .limit(1);
-
-        const isScheduled = scheduleData && scheduleData.length > 0;
+        const hasAccess = await techHasAccessToWorkOrder(
+          supabase,
+          id,
+          req.employee!.id,
+          data.assigned_to
+        );
 
-        if (!isAssigned && !isScheduled) {
+        if (!hasAccess) {
           res
             .status(403)
             .json(
@@ -343,6 +363,8 @@ router.get(
 /**
  * PATCH /api/work-orders/:id
  * Update a work order
+ * Status changes must follow the work order state machine (400 otherwise) and are
+ * audit logged.
  * TECH role: not allowed (403)
  * OFFICE/ADMIN: allowed
  */
@@ -374,9 +396,9 @@ router.patch(
       // First, get the current work order to check status changes
       const { data: currentWorkOrder, error: fetchError } = await supabase
         .from('work_orders')
-        .select('status, completed_at, closed_at')
+        .select('*')
         .eq('id', id)
-        .single<Pick<WorkOrder, 'status' | 'completed_at' | 'closed_at'>>();
+        .single<WorkOrder>();
 
       if (fetchError) {
         if (fetchError.code === 'PGRST116') {
@@ -394,15 +416,26 @@ router.patch(
 
       // Prepare update data
       const updateData: Record<string, unknown> = { ...validatedData };
-
-      // Handle status change timestamps
-      if (validatedData.status && validatedData.status !== currentWorkOrder.status) {
-        if (validatedData.status === 'COMPLETED' && !currentWorkOrder.completed_at) {
-          updateData.completed_at = new Date().toISOString();
-        }
-        if (validatedData.status === 'CLOSED' && !currentWorkOrder.closed_at) {
-          updateData.closed_at = new Date().toISOString();
+      const statusChanged =
+        validatedData.status !== undefined &&
+        validatedData.status !== currentWorkOrder.status;
+
+      // Status changes go through the work order state machine
+      if (validatedData.status && statusChanged) {
+        if (!canTransitionWorkOrder(currentWorkOrder.status, validatedData.status)) {
+          const apiError = invalidTransitionError(
+            currentWorkOrder.status,
+            validatedData.status
+          );
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
         }
+        Object.assign(
+          updateData,
+          getStatusChangeFields(currentWorkOrder, validatedData.status)
+        );
       }
 
       // Update work order
@@ -421,6 +454,33 @@ router.patch(
         return;
       }
 
+      // A new assigned tech takes over as crew lead
+      if (
+        validatedData.assigned_to !== undefined &&
+        validatedData.assigned_to !== currentWorkOrder.assigned_to
+      ) {
+        const { error: crewError } = await syncLeadAssignment(
+          supabase,
+          id,
+          data.assigned_to,
+          req.employee!.id
+        );
+
+        if (crewError) {
+          console.error('Error assigning lead tech:', crewError);
+          // Don't fail the request, the crew can be fixed from the assignments endpoints
+        }
+      }
+
+      if (statusChanged) {
+        await logWorkOrderStatusChange(
+          supabase,
+          currentWorkOrder,
+          data,
+          req.employee!.id
+        );
+      }
+
       res.json(successResponse(data));
     } catch (error) {
       if (error instanceof ZodError) {
@@ -469,18 +529,14 @@ router.get(
           return;
         }
 
-        const isAssigned = workOrder.assigned_to === req.employee!.id;
-
-        const { data: scheduleData } = await supabase
-          .from('work_order_schedule')
-          .select('id')
-          .eq('work_order_id', id)
-          .eq('tech_user_id', req.employee!.id)
-          .limit(1);
-
-        const isScheduled = scheduleData && scheduleData.length > 0;
+        const hasAccess = await techHasAccessToWorkOrder(
+          supabase,
+          id,
+          req.employee!.id,
+          workOrder.assigned_to
+        );
 
-        if (!isAssigned && !isScheduled) {
+        if (!hasAccess) {
           res
             .status(403)
             .json(
@@ -524,6 +580,11 @@ router.get(
 /**
  * POST /api/work-orders/:id/schedule
  * Create a schedule slot for a work order
+ * Returns 409 SCHEDULE_CONFLICT (details.conflicts) if the tech is already booked,
+ * unless override_conflicts is true. The saved slot includes warnings for times
+ * outside the tech's shift, holidays and approved time off.
+ * The first slot moves an UNSCHEDULED work order to SCHEDULED, and a tech who isn't on the
+ * crew yet joins it as a HELPER.
  * TECH role: can only create for themselves
  * OFFICE/ADMIN: can create for any tech
  */
@@ -549,16 +610,26 @@ router.post(
           );
           return;
         }
+
+        if (validatedData.override_conflicts) {
+          res.status(403).json(
+            errorResponse(
+              'FORBIDDEN',
+              'Only dispatchers can override schedule conflicts'
+            )
+          );
+          return;
+        }
       }
 
       const supabase = createServerClient();
 
       // Verify work order exists
-      const { error: workOrderError } = await supabase
+      const { data: workOrder, error: workOrderError } = await supabase
         .from('work_orders')
-        .select('id')
+        .select('id, status')
         .eq('id', id)
-        .single();
+        .single<Pick<WorkOrder, 'id' | 'status'>>();
 
       if (workOrderError) {
         if (workOrderError.code === 'PGRST116') {
@@ -574,6 +645,36 @@ router.post(
         return;
       }
 
+      // Reject double-booking unless a dispatcher explicitly overrides
+      if (!validatedData.override_conflicts) {
+        const { data: conflicts, error: conflictError } =
+          await findScheduleConflicts(
+            supabase,
+            validatedData.tech_user_id,
+            validatedData.start_at,
+            validatedData.end_at
+          );
+
+        if (conflictError) {
+          const apiError = translateDbError(conflictError);
+          res.status(apiError.statusCode).json(
+            errorResponse(apiError.code, apiError.message, apiError.details)
+          );
+          return;
+        }
+
+        if (conflicts && conflicts.length > 0) {
+          res.status(409).json(
+            errorResponse(
+              'SCHEDULE_CONFLICT',
+              'Technician is already booked during this time',
+              { conflicts }
+            )
+          );
+          return;
+        }
+      }
+
       // Insert schedule entry
       const { data, error } = await supabase
         .from('work_order_schedule')
@@ -594,7 +695,51 @@ router.post(
         return;
       }
 
-      res.status(201).json(successResponse(data));
+      // Flag slots outside the tech's shift, on holidays or during time off
+      const { data: warnings, error: warningError } = await getScheduleWarnings(
+        supabase,
+        data.tech_user_id,
+        data.start_at,
+        data.end_at
+      );
+
+      if (warningError) {
+        console.error('Error checking schedule warnings:', warningError);
+        // Don't fail the request, the slot is already saved
+      }
+
+      // Scheduled techs join the crew
+      const { error: crewError } = await ensureCrewMember(
+        supabase,
+        id,
+        data.tech_user_id,
+        req.employee!.id
+      );
+
+      if (crewError) {
+        console.error('Error adding tech to crew:', crewError);
+        // Don't fail the request, the slot is already saved
+      }
+
+      // The first slot moves the work order to SCHEDULED
+      if (workOrder.status === 'UNSCHEDULED') {
+        const { error: statusError } = await transitionWorkOrderStatus(
+          supabase,
+          id,
+          'SCHEDULED',
+          req.employee!.id,
+          'First schedule slot created'
+        );
+
+        if (statusError) {
+          console.error('Error updating work order status:', statusError);
+          // Don't fail the request, the slot is already saved
+        }
+      }
+
+      res
+        .status(201)
+        .json(successResponse({ ...data, warnings: warnings ?? [] }));
     } catch (error) {
       if (error instanceof ZodError) {
         res.status(400).json(
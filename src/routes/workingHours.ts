@@ -0,0 +1,163 @@
+import { Router, Request, Response } from 'express';
+import { createServerClient, translateDbError } from '@/db/index.js';
+import { successResponse, errorResponse } from '@/types/response.js';
+import { requireAuth } from '@/middleware/requireAuth.js';
+import { requireEmployee } from '@/middleware/requireEmployee.js';
+import { requireRole } from '@/middleware/requireRole.js';
+import { setWorkingHoursSchema } from '@/validations/workingHours.js';
+import { EmployeeWorkingHours } from '@/types/database.js';
+import { DEFAULT_WORKING_HOURS, getCompanyTimeZone } from '@/services/workingCalendar.js';
+import { ZodError } from 'zod';
+
+const router = Router();
+
+/**
+ * GET /api/employees/:id/working-hours
+ * Get an employee's weekly shift (is_default when none is configured)
+ * TECH role: can only view their own
+ * OFFICE/ADMIN: can view any employee
+ */
+router.get(
+  '/api/employees/:id/working-hours',
+  requireAuth,
+  requireEmployee,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (req.employee!.role === 'TECH' && id !== req.employee!.id) {
+        res
+          .status(403)
+          .json(errorResponse('FORBIDDEN', 'You can only view your own working hours'));
+        return;
+      }
+
+      const supabase = createServerClient();
+
+      const { data, error } = await supabase
+        .from('employee_working_hours')
+        .select('*')
+        .eq('employee_id', id)
+        .order('weekday', { ascending: true })
+        .returns<EmployeeWorkingHours[]>();
+
+      if (error) {
+        const apiError = translateDbError(error);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const isDefault = !data || data.length === 0;
+
+      res.json(
+        successResponse({
+          employee_id: id,
+          time_zone: await getCompanyTimeZone(supabase),
+          is_default: isDefault,
+          hours: isDefault ? DEFAULT_WORKING_HOURS : data,
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching working hours:', error);
+      res.status(500).json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to fetch working hours'));
+    }
+  }
+);
+
+/**
+ * PUT /api/employees/:id/working-hours
+ * Replace an employee's weekly shift
+ * Weekdays not listed are days off; an empty list reverts to the default shift
+ * TECH role: not allowed (403)
+ * OFFICE/ADMIN: allowed
+ */
+router.put(
+  '/api/employees/:id/working-hours',
+  requireAuth,
+  requireEmployee,
+  requireRole(['OFFICE', 'ADMIN']),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const validatedData = setWorkingHoursSchema.parse(req.body);
+      const supabase = createServerClient();
+
+      // Verify employee exists
+      const { error: employeeError } = await supabase
+        .from('employees')
+        .select('id')
+        .eq('id', id)
+        .single();
+
+      if (employeeError) {
+        if (employeeError.code === 'PGRST116') {
+          res.status(404).json(errorResponse('NOT_FOUND', 'Employee not found'));
+          return;
+        }
+        const apiError = translateDbError(employeeError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('employee_working_hours')
+        .delete()
+        .eq('employee_id', id);
+
+      if (deleteError) {
+        const apiError = translateDbError(deleteError);
+        res
+          .status(apiError.statusCode)
+          .json(errorResponse(apiError.code, apiError.message, apiError.details));
+        return;
+      }
+
+      let hours: EmployeeWorkingHours[] = [];
+      if (validatedData.hours.length > 0) {
+        const { data, error } = await supabase
+          .from('employee_working_hours')
+          .insert(validatedData.hours.map((entry) => ({ ...entry, employee_id: id })))
+          .select()
+          .order('weekday', { ascending: true })
+          .returns<EmployeeWorkingHours[]>();
+
+        if (error) {
+          const apiError = translateDbError(error);
+          res
+            .status(apiError.statusCode)
+            .json(errorResponse(apiError.code, apiError.message, apiError.details));
+          return;
+        }
+        hours = data || [];
+      }
+
+      const isDefault = hours.length === 0;
+
+      res.json(
+        successResponse({
+          employee_id: id,
+          time_zone: await getCompanyTimeZone(supabase),
+          is_default: isDefault,
+          hours: isDefault ? DEFAULT_WORKING_HOURS : hours,
+        })
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res
+          .status(400)
+          .json(errorResponse('VALIDATION_ERROR', 'Invalid request data', error.issues));
+        return;
+      }
+      console.error('Error updating working hours:', error);
+      res
+        .status(500)
+        .json(errorResponse('INTERNAL_SERVER_ERROR', 'Failed to update working hours'));
+    }
+  }
+);
+
+export default router;
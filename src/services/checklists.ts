@@ -0,0 +1,233 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  ChecklistItemResult,
+  ChecklistTemplate,
+  ChecklistTemplateItem,
+  WorkOrderChecklist,
+  WorkOrderChecklistItem,
+} from '@/types/database.js';
+import { RecordChecklistItemInput } from '@/validations/checklist.js';
+
+/**
+ * Work order checklist with its items in order
+ */
+export type WorkOrderChecklistWithItems = WorkOrderChecklist & {
+  items: WorkOrderChecklistItem[];
+};
+
+/**
+ * Grade a numeric reading against the item's range (PASS when no range is set)
+ */
+export function gradeNumericReading(
+  item: Pick<WorkOrderChecklistItem, 'min_value' | 'max_value'>,
+  value: number
+): ChecklistItemResult {
+  if (item.min_value !== null && value < item.min_value) {
+    return 'FAIL';
+  }
+  if (item.max_value !== null && value > item.max_value) {
+    return 'FAIL';
+  }
+  return 'PASS';
+}
+
+/**
+ * Fields to update when a tech records a checklist item
+ * An explicit result wins; otherwise NUMERIC readings are graded. The item counts as
+ * done (completed_at) once it has a result, reading or text answer.
+ */
+export function getChecklistItemUpdate(
+  item: WorkOrderChecklistItem,
+  input: RecordChecklistItemInput,
+  actorUserId: string
+): Partial<WorkOrderChecklistItem> {
+  const next = { ...item, ...input };
+
+  if (input.result === undefined && input.numeric_value !== undefined) {
+    next.result =
+      input.numeric_value !== null && item.item_type === 'NUMERIC'
+        ? gradeNumericReading(item, input.numeric_value)
+        : null;
+  }
+
+  const answered =
+    next.result !== null ||
+    next.numeric_value !== null ||
+    (next.text_value !== null && next.text_value.trim() !== '');
+
+  return {
+    result: next.result,
+    numeric_value: next.numeric_value,
+    text_value: next.text_value,
+    notes: next.notes,
+    completed_by: answered ? actorUserId : null,
+    completed_at: answered ? (item.completed_at ?? new Date().toISOString()) : null,
+  };
+}
+
+/**
+ * Checklists on a work order with their items, oldest checklist first
+ */
+export async function getWorkOrderChecklists(
+  supabase: SupabaseClient,
+  workOrderId: string
+): Promise<{ data: WorkOrderChecklistWithItems[] | null; error: PostgrestError | null }> {
+  const { data: checklists, error } = await supabase
+    .from('work_order_checklists')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .order('created_at', { ascending: true })
+    .returns<WorkOrderChecklist[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('work_order_checklist_items')
+    .select('*')
+    .eq('work_order_id', workOrderId)
+    .order('sort_order', { ascending: true })
+    .returns<WorkOrderChecklistItem[]>();
+
+  if (itemsError) {
+    return { data: null, error: itemsError };
+  }
+
+  return {
+    data: (checklists || []).map((checklist) => ({
+      ...checklist,
+      items: (items || []).filter((item) => item.checklist_id === checklist.id),
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Copy a template onto a work order as a new checklist
+ */
+export async function attachChecklistTemplate(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  template: Pick<ChecklistTemplate, 'id' | 'name'>,
+  actorUserId: string
+): Promise<{ data: WorkOrderChecklistWithItems | null; error: PostgrestError | null }> {
+  const { data: templateItems, error: templateError } = await supabase
+    .from('checklist_template_items')
+    .select('*')
+    .eq('template_id', template.id)
+    .order('sort_order', { ascending: true })
+    .returns<ChecklistTemplateItem[]>();
+
+  if (templateError) {
+    return { data: null, error: templateError };
+  }
+
+  const { data: checklist, error: checklistError } = await supabase
+    .from('work_order_checklists')
+    .insert({
+      work_order_id: workOrderId,
+      template_id: template.id,
+      name: template.name,
+      created_by: actorUserId,
+    })
+    .select()
+    .single<WorkOrderChecklist>();
+
+  if (checklistError) {
+    return { data: null, error: checklistError };
+  }
+
+  if (!templateItems || templateItems.length === 0) {
+    return { data: { ...checklist, items: [] }, error: null };
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('work_order_checklist_items')
+    .insert(
+      templateItems.map((item) => ({
+        checklist_id: checklist.id,
+        work_order_id: workOrderId,
+        sort_order: item.sort_order,
+        label: item.label,
+        item_type: item.item_type,
+        required: item.required,
+        unit: item.unit,
+        min_value: item.min_value,
+        max_value: item.max_value,
+      }))
+    )
+    .select()
+    .order('sort_order', { ascending: true })
+    .returns<WorkOrderChecklistItem[]>();
+
+  if (itemsError) {
+    // Don't leave an empty checklist behind
+    await supabase.from('work_order_checklists').delete().eq('id', checklist.id);
+    return { data: null, error: itemsError };
+  }
+
+  return { data: { ...checklist, items: items || [] }, error: null };
+}
+
+/**
+ * Attach every active template for a work type to a work order
+ */
+export async function attachChecklistsForWorkType(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  workType: string,
+  actorUserId: string
+): Promise<{ data: WorkOrderChecklistWithItems[] | null; error: PostgrestError | null }> {
+  const { data: templates, error } = await supabase
+    .from('checklist_templates')
+    .select('id, name')
+    .eq('work_type', workType)
+    .eq('is_active', true)
+    .order('name', { ascending: true })
+    .returns<Pick<ChecklistTemplate, 'id' | 'name'>[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const attached: WorkOrderChecklistWithItems[] = [];
+  for (const template of templates || []) {
+    const { data, error: attachError } = await attachChecklistTemplate(
+      supabase,
+      workOrderId,
+      template,
+      actorUserId
+    );
+
+    if (attachError || !data) {
+      return { data: null, error: attachError };
+    }
+    attached.push(data);
+  }
+
+  return { data: attached, error: null };
+}
+
+/**
+ * Labels of required checklist items on a work order that are not done yet
+ */
+export async function getIncompleteRequiredItems(
+  supabase: SupabaseClient,
+  workOrderId: string
+): Promise<{ data: string[] | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase
+    .from('work_order_checklist_items')
+    .select('label')
+    .eq('work_order_id', workOrderId)
+    .eq('required', true)
+    .is('completed_at', null)
+    .order('sort_order', { ascending: true })
+    .returns<Pick<WorkOrderChecklistItem, 'label'>[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: (data || []).map((item) => item.label), error: null };
+}
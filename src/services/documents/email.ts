@@ -0,0 +1,281 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  Customer,
+  DocumentEmail,
+  Invoice,
+  PurchaseOrder,
+  Quote,
+  Vendor,
+} from '@/types/database.js';
+import {
+  getInvoiceAmountDue,
+  getInvoiceCustomerId,
+  roundCurrency,
+} from '@/services/invoicePayments.js';
+import { enqueueJob } from '@/services/jobQueue.js';
+import { EmailDocumentInput } from '@/validations/documentEmail.js';
+
+/**
+ * Documents that can be emailed
+ */
+export type EmailDocumentType = 'invoice' | 'quote' | 'purchase_order';
+
+/**
+ * Recipients, subject and body resolved for a document email
+ */
+export interface PreparedDocumentEmail {
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+}
+
+// Used when the matching settings template is empty
+const DEFAULT_TEMPLATES: Record<EmailDocumentType, { subject: string; body: string }> = {
+  invoice: {
+    subject: 'Invoice {{document_number}} from {{company_name}}',
+    body:
+      'Hello {{recipient_name}},\n\n' +
+      'Please find attached invoice {{document_number}} for {{total}}.\n' +
+      'Amount due: {{amount_due}}, due {{due_date}}.\n\n' +
+      'Thank you,\n{{company_name}}',
+  },
+  quote: {
+    subject: 'Quote {{document_number}} from {{company_name}}',
+    body:
+      'Hello {{recipient_name}},\n\n' +
+      'Please find attached quote {{document_number}} for {{total}}, valid until {{valid_until}}.\n\n' +
+      'Thank you,\n{{company_name}}',
+  },
+  purchase_order: {
+    subject: 'Purchase Order {{document_number}} from {{company_name}}',
+    body:
+      'Hello {{recipient_name}},\n\n' +
+      'Please find attached purchase order {{document_number}} for {{total}}.\n' +
+      'Requested delivery: {{expected_delivery}}.\n\n' +
+      'Thank you,\n{{company_name}}',
+  },
+};
+
+/**
+ * Replace {{placeholder}} tokens; unknown placeholders render as empty strings
+ */
+export function renderEmailTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => variables[key] ?? '');
+}
+
+function formatMoney(amount: number): string {
+  return Number(amount).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+async function loadCustomer(
+  supabase: SupabaseClient,
+  parent: Pick<Invoice, 'project_id' | 'work_order_id' | 'service_agreement_id'>
+): Promise<Pick<Customer, 'name' | 'contact_name' | 'email'> | null> {
+  const customerId = await getInvoiceCustomerId(supabase, parent);
+  if (!customerId) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('customers')
+    .select('name, contact_name, email')
+    .eq('id', customerId)
+    .single<Pick<Customer, 'name' | 'contact_name' | 'email'>>();
+
+  return data;
+}
+
+/**
+ * Template variables and default recipient for a document
+ */
+async function loadEmailContext(
+  supabase: SupabaseClient,
+  documentType: EmailDocumentType,
+  documentId: string
+): Promise<{
+  variables: Record<string, string> | null;
+  recipient: string | null;
+  error: PostgrestError | null;
+}> {
+  if (documentType === 'purchase_order') {
+    const { data: purchaseOrder, error } = await supabase
+      .from('purchase_orders')
+      .select('*')
+      .eq('id', documentId)
+      .single<PurchaseOrder>();
+
+    if (error) {
+      return { variables: null, recipient: null, error };
+    }
+
+    const { data: vendor } = purchaseOrder.vendor_id
+      ? await supabase
+          .from('vendors')
+          .select('contact_name, email')
+          .eq('id', purchaseOrder.vendor_id)
+          .maybeSingle<Pick<Vendor, 'contact_name' | 'email'>>()
+      : { data: null };
+
+    return {
+      variables: {
+        document_number: purchaseOrder.po_no,
+        recipient_name: vendor?.contact_name ?? purchaseOrder.vendor_name,
+        total: formatMoney(purchaseOrder.total),
+        expected_delivery: purchaseOrder.expected_delivery ?? 'as soon as possible',
+      },
+      recipient: vendor?.email ?? null,
+      error: null,
+    };
+  }
+
+  if (documentType === 'quote') {
+    const { data: quote, error } = await supabase
+      .from('quotes')
+      .select('*')
+      .eq('id', documentId)
+      .single<Quote>();
+
+    if (error) {
+      return { variables: null, recipient: null, error };
+    }
+
+    const customer = await loadCustomer(supabase, { ...quote, service_agreement_id: null });
+
+    return {
+      variables: {
+        document_number: quote.quote_no,
+        recipient_name: customer?.contact_name ?? customer?.name ?? '',
+        total: formatMoney(quote.total_amount),
+        valid_until: quote.valid_until ?? '',
+      },
+      recipient: customer?.email ?? null,
+      error: null,
+    };
+  }
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', documentId)
+    .single<Invoice>();
+
+  if (error) {
+    return { variables: null, recipient: null, error };
+  }
+
+  const customer = await loadCustomer(supabase, invoice);
+
+  return {
+    variables: {
+      document_number: invoice.invoice_no,
+      recipient_name: customer?.contact_name ?? customer?.name ?? '',
+      total: formatMoney(invoice.total_amount),
+      // Retainage held back and payments already received aren't owed now
+      amount_due: formatMoney(
+        roundCurrency(getInvoiceAmountDue(invoice) - Number(invoice.paid_amount ?? 0))
+      ),
+      due_date: invoice.due_date ?? 'on receipt',
+    },
+    recipient: customer?.email ?? null,
+    error: null,
+  };
+}
+
+/**
+ * Resolve recipients, subject and body for a document email
+ * Explicit input wins over the customer's email and the settings templates.
+ * data.to is empty when no recipient could be found.
+ *
+ * @returns The prepared email; a PGRST116 error means the document does not exist
+ */
+export async function prepareDocumentEmail(
+  supabase: SupabaseClient,
+  documentType: EmailDocumentType,
+  documentId: string,
+  input: EmailDocumentInput
+): Promise<{ data: PreparedDocumentEmail | null; error: PostgrestError | null }> {
+  const { variables, recipient, error } = await loadEmailContext(
+    supabase,
+    documentType,
+    documentId
+  );
+
+  if (error || !variables) {
+    return { data: null, error };
+  }
+
+  const { data: settings } = await supabase
+    .from('settings')
+    .select(`company_name, ${documentType}_email_subject, ${documentType}_email_body`)
+    .limit(1)
+    .single<Record<string, string | null>>();
+
+  const templateVariables = { ...variables, company_name: settings?.company_name ?? '' };
+  const subjectTemplate =
+    settings?.[`${documentType}_email_subject`] || DEFAULT_TEMPLATES[documentType].subject;
+  const bodyTemplate =
+    settings?.[`${documentType}_email_body`] || DEFAULT_TEMPLATES[documentType].body;
+
+  const body = renderEmailTemplate(bodyTemplate, templateVariables);
+
+  return {
+    data: {
+      to: input.to ?? (recipient ? [recipient] : []),
+      cc: input.cc ?? [],
+      subject: input.subject ?? renderEmailTemplate(subjectTemplate, templateVariables),
+      body: input.message ? `${input.message}\n\n${body}` : body,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Record a document email as QUEUED and enqueue its delivery
+ * The worker renders the PDF at send time so the attachment reflects the sent document.
+ */
+export async function queueDocumentEmail(
+  supabase: SupabaseClient,
+  documentType: EmailDocumentType,
+  documentId: string,
+  email: PreparedDocumentEmail,
+  actorUserId: string | null
+): Promise<{ data: DocumentEmail | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase
+    .from('document_emails')
+    .insert({
+      document_type: documentType,
+      document_id: documentId,
+      to_emails: email.to,
+      cc_emails: email.cc,
+      subject: email.subject,
+      body: email.body,
+      status: 'QUEUED',
+      created_by: actorUserId,
+    })
+    .select()
+    .single<DocumentEmail>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const { error: jobError } = await enqueueJob(supabase, 'document_email_send', {
+    document_email_id: data.id,
+  });
+
+  if (jobError) {
+    // Keep the record so the failure is visible and the email can be resent
+    console.error('Error enqueueing document email:', jobError);
+    const { data: failed } = await supabase
+      .from('document_emails')
+      .update({ status: 'FAILED', error_message: 'Failed to enqueue delivery' })
+      .eq('id', data.id)
+      .select()
+      .single<DocumentEmail>();
+
+    return { data: failed ?? data, error: null };
+  }
+
+  return { data, error: null };
+}
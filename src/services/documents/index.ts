@@ -0,0 +1,539 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import {
+  ChangeOrder,
+  Customer,
+  File,
+  Invoice,
+  InvoiceLine,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  Quote,
+  QuoteLine,
+} from '@/types/database.js';
+import { getStorageProvider } from '@/services/storage/index.js';
+import { enqueueJob } from '@/services/jobQueue.js';
+import { CompanyBranding, DocumentModel, renderDocumentPdf } from './render.js';
+
+/**
+ * Documents that get a rendered PDF stored in pdf_file_id
+ */
+export type DocumentType = 'invoice' | 'quote' | 'change_order' | 'purchase_order';
+
+const DOCUMENT_TABLES: Record<DocumentType, string> = {
+  invoice: 'invoices',
+  quote: 'quotes',
+  change_order: 'change_orders',
+  purchase_order: 'purchase_orders',
+};
+
+type LoadResult = { model: DocumentModel | null; error: PostgrestError | null };
+
+function joinAddress(parts: (string | null | undefined)[]): string | null {
+  const filled = parts.filter((part) => !!part);
+  return filled.length > 0 ? filled.join(', ') : null;
+}
+
+/**
+ * Bill-to block for a customer, with an optional service/job site line
+ */
+async function loadCustomerParty(
+  supabase: SupabaseClient,
+  customerId: string,
+  siteLine: string | null
+): Promise<{ label: string; lines: string[] } | null> {
+  const { data: customer } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', customerId)
+    .single<Customer>();
+
+  if (!customer) {
+    return null;
+  }
+
+  const lines = [customer.name];
+  if (customer.contact_name) lines.push(`Attn: ${customer.contact_name}`);
+  if (customer.billing_street) lines.push(customer.billing_street);
+  const cityLine = joinAddress([customer.billing_city, customer.billing_state]);
+  if (cityLine) lines.push(`${cityLine} ${customer.billing_zip ?? ''}`.trim());
+  if (siteLine) lines.push(`Site: ${siteLine}`);
+
+  return { label: 'Bill To', lines };
+}
+
+/**
+ * Resolves the customer and site for a document attached to a project, work order
+ * or service agreement
+ */
+async function loadParentParty(
+  supabase: SupabaseClient,
+  parent: {
+    project_id?: string | null;
+    work_order_id?: string | null;
+    service_agreement_id?: string | null;
+  }
+): Promise<{
+  party: { label: string; lines: string[] } | null;
+  reference: [string, string] | null;
+}> {
+  if (parent.project_id) {
+    const { data: project } = await supabase
+      .from('projects')
+      .select('project_no, name, customer_id, job_street, job_city, job_state, job_zip')
+      .eq('id', parent.project_id)
+      .single<{
+        project_no: string;
+        name: string;
+        customer_id: string;
+        job_street: string | null;
+        job_city: string | null;
+        job_state: string | null;
+        job_zip: string | null;
+      }>();
+
+    if (project) {
+      const site = joinAddress([project.job_street, project.job_city, project.job_state]);
+      return {
+        party: await loadCustomerParty(supabase, project.customer_id, site),
+        reference: ['Project', `${project.project_no} ${project.name}`],
+      };
+    }
+  }
+
+  const parentTable = parent.work_order_id
+    ? 'work_orders'
+    : parent.service_agreement_id
+      ? 'service_agreements'
+      : null;
+  const parentId = parent.work_order_id ?? parent.service_agreement_id;
+
+  if (parentTable && parentId) {
+    const { data: record } = await supabase
+      .from(parentTable)
+      .select('*, locations(street, city, state, zip)')
+      .eq('id', parentId)
+      .single<{
+        customer_id: string;
+        work_order_no?: string | null;
+        name?: string;
+        locations: { street: string; city: string; state: string; zip: string } | null;
+      }>();
+
+    if (record) {
+      const location = record.locations;
+      const site = location ? joinAddress([location.street, location.city, location.state]) : null;
+      return {
+        party: await loadCustomerParty(supabase, record.customer_id, site),
+        reference: parent.work_order_id
+          ? ['Work Order', record.work_order_no ?? '']
+          : ['Agreement', record.name ?? ''],
+      };
+    }
+  }
+
+  return { party: null, reference: null };
+}
+
+async function loadInvoiceModel(supabase: SupabaseClient, id: string): Promise<LoadResult> {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', id)
+    .single<Invoice>();
+
+  if (error) {
+    return { model: null, error };
+  }
+
+  const { data: lines, error: linesError } = await supabase
+    .from('invoice_lines')
+    .select('*')
+    .eq('invoice_id', id)
+    .order('line_no', { ascending: true })
+    .returns<InvoiceLine[]>();
+
+  if (linesError) {
+    return { model: null, error: linesError };
+  }
+
+  const { party, reference } = await loadParentParty(supabase, invoice);
+
+  const details: [string, string][] = [['Date', invoice.invoice_date]];
+  if (invoice.due_date) details.push(['Due', invoice.due_date]);
+  if (reference) details.push(reference);
+
+  const totals: [string, number][] = [
+    ['Subtotal', Number(invoice.subtotal)],
+    ['Tax', Number(invoice.tax_total)],
+    ['Total', Number(invoice.total_amount)],
+  ];
+  const retainage = Number(invoice.retainage_amount ?? 0);
+  const paid = Number(invoice.paid_amount ?? 0);
+  if (retainage > 0) {
+    totals.push([`Retainage (${Number(invoice.retainage_percent)}%)`, -retainage]);
+  }
+  if (paid > 0) {
+    totals.push(['Paid', -paid]);
+  }
+  if (retainage > 0 || paid > 0) {
+    totals.push(['Balance Due', Number(invoice.total_amount) - retainage - paid]);
+  }
+
+  return {
+    model: {
+      title: 'INVOICE',
+      number: invoice.invoice_no,
+      status: invoice.status,
+      details,
+      party,
+      lines: (lines || []).map((line) => ({
+        description: line.description,
+        qty: Number(line.qty),
+        uom: line.uom,
+        unit_price: Number(line.unit_price),
+        amount: Number(line.line_subtotal ?? Number(line.qty) * Number(line.unit_price)),
+      })),
+      totals,
+      notes: null,
+    },
+    error: null,
+  };
+}
+
+async function loadQuoteModel(supabase: SupabaseClient, id: string): Promise<LoadResult> {
+  const { data: quote, error } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', id)
+    .single<Quote>();
+
+  if (error) {
+    return { model: null, error };
+  }
+
+  const { data: lines, error: linesError } = await supabase
+    .from('quote_lines')
+    .select('*')
+    .eq('quote_id', id)
+    .order('line_no', { ascending: true })
+    .returns<QuoteLine[]>();
+
+  if (linesError) {
+    return { model: null, error: linesError };
+  }
+
+  const { party, reference } = await loadParentParty(supabase, quote);
+
+  const { data: settings } = await supabase
+    .from('settings')
+    .select('default_quote_terms')
+    .limit(1)
+    .single<{ default_quote_terms: string | null }>();
+
+  const details: [string, string][] = [['Date', quote.quote_date]];
+  if (quote.valid_until) details.push(['Valid Until', quote.valid_until]);
+  if (reference) details.push(reference);
+
+  return {
+    model: {
+      title: quote.quote_type === 'CHANGE_ORDER' ? 'CHANGE ORDER QUOTE' : 'QUOTE',
+      number: quote.quote_no,
+      status: quote.status,
+      details,
+      party,
+      lines: (lines || []).map((line) => ({
+        description: line.description,
+        qty: Number(line.qty),
+        uom: line.uom,
+        unit_price: Number(line.unit_price),
+        amount: Number(line.line_subtotal ?? Number(line.qty) * Number(line.unit_price)),
+      })),
+      totals: [
+        ['Subtotal', Number(quote.subtotal)],
+        ['Tax', Number(quote.tax_total)],
+        ['Total', Number(quote.total_amount)],
+      ],
+      notes: settings?.default_quote_terms || null,
+    },
+    error: null,
+  };
+}
+
+async function loadChangeOrderModel(supabase: SupabaseClient, id: string): Promise<LoadResult> {
+  const { data: changeOrder, error } = await supabase
+    .from('change_orders')
+    .select('*')
+    .eq('id', id)
+    .single<ChangeOrder>();
+
+  if (error) {
+    return { model: null, error };
+  }
+
+  const { party, reference } = await loadParentParty(supabase, changeOrder);
+
+  const details: [string, string][] = [['Status', changeOrder.status]];
+  if (changeOrder.requested_at) details.push(['Requested', changeOrder.requested_at.split('T')[0]]);
+  if (changeOrder.approved_at) details.push(['Approved', changeOrder.approved_at.split('T')[0]]);
+  if (reference) details.push(reference);
+
+  const amount = Number(changeOrder.amount);
+
+  return {
+    model: {
+      title: 'CHANGE ORDER',
+      number: changeOrder.co_no,
+      // A pending change order is the draft state for this document
+      status: changeOrder.status === 'PENDING' ? 'DRAFT' : changeOrder.status,
+      details,
+      party,
+      lines: [
+        { description: changeOrder.description, qty: 1, uom: 'LS', unit_price: amount, amount },
+      ],
+      totals: [['Total', amount]],
+      notes: changeOrder.notes,
+    },
+    error: null,
+  };
+}
+
+async function loadPurchaseOrderModel(supabase: SupabaseClient, id: string): Promise<LoadResult> {
+  const { data: purchaseOrder, error } = await supabase
+    .from('purchase_orders')
+    .select('*')
+    .eq('id', id)
+    .single<PurchaseOrder>();
+
+  if (error) {
+    return { model: null, error };
+  }
+
+  const { data: lines, error: linesError } = await supabase
+    .from('purchase_order_lines')
+    .select('*')
+    .eq('po_id', id)
+    .order('line_no', { ascending: true })
+    .returns<PurchaseOrderLine[]>();
+
+  if (linesError) {
+    return { model: null, error: linesError };
+  }
+
+  const details: [string, string][] = [['Date', purchaseOrder.po_date]];
+  if (purchaseOrder.expected_delivery) {
+    details.push(['Expected Delivery', purchaseOrder.expected_delivery]);
+  }
+
+  return {
+    model: {
+      title: 'PURCHASE ORDER',
+      number: purchaseOrder.po_no,
+      status: purchaseOrder.status,
+      details,
+      party: { label: 'Vendor', lines: [purchaseOrder.vendor_name] },
+      lines: (lines || []).map((line) => ({
+        description: line.description,
+        qty: Number(line.qty_ordered),
+        uom: line.uom,
+        unit_price: Number(line.unit_price),
+        amount: Number(line.line_total),
+      })),
+      totals: [
+        ['Subtotal', Number(purchaseOrder.subtotal)],
+        ['Tax', Number(purchaseOrder.tax)],
+        ['Total', Number(purchaseOrder.total)],
+      ],
+      notes: purchaseOrder.notes,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Read a stored file fully into memory
+ */
+export async function readStoredFile(storagePath: string): Promise<Buffer> {
+  const fileOrUrl = await getStorageProvider().downloadFile(storagePath);
+
+  // S3 returns a signed URL rather than a stream
+  if (typeof fileOrUrl === 'string') {
+    const response = await fetch(fileOrUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch stored file: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of fileOrUrl) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Company name, address and logo from settings
+ */
+async function loadCompanyBranding(supabase: SupabaseClient): Promise<CompanyBranding> {
+  const { data: settings } = await supabase
+    .from('settings')
+    .select('company_name, company_address, company_phone, company_email')
+    .limit(1)
+    .single<{
+      company_name: string;
+      company_address: string | null;
+      company_phone: string | null;
+      company_email: string | null;
+    }>();
+
+  const { data: logoFiles } = await supabase
+    .from('files')
+    .select('storage_path')
+    .eq('entity_type', 'settings')
+    .eq('file_kind', 'logo')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .returns<{ storage_path: string }[]>();
+
+  let logo: Buffer | null = null;
+  if (logoFiles && logoFiles.length > 0) {
+    try {
+      logo = await readStoredFile(logoFiles[0].storage_path);
+    } catch (error) {
+      // A missing logo should not block document rendering
+      console.error('Error loading company logo:', error);
+    }
+  }
+
+  return {
+    name: settings?.company_name ?? '',
+    address: settings?.company_address ?? null,
+    phone: settings?.company_phone ?? null,
+    email: settings?.company_email ?? null,
+    logo,
+  };
+}
+
+/**
+ * Render a document to PDF, store it and point the document's pdf_file_id at it
+ * The previously rendered PDF is removed from storage and the files table only while the
+ * document is a draft and that PDF was never emailed; anything a customer or vendor may
+ * have received is kept.
+ *
+ * @param supabase - Supabase client instance
+ * @param documentType - Kind of document to render
+ * @param documentId - ID of the invoice, quote, change order or purchase order
+ * @param actorUserId - Employee triggering the render (null from the worker)
+ * @returns The new files record; a PGRST116 error means the document does not exist
+ */
+export async function generateDocumentPdf(
+  supabase: SupabaseClient,
+  documentType: DocumentType,
+  documentId: string,
+  actorUserId: string | null
+): Promise<{ data: File | null; error: PostgrestError | Error | null }> {
+  const loaders: Record<DocumentType, typeof loadInvoiceModel> = {
+    invoice: loadInvoiceModel,
+    quote: loadQuoteModel,
+    change_order: loadChangeOrderModel,
+    purchase_order: loadPurchaseOrderModel,
+  };
+  const table = DOCUMENT_TABLES[documentType];
+
+  const { model, error: loadError } = await loaders[documentType](supabase, documentId);
+  if (loadError || !model) {
+    return { data: null, error: loadError ?? new Error('Failed to load document') };
+  }
+
+  const { data: current } = await supabase
+    .from(table)
+    .select('pdf_file_id')
+    .eq('id', documentId)
+    .single<{ pdf_file_id: string | null }>();
+
+  const branding = await loadCompanyBranding(supabase);
+  const pdf = await renderDocumentPdf(model, branding);
+
+  const storage = getStorageProvider();
+  const storagePath = await storage.uploadFile(pdf, `${randomUUID()}.pdf`);
+
+  const { data: fileRecord, error: fileError } = await supabase
+    .from('files')
+    .insert({
+      entity_type: documentType,
+      entity_id: documentId,
+      file_kind: 'pdf',
+      storage_path: storagePath,
+      mime_type: 'application/pdf',
+      created_by: actorUserId,
+    })
+    .select()
+    .single<File>();
+
+  if (fileError) {
+    try {
+      await storage.deleteFile(storagePath);
+    } catch (cleanupError) {
+      console.error('Error cleaning up file after failed database insert:', cleanupError);
+    }
+    return { data: null, error: fileError };
+  }
+
+  const { error: updateError } = await supabase
+    .from(table)
+    .update({ pdf_file_id: fileRecord.id })
+    .eq('id', documentId);
+
+  if (updateError) {
+    return { data: null, error: updateError };
+  }
+
+  // Drop the superseded draft render unless it went out attached to an email
+  if (current?.pdf_file_id && model.status === 'DRAFT') {
+    const { data: emailed } = await supabase
+      .from('document_emails')
+      .select('id')
+      .eq('pdf_file_id', current.pdf_file_id)
+      .limit(1)
+      .returns<{ id: string }[]>();
+
+    if (emailed && emailed.length === 0) {
+      const { data: previous } = await supabase
+        .from('files')
+        .delete()
+        .eq('id', current.pdf_file_id)
+        .select('storage_path')
+        .single<{ storage_path: string }>();
+
+      if (previous) {
+        try {
+          await storage.deleteFile(previous.storage_path);
+        } catch (cleanupError) {
+          console.error('Error deleting previous document PDF:', cleanupError);
+        }
+      }
+    }
+  }
+
+  return { data: fileRecord, error: null };
+}
+
+/**
+ * Queue a background re-render of a document's PDF after it changes
+ * Failures are logged only; the PDF can always be regenerated on demand.
+ */
+export async function queueDocumentPdf(
+  supabase: SupabaseClient,
+  documentType: DocumentType,
+  documentId: string
+): Promise<void> {
+  const { error } = await enqueueJob(supabase, 'document_pdf_render', {
+    document_type: documentType,
+    document_id: documentId,
+  });
+
+  if (error) {
+    console.error('Error enqueueing document PDF render:', error);
+  }
+}
@@ -0,0 +1,200 @@
+import PDFDocument from 'pdfkit';
+
+/**
+ * Company details printed in the document header
+ */
+export interface CompanyBranding {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  logo: Buffer | null;
+}
+
+/**
+ * One row of the document's line table
+ */
+export interface DocumentLine {
+  description: string;
+  qty: number;
+  uom: string;
+  unit_price: number;
+  amount: number;
+}
+
+/**
+ * Renderer-neutral view of an invoice, quote, change order or purchase order
+ */
+export interface DocumentModel {
+  title: string;
+  number: string;
+  status: string;
+  details: [string, string][];
+  party: { label: string; lines: string[] } | null;
+  lines: DocumentLine[];
+  totals: [string, number][];
+  notes: string | null;
+}
+
+const MARGIN = 50;
+const PAGE_WIDTH = 612; // US Letter
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Line table columns: x offset and width
+const COLUMNS = {
+  description: { x: MARGIN, width: 250 },
+  qty: { x: MARGIN + 255, width: 50 },
+  uom: { x: MARGIN + 310, width: 40 },
+  unitPrice: { x: MARGIN + 355, width: 75 },
+  amount: { x: MARGIN + 435, width: CONTENT_WIDTH - 435 },
+};
+
+function formatMoney(amount: number): string {
+  return Number(amount).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function formatQty(qty: number): string {
+  return Number(qty).toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
+
+/**
+ * Render a document model to a branded PDF
+ */
+export function renderDocumentPdf(model: DocumentModel, company: CompanyBranding): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: MARGIN });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Header: logo and company block on the left, title block on the right
+    let headerX = MARGIN;
+    if (company.logo) {
+      try {
+        doc.image(company.logo, MARGIN, MARGIN, { fit: [90, 60] });
+        headerX = MARGIN + 100;
+      } catch (error) {
+        // Unsupported image format: render without the logo
+        console.error('Error embedding logo in PDF:', error);
+      }
+    }
+
+    doc.font('Helvetica-Bold').fontSize(14).text(company.name, headerX, MARGIN, { width: 250 });
+    doc.font('Helvetica').fontSize(9);
+    for (const line of [company.address, company.phone, company.email]) {
+      if (line) {
+        doc.text(line, { width: 250 });
+      }
+    }
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .text(model.title, MARGIN, MARGIN, { width: CONTENT_WIDTH, align: 'right' });
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .text(`# ${model.number}`, { width: CONTENT_WIDTH, align: 'right' });
+    for (const [label, value] of model.details) {
+      doc.text(`${label}: ${value}`, { width: CONTENT_WIDTH, align: 'right' });
+    }
+    if (model.status === 'DRAFT') {
+      doc.fillColor('#b00000').text('DRAFT', { width: CONTENT_WIDTH, align: 'right' });
+      doc.fillColor('black');
+    }
+
+    let y = Math.max(doc.y, MARGIN + 70) + 20;
+
+    // Bill-to / vendor block
+    if (model.party) {
+      doc.font('Helvetica-Bold').fontSize(10).text(model.party.label, MARGIN, y);
+      doc.font('Helvetica').fontSize(10);
+      for (const line of model.party.lines) {
+        doc.text(line, MARGIN);
+      }
+      y = doc.y + 20;
+    }
+
+    // Line table header
+    const drawTableHeader = (top: number): number => {
+      doc.font('Helvetica-Bold').fontSize(9);
+      doc.text('Description', COLUMNS.description.x, top, { width: COLUMNS.description.width });
+      doc.text('Qty', COLUMNS.qty.x, top, { width: COLUMNS.qty.width, align: 'right' });
+      doc.text('UOM', COLUMNS.uom.x, top, { width: COLUMNS.uom.width });
+      doc.text('Unit Price', COLUMNS.unitPrice.x, top, {
+        width: COLUMNS.unitPrice.width,
+        align: 'right',
+      });
+      doc.text('Amount', COLUMNS.amount.x, top, { width: COLUMNS.amount.width, align: 'right' });
+      const bottom = top + 14;
+      doc
+        .moveTo(MARGIN, bottom)
+        .lineTo(MARGIN + CONTENT_WIDTH, bottom)
+        .stroke();
+      doc.font('Helvetica').fontSize(9);
+      return bottom + 6;
+    };
+
+    y = drawTableHeader(y);
+    const pageBottom = doc.page.height - MARGIN;
+
+    for (const line of model.lines) {
+      const rowHeight = Math.max(
+        doc.heightOfString(line.description, { width: COLUMNS.description.width }),
+        12
+      );
+      if (y + rowHeight > pageBottom) {
+        doc.addPage();
+        y = drawTableHeader(MARGIN);
+      }
+
+      doc.text(line.description, COLUMNS.description.x, y, { width: COLUMNS.description.width });
+      doc.text(formatQty(line.qty), COLUMNS.qty.x, y, { width: COLUMNS.qty.width, align: 'right' });
+      doc.text(line.uom, COLUMNS.uom.x, y, { width: COLUMNS.uom.width });
+      doc.text(formatMoney(line.unit_price), COLUMNS.unitPrice.x, y, {
+        width: COLUMNS.unitPrice.width,
+        align: 'right',
+      });
+      doc.text(formatMoney(line.amount), COLUMNS.amount.x, y, {
+        width: COLUMNS.amount.width,
+        align: 'right',
+      });
+      y += rowHeight + 6;
+    }
+
+    // Totals
+    if (y + model.totals.length * 14 + 10 > pageBottom) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc
+      .moveTo(COLUMNS.unitPrice.x, y)
+      .lineTo(MARGIN + CONTENT_WIDTH, y)
+      .stroke();
+    y += 6;
+    model.totals.forEach(([label, amount], index) => {
+      const isLast = index === model.totals.length - 1;
+      doc.font(isLast ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+      doc.text(label, COLUMNS.qty.x, y, {
+        width: COLUMNS.unitPrice.x + COLUMNS.unitPrice.width - COLUMNS.qty.x,
+        align: 'right',
+      });
+      doc.text(formatMoney(amount), COLUMNS.amount.x, y, {
+        width: COLUMNS.amount.width,
+        align: 'right',
+      });
+      y += 14;
+    });
+
+    if (model.notes) {
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .text(model.notes, MARGIN, y + 20, { width: CONTENT_WIDTH });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,40 @@
+import { env } from '@/config/env.js';
+import { EmailProvider, OutboxEmailProvider } from './outboxEmail.js';
+import { SmtpEmailProvider } from './smtpEmail.js';
+
+let emailProviderInstance: EmailProvider | null = null;
+
+/**
+ * Get the configured email provider (singleton)
+ */
+export function getEmailProvider(): EmailProvider {
+  if (emailProviderInstance) {
+    return emailProviderInstance;
+  }
+
+  if (env.EMAIL_PROVIDER === 'smtp') {
+    // Validate required SMTP configuration
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP email provider requires the SMTP_HOST environment variable');
+    }
+
+    emailProviderInstance = new SmtpEmailProvider(
+      env.SMTP_HOST,
+      env.SMTP_PORT,
+      env.SMTP_SECURE === 'true',
+      env.SMTP_USER,
+      env.SMTP_PASSWORD
+    );
+  } else {
+    emailProviderInstance = new OutboxEmailProvider(env.EMAIL_OUTBOX_PATH);
+  }
+
+  return emailProviderInstance;
+}
+
+/**
+ * Reset the email provider instance (useful for testing)
+ */
+export function resetEmailProvider(): void {
+  emailProviderInstance = null;
+}
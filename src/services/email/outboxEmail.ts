@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+
+/**
+ * Attachment on an outgoing message
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Outgoing message handed to an email provider
+ */
+export interface EmailMessage {
+  from: string;
+  replyTo?: string | null;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailProvider {
+  /**
+   * Deliver a message
+   * @param message - The message to send
+   * @returns The provider's message ID
+   */
+  sendMail(message: EmailMessage): Promise<string>;
+}
+
+/**
+ * Writes each message as an .eml file instead of delivering it
+ * Used in development and tests; open the files with any mail client.
+ */
+export class OutboxEmailProvider implements EmailProvider {
+  private readonly basePath: string;
+  private readonly transport = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  constructor(basePath: string) {
+    this.basePath = basePath;
+  }
+
+  async sendMail(message: EmailMessage): Promise<string> {
+    // Ensure the outbox directory exists
+    await fs.mkdir(this.basePath, { recursive: true });
+
+    const messageId = `<${randomUUID()}@outbox.local>`;
+    const info = await this.transport.sendMail({
+      ...message,
+      replyTo: message.replyTo ?? undefined,
+      messageId,
+    });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await fs.writeFile(path.join(this.basePath, fileName), info.message);
+
+    return messageId;
+  }
+}
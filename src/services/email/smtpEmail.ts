@@ -0,0 +1,25 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import { EmailMessage, EmailProvider } from './outboxEmail.js';
+
+export class SmtpEmailProvider implements EmailProvider {
+  private readonly transport: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(host: string, port: number, secure: boolean, user?: string, password?: string) {
+    this.transport = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    });
+  }
+
+  async sendMail(message: EmailMessage): Promise<string> {
+    const info = await this.transport.sendMail({
+      ...message,
+      replyTo: message.replyTo ?? undefined,
+    });
+
+    return info.messageId;
+  }
+}
@@ -0,0 +1,92 @@
+import { InventoryLedger } from '@/types/database.js';
+import { computeMovingAverageCost } from '@/services/inventoryStock.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+
+/**
+ * A part's quantity and average cost rebuilt from its ledger
+ */
+export interface LedgerPosition {
+  qty_on_hand: number;
+  avg_cost: number;
+}
+
+/**
+ * Rebuild a part's on-hand quantity and moving average cost from its ledger rows
+ * Rows are replayed oldest first (txn_date, then created_at). Inbound rows blend their
+ * stored unit_cost into the average (rows with no unit_cost keep the average as it is);
+ * outbound rows only reduce the quantity. TRANSFER rows move stock between locations and
+ * are skipped.
+ */
+export function replayLedger(
+  rows: (Pick<InventoryLedger, 'txn_type' | 'qty_delta' | 'txn_date' | 'created_at'> & {
+    unit_cost: number | null;
+  })[]
+): LedgerPosition {
+  const ordered = [...rows].sort(
+    (a, b) => a.txn_date.localeCompare(b.txn_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+  let qtyOnHand = 0;
+  let avgCost = 0;
+
+  for (const row of ordered) {
+    if (row.txn_type === 'TRANSFER') {
+      continue;
+    }
+
+    const qtyDelta = Number(row.qty_delta);
+
+    // Inbound rows without a cost come in at the running average, leaving it unchanged
+    if (qtyDelta > 0 && row.unit_cost !== null) {
+      avgCost = computeMovingAverageCost(qtyOnHand, avgCost, qtyDelta, Number(row.unit_cost));
+    }
+    qtyOnHand += qtyDelta;
+  }
+
+  return { qty_on_hand: qtyOnHand, avg_cost: avgCost };
+}
+
+/**
+ * Value of stock on hand at an average cost (nothing for zero or negative stock)
+ */
+export function valueStock(position: LedgerPosition): number {
+  return position.qty_on_hand > 0 ? roundCurrency(position.qty_on_hand * position.avg_cost) : 0;
+}
+
+/**
+ * Quantity of each part still committed to open work orders
+ * A part is committed by the accepted quote lines of a work order, less what has already
+ * been used on that work order (never below zero per work order).
+ */
+export function computeCommittedQty(
+  quoted: { work_order_id: string; part_id: string; qty: number }[],
+  used: { work_order_id: string; part_id: string; qty: number }[]
+): Map<string, number> {
+  const key = (workOrderId: string, partId: string): string => `${workOrderId}:${partId}`;
+  const outstanding = new Map<string, { part_id: string; qty: number }>();
+
+  for (const line of quoted) {
+    const entry = outstanding.get(key(line.work_order_id, line.part_id)) ?? {
+      part_id: line.part_id,
+      qty: 0,
+    };
+    entry.qty += Number(line.qty);
+    outstanding.set(key(line.work_order_id, line.part_id), entry);
+  }
+
+  for (const usage of used) {
+    const entry = outstanding.get(key(usage.work_order_id, usage.part_id));
+    if (entry) {
+      entry.qty -= Number(usage.qty);
+    }
+  }
+
+  const committed = new Map<string, number>();
+  for (const entry of outstanding.values()) {
+    if (entry.qty > 0) {
+      committed.set(entry.part_id, (committed.get(entry.part_id) ?? 0) + entry.qty);
+    }
+  }
+
+  return committed;
+}
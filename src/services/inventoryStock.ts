@@ -0,0 +1,399 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError, translateDbError } from '@/db/index.js';
+import { InventoryTransfer, Part, PartStock, Settings, StockLocation } from '@/types/database.js';
+import { CreateInventoryTransferInput } from '@/validations/inventoryTransfer.js';
+
+/**
+ * A part's on-hand quantity at one location
+ */
+export interface PartLocationStock {
+  stock_location_id: string;
+  name: string;
+  location_type: StockLocation['location_type'];
+  tech_user_id: string | null;
+  qty_on_hand: number;
+}
+
+/**
+ * Cost of stock coming into inventory
+ * Purchases, receipts and priced adjustments also become the part's last_cost.
+ */
+export interface InboundCost {
+  unit_cost: number;
+  set_last_cost: boolean;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) for ledger entries
+ */
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Fetch an active stock location
+ *
+ * @returns The location, or a 400 error if it doesn't exist or is inactive
+ */
+export async function getActiveStockLocation(
+  supabase: SupabaseClient,
+  stockLocationId: string
+): Promise<{ data: StockLocation | null; error: ApiError | null }> {
+  const { data, error } = await supabase
+    .from('stock_locations')
+    .select('*')
+    .eq('id', stockLocationId)
+    .maybeSingle<StockLocation>();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  if (!data || !data.is_active) {
+    return {
+      data: null,
+      error: {
+        statusCode: 400,
+        code: 'VALIDATION_ERROR',
+        message: 'Stock location does not exist or is inactive',
+      },
+    };
+  }
+
+  return { data, error: null };
+}
+
+/**
+ * A tech's active truck, if they have one
+ */
+export async function getTechTruck(
+  supabase: SupabaseClient,
+  techUserId: string
+): Promise<StockLocation | null> {
+  const { data } = await supabase
+    .from('stock_locations')
+    .select('*')
+    .eq('location_type', 'TRUCK')
+    .eq('tech_user_id', techUserId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .returns<StockLocation[]>();
+
+  return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * The stock location purchases are received into when none is given (settings)
+ */
+export async function getDefaultStockLocationId(supabase: SupabaseClient): Promise<string | null> {
+  const { data } = await supabase
+    .from('settings')
+    .select('default_stock_location_id')
+    .limit(1)
+    .maybeSingle<Pick<Settings, 'default_stock_location_id'>>();
+
+  return data?.default_stock_location_id ?? null;
+}
+
+/**
+ * On-hand quantity of a part at one location (0 when it has never been stocked there)
+ */
+export async function getLocationQty(
+  supabase: SupabaseClient,
+  partId: string,
+  stockLocationId: string
+): Promise<{ data: number; error: ApiError | null }> {
+  const { data, error } = await supabase
+    .from('part_stock')
+    .select('qty_on_hand')
+    .eq('part_id', partId)
+    .eq('stock_location_id', stockLocationId)
+    .maybeSingle<Pick<PartStock, 'qty_on_hand'>>();
+
+  if (error) {
+    return { data: 0, error: translateDbError(error) };
+  }
+
+  return { data: Number(data?.qty_on_hand ?? 0), error: null };
+}
+
+/**
+ * Move a part's on-hand quantity at one location by a delta
+ * Leaves parts.qty_on_hand alone; use adjustStock when stock enters or leaves inventory.
+ */
+async function adjustLocationQty(
+  supabase: SupabaseClient,
+  partId: string,
+  stockLocationId: string,
+  delta: number
+): Promise<{ error: ApiError | null }> {
+  const { data: current, error: fetchError } = await supabase
+    .from('part_stock')
+    .select('id, qty_on_hand')
+    .eq('part_id', partId)
+    .eq('stock_location_id', stockLocationId)
+    .maybeSingle<Pick<PartStock, 'id' | 'qty_on_hand'>>();
+
+  if (fetchError) {
+    return { error: translateDbError(fetchError) };
+  }
+
+  const { error } = current
+    ? await supabase
+        .from('part_stock')
+        .update({ qty_on_hand: Number(current.qty_on_hand) + delta })
+        .eq('id', current.id)
+    : await supabase.from('part_stock').insert({
+        part_id: partId,
+        stock_location_id: stockLocationId,
+        qty_on_hand: delta,
+      });
+
+  return { error: error ? translateDbError(error) : null };
+}
+
+/**
+ * Moving weighted average cost after stock comes in
+ * With nothing (or a negative quantity) on hand, the incoming cost becomes the average.
+ */
+export function computeMovingAverageCost(
+  qtyOnHand: number,
+  avgCost: number,
+  qtyIn: number,
+  unitCost: number
+): number {
+  const average =
+    qtyOnHand <= 0 ? unitCost : (qtyOnHand * avgCost + qtyIn * unitCost) / (qtyOnHand + qtyIn);
+  return Math.round(average * 10000) / 10000;
+}
+
+/**
+ * Move a part's stock by a delta
+ * parts.qty_on_hand is the total across locations; with a location, its part_stock row
+ * moves too. A null location only moves the total (stock not tracked by location).
+ * Stock coming in with a cost recomputes avg_cost (and last_cost when asked).
+ * On error nothing has moved: a failed location update puts the part totals back.
+ */
+export async function adjustStock(
+  supabase: SupabaseClient,
+  partId: string,
+  stockLocationId: string | null,
+  delta: number,
+  inbound?: InboundCost
+): Promise<{ error: ApiError | null }> {
+  const { data: part, error: fetchError } = await supabase
+    .from('parts')
+    .select('qty_on_hand, avg_cost, last_cost')
+    .eq('id', partId)
+    .single<Pick<Part, 'qty_on_hand' | 'avg_cost' | 'last_cost'>>();
+
+  if (fetchError) {
+    return { error: translateDbError(fetchError) };
+  }
+
+  const update: Partial<Pick<Part, 'qty_on_hand' | 'avg_cost' | 'last_cost'>> = {
+    qty_on_hand: Number(part.qty_on_hand) + delta,
+  };
+
+  if (inbound && delta > 0) {
+    update.avg_cost = computeMovingAverageCost(
+      Number(part.qty_on_hand),
+      Number(part.avg_cost),
+      delta,
+      inbound.unit_cost
+    );
+    if (inbound.set_last_cost) {
+      update.last_cost = inbound.unit_cost;
+    }
+  }
+
+  const { error } = await supabase.from('parts').update(update).eq('id', partId);
+
+  if (error) {
+    return { error: translateDbError(error) };
+  }
+
+  if (!stockLocationId) {
+    return { error: null };
+  }
+
+  const { error: locationError } = await adjustLocationQty(
+    supabase,
+    partId,
+    stockLocationId,
+    delta
+  );
+
+  if (locationError) {
+    await supabase
+      .from('parts')
+      .update({
+        qty_on_hand: part.qty_on_hand,
+        avg_cost: part.avg_cost,
+        last_cost: part.last_cost,
+      })
+      .eq('id', partId);
+    return { error: locationError };
+  }
+
+  return { error: null };
+}
+
+/**
+ * A part's on-hand quantity at each location that has stocked it, by location name
+ */
+export async function getPartStockByLocation(
+  supabase: SupabaseClient,
+  partId: string
+): Promise<{ data: PartLocationStock[] | null; error: ApiError | null }> {
+  const { data, error } = await supabase
+    .from('part_stock')
+    .select(
+      'stock_location_id, qty_on_hand, stock_location:stock_locations(name, location_type, tech_user_id)'
+    )
+    .eq('part_id', partId)
+    .returns<
+      (Pick<PartStock, 'stock_location_id' | 'qty_on_hand'> & {
+        stock_location: Pick<StockLocation, 'name' | 'location_type' | 'tech_user_id'> | null;
+      })[]
+    >();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  const stock = (data || [])
+    .map((row) => ({
+      stock_location_id: row.stock_location_id,
+      name: row.stock_location?.name ?? '',
+      location_type: row.stock_location?.location_type ?? 'WAREHOUSE',
+      tech_user_id: row.stock_location?.tech_user_id ?? null,
+      qty_on_hand: Number(row.qty_on_hand),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { data: stock, error: null };
+}
+
+/**
+ * Move stock from one location to another
+ * Writes the transfer and a pair of TRANSFER ledger rows (out of the source, into the
+ * destination) at the part's avg_cost. The part's total on hand doesn't change.
+ *
+ * @returns The transfer, or an API error (400 for stock that can't be moved)
+ */
+export async function transferStock(
+  supabase: SupabaseClient,
+  input: CreateInventoryTransferInput,
+  actorUserId: string
+): Promise<{ data: InventoryTransfer | null; error: ApiError | null }> {
+  const { data: part, error: partError } = await supabase
+    .from('parts')
+    .select('*')
+    .eq('id', input.part_id)
+    .single<Part>();
+
+  if (partError) {
+    if (partError.code === 'PGRST116') {
+      return {
+        data: null,
+        error: { statusCode: 400, code: 'VALIDATION_ERROR', message: 'Part does not exist' },
+      };
+    }
+    return { data: null, error: translateDbError(partError) };
+  }
+
+  if (!part.is_inventoried) {
+    return {
+      data: null,
+      error: {
+        statusCode: 400,
+        code: 'VALIDATION_ERROR',
+        message: 'Part is not tracked in inventory',
+      },
+    };
+  }
+
+  const { data: from, error: fromError } = await getActiveStockLocation(
+    supabase,
+    input.from_location_id
+  );
+  if (fromError || !from) {
+    return { data: null, error: fromError };
+  }
+
+  const { data: to, error: toError } = await getActiveStockLocation(supabase, input.to_location_id);
+  if (toError || !to) {
+    return { data: null, error: toError };
+  }
+
+  const { data: available, error: qtyError } = await getLocationQty(supabase, part.id, from.id);
+  if (qtyError) {
+    return { data: null, error: qtyError };
+  }
+
+  if (available < input.qty) {
+    return {
+      data: null,
+      error: {
+        statusCode: 400,
+        code: 'VALIDATION_ERROR',
+        message: `Insufficient stock: ${available} ${part.uom} on hand at ${from.name}`,
+      },
+    };
+  }
+
+  const unitCost = Number(part.avg_cost);
+
+  const { data: transfer, error: transferError } = await supabase
+    .from('inventory_transfers')
+    .insert({
+      part_id: part.id,
+      from_location_id: from.id,
+      to_location_id: to.id,
+      qty: input.qty,
+      unit_cost: unitCost,
+      notes: input.notes ?? null,
+      transferred_by: actorUserId,
+    })
+    .select()
+    .single<InventoryTransfer>();
+
+  if (transferError) {
+    return { data: null, error: translateDbError(transferError) };
+  }
+
+  const { error: ledgerError } = await supabase.from('inventory_ledger').insert(
+    [
+      { stock_location_id: from.id, qty_delta: -input.qty },
+      { stock_location_id: to.id, qty_delta: input.qty },
+    ].map((row) => ({
+      ...row,
+      part_id: part.id,
+      txn_type: 'TRANSFER',
+      unit_cost: unitCost,
+      txn_date: today(),
+      reference_type: 'inventory_transfer',
+      reference_id: transfer.id,
+    }))
+  );
+
+  if (ledgerError) {
+    // Nothing has moved yet, so drop the transfer
+    await supabase.from('inventory_transfers').delete().eq('id', transfer.id);
+    return { data: null, error: translateDbError(ledgerError) };
+  }
+
+  const { error: outError } = await adjustLocationQty(supabase, part.id, from.id, -input.qty);
+  if (outError) {
+    return { data: null, error: outError };
+  }
+
+  const { error: inError } = await adjustLocationQty(supabase, part.id, to.id, input.qty);
+  if (inError) {
+    return { data: null, error: inError };
+  }
+
+  return { data: transfer, error: null };
+}
@@ -0,0 +1,154 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { Invoice, InvoiceStatus } from '@/types/database.js';
+
+/**
+ * Rounds a currency amount to 2 decimal places
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Get next payment number from database
+ */
+export async function getNextPaymentNumber(
+  supabase: SupabaseClient
+): Promise<{ paymentNo: string | null; error: unknown }> {
+  const result = await supabase.rpc('get_next_number', {
+    p_kind: 'payment',
+  });
+
+  return {
+    paymentNo: typeof result.data === 'string' ? result.data : null,
+    error: result.error,
+  };
+}
+
+/**
+ * Amount the customer owes on an invoice now, i.e. the total less retainage withheld
+ * Retainage is collected later through a RETAINAGE_RELEASE invoice
+ */
+export function getInvoiceAmountDue(
+  invoice: Pick<Invoice, 'total_amount' | 'retainage_amount'>
+): number {
+  return roundCurrency(Number(invoice.total_amount) - Number(invoice.retainage_amount ?? 0));
+}
+
+/**
+ * Derives the invoice status from the amount paid against it
+ * Nothing paid: SENT, fully paid: PAID, anything in between: PARTIAL
+ */
+export function resolvePaidStatus(amountDue: number, paidAmount: number): InvoiceStatus {
+  if (paidAmount <= 0) {
+    return 'SENT';
+  }
+  if (paidAmount >= amountDue) {
+    return 'PAID';
+  }
+  return 'PARTIAL';
+}
+
+/**
+ * Resolves the customer an invoice belongs to via its project, work order or service agreement
+ */
+export async function getInvoiceCustomerId(
+  supabase: SupabaseClient,
+  invoice: Pick<Invoice, 'project_id' | 'work_order_id' | 'service_agreement_id'>
+): Promise<string | null> {
+  const table = invoice.project_id
+    ? 'projects'
+    : invoice.work_order_id
+      ? 'work_orders'
+      : invoice.service_agreement_id
+        ? 'service_agreements'
+        : null;
+  const parentId = invoice.project_id ?? invoice.work_order_id ?? invoice.service_agreement_id;
+
+  if (!table || !parentId) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('customer_id')
+    .eq('id', parentId)
+    .single<{ customer_id: string }>();
+
+  if (error) {
+    console.error('Error resolving invoice customer:', error);
+    return null;
+  }
+
+  return data.customer_id;
+}
+
+/**
+ * Applies a change in paid amount to an invoice
+ * Updates invoices.paid_amount, status and paid_at, then rolls the same delta
+ * into projects.paid_amount. A positive delta records money received, a
+ * negative delta unwinds it (void, refund, credit reversal).
+ *
+ * @param supabase - Supabase client instance
+ * @param invoice - Current invoice record
+ * @param delta - Amount to add to (or subtract from) paid_amount
+ * @param actorUserId - Employee performing the change
+ * @returns The updated invoice record
+ */
+export async function adjustInvoicePaidAmount(
+  supabase: SupabaseClient,
+  invoice: Invoice,
+  delta: number,
+  actorUserId: string
+): Promise<{ data: Invoice | null; error: PostgrestError | null }> {
+  const newPaidAmount = Math.max(roundCurrency(Number(invoice.paid_amount) + delta), 0);
+  // The change actually applied, so the project total moves by the same amount
+  const appliedDelta = roundCurrency(newPaidAmount - Number(invoice.paid_amount));
+  const status = resolvePaidStatus(getInvoiceAmountDue(invoice), newPaidAmount);
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .update({
+      paid_amount: newPaidAmount,
+      status,
+      paid_at: status === 'PAID' ? (invoice.paid_at ?? new Date().toISOString()) : null,
+      updated_by: actorUserId,
+    })
+    .eq('id', invoice.id)
+    .select()
+    .single<Invoice>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // If invoice is linked to a project, update project paid_amount
+  if (invoice.project_id && appliedDelta !== 0) {
+    const { data: projectData, error: projectError } = await supabase
+      .from('projects')
+      .select('paid_amount')
+      .eq('id', invoice.project_id)
+      .single<{ paid_amount: number }>();
+
+    if (projectError) {
+      console.error('Error fetching project:', projectError);
+      // Don't fail the request if project update fails
+    } else {
+      const newProjectPaidAmount = roundCurrency(Number(projectData.paid_amount) + appliedDelta);
+
+      const { error: projectUpdateError } = await supabase
+        .from('projects')
+        .update({
+          paid_amount: newProjectPaidAmount,
+          updated_by: actorUserId,
+        })
+        .eq('id', invoice.project_id);
+
+      if (projectUpdateError) {
+        console.error('Error updating project paid amount:', projectUpdateError);
+        // Don't fail the request if project update fails
+      }
+    }
+  }
+
+  return { data, error: null };
+}
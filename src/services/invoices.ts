@@ -0,0 +1,177 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InvoiceLine, QuoteLine, WorkOrder } from '@/types/database.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+
+/**
+ * Get next invoice number from database
+ */
+export async function getNextInvoiceNumber(
+  supabase: SupabaseClient
+): Promise<{ invoiceNo: string | null; error: unknown }> {
+  const result = await supabase.rpc('get_next_number', {
+    p_kind: 'invoice',
+  });
+
+  return {
+    invoiceNo: typeof result.data === 'string' ? result.data : null,
+    error: result.error,
+  };
+}
+
+/**
+ * Pre-tax amount to bill for each quote line on an invoice generated from the quote
+ * Each line bills percent of its line total. When unbilledAmount is given (the quote
+ * subtotal less earlier invoices from the quote), the rounding difference goes on the
+ * last line so the quote's invoices add up to the quote exactly.
+ */
+export function computeQuoteInvoiceLineAmounts(
+  lines: Pick<QuoteLine, 'qty' | 'unit_price'>[],
+  percent: number,
+  unbilledAmount?: number
+): number[] {
+  const amounts = lines.map((line) =>
+    roundCurrency((Number(line.qty) * Number(line.unit_price) * percent) / 100)
+  );
+
+  if (unbilledAmount !== undefined && amounts.length > 0) {
+    const billed = amounts.reduce((sum, amount) => sum + amount, 0);
+    amounts[amounts.length - 1] = roundCurrency(
+      amounts[amounts.length - 1] + unbilledAmount - billed
+    );
+  }
+
+  return amounts;
+}
+
+/**
+ * Invoice lines billing a work order's contract amounts as accepted
+ * Tax goes on its own non-taxable line so the invoice totals contract_total whatever
+ * tax rule the invoice carries.
+ */
+export function buildContractInvoiceLines(
+  workOrder: Pick<
+    WorkOrder,
+    'summary' | 'work_order_no' | 'contract_subtotal' | 'contract_tax' | 'contract_total'
+  >
+): Pick<InvoiceLine, 'part_id' | 'description' | 'uom' | 'qty' | 'unit_price' | 'is_taxable'>[] {
+  const contractSubtotal = roundCurrency(Number(workOrder.contract_subtotal));
+  const contractTax = roundCurrency(Number(workOrder.contract_total) - contractSubtotal);
+
+  const lines = [
+    {
+      part_id: null,
+      description: workOrder.summary || `Work order ${workOrder.work_order_no ?? ''}`.trim(),
+      uom: 'LS',
+      qty: 1,
+      unit_price: contractSubtotal,
+      is_taxable: false,
+    },
+  ];
+
+  if (contractTax !== 0) {
+    lines.push({
+      part_id: null,
+      description: 'Sales tax',
+      uom: 'LS',
+      qty: 1,
+      unit_price: contractTax,
+      is_taxable: false,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Recalculate line and header totals for an invoice
+ * Uses the snapshotted tax rate when present, otherwise the invoice's tax rule.
+ * Retainage is withheld on the pre-tax subtotal.
+ */
+export async function recalculateInvoiceTotals(
+  supabase: SupabaseClient,
+  invoiceId: string
+): Promise<{ success: boolean; error: unknown }> {
+  // Get invoice to fetch tax rate
+  const { data: invoiceData, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('tax_rule_id, tax_rate_snapshot, retainage_percent')
+    .eq('id', invoiceId)
+    .single<{
+      tax_rule_id: string;
+      tax_rate_snapshot: number | null;
+      retainage_percent: number | null;
+    }>();
+
+  if (invoiceError || !invoiceData) {
+    return { success: false, error: invoiceError };
+  }
+
+  // Get tax rate from tax_rule if not snapshotted
+  let taxRate = invoiceData.tax_rate_snapshot;
+  if (taxRate === null) {
+    const { data: taxRule, error: taxError } = await supabase
+      .from('tax_rules')
+      .select('rate')
+      .eq('id', invoiceData.tax_rule_id)
+      .single<{ rate: number }>();
+
+    if (taxError || !taxRule) {
+      return { success: false, error: taxError };
+    }
+    taxRate = taxRule.rate;
+  }
+
+  // Get all lines for this invoice
+  const { data: lines, error: linesError } = await supabase
+    .from('invoice_lines')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .returns<InvoiceLine[]>();
+
+  if (linesError) {
+    return { success: false, error: linesError };
+  }
+
+  // Calculate totals
+  let subtotal = 0;
+  let taxTotal = 0;
+
+  for (const line of lines || []) {
+    const lineSubtotal = Number(line.qty) * Number(line.unit_price);
+    const lineTax = line.is_taxable ? lineSubtotal * taxRate : 0;
+    const lineTotal = lineSubtotal + lineTax;
+
+    // Update line totals
+    await supabase
+      .from('invoice_lines')
+      .update({
+        line_subtotal: lineSubtotal,
+        line_tax: lineTax,
+        line_total: lineTotal,
+      })
+      .eq('id', line.id);
+
+    subtotal += lineSubtotal;
+    taxTotal += lineTax;
+  }
+
+  const totalAmount = subtotal + taxTotal;
+  const retainageAmount = Math.round(subtotal * Number(invoiceData.retainage_percent ?? 0)) / 100;
+
+  // Update invoice totals
+  const { error: updateError } = await supabase
+    .from('invoices')
+    .update({
+      subtotal,
+      tax_total: taxTotal,
+      total_amount: totalAmount,
+      retainage_amount: retainageAmount,
+    })
+    .eq('id', invoiceId);
+
+  if (updateError) {
+    return { success: false, error: updateError };
+  }
+
+  return { success: true, error: null };
+}
@@ -0,0 +1,185 @@
+import { LaborPayType, Settings } from '@/types/database.js';
+
+/**
+ * Overtime and holiday pay rules (from settings)
+ * A null threshold turns that rule off.
+ */
+export type PayRules = Pick<
+  Settings,
+  | 'ot_daily_threshold_hours'
+  | 'dt_daily_threshold_hours'
+  | 'ot_weekly_threshold_hours'
+  | 'ot_multiplier'
+  | 'dt_multiplier'
+  | 'holiday_multiplier'
+>;
+
+/**
+ * Pay rules used when settings don't define them: federal weekly overtime only
+ */
+export const DEFAULT_PAY_RULES: PayRules = {
+  ot_daily_threshold_hours: null,
+  dt_daily_threshold_hours: null,
+  ot_weekly_threshold_hours: 40,
+  ot_multiplier: 1.5,
+  dt_multiplier: 2,
+  holiday_multiplier: null,
+};
+
+/**
+ * Hours the tech already worked before a time entry, plus whether its day is a holiday
+ */
+export interface LaborHoursContext {
+  day_hours_before: number;
+  week_hours_before: number;
+  is_holiday: boolean;
+}
+
+/**
+ * Part of a time entry paid at one rate
+ */
+export interface LaborSegment {
+  pay_type: LaborPayType;
+  hours: number;
+  multiplier: number;
+}
+
+/**
+ * A labor cost line to post for one segment
+ */
+export interface LaborCostLine {
+  pay_type: LaborPayType;
+  qty: number;
+  unit_cost: number;
+  amount: number;
+}
+
+/**
+ * Pay rules from a settings row
+ * Missing columns fall back to the defaults; a threshold stored as null stays off.
+ */
+export function getPayRules(settings: Partial<PayRules>): PayRules {
+  const threshold = (
+    key: 'ot_daily_threshold_hours' | 'dt_daily_threshold_hours' | 'ot_weekly_threshold_hours'
+  ): number | null => (settings[key] === undefined ? DEFAULT_PAY_RULES[key] : settings[key]);
+
+  return {
+    ot_daily_threshold_hours: threshold('ot_daily_threshold_hours'),
+    dt_daily_threshold_hours: threshold('dt_daily_threshold_hours'),
+    ot_weekly_threshold_hours: threshold('ot_weekly_threshold_hours'),
+    ot_multiplier: settings.ot_multiplier ?? DEFAULT_PAY_RULES.ot_multiplier,
+    dt_multiplier: settings.dt_multiplier ?? DEFAULT_PAY_RULES.dt_multiplier,
+    holiday_multiplier: settings.holiday_multiplier ?? DEFAULT_PAY_RULES.holiday_multiplier,
+  };
+}
+
+/**
+ * Rate multiplier for a pay type
+ */
+function getMultiplier(payType: LaborPayType, rules: PayRules): number {
+  switch (payType) {
+    case 'OVERTIME':
+      return rules.ot_multiplier;
+    case 'DOUBLE_TIME':
+      return rules.dt_multiplier;
+    case 'HOLIDAY':
+      return rules.holiday_multiplier ?? 1;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Split a time entry's hours into regular, overtime and double-time segments
+ * Hours past the daily OT threshold or the weekly OT threshold are overtime, and hours
+ * past the daily DT threshold are double time, counting the hours the tech worked
+ * earlier that day and week. With a holiday multiplier, work on a holiday is all paid
+ * as HOLIDAY.
+ */
+export function splitLaborHours(
+  hours: number,
+  context: LaborHoursContext,
+  rules: PayRules
+): LaborSegment[] {
+  if (hours <= 0) {
+    return [];
+  }
+
+  if (context.is_holiday && rules.holiday_multiplier !== null) {
+    return [{ pay_type: 'HOLIDAY', hours, multiplier: rules.holiday_multiplier }];
+  }
+
+  // Points within the entry where a threshold is crossed
+  const cuts = new Set<number>([0, hours]);
+  const addCut = (threshold: number | null, hoursBefore: number): void => {
+    if (threshold !== null && threshold - hoursBefore > 0 && threshold - hoursBefore < hours) {
+      cuts.add(threshold - hoursBefore);
+    }
+  };
+  addCut(rules.ot_daily_threshold_hours, context.day_hours_before);
+  addCut(rules.dt_daily_threshold_hours, context.day_hours_before);
+  addCut(rules.ot_weekly_threshold_hours, context.week_hours_before);
+
+  const classify = (dayHours: number, weekHours: number): LaborPayType => {
+    if (rules.dt_daily_threshold_hours !== null && dayHours > rules.dt_daily_threshold_hours) {
+      return 'DOUBLE_TIME';
+    }
+    if (
+      (rules.ot_daily_threshold_hours !== null && dayHours > rules.ot_daily_threshold_hours) ||
+      (rules.ot_weekly_threshold_hours !== null && weekHours > rules.ot_weekly_threshold_hours)
+    ) {
+      return 'OVERTIME';
+    }
+    return 'REGULAR';
+  };
+
+  const points = Array.from(cuts).sort((a, b) => a - b);
+  const hoursByType = new Map<LaborPayType, number>();
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const middle = (points[i] + points[i + 1]) / 2;
+    const payType = classify(context.day_hours_before + middle, context.week_hours_before + middle);
+    hoursByType.set(payType, (hoursByType.get(payType) ?? 0) + points[i + 1] - points[i]);
+  }
+
+  return (['REGULAR', 'OVERTIME', 'DOUBLE_TIME'] as LaborPayType[])
+    .filter((payType) => hoursByType.has(payType))
+    .map((payType) => ({
+      pay_type: payType,
+      hours: hoursByType.get(payType)!,
+      multiplier: getMultiplier(payType, rules),
+    }));
+}
+
+/**
+ * Amount of a job cost line the way the database checks it: round(qty × unit_cost, 2),
+ * with qty and unit_cost stored to four decimals
+ * Works in whole ten-thousandths so float error can't move the cent, and rounds halves
+ * away from zero like Postgres so reversals mirror the line they cancel.
+ */
+export function computeCostLineAmount(qty: number, unitCost: number): number {
+  const product = Math.round(qty * 10000) * Math.round(unitCost * 10000);
+  return (Math.sign(product) * Math.round(Math.abs(product) / 1000000)) / 100;
+}
+
+/**
+ * Burdened cost line for each segment
+ * unit_cost = base rate × pay multiplier × (1 + burden percent / 100)
+ */
+export function computeLaborCostLines(
+  segments: LaborSegment[],
+  baseRate: number,
+  burdenPercent: number
+): LaborCostLine[] {
+  return segments.map((segment) => {
+    const qty = Math.round(segment.hours * 10000) / 10000;
+    const unitCost =
+      Math.round(baseRate * segment.multiplier * (1 + burdenPercent / 100) * 10000) / 10000;
+    return {
+      pay_type: segment.pay_type,
+      qty,
+      unit_cost: unitCost,
+      amount: computeCostLineAmount(qty, unitCost),
+    };
+  });
+}
@@ -0,0 +1,332 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError, translateDbError } from '@/db/index.js';
+import {
+  InventoryLedger,
+  JobCostEntry,
+  Part,
+  StockLocation,
+  WorkOrder,
+  WorkOrderPartUsage,
+} from '@/types/database.js';
+import { RecordPartUsageInput } from '@/validations/app.js';
+import { computeCostLineAmount } from '@/services/laborCost.js';
+import {
+  adjustStock,
+  getActiveStockLocation,
+  getDefaultStockLocationId,
+  getLocationQty,
+  getTechTruck,
+} from '@/services/inventoryStock.js';
+
+/**
+ * Today's date (YYYY-MM-DD) for ledger and cost entries
+ */
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Record a part used on a work order
+ * Writes a USAGE ledger row (reference_type work_order), decrements qty_on_hand and
+ * posts a job cost entry at the part's avg_cost. Stock comes out of the given location,
+ * otherwise the recording employee's truck, otherwise the default stock location.
+ *
+ * @returns The usage line, or an API error (400 for parts that can't be used)
+ */
+export async function recordPartUsage(
+  supabase: SupabaseClient,
+  workOrder: Pick<WorkOrder, 'id' | 'project_id'>,
+  input: RecordPartUsageInput,
+  actorUserId: string
+): Promise<{ data: WorkOrderPartUsage | null; error: ApiError | null }> {
+  const { data: part, error: partError } = await supabase
+    .from('parts')
+    .select('*')
+    .eq('id', input.part_id)
+    .single<Part>();
+
+  if (partError) {
+    if (partError.code === 'PGRST116') {
+      return {
+        data: null,
+        error: { statusCode: 400, code: 'VALIDATION_ERROR', message: 'Part does not exist' },
+      };
+    }
+    return { data: null, error: translateDbError(partError) };
+  }
+
+  let location: StockLocation | null = null;
+  if (input.stock_location_id) {
+    const { data: selected, error: locationError } = await getActiveStockLocation(
+      supabase,
+      input.stock_location_id
+    );
+    if (locationError) {
+      return { data: null, error: locationError };
+    }
+    location = selected;
+  } else {
+    location = await getTechTruck(supabase, actorUserId);
+
+    const defaultLocationId = location ? null : await getDefaultStockLocationId(supabase);
+    if (defaultLocationId) {
+      const { data: fallback } = await getActiveStockLocation(supabase, defaultLocationId);
+      location = fallback;
+    }
+  }
+
+  let onHand = Number(part.qty_on_hand);
+  if (location) {
+    const { data: locationQty, error: qtyError } = await getLocationQty(
+      supabase,
+      part.id,
+      location.id
+    );
+    if (qtyError) {
+      return { data: null, error: qtyError };
+    }
+    onHand = locationQty;
+  }
+
+  let problem: string | null = null;
+  if (!part.is_active) {
+    problem = 'Part is inactive';
+  } else if (!part.is_inventoried) {
+    problem = 'Part is not tracked in inventory';
+  } else if (!part.cost_type_id || !part.cost_code_id) {
+    problem = 'Part has no cost type or cost code for job costing';
+  } else if (onHand < input.qty) {
+    problem = location
+      ? `Insufficient stock: ${onHand} ${part.uom} on hand at ${location.name}`
+      : `Insufficient stock: ${onHand} ${part.uom} on hand`;
+  }
+
+  if (problem) {
+    return { data: null, error: { statusCode: 400, code: 'VALIDATION_ERROR', message: problem } };
+  }
+
+  const unitCost = Number(part.avg_cost);
+  // Same rounding as the job_cost_entries amount check
+  const totalCost = computeCostLineAmount(input.qty, unitCost);
+
+  const { data: usage, error: usageError } = await supabase
+    .from('work_order_part_usages')
+    .insert({
+      work_order_id: workOrder.id,
+      part_id: part.id,
+      qty: input.qty,
+      unit_cost: unitCost,
+      total_cost: totalCost,
+      notes: input.notes ?? null,
+      stock_location_id: location?.id ?? null,
+      used_by: actorUserId,
+      used_at: new Date().toISOString(),
+    })
+    .select()
+    .single<WorkOrderPartUsage>();
+
+  if (usageError) {
+    return { data: null, error: translateDbError(usageError) };
+  }
+
+  // Post the cost before any stock moves so a rejected entry leaves nothing to undo
+  const { data: costEntry, error: costError } = await supabase
+    .from('job_cost_entries')
+    .insert({
+      project_id: workOrder.project_id,
+      work_order_id: workOrder.id,
+      cost_type_id: part.cost_type_id,
+      cost_code_id: part.cost_code_id,
+      txn_date: today(),
+      qty: input.qty,
+      unit_cost: unitCost,
+      amount: totalCost,
+      description: `Part: ${part.name}`,
+      source_type: 'PART_USAGE',
+      source_id: usage.id,
+      idempotency_key: `part_usage:${usage.id}`,
+    })
+    .select()
+    .single<JobCostEntry>();
+
+  if (costError) {
+    await supabase.from('work_order_part_usages').delete().eq('id', usage.id);
+    return { data: null, error: translateDbError(costError) };
+  }
+
+  const { data: ledger, error: ledgerError } = await supabase
+    .from('inventory_ledger')
+    .insert({
+      part_id: part.id,
+      txn_type: 'USAGE',
+      qty_delta: -input.qty,
+      unit_cost: unitCost,
+      txn_date: today(),
+      reference_type: 'work_order',
+      reference_id: workOrder.id,
+      stock_location_id: location?.id ?? null,
+    })
+    .select()
+    .single<InventoryLedger>();
+
+  if (ledgerError) {
+    // No stock has moved yet, so drop the cost entry and the usage line
+    await supabase.from('job_cost_entries').delete().eq('id', costEntry.id);
+    await supabase.from('work_order_part_usages').delete().eq('id', usage.id);
+    return { data: null, error: translateDbError(ledgerError) };
+  }
+
+  const { error: stockError } = await adjustStock(
+    supabase,
+    part.id,
+    location?.id ?? null,
+    -input.qty
+  );
+  if (stockError) {
+    // Stock didn't move, so undo the ledger row, the cost entry and the usage line
+    await supabase.from('inventory_ledger').delete().eq('id', ledger.id);
+    await supabase.from('job_cost_entries').delete().eq('id', costEntry.id);
+    await supabase.from('work_order_part_usages').delete().eq('id', usage.id);
+    return { data: null, error: stockError };
+  }
+
+  const { data, error } = await supabase
+    .from('work_order_part_usages')
+    .update({ usage_ledger_id: ledger.id, job_cost_entry_id: costEntry.id })
+    .eq('id', usage.id)
+    .select()
+    .single<WorkOrderPartUsage>();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  return { data, error: null };
+}
+
+/**
+ * Void a part usage line
+ * Writes a RETURN ledger row, puts the stock back where it was taken from and posts an
+ * offsetting job cost entry. The returned stock goes back into the average cost at the
+ * cost it was used at. The usage line is kept with voided_at set; it is claimed before
+ * anything moves, so a second void of the same line returns 400.
+ */
+export async function voidPartUsage(
+  supabase: SupabaseClient,
+  usage: WorkOrderPartUsage,
+  actorUserId: string,
+  reason?: string
+): Promise<{ data: WorkOrderPartUsage | null; error: ApiError | null }> {
+  // Claim the line first so a retried or doubled void can't return the stock twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('work_order_part_usages')
+    .update({
+      voided_at: new Date().toISOString(),
+      voided_by: actorUserId,
+      void_reason: reason ?? null,
+    })
+    .eq('id', usage.id)
+    .is('voided_at', null)
+    .select()
+    .single<WorkOrderPartUsage>();
+
+  if (claimError) {
+    if (claimError.code === 'PGRST116') {
+      return {
+        data: null,
+        error: {
+          statusCode: 400,
+          code: 'VALIDATION_ERROR',
+          message: 'Part usage is already voided',
+        },
+      };
+    }
+    return { data: null, error: translateDbError(claimError) };
+  }
+
+  const { data: ledger, error: ledgerError } = await supabase
+    .from('inventory_ledger')
+    .insert({
+      part_id: claimed.part_id,
+      txn_type: 'RETURN',
+      qty_delta: Number(claimed.qty),
+      unit_cost: Number(claimed.unit_cost),
+      txn_date: today(),
+      reference_type: 'work_order',
+      reference_id: claimed.work_order_id,
+      stock_location_id: claimed.stock_location_id,
+    })
+    .select()
+    .single<InventoryLedger>();
+
+  if (ledgerError) {
+    // Nothing was returned yet, so release the claim for another attempt
+    await supabase
+      .from('work_order_part_usages')
+      .update({ voided_at: null, voided_by: null, void_reason: null })
+      .eq('id', claimed.id);
+    return { data: null, error: translateDbError(ledgerError) };
+  }
+
+  const { error: stockError } = await adjustStock(
+    supabase,
+    claimed.part_id,
+    claimed.stock_location_id,
+    Number(claimed.qty),
+    { unit_cost: Number(claimed.unit_cost), set_last_cost: false }
+  );
+  if (stockError) {
+    // Stock didn't move, so drop the RETURN row and release the claim
+    await supabase.from('inventory_ledger').delete().eq('id', ledger.id);
+    await supabase
+      .from('work_order_part_usages')
+      .update({ voided_at: null, voided_by: null, void_reason: null })
+      .eq('id', claimed.id);
+    return { data: null, error: stockError };
+  }
+
+  // Reverse the cost posted for the usage
+  if (claimed.job_cost_entry_id) {
+    const { data: original, error: originalError } = await supabase
+      .from('job_cost_entries')
+      .select('*')
+      .eq('id', claimed.job_cost_entry_id)
+      .single<JobCostEntry>();
+
+    if (originalError) {
+      return { data: null, error: translateDbError(originalError) };
+    }
+
+    const { error: costError } = await supabase.from('job_cost_entries').insert({
+      project_id: original.project_id,
+      work_order_id: original.work_order_id,
+      cost_type_id: original.cost_type_id,
+      cost_code_id: original.cost_code_id,
+      txn_date: today(),
+      qty: -Number(original.qty),
+      unit_cost: original.unit_cost,
+      amount: -Number(original.amount),
+      description: `Void: ${original.description ?? 'part usage'}`,
+      source_type: 'PART_USAGE',
+      source_id: claimed.id,
+      idempotency_key: `part_usage_void:${claimed.id}`,
+    });
+
+    if (costError) {
+      return { data: null, error: translateDbError(costError) };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('work_order_part_usages')
+    .update({ return_ledger_id: ledger.id })
+    .eq('id', claimed.id)
+    .select()
+    .single<WorkOrderPartUsage>();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  return { data, error: null };
+}
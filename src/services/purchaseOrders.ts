@@ -0,0 +1,17 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Get next purchase order number from database
+ */
+export async function getNextPurchaseOrderNumber(
+  supabase: SupabaseClient
+): Promise<{ poNo: string | null; error: unknown }> {
+  const result = await supabase.rpc('get_next_number', {
+    p_kind: 'purchase_order',
+  });
+
+  return {
+    poNo: typeof result.data === 'string' ? result.data : null,
+    error: result.error,
+  };
+}
@@ -0,0 +1,310 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError, translateDbError } from '@/db/index.js';
+import {
+  Part,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  ReorderSuggestion,
+  Vendor,
+} from '@/types/database.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { getNextPurchaseOrderNumber } from '@/services/purchaseOrders.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+
+/**
+ * Purchase order statuses whose unreceived quantity counts as on order
+ * DRAFT counts so generating purchase orders twice doesn't order the same stock twice.
+ */
+const OPEN_PO_STATUSES = ['DRAFT', 'SENT', 'PARTIAL'];
+
+type ReorderPart = Pick<
+  Part,
+  | 'id'
+  | 'name'
+  | 'description_default'
+  | 'uom'
+  | 'qty_on_hand'
+  | 'avg_cost'
+  | 'last_cost'
+  | 'reorder_point'
+  | 'reorder_qty'
+  | 'max_qty'
+  | 'preferred_vendor_id'
+  | 'vendor_sku'
+  | 'vendor_cost'
+> & {
+  preferred_vendor: Pick<Vendor, 'name' | 'is_active'> | null;
+};
+
+/**
+ * Quantity to order for a part given its stock position (on hand + on order)
+ * Nothing is ordered above the reorder point. With max_qty the order brings the position
+ * up to it; otherwise reorder_qty is ordered in enough multiples to clear the reorder point.
+ */
+export function computeReorderQty(
+  position: number,
+  part: Pick<Part, 'reorder_point' | 'reorder_qty' | 'max_qty'>
+): number {
+  if (part.reorder_point === null || position > part.reorder_point) {
+    return 0;
+  }
+
+  if (part.max_qty !== null) {
+    return Math.max(part.max_qty - position, 0);
+  }
+
+  if (part.reorder_qty !== null && part.reorder_qty > 0) {
+    const multiples = Math.floor((part.reorder_point - position) / part.reorder_qty) + 1;
+    return multiples * part.reorder_qty;
+  }
+
+  return 0;
+}
+
+/**
+ * Work out reorder suggestions from current stock and open purchase orders
+ * Suggestions are returned without id and sorted by vendor, then part.
+ */
+export async function buildReorderSuggestions(
+  supabase: SupabaseClient
+): Promise<{ data: Omit<ReorderSuggestion, 'id'>[] | null; error: ApiError | null }> {
+  const { data: parts, error: partsError } = await supabase
+    .from('parts')
+    .select(
+      'id, name, description_default, uom, qty_on_hand, avg_cost, last_cost, reorder_point, reorder_qty, max_qty, preferred_vendor_id, vendor_sku, vendor_cost, preferred_vendor:vendors(name, is_active)'
+    )
+    .eq('is_active', true)
+    .eq('is_inventoried', true)
+    .not('reorder_point', 'is', null)
+    .returns<ReorderPart[]>();
+
+  if (partsError) {
+    return { data: null, error: translateDbError(partsError) };
+  }
+
+  const { data: poLines, error: poLinesError } = await supabase
+    .from('purchase_order_lines')
+    .select('part_id, qty_ordered, qty_received, purchase_order:purchase_orders!inner(status)')
+    .in('purchase_orders.status', OPEN_PO_STATUSES)
+    .not('part_id', 'is', null)
+    .returns<Pick<PurchaseOrderLine, 'part_id' | 'qty_ordered' | 'qty_received'>[]>();
+
+  if (poLinesError) {
+    return { data: null, error: translateDbError(poLinesError) };
+  }
+
+  const onOrder = new Map<string, number>();
+  for (const line of poLines || []) {
+    const outstanding = Number(line.qty_ordered) - Number(line.qty_received);
+    if (line.part_id && outstanding > 0) {
+      onOrder.set(line.part_id, (onOrder.get(line.part_id) ?? 0) + outstanding);
+    }
+  }
+
+  const generatedAt = new Date().toISOString();
+  const suggestions = (parts || [])
+    .map((part) => {
+      const qtyOnHand = Number(part.qty_on_hand);
+      const qtyOnOrder = onOrder.get(part.id) ?? 0;
+      // An inactive vendor can't be ordered from, so the part shows up without one
+      const vendor = part.preferred_vendor?.is_active ? part.preferred_vendor : null;
+      return {
+        part,
+        suggestion: {
+          part_id: part.id,
+          vendor_id: vendor ? part.preferred_vendor_id : null,
+          vendor_name: vendor?.name ?? null,
+          vendor_sku: part.vendor_sku,
+          qty_on_hand: qtyOnHand,
+          qty_on_order: qtyOnOrder,
+          reorder_point: Number(part.reorder_point),
+          suggested_qty: computeReorderQty(qtyOnHand + qtyOnOrder, part),
+          unit_cost: Number(part.vendor_cost ?? (Number(part.last_cost) || part.avg_cost)),
+          generated_at: generatedAt,
+        },
+      };
+    })
+    .filter(({ suggestion }) => suggestion.suggested_qty > 0)
+    .sort(
+      (a, b) =>
+        (a.suggestion.vendor_name ?? '').localeCompare(b.suggestion.vendor_name ?? '') ||
+        a.part.name.localeCompare(b.part.name)
+    )
+    .map(({ suggestion }) => suggestion);
+
+  return { data: suggestions, error: null };
+}
+
+/**
+ * Replace the stored reorder suggestion list with a fresh one
+ */
+export async function refreshReorderSuggestions(
+  supabase: SupabaseClient
+): Promise<{ data: ReorderSuggestion[] | null; error: ApiError | null }> {
+  const { data: suggestions, error: buildError } = await buildReorderSuggestions(supabase);
+
+  if (buildError || !suggestions) {
+    return { data: null, error: buildError };
+  }
+
+  const { error: deleteError } = await supabase
+    .from('reorder_suggestions')
+    .delete()
+    .not('id', 'is', null);
+
+  if (deleteError) {
+    return { data: null, error: translateDbError(deleteError) };
+  }
+
+  if (suggestions.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('reorder_suggestions')
+    .insert(suggestions)
+    .select()
+    .returns<ReorderSuggestion[]>();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  return { data: data || [], error: null };
+}
+
+/**
+ * Create DRAFT purchase orders for current reorder suggestions, one per vendor
+ * Parts without an active preferred vendor can't be ordered and are returned as skipped.
+ * The stored suggestion list is refreshed afterwards so ordered parts drop off it.
+ *
+ * @param partIds - Only order these parts (default: every suggested part)
+ */
+export async function createPurchaseOrdersFromSuggestions(
+  supabase: SupabaseClient,
+  partIds: string[] | undefined,
+  actorUserId: string
+): Promise<{
+  data: { purchase_orders: PurchaseOrder[]; skipped_part_ids: string[] } | null;
+  error: ApiError | null;
+}> {
+  const { data: suggestions, error: buildError } = await buildReorderSuggestions(supabase);
+
+  if (buildError || !suggestions) {
+    return { data: null, error: buildError };
+  }
+
+  const selected = partIds
+    ? suggestions.filter((suggestion) => partIds.includes(suggestion.part_id))
+    : suggestions;
+
+  const byVendor = new Map<string, Omit<ReorderSuggestion, 'id'>[]>();
+  const skippedPartIds: string[] = [];
+
+  for (const suggestion of selected) {
+    if (!suggestion.vendor_id) {
+      skippedPartIds.push(suggestion.part_id);
+      continue;
+    }
+    const lines = byVendor.get(suggestion.vendor_id) ?? [];
+    lines.push(suggestion);
+    byVendor.set(suggestion.vendor_id, lines);
+  }
+
+  if (byVendor.size === 0) {
+    return { data: { purchase_orders: [], skipped_part_ids: skippedPartIds }, error: null };
+  }
+
+  const { data: parts, error: partsError } = await supabase
+    .from('parts')
+    .select('id, name, description_default, uom')
+    .in(
+      'id',
+      Array.from(byVendor.values()).flatMap((lines) => lines.map((line) => line.part_id))
+    )
+    .returns<Pick<Part, 'id' | 'name' | 'description_default' | 'uom'>[]>();
+
+  if (partsError) {
+    return { data: null, error: translateDbError(partsError) };
+  }
+
+  const partsById = new Map((parts || []).map((part) => [part.id, part]));
+  const purchaseOrders: PurchaseOrder[] = [];
+
+  for (const [vendorId, suggestionLines] of byVendor) {
+    const { poNo, error: numberError } = await getNextPurchaseOrderNumber(supabase);
+
+    if (numberError || !poNo) {
+      console.error('Error generating purchase order number:', numberError);
+      return {
+        data: null,
+        error: {
+          statusCode: 500,
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to generate purchase order number',
+        },
+      };
+    }
+
+    const lines = suggestionLines.map((suggestion, index) => {
+      const part = partsById.get(suggestion.part_id);
+      const description = part?.description_default || part?.name || 'Part';
+      return {
+        line_no: index + 1,
+        part_id: suggestion.part_id,
+        description: suggestion.vendor_sku
+          ? `${description} (Vendor SKU ${suggestion.vendor_sku})`
+          : description,
+        uom: part?.uom ?? 'EA',
+        qty_ordered: suggestion.suggested_qty,
+        unit_price: suggestion.unit_cost,
+        line_total: roundCurrency(suggestion.suggested_qty * suggestion.unit_cost),
+      };
+    });
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.line_total, 0));
+
+    const { data: purchaseOrder, error: poError } = await supabase
+      .from('purchase_orders')
+      .insert({
+        po_no: poNo,
+        vendor_id: vendorId,
+        vendor_name: suggestionLines[0].vendor_name,
+        status: 'DRAFT',
+        subtotal,
+        tax: 0,
+        total: subtotal,
+        notes: 'Generated from reorder suggestions',
+        created_by: actorUserId,
+        updated_by: actorUserId,
+      })
+      .select()
+      .single<PurchaseOrder>();
+
+    if (poError) {
+      return { data: null, error: translateDbError(poError) };
+    }
+
+    const { error: linesError } = await supabase
+      .from('purchase_order_lines')
+      .insert(lines.map((line) => ({ ...line, po_id: purchaseOrder.id })));
+
+    if (linesError) {
+      // Don't leave an empty purchase order behind
+      await supabase.from('purchase_orders').delete().eq('id', purchaseOrder.id);
+      return { data: null, error: translateDbError(linesError) };
+    }
+
+    await queueDocumentPdf(supabase, 'purchase_order', purchaseOrder.id);
+    purchaseOrders.push(purchaseOrder);
+  }
+
+  const { error: refreshError } = await refreshReorderSuggestions(supabase);
+  if (refreshError) {
+    console.error('Error refreshing reorder suggestions:', refreshError);
+  }
+
+  return {
+    data: { purchase_orders: purchaseOrders, skipped_part_ids: skippedPartIds },
+    error: null,
+  };
+}
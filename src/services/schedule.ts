@@ -0,0 +1,179 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Existing slot that overlaps a proposed schedule slot
+ */
+export interface ScheduleConflict {
+  schedule_id: string;
+  work_order_id: string;
+  work_order_no: string | null;
+  summary: string | null;
+  start_at: string;
+  end_at: string;
+}
+
+/**
+ * Busy interval on a technician's calendar
+ */
+export interface BusyBlock {
+  start_at: string;
+  end_at: string;
+  source: 'SCHEDULE' | 'TIME_OFF';
+  schedule_id?: string;
+  work_order_id?: string;
+  work_order_no?: string | null;
+  time_off_id?: string;
+}
+
+/**
+ * Free interval on a technician's calendar
+ */
+export interface FreeBlock {
+  start_at: string;
+  end_at: string;
+}
+
+/**
+ * Find a tech's slots that overlap [startAt, endAt)
+ * Slots on CANCELED work orders are ignored; touching slots (end == start) do not overlap.
+ *
+ * @param supabase - Supabase client instance
+ * @param techUserId - Technician being booked
+ * @param startAt - Proposed slot start (ISO timestamp)
+ * @param endAt - Proposed slot end (ISO timestamp)
+ * @param excludeScheduleId - Slot being edited, excluded from the check
+ */
+export async function findScheduleConflicts(
+  supabase: SupabaseClient,
+  techUserId: string,
+  startAt: string,
+  endAt: string,
+  excludeScheduleId?: string
+): Promise<{ data: ScheduleConflict[] | null; error: PostgrestError | null }> {
+  let query = supabase
+    .from('work_order_schedule')
+    .select(
+      'id, work_order_id, start_at, end_at, work_orders!inner(work_order_no, summary, status)'
+    )
+    .eq('tech_user_id', techUserId)
+    .lt('start_at', endAt)
+    .gt('end_at', startAt)
+    .neq('work_orders.status', 'CANCELED')
+    .order('start_at', { ascending: true });
+
+  if (excludeScheduleId) {
+    query = query.neq('id', excludeScheduleId);
+  }
+
+  const { data, error } = await query.returns<
+    {
+      id: string;
+      work_order_id: string;
+      start_at: string;
+      end_at: string;
+      work_orders: { work_order_no: string | null; summary: string | null };
+    }[]
+  >();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return {
+    data: (data || []).map((slot) => ({
+      schedule_id: slot.id,
+      work_order_id: slot.work_order_id,
+      work_order_no: slot.work_orders.work_order_no,
+      summary: slot.work_orders.summary,
+      start_at: slot.start_at,
+      end_at: slot.end_at,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Subtract busy blocks from [rangeStart, rangeEnd) and return the gaps
+ * Busy blocks may overlap each other and extend past the range.
+ */
+export function computeFreeBlocks(
+  rangeStart: string,
+  rangeEnd: string,
+  busy: Pick<BusyBlock, 'start_at' | 'end_at'>[]
+): FreeBlock[] {
+  const rangeStartMs = new Date(rangeStart).getTime();
+  const rangeEndMs = new Date(rangeEnd).getTime();
+
+  const intervals = busy
+    .map((block) => [new Date(block.start_at).getTime(), new Date(block.end_at).getTime()])
+    .filter(([start, end]) => end > rangeStartMs && start < rangeEndMs)
+    .sort((a, b) => a[0] - b[0]);
+
+  const free: FreeBlock[] = [];
+  let cursor = rangeStartMs;
+
+  for (const [start, end] of intervals) {
+    if (start > cursor) {
+      free.push({
+        start_at: new Date(cursor).toISOString(),
+        end_at: new Date(Math.min(start, rangeEndMs)).toISOString(),
+      });
+    }
+    cursor = Math.max(cursor, end);
+    if (cursor >= rangeEndMs) {
+      break;
+    }
+  }
+
+  if (cursor < rangeEndMs) {
+    free.push({
+      start_at: new Date(cursor).toISOString(),
+      end_at: new Date(rangeEndMs).toISOString(),
+    });
+  }
+
+  return free;
+}
+
+/**
+ * Days covered by the dispatch board, as UTC midnights
+ * A week view runs Monday 00:00 through the following Monday 00:00. The route moves the
+ * bounds to midnight in the company time zone.
+ */
+export function getDispatchRange(
+  date: string,
+  view: 'day' | 'week'
+): { start_at: string; end_at: string } {
+  const start = new Date(`${date}T00:00:00Z`);
+
+  if (view === 'week') {
+    // getUTCDay: Sunday = 0, so Sunday moves back six days
+    const offset = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - offset);
+  }
+
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + (view === 'week' ? 7 : 1));
+
+  return { start_at: start.toISOString(), end_at: end.toISOString() };
+}
+
+/**
+ * Total hours of the given slots that fall inside [rangeStart, rangeEnd)
+ */
+export function getBookedHours(
+  slots: Pick<BusyBlock, 'start_at' | 'end_at'>[],
+  rangeStart: string,
+  rangeEnd: string
+): number {
+  const rangeStartMs = new Date(rangeStart).getTime();
+  const rangeEndMs = new Date(rangeEnd).getTime();
+
+  const bookedMs = slots.reduce((sum, slot) => {
+    const start = Math.max(new Date(slot.start_at).getTime(), rangeStartMs);
+    const end = Math.min(new Date(slot.end_at).getTime(), rangeEndMs);
+    return sum + Math.max(end - start, 0);
+  }, 0);
+
+  return Math.round((bookedMs / (60 * 60 * 1000)) * 100) / 100;
+}
@@ -0,0 +1,129 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { ApiError } from '@/db/index.js';
+import { Timesheet, WorkOrderTimeEntry } from '@/types/database.js';
+import { getCompanyTimeZone, toZonedDate, zonedTimeToUtc } from '@/services/workingCalendar.js';
+
+/**
+ * Hours worked on a time entry (null while still clocked in)
+ */
+export function computeTimeEntryHours(
+  entry: Pick<WorkOrderTimeEntry, 'clock_in_at' | 'clock_out_at' | 'break_minutes'>
+): number | null {
+  if (!entry.clock_out_at) {
+    return null;
+  }
+  const clockInMs = new Date(entry.clock_in_at).getTime();
+  const clockOutMs = new Date(entry.clock_out_at).getTime();
+  const totalMinutes = (clockOutMs - clockInMs) / 60000;
+  const workedMinutes = totalMinutes - entry.break_minutes;
+  return workedMinutes / 60;
+}
+
+/**
+ * Date (YYYY-MM-DD) a number of days after another
+ */
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week containing a date
+ */
+export function getWeekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  // getUTCDay is 0 for Sunday, which belongs to the week that started six days earlier
+  return addDays(date, weekday === 0 ? -6 : 1 - weekday);
+}
+
+/**
+ * Sunday (YYYY-MM-DD) ending a week
+ */
+export function getWeekEnd(weekStart: string): string {
+  return addDays(weekStart, 6);
+}
+
+/**
+ * UTC bounds of a week in the company time zone (end exclusive)
+ */
+export function getWeekRange(
+  weekStart: string,
+  timeZone: string
+): { start_at: string; end_at: string } {
+  return {
+    start_at: zonedTimeToUtc(weekStart, '00:00', timeZone).toISOString(),
+    end_at: zonedTimeToUtc(addDays(weekStart, 7), '00:00', timeZone).toISOString(),
+  };
+}
+
+/**
+ * Total hours of closed time entries, rounded to 2 decimal places
+ */
+export function sumTimeEntryHours(
+  entries: Pick<WorkOrderTimeEntry, 'clock_in_at' | 'clock_out_at' | 'break_minutes'>[]
+): number {
+  const total = entries.reduce((sum, entry) => sum + (computeTimeEntryHours(entry) ?? 0), 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * A tech's time entries that clocked in during a week, oldest first
+ */
+export async function getWeekTimeEntries(
+  supabase: SupabaseClient,
+  techUserId: string,
+  weekStart: string,
+  timeZone: string
+): Promise<{ data: WorkOrderTimeEntry[] | null; error: PostgrestError | null }> {
+  const range = getWeekRange(weekStart, timeZone);
+
+  const { data, error } = await supabase
+    .from('work_order_time_entries')
+    .select('*')
+    .eq('tech_user_id', techUserId)
+    .gte('clock_in_at', range.start_at)
+    .lt('clock_in_at', range.end_at)
+    .order('clock_in_at', { ascending: true })
+    .returns<WorkOrderTimeEntry[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: data || [], error: null };
+}
+
+/**
+ * The APPROVED timesheet covering a tech's clock-in time, if the week is locked
+ */
+export async function findLockingTimesheet(
+  supabase: SupabaseClient,
+  techUserId: string,
+  clockInAt: string
+): Promise<{ data: Timesheet | null; error: PostgrestError | null }> {
+  const timeZone = await getCompanyTimeZone(supabase);
+  const weekStart = getWeekStart(toZonedDate(new Date(clockInAt), timeZone));
+
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('tech_user_id', techUserId)
+    .eq('week_start', weekStart)
+    .eq('status', 'APPROVED')
+    .maybeSingle<Timesheet>();
+
+  return { data, error };
+}
+
+/**
+ * Error for changes to time in an approved (locked) week
+ */
+export function timesheetLockedError(timesheet: Timesheet): ApiError {
+  return {
+    statusCode: 409,
+    code: 'TIMESHEET_LOCKED',
+    message: `Timesheet for the week of ${timesheet.week_start} is approved and locked; post an adjustment instead`,
+    details: { timesheet_id: timesheet.id, week_start: timesheet.week_start },
+  };
+}
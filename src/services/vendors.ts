@@ -0,0 +1,364 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError, translateDbError } from '@/db/index.js';
+import { Part, PurchaseOrder, Receipt, Vendor } from '@/types/database.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import { getWeekStart } from '@/services/timesheets.js';
+
+/**
+ * Reporting period for vendor spend
+ */
+export type SpendPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * One purchase order or receipt counted towards vendor spend
+ */
+export interface VendorSpendRow {
+  vendor_id: string | null;
+  vendor_name: string | null;
+  date: string;
+  source: 'PURCHASE_ORDER' | 'RECEIPT';
+  amount: number;
+}
+
+/**
+ * Spend in one period, per source
+ * The sources are not added up: a receipt can be the bill for a purchase order already
+ * counted, and nothing links the two.
+ */
+export interface PeriodSpend {
+  period: string;
+  purchase_orders: number;
+  receipts: number;
+}
+
+/**
+ * Spend with one vendor, for the whole range and per period
+ */
+export interface VendorSpend {
+  vendor_id: string | null;
+  vendor_name: string;
+  purchase_orders: number;
+  receipts: number;
+  periods: PeriodSpend[];
+}
+
+/**
+ * A vendor name spelling found on purchase orders, receipts or parts and what it matched
+ */
+export interface VendorNameMatch {
+  vendor_name: string;
+  vendor_id: string | null;
+  created: boolean;
+  purchase_order_count: number;
+  receipt_count: number;
+  part_count: number;
+}
+
+// Trailing words that don't tell vendors apart ("Acme Supply, Inc." = "acme supply")
+const LEGAL_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'co', 'corp', 'corporation', 'company']);
+
+/**
+ * Comparable form of a vendor name: lower case, punctuation and legal suffixes dropped
+ */
+export function normalizeVendorName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Period key for a date (YYYY-MM-DD): the Monday of its week, YYYY-MM, YYYY-Qn or YYYY
+ */
+export function getSpendPeriod(date: string, period: SpendPeriod): string {
+  const day = date.slice(0, 10);
+
+  switch (period) {
+    case 'week':
+      return getWeekStart(day);
+    case 'quarter':
+      return `${day.slice(0, 4)}-Q${Math.floor((Number(day.slice(5, 7)) - 1) / 3) + 1}`;
+    case 'year':
+      return day.slice(0, 4);
+    case 'month':
+    default:
+      return day.slice(0, 7);
+  }
+}
+
+/**
+ * Add an amount to a period's spend
+ */
+function addSpend(periods: Map<string, PeriodSpend>, period: string, row: VendorSpendRow): void {
+  const spend = periods.get(period) ?? { period, purchase_orders: 0, receipts: 0 };
+
+  if (row.source === 'PURCHASE_ORDER') {
+    spend.purchase_orders = roundCurrency(spend.purchase_orders + row.amount);
+  } else {
+    spend.receipts = roundCurrency(spend.receipts + row.amount);
+  }
+  periods.set(period, spend);
+}
+
+/**
+ * Purchase order and receipt spend per period and per vendor
+ * Rows not linked to a vendor are grouped by their normalized vendor_name. Vendors are
+ * sorted by purchase order spend, then receipts; periods oldest first.
+ */
+export function summarizeVendorSpend(
+  rows: VendorSpendRow[],
+  period: SpendPeriod
+): { periods: PeriodSpend[]; vendors: VendorSpend[] } {
+  const totals = new Map<string, PeriodSpend>();
+  const vendors = new Map<
+    string,
+    { vendor_id: string | null; vendor_name: string; periods: Map<string, PeriodSpend> }
+  >();
+
+  for (const row of rows) {
+    const key = row.vendor_id ?? `name:${normalizeVendorName(row.vendor_name ?? '')}`;
+    const vendor = vendors.get(key) ?? {
+      vendor_id: row.vendor_id,
+      vendor_name: row.vendor_name?.trim() || 'No vendor',
+      periods: new Map<string, PeriodSpend>(),
+    };
+    const periodKey = getSpendPeriod(row.date, period);
+
+    addSpend(totals, periodKey, row);
+    addSpend(vendor.periods, periodKey, row);
+    vendors.set(key, vendor);
+  }
+
+  const byPeriod = (a: PeriodSpend, b: PeriodSpend) => a.period.localeCompare(b.period);
+
+  return {
+    periods: Array.from(totals.values()).sort(byPeriod),
+    vendors: Array.from(vendors.values())
+      .map((vendor) => {
+        const periods = Array.from(vendor.periods.values()).sort(byPeriod);
+        const sum = (field: 'purchase_orders' | 'receipts') =>
+          roundCurrency(periods.reduce((total, spend) => total + spend[field], 0));
+        return {
+          vendor_id: vendor.vendor_id,
+          vendor_name: vendor.vendor_name,
+          purchase_orders: sum('purchase_orders'),
+          receipts: sum('receipts'),
+          periods,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.purchase_orders - a.purchase_orders ||
+          b.receipts - a.receipts ||
+          a.vendor_name.localeCompare(b.vendor_name)
+      ),
+  };
+}
+
+/**
+ * Fetch an active vendor to link a purchase order or receipt to
+ */
+export async function getActiveVendor(
+  supabase: SupabaseClient,
+  vendorId: string
+): Promise<{ data: Vendor | null; error: ApiError | null }> {
+  const { data, error } = await supabase
+    .from('vendors')
+    .select('*')
+    .eq('id', vendorId)
+    .maybeSingle<Vendor>();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  if (!data || !data.is_active) {
+    return {
+      data: null,
+      error: {
+        statusCode: 400,
+        code: 'VALIDATION_ERROR',
+        message: 'Vendor does not exist or is inactive',
+      },
+    };
+  }
+
+  return { data, error: null };
+}
+
+/**
+ * Link purchase orders and receipts that only have vendor_name text, and parts that only
+ * have preferred_vendor_name text, to vendor records
+ * Names are compared with normalizeVendorName, so spelling variants of one vendor land on
+ * the same record. With createMissing, a vendor is created for each unmatched name (using
+ * the first spelling seen); with dryRun the matches are worked out but nothing is written.
+ * The name text on the documents and parts is left as it is.
+ */
+export async function matchVendorNames(
+  supabase: SupabaseClient,
+  options: { createMissing: boolean; dryRun: boolean },
+  actorUserId: string
+): Promise<{ data: VendorNameMatch[] | null; error: ApiError | null }> {
+  const { data: vendors, error: vendorsError } = await supabase
+    .from('vendors')
+    .select('id, name, is_active')
+    .order('created_at', { ascending: true })
+    .returns<Pick<Vendor, 'id' | 'name' | 'is_active'>[]>();
+
+  if (vendorsError) {
+    return { data: null, error: translateDbError(vendorsError) };
+  }
+
+  const { data: purchaseOrders, error: poError } = await supabase
+    .from('purchase_orders')
+    .select('id, vendor_name')
+    .is('vendor_id', null)
+    .returns<Pick<PurchaseOrder, 'id' | 'vendor_name'>[]>();
+
+  if (poError) {
+    return { data: null, error: translateDbError(poError) };
+  }
+
+  const { data: receipts, error: receiptsError } = await supabase
+    .from('receipts')
+    .select('id, vendor_name')
+    .is('vendor_id', null)
+    .not('vendor_name', 'is', null)
+    .returns<Pick<Receipt, 'id' | 'vendor_name'>[]>();
+
+  if (receiptsError) {
+    return { data: null, error: translateDbError(receiptsError) };
+  }
+
+  const { data: parts, error: partsError } = await supabase
+    .from('parts')
+    .select('id, preferred_vendor_name')
+    .is('preferred_vendor_id', null)
+    .not('preferred_vendor_name', 'is', null)
+    .returns<Pick<Part, 'id' | 'preferred_vendor_name'>[]>();
+
+  if (partsError) {
+    return { data: null, error: translateDbError(partsError) };
+  }
+
+  // Active vendors win over inactive ones with the same name
+  const vendorIds = new Map<string, string>();
+  for (const vendor of [...(vendors || [])].sort(
+    (a, b) => Number(b.is_active) - Number(a.is_active)
+  )) {
+    const key = normalizeVendorName(vendor.name);
+    if (!vendorIds.has(key)) {
+      vendorIds.set(key, vendor.id);
+    }
+  }
+
+  const groups = new Map<
+    string,
+    { vendor_name: string; purchase_order_ids: string[]; receipt_ids: string[]; part_ids: string[] }
+  >();
+  const addDocument = (
+    name: string | null,
+    id: string,
+    field: 'purchase_order_ids' | 'receipt_ids' | 'part_ids'
+  ): void => {
+    const key = normalizeVendorName(name ?? '');
+    if (!key) {
+      return;
+    }
+    const group = groups.get(key) ?? {
+      vendor_name: name!.trim(),
+      purchase_order_ids: [],
+      receipt_ids: [],
+      part_ids: [],
+    };
+    group[field].push(id);
+    groups.set(key, group);
+  };
+
+  (purchaseOrders || []).forEach((po) => addDocument(po.vendor_name, po.id, 'purchase_order_ids'));
+  (receipts || []).forEach((receipt) =>
+    addDocument(receipt.vendor_name, receipt.id, 'receipt_ids')
+  );
+  (parts || []).forEach((part) => addDocument(part.preferred_vendor_name, part.id, 'part_ids'));
+
+  const matches: VendorNameMatch[] = [];
+
+  for (const [key, group] of groups) {
+    let vendorId = vendorIds.get(key) ?? null;
+    let created = false;
+
+    if (!vendorId && options.createMissing) {
+      created = true;
+      if (!options.dryRun) {
+        const { data: vendor, error: createError } = await supabase
+          .from('vendors')
+          .insert({ name: group.vendor_name, created_by: actorUserId, updated_by: actorUserId })
+          .select('id')
+          .single<Pick<Vendor, 'id'>>();
+
+        if (createError) {
+          return { data: null, error: translateDbError(createError) };
+        }
+        vendorId = vendor.id;
+      }
+    }
+
+    if (vendorId && !options.dryRun) {
+      if (group.purchase_order_ids.length > 0) {
+        const { error } = await supabase
+          .from('purchase_orders')
+          .update({ vendor_id: vendorId })
+          .in('id', group.purchase_order_ids);
+
+        if (error) {
+          return { data: null, error: translateDbError(error) };
+        }
+      }
+
+      if (group.receipt_ids.length > 0) {
+        const { error } = await supabase
+          .from('receipts')
+          .update({ vendor_id: vendorId })
+          .in('id', group.receipt_ids);
+
+        if (error) {
+          return { data: null, error: translateDbError(error) };
+        }
+      }
+
+      if (group.part_ids.length > 0) {
+        const { error } = await supabase
+          .from('parts')
+          .update({ preferred_vendor_id: vendorId })
+          .in('id', group.part_ids);
+
+        if (error) {
+          return { data: null, error: translateDbError(error) };
+        }
+      }
+    }
+
+    matches.push({
+      vendor_name: group.vendor_name,
+      vendor_id: vendorId,
+      created,
+      purchase_order_count: group.purchase_order_ids.length,
+      receipt_count: group.receipt_ids.length,
+      part_count: group.part_ids.length,
+    });
+  }
+
+  return {
+    data: matches.sort((a, b) => a.vendor_name.localeCompare(b.vendor_name)),
+    error: null,
+  };
+}
@@ -0,0 +1,206 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { WorkOrder, WorkOrderAssignment } from '@/types/database.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Work orders an employee is on the crew of, with their role on each
+ */
+export async function getCrewAssignments(
+  supabase: SupabaseClient,
+  employeeId: string
+): Promise<{
+  data: Pick<WorkOrderAssignment, 'work_order_id' | 'role'>[] | null;
+  error: PostgrestError | null;
+}> {
+  const { data, error } = await supabase
+    .from('work_order_assignments')
+    .select('work_order_id, role')
+    .eq('employee_id', employeeId)
+    .returns<Pick<WorkOrderAssignment, 'work_order_id' | 'role'>[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: data || [], error: null };
+}
+
+/**
+ * IDs of work orders a tech is on the crew of or scheduled for
+ * Work orders where the tech is assigned_to are matched by techWorkOrderFilter.
+ * With a range, only schedule slots inside it count; crew membership always does.
+ */
+export async function getTechWorkOrderIds(
+  supabase: SupabaseClient,
+  techUserId: string,
+  scheduleRange?: { start_at: string; end_at: string }
+): Promise<string[]> {
+  const { data: crew } = await getCrewAssignments(supabase, techUserId);
+
+  let scheduleQuery = supabase
+    .from('work_order_schedule')
+    .select('work_order_id')
+    .eq('tech_user_id', techUserId);
+
+  if (scheduleRange) {
+    scheduleQuery = scheduleQuery
+      .gte('start_at', scheduleRange.start_at)
+      .lte('end_at', scheduleRange.end_at);
+  }
+
+  const { data: scheduleData } = await scheduleQuery;
+
+  const ids = new Set<string>();
+  (crew || []).forEach((assignment) => ids.add(assignment.work_order_id));
+  (scheduleData || []).forEach((slot) => ids.add(slot.work_order_id as string));
+
+  return Array.from(ids);
+}
+
+/**
+ * PostgREST filter matching work orders assigned to a tech or in a list of IDs
+ * IDs that aren't UUIDs are dropped so they can't break out of the filter.
+ */
+export function techWorkOrderFilter(techUserId: string, workOrderIds: string[]): string {
+  const safeIds = workOrderIds.filter((id) => UUID_PATTERN.test(id)).join(',');
+
+  return safeIds
+    ? `assigned_to.eq.${techUserId},id.in.(${safeIds})`
+    : `assigned_to.eq.${techUserId}`;
+}
+
+/**
+ * Check if a tech works on a work order: assigned_to, on the crew or scheduled
+ * Pass assignedTo when the work order is already loaded to skip fetching it.
+ */
+export async function techHasAccessToWorkOrder(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  techUserId: string,
+  assignedTo?: string | null
+): Promise<boolean> {
+  if (assignedTo === undefined) {
+    const { data: workOrder } = await supabase
+      .from('work_orders')
+      .select('assigned_to')
+      .eq('id', workOrderId)
+      .single<Pick<WorkOrder, 'assigned_to'>>();
+
+    assignedTo = workOrder?.assigned_to ?? null;
+  }
+
+  if (assignedTo === techUserId) {
+    return true;
+  }
+
+  const { data: crewData } = await supabase
+    .from('work_order_assignments')
+    .select('id')
+    .eq('work_order_id', workOrderId)
+    .eq('employee_id', techUserId)
+    .limit(1);
+
+  if (crewData && crewData.length > 0) {
+    return true;
+  }
+
+  const { data: scheduleData } = await supabase
+    .from('work_order_schedule')
+    .select('id')
+    .eq('work_order_id', workOrderId)
+    .eq('tech_user_id', techUserId)
+    .limit(1);
+
+  return scheduleData !== null && scheduleData.length > 0;
+}
+
+/**
+ * Add an employee to a work order crew as a HELPER unless they're already on it
+ */
+export async function ensureCrewMember(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  employeeId: string,
+  actorUserId: string
+): Promise<{ error: PostgrestError | null }> {
+  const { error } = await supabase.from('work_order_assignments').upsert(
+    {
+      work_order_id: workOrderId,
+      employee_id: employeeId,
+      role: 'HELPER',
+      assigned_by: actorUserId,
+    },
+    { onConflict: 'work_order_id,employee_id', ignoreDuplicates: true }
+  );
+
+  return { error };
+}
+
+/**
+ * Make an employee the LEAD of a work order crew (null leaves it without a lead)
+ * The previous lead stays on the crew as a HELPER. Keeping work_orders.assigned_to in
+ * step is up to the caller.
+ */
+export async function syncLeadAssignment(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  leadEmployeeId: string | null,
+  actorUserId: string
+): Promise<{ error: PostgrestError | null }> {
+  let demoteQuery = supabase
+    .from('work_order_assignments')
+    .update({ role: 'HELPER' })
+    .eq('work_order_id', workOrderId)
+    .eq('role', 'LEAD');
+
+  if (leadEmployeeId) {
+    demoteQuery = demoteQuery.neq('employee_id', leadEmployeeId);
+  }
+
+  const { error: demoteError } = await demoteQuery;
+
+  if (demoteError || !leadEmployeeId) {
+    return { error: demoteError };
+  }
+
+  const { error } = await supabase.from('work_order_assignments').upsert(
+    {
+      work_order_id: workOrderId,
+      employee_id: leadEmployeeId,
+      role: 'LEAD',
+      assigned_by: actorUserId,
+    },
+    { onConflict: 'work_order_id,employee_id' }
+  );
+
+  return { error };
+}
+
+/**
+ * Make an employee the crew LEAD and the work order's assigned_to (null clears both)
+ */
+export async function setWorkOrderLead(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  leadEmployeeId: string | null,
+  actorUserId: string
+): Promise<{ error: PostgrestError | null }> {
+  const { error: crewError } = await syncLeadAssignment(
+    supabase,
+    workOrderId,
+    leadEmployeeId,
+    actorUserId
+  );
+
+  if (crewError) {
+    return { error: crewError };
+  }
+
+  const { error } = await supabase
+    .from('work_orders')
+    .update({ assigned_to: leadEmployeeId })
+    .eq('id', workOrderId);
+
+  return { error };
+}
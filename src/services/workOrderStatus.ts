@@ -0,0 +1,141 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError, translateDbError } from '@/db/index.js';
+import { WorkOrder, WorkOrderStatus } from '@/types/database.js';
+import { createAuditLog } from '@/services/auditLog.js';
+
+/**
+ * Allowed work order status changes
+ * CLOSED is final; a CANCELED work order can only be reopened as UNSCHEDULED.
+ */
+export const WORK_ORDER_STATUS_TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  UNSCHEDULED: ['SCHEDULED', 'IN_PROGRESS', 'CANCELED'],
+  SCHEDULED: ['UNSCHEDULED', 'IN_PROGRESS', 'CANCELED'],
+  IN_PROGRESS: ['COMPLETED', 'CANCELED'],
+  COMPLETED: ['IN_PROGRESS', 'CLOSED'],
+  CLOSED: [],
+  CANCELED: ['UNSCHEDULED'],
+};
+
+/**
+ * Whether a work order may move from one status to another
+ */
+export function canTransitionWorkOrder(from: WorkOrderStatus, to: WorkOrderStatus): boolean {
+  return WORK_ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Validation error for an illegal status change
+ */
+export function invalidTransitionError(from: WorkOrderStatus, to: WorkOrderStatus): ApiError {
+  return {
+    statusCode: 400,
+    code: 'VALIDATION_ERROR',
+    message: `Cannot change work order status from ${from} to ${to}`,
+    details: { from, to, allowed: WORK_ORDER_STATUS_TRANSITIONS[from] },
+  };
+}
+
+/**
+ * Fields to update when a work order moves to a new status
+ * Stamps completed_at/closed_at the first time, and clears completed_at when a
+ * completed job is reopened.
+ */
+export function getStatusChangeFields(
+  current: Pick<WorkOrder, 'completed_at' | 'closed_at'>,
+  toStatus: WorkOrderStatus
+): Partial<WorkOrder> {
+  const fields: Partial<WorkOrder> = { status: toStatus };
+
+  if (toStatus === 'COMPLETED' && !current.completed_at) {
+    fields.completed_at = new Date().toISOString();
+  }
+  if (toStatus === 'CLOSED' && !current.closed_at) {
+    fields.closed_at = new Date().toISOString();
+  }
+  if (toStatus === 'IN_PROGRESS' && current.completed_at) {
+    fields.completed_at = null;
+  }
+
+  return fields;
+}
+
+/**
+ * Record a status change in the audit log
+ */
+export async function logWorkOrderStatusChange(
+  supabase: SupabaseClient,
+  before: WorkOrder,
+  after: WorkOrder,
+  actorUserId: string,
+  notes?: string
+): Promise<void> {
+  const { error } = await createAuditLog(supabase, {
+    entity_type: 'work_order',
+    entity_id: after.id,
+    action: 'WORK_ORDER_STATUS_CHANGED',
+    actor_user_id: actorUserId,
+    before_data: before as unknown as Record<string, unknown>,
+    after_data: after as unknown as Record<string, unknown>,
+    notes: notes ?? `${before.status} -> ${after.status}`,
+  });
+
+  if (error) {
+    console.error('Error creating audit log:', error);
+    // Don't fail the status change if audit log fails
+  }
+}
+
+/**
+ * Move a work order to a new status through the state machine
+ * No-op if the work order already has that status.
+ *
+ * @returns Updated work order, or an API error (400 for an illegal transition)
+ */
+export async function transitionWorkOrderStatus(
+  supabase: SupabaseClient,
+  workOrderId: string,
+  toStatus: WorkOrderStatus,
+  actorUserId: string,
+  notes?: string
+): Promise<{ data: WorkOrder | null; error: ApiError | null }> {
+  const { data: current, error: fetchError } = await supabase
+    .from('work_orders')
+    .select('*')
+    .eq('id', workOrderId)
+    .single<WorkOrder>();
+
+  if (fetchError) {
+    if (fetchError.code === 'PGRST116') {
+      return {
+        data: null,
+        error: { statusCode: 404, code: 'NOT_FOUND', message: 'Work order not found' },
+      };
+    }
+    return { data: null, error: translateDbError(fetchError) };
+  }
+
+  if (current.status === toStatus) {
+    return { data: current, error: null };
+  }
+
+  if (!canTransitionWorkOrder(current.status, toStatus)) {
+    return { data: null, error: invalidTransitionError(current.status, toStatus) };
+  }
+
+  // Only update if the status hasn't changed underneath us
+  const { data, error } = await supabase
+    .from('work_orders')
+    .update(getStatusChangeFields(current, toStatus))
+    .eq('id', workOrderId)
+    .eq('status', current.status)
+    .select()
+    .single<WorkOrder>();
+
+  if (error) {
+    return { data: null, error: translateDbError(error) };
+  }
+
+  await logWorkOrderStatusChange(supabase, current, data, actorUserId, notes);
+
+  return { data, error: null };
+}
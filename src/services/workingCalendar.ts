@@ -0,0 +1,306 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { EmployeeTimeOff, EmployeeWorkingHours, Holiday } from '@/types/database.js';
+import { computeFreeBlocks, getBookedHours } from '@/services/schedule.js';
+
+/**
+ * Shift used for employees without configured working hours: Monday-Friday 08:00-17:00
+ */
+export const DEFAULT_WORKING_HOURS: Pick<
+  EmployeeWorkingHours,
+  'weekday' | 'start_time' | 'end_time'
+>[] = [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start_time: '08:00', end_time: '17:00' }));
+
+/**
+ * Reason a schedule slot is flagged (the slot is still saved)
+ */
+export interface ScheduleWarning {
+  code: 'OUTSIDE_SHIFT' | 'HOLIDAY' | 'TIME_OFF';
+  message: string;
+  holiday_id?: string;
+  time_off_id?: string;
+}
+
+interface WorkingCalendar {
+  timeZone: string;
+  holidays: Holiday[];
+  hoursByEmployee: Map<string, Pick<EmployeeWorkingHours, 'weekday' | 'start_time' | 'end_time'>[]>;
+  timeOff: EmployeeTimeOff[];
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string): number => Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to a UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Re-check the offset at the result to handle DST transitions
+  const offset = getTimeZoneOffsetMs(timeZone, new Date(wallClock));
+  const corrected = getTimeZoneOffsetMs(timeZone, new Date(wallClock - offset));
+  return new Date(wallClock - corrected);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function toZonedDate(instant: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+/**
+ * Every date from dateFrom through dateTo inclusive
+ */
+function listDates(dateFrom: string, dateTo: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${dateFrom}T00:00:00Z`);
+  const end = new Date(`${dateTo}T00:00:00Z`);
+
+  while (cursor <= end) {
+    dates.push(cursor.toISOString().split('T')[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Company time zone from settings (IANA name, default UTC)
+ */
+export async function getCompanyTimeZone(supabase: SupabaseClient): Promise<string> {
+  const { data } = await supabase
+    .from('settings')
+    .select('time_zone')
+    .limit(1)
+    .single<{ time_zone: string | null }>();
+
+  return data?.time_zone || 'UTC';
+}
+
+/**
+ * Load working hours, holidays and approved time off for employees over a date range
+ */
+async function loadWorkingCalendar(
+  supabase: SupabaseClient,
+  employeeIds: string[],
+  dateFrom: string,
+  dateTo: string
+): Promise<{ data: WorkingCalendar | null; error: PostgrestError | null }> {
+  const timeZone = await getCompanyTimeZone(supabase);
+
+  const { data: hours, error: hoursError } = await supabase
+    .from('employee_working_hours')
+    .select('*')
+    .in('employee_id', employeeIds)
+    .returns<EmployeeWorkingHours[]>();
+
+  if (hoursError) {
+    return { data: null, error: hoursError };
+  }
+
+  const { data: holidays, error: holidayError } = await supabase
+    .from('holidays')
+    .select('*')
+    .gte('holiday_date', dateFrom)
+    .lte('holiday_date', dateTo)
+    .returns<Holiday[]>();
+
+  if (holidayError) {
+    return { data: null, error: holidayError };
+  }
+
+  // Widen by a day on each side so time off in any time zone is caught
+  const rangeStart = new Date(`${dateFrom}T00:00:00Z`);
+  rangeStart.setUTCDate(rangeStart.getUTCDate() - 1);
+  const rangeEnd = new Date(`${dateTo}T00:00:00Z`);
+  rangeEnd.setUTCDate(rangeEnd.getUTCDate() + 2);
+
+  const { data: timeOff, error: timeOffError } = await supabase
+    .from('employee_time_off')
+    .select('*')
+    .in('employee_id', employeeIds)
+    .eq('status', 'APPROVED')
+    .lt('start_at', rangeEnd.toISOString())
+    .gt('end_at', rangeStart.toISOString())
+    .returns<EmployeeTimeOff[]>();
+
+  if (timeOffError) {
+    return { data: null, error: timeOffError };
+  }
+
+  const hoursByEmployee: WorkingCalendar['hoursByEmployee'] = new Map();
+  for (const row of hours || []) {
+    const rows = hoursByEmployee.get(row.employee_id) ?? [];
+    rows.push(row);
+    hoursByEmployee.set(row.employee_id, rows);
+  }
+
+  return {
+    data: { timeZone, holidays: holidays || [], hoursByEmployee, timeOff: timeOff || [] },
+    error: null,
+  };
+}
+
+/**
+ * UTC shift windows for an employee on the given dates, skipping holidays
+ */
+function getShiftWindows(
+  calendar: WorkingCalendar,
+  employeeId: string,
+  dates: string[]
+): { start_at: string; end_at: string }[] {
+  const hours = calendar.hoursByEmployee.get(employeeId) ?? DEFAULT_WORKING_HOURS;
+  const holidayDates = new Set(calendar.holidays.map((holiday) => holiday.holiday_date));
+
+  return dates.flatMap((date) => {
+    if (holidayDates.has(date)) {
+      return [];
+    }
+
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return hours
+      .filter((shift) => shift.weekday === weekday)
+      .map((shift) => ({
+        start_at: zonedTimeToUtc(date, shift.start_time, calendar.timeZone).toISOString(),
+        end_at: zonedTimeToUtc(date, shift.end_time, calendar.timeZone).toISOString(),
+      }));
+  });
+}
+
+/**
+ * Working hours available per employee over a date range (company time zone)
+ * Shift hours on non-holiday dates, minus approved time off.
+ *
+ * @returns Map of employee ID to available hours
+ */
+export async function getAvailableHours(
+  supabase: SupabaseClient,
+  employeeIds: string[],
+  dateFrom: string,
+  dateTo: string
+): Promise<{ data: Map<string, number> | null; error: PostgrestError | null }> {
+  const { data: calendar, error } = await loadWorkingCalendar(
+    supabase,
+    employeeIds,
+    dateFrom,
+    dateTo
+  );
+
+  if (error || !calendar) {
+    return { data: null, error };
+  }
+
+  const dates = listDates(dateFrom, dateTo);
+  const available = new Map<string, number>();
+
+  for (const employeeId of employeeIds) {
+    const timeOff = calendar.timeOff.filter((entry) => entry.employee_id === employeeId);
+    const hours = getShiftWindows(calendar, employeeId, dates).reduce(
+      (sum, shift) =>
+        sum +
+        getBookedHours(
+          computeFreeBlocks(shift.start_at, shift.end_at, timeOff),
+          shift.start_at,
+          shift.end_at
+        ),
+      0
+    );
+    available.set(employeeId, Math.round(hours * 100) / 100);
+  }
+
+  return { data: available, error: null };
+}
+
+/**
+ * Warnings for a proposed slot: outside the tech's shift, on a holiday or during
+ * approved time off
+ */
+export async function getScheduleWarnings(
+  supabase: SupabaseClient,
+  techUserId: string,
+  startAt: string,
+  endAt: string
+): Promise<{ data: ScheduleWarning[] | null; error: PostgrestError | null }> {
+  const timeZone = await getCompanyTimeZone(supabase);
+  const dateFrom = toZonedDate(new Date(startAt), timeZone);
+  const dateTo = toZonedDate(new Date(new Date(endAt).getTime() - 1), timeZone);
+
+  const { data: calendar, error } = await loadWorkingCalendar(
+    supabase,
+    [techUserId],
+    dateFrom,
+    dateTo
+  );
+
+  if (error || !calendar) {
+    return { data: null, error };
+  }
+
+  const warnings: ScheduleWarning[] = [];
+
+  for (const holiday of calendar.holidays) {
+    warnings.push({
+      code: 'HOLIDAY',
+      message: `Slot falls on the ${holiday.name} holiday (${holiday.holiday_date})`,
+      holiday_id: holiday.id,
+    });
+  }
+
+  const shifts = getShiftWindows(calendar, techUserId, listDates(dateFrom, dateTo));
+  if (computeFreeBlocks(startAt, endAt, shifts).length > 0) {
+    warnings.push({
+      code: 'OUTSIDE_SHIFT',
+      message: "Slot falls outside the technician's working hours",
+    });
+  }
+
+  const slotStart = new Date(startAt).getTime();
+  const slotEnd = new Date(endAt).getTime();
+  for (const entry of calendar.timeOff) {
+    if (
+      new Date(entry.start_at).getTime() < slotEnd &&
+      new Date(entry.end_at).getTime() > slotStart
+    ) {
+      warnings.push({
+        code: 'TIME_OFF',
+        message: 'Technician has approved time off during this slot',
+        time_off_id: entry.id,
+      });
+    }
+  }
+
+  return { data: warnings, error: null };
+}
@@ -61,6 +61,8 @@ export interface Project {
   budget_amount: number;
   invoiced_amount: number;
   paid_amount: number;
+  retainage_percent: number;
+  retainage_held: number;
   total_cost: number;
   created_at: string;
   updated_at: string;
@@ -90,6 +92,7 @@ export interface ChangeOrder {
   requested_at: string | null;
   approved_at: string | null;
   notes: string | null;
+  pdf_file_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -112,6 +115,7 @@ export interface WorkOrder {
   id: string;
   customer_id: string;
   location_id: string;
+  project_id: string | null;
   work_order_no: string | null;
   status: WorkOrderStatus;
   priority: number;
@@ -120,6 +124,7 @@ export interface WorkOrder {
   requested_window_start: string | null;
   requested_window_end: string | null;
   assigned_to: string | null;
+  work_type: string | null;
   opened_at: string;
   completed_at: string | null;
   closed_at: string | null;
@@ -143,6 +148,172 @@ export interface WorkOrderSchedule {
   updated_at: string;
 }
 
+/**
+ * Checklist item answer type
+ */
+export type ChecklistItemType = 'PASS_FAIL' | 'NUMERIC' | 'TEXT';
+
+/**
+ * Checklist item result (NUMERIC items are graded against min/max when set)
+ */
+export type ChecklistItemResult = 'PASS' | 'FAIL' | 'NA';
+
+/**
+ * Checklist template database record type
+ * Templates with a work_type are attached automatically to new work orders of that type
+ */
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  work_type: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Checklist template item database record type
+ */
+export interface ChecklistTemplateItem {
+  id: string;
+  template_id: string;
+  sort_order: number;
+  label: string;
+  item_type: ChecklistItemType;
+  required: boolean;
+  unit: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  created_at: string;
+}
+
+/**
+ * Work order checklist database record type
+ * A copy of a template attached to a work order, so template edits don't change it
+ */
+export interface WorkOrderChecklist {
+  id: string;
+  work_order_id: string;
+  template_id: string | null;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Work order checklist item database record type
+ */
+export interface WorkOrderChecklistItem {
+  id: string;
+  checklist_id: string;
+  work_order_id: string;
+  sort_order: number;
+  label: string;
+  item_type: ChecklistItemType;
+  required: boolean;
+  unit: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  result: ChecklistItemResult | null;
+  numeric_value: number | null;
+  text_value: string | null;
+  notes: string | null;
+  completed_by: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Work order completion database record type
+ * Tech sign-off captured when a job is completed; photos and signature are files
+ * attached to the work order.
+ */
+export interface WorkOrderCompletion {
+  id: string;
+  work_order_id: string;
+  completed_by: string;
+  completed_at: string;
+  resolution_notes: string;
+  photo_file_ids: string[];
+  signature_file_id: string | null;
+  signer_name: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Crew role on a work order
+ */
+export type WorkOrderAssignmentRole = 'LEAD' | 'HELPER';
+
+/**
+ * Work order assignment database record type
+ * One row per crew member; the LEAD is mirrored to work_orders.assigned_to
+ */
+export interface WorkOrderAssignment {
+  id: string;
+  work_order_id: string;
+  employee_id: string;
+  role: WorkOrderAssignmentRole;
+  assigned_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Employee time-off request status
+ */
+export type TimeOffStatus = 'PENDING' | 'APPROVED' | 'DENIED';
+
+/**
+ * Employee time-off database record type
+ * Only APPROVED time off blocks scheduling availability
+ */
+export interface EmployeeTimeOff {
+  id: string;
+  employee_id: string;
+  start_at: string;
+  end_at: string;
+  reason: string | null;
+  status: TimeOffStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Employee working hours database record type
+ * One row per weekday worked (0 = Sunday); times are HH:MM in the company time zone
+ */
+export interface EmployeeWorkingHours {
+  id: string;
+  employee_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Company holiday database record type
+ */
+export interface Holiday {
+  id: string;
+  holiday_date: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
 /**
  * Work order time entry database record type
  */
@@ -158,6 +329,88 @@ export interface WorkOrderTimeEntry {
   updated_at: string;
 }
 
+/**
+ * Pay type of a labor cost line
+ */
+export type LaborPayType = 'REGULAR' | 'OVERTIME' | 'DOUBLE_TIME' | 'HOLIDAY';
+
+/**
+ * Weekly timesheet status
+ */
+export type TimesheetStatus = 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Timesheet database record type
+ * One per tech per week (week_start is a Monday in the company time zone). An APPROVED
+ * timesheet locks the week's time entries.
+ */
+export interface Timesheet {
+  id: string;
+  tech_user_id: string;
+  week_start: string;
+  week_end: string;
+  status: TimesheetStatus;
+  total_hours: number;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  locked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Time entry adjustment database record type
+ * A correction to a time entry in a locked week; the labor cost difference is re-posted
+ * to job_cost_entries by the time_entry_cost_post job
+ */
+export interface TimeEntryAdjustment {
+  id: string;
+  time_entry_id: string;
+  timesheet_id: string;
+  before_data: Pick<WorkOrderTimeEntry, 'clock_in_at' | 'clock_out_at' | 'break_minutes'>;
+  after_data: Pick<WorkOrderTimeEntry, 'clock_in_at' | 'clock_out_at' | 'break_minutes'>;
+  hours_delta: number;
+  reason: string;
+  adjusted_by: string;
+  created_at: string;
+}
+
+/**
+ * Equipment usage database record type
+ */
+export interface EquipmentUsage {
+  id: string;
+  work_order_id: string;
+  equipment_id: string;
+  start_at: string;
+  end_at: string | null;
+  billed_rate: number;
+  cost_total: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Cost entry database record type (receipt allocations)
+ */
+export interface CostEntry {
+  id: string;
+  receipt_id: string | null;
+  bucket: string;
+  origin: string;
+  qty: number;
+  unit_cost: number;
+  total_cost: number;
+  occurred_at: string;
+  work_order_id: string | null;
+  part_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Webhook event status type
  */
@@ -242,6 +495,7 @@ export interface QuoteLine {
  */
 export interface Receipt {
   id: string;
+  vendor_id: string | null;
   vendor_name: string | null;
   receipt_date: string | null;
   total_amount: number;
@@ -278,7 +532,7 @@ export interface ReceiptLineItem {
 /**
  * Invoice type enum
  */
-export type InvoiceType = 'STANDARD' | 'PROGRESS' | 'FINAL' | 'CHANGE_ORDER';
+export type InvoiceType = 'STANDARD' | 'PROGRESS' | 'FINAL' | 'CHANGE_ORDER' | 'RETAINAGE_RELEASE';
 
 /**
  * Invoice status enum
@@ -302,9 +556,17 @@ export interface Invoice {
   subtotal: number;
   tax_total: number;
   total_amount: number;
+  retainage_percent: number;
+  retainage_amount: number;
+  source_quote_id: string | null;
+  source_quote_percent: number | null;
+  service_agreement_id: string | null;
   paid_amount: number;
   sent_at: string | null;
   paid_at: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
   pdf_file_id: string | null;
   created_at: string;
   updated_at: string;
@@ -335,11 +597,104 @@ export interface InvoiceLine {
   updated_at: string;
 }
 
+/**
+ * Schedule of values line source enum
+ */
+export type SovLineSource = 'QUOTE_LINE' | 'CHANGE_ORDER' | 'MANUAL';
+
+/**
+ * Schedule of values line database record type
+ * One line of a project's AIA G703 continuation sheet
+ */
+export interface ScheduleOfValuesLine {
+  id: string;
+  project_id: string;
+  line_no: number;
+  source_type: SovLineSource;
+  quote_line_id: string | null;
+  change_order_id: string | null;
+  description: string;
+  scheduled_value: number;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * Invoice progress line database record type
+ * Snapshot of one schedule of values line on a progress invoice
+ */
+export interface InvoiceProgressLine {
+  id: string;
+  invoice_id: string;
+  sov_line_id: string;
+  line_no: number;
+  description: string;
+  scheduled_value: number;
+  previously_billed: number;
+  this_period: number;
+  stored_materials: number;
+  total_completed_and_stored: number;
+  percent_complete: number;
+  balance_to_finish: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Credit memo database record type
+ * Issued when a SENT invoice is voided; mirrors the voided invoice
+ */
+export interface CreditMemo {
+  id: string;
+  credit_memo_no: string;
+  invoice_id: string;
+  project_id: string | null;
+  work_order_id: string | null;
+  memo_date: string;
+  reason: string;
+  tax_rate_snapshot: number | null;
+  subtotal: number;
+  tax_total: number;
+  total_amount: number;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * Credit memo line database record type
+ */
+export interface CreditMemoLine {
+  id: string;
+  credit_memo_id: string;
+  invoice_line_id: string | null;
+  line_no: number;
+  part_id: string | null;
+  description: string;
+  uom: string;
+  qty: number;
+  unit_price: number;
+  is_taxable: boolean;
+  line_subtotal: number;
+  line_tax: number;
+  line_total: number;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Payment method enum
  */
 export type PaymentMethod = 'CHECK' | 'CASH' | 'ACH' | 'CREDIT_CARD' | 'WIRE' | 'OTHER';
 
+/**
+ * Payment status enum
+ */
+export type PaymentStatus = 'APPLIED' | 'VOID' | 'REFUNDED';
+
 /**
  * Payment database record type
  */
@@ -352,6 +707,11 @@ export interface Payment {
   payment_method: PaymentMethod;
   reference_no: string | null;
   notes: string | null;
+  status: PaymentStatus;
+  unapplied_amount: number;
+  reversed_at: string | null;
+  reversed_by: string | null;
+  reversal_reason: string | null;
   created_at: string;
   updated_at: string;
   created_by: string | null;
@@ -360,6 +720,104 @@ export interface Payment {
   qbo_last_synced_at: string | null;
 }
 
+/**
+ * Customer credit status enum
+ */
+export type CustomerCreditStatus = 'OPEN' | 'APPLIED' | 'VOID';
+
+/**
+ * Customer credit database record type
+ */
+export interface CustomerCredit {
+  id: string;
+  customer_id: string;
+  source_payment_id: string | null;
+  amount: number;
+  remaining_amount: number;
+  status: CustomerCreditStatus;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * Customer credit application database record type
+ */
+export interface CustomerCreditApplication {
+  id: string;
+  credit_id: string;
+  invoice_id: string;
+  amount: number;
+  applied_at: string;
+  reversed_at: string | null;
+  created_by: string | null;
+  reversed_by: string | null;
+}
+
+/**
+ * Service agreement billing frequency enum
+ */
+export type ServiceAgreementFrequency = 'MONTHLY' | 'QUARTERLY' | 'SEMI_ANNUAL' | 'ANNUAL';
+
+/**
+ * Service agreement status enum
+ */
+export type ServiceAgreementStatus = 'ACTIVE' | 'PAUSED' | 'CANCELED';
+
+/**
+ * One invoice line billed each period by a service agreement
+ */
+export interface ServiceAgreementLineTemplate {
+  part_id: string | null;
+  description: string;
+  uom: string;
+  qty: number;
+  unit_price: number;
+  is_taxable: boolean;
+}
+
+/**
+ * Service agreement database record type
+ * Recurring maintenance agreement billed per period for a customer location
+ */
+export interface ServiceAgreement {
+  id: string;
+  customer_id: string;
+  location_id: string;
+  name: string;
+  frequency: ServiceAgreementFrequency;
+  amount: number;
+  line_template: ServiceAgreementLineTemplate[];
+  tax_rule_id: string;
+  start_date: string;
+  end_date: string | null;
+  next_billing_date: string;
+  due_days: number;
+  auto_send: boolean;
+  status: ServiceAgreementStatus;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * Service agreement billing database record type
+ * One row per billed period; idempotency_key is unique per agreement period
+ */
+export interface ServiceAgreementBilling {
+  id: string;
+  service_agreement_id: string;
+  invoice_id: string;
+  period_start: string;
+  period_end: string;
+  idempotency_key: string;
+  created_at: string;
+}
+
 /**
  * Part database record type
  */
@@ -379,6 +837,13 @@ export interface Part {
   is_active: boolean;
   is_inventoried: boolean;
   qty_on_hand: number;
+  reorder_point: number | null;
+  reorder_qty: number | null;
+  max_qty: number | null;
+  preferred_vendor_id: string | null;
+  preferred_vendor_name: string | null; // Free text from before vendor records; see match-names
+  vendor_sku: string | null;
+  vendor_cost: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -386,7 +851,13 @@ export interface Part {
 /**
  * Inventory transaction type enum
  */
-export type InventoryTxnType = 'RECEIPT' | 'ADJUSTMENT' | 'USAGE' | 'RETURN' | 'PURCHASE';
+export type InventoryTxnType =
+  | 'RECEIPT'
+  | 'ADJUSTMENT'
+  | 'USAGE'
+  | 'RETURN'
+  | 'PURCHASE'
+  | 'TRANSFER';
 
 /**
  * Inventory ledger database record type
@@ -400,9 +871,132 @@ export interface InventoryLedger {
   txn_date: string;
   reference_type: string | null;
   reference_id: string | null;
+  stock_location_id: string | null;
   created_at: string;
 }
 
+/**
+ * Stock location type
+ * TRUCK locations belong to a tech; JOB_SITE locations hold stock staged for a project.
+ */
+export type StockLocationType = 'WAREHOUSE' | 'TRUCK' | 'JOB_SITE';
+
+/**
+ * Stock location database record type
+ */
+export interface StockLocation {
+  id: string;
+  name: string;
+  location_type: StockLocationType;
+  tech_user_id: string | null;
+  project_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Part stock database record type
+ * On-hand quantity of a part at one stock location; parts.qty_on_hand is the total
+ */
+export interface PartStock {
+  id: string;
+  part_id: string;
+  stock_location_id: string;
+  qty_on_hand: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Inventory transfer database record type
+ * Stock moved between two locations, written to the ledger as a pair of TRANSFER rows
+ */
+export interface InventoryTransfer {
+  id: string;
+  part_id: string;
+  from_location_id: string;
+  to_location_id: string;
+  qty: number;
+  unit_cost: number;
+  notes: string | null;
+  transferred_by: string;
+  created_at: string;
+}
+
+/**
+ * Job cost entry database record type
+ * Posted labor and material cost against a project or work order
+ */
+export interface JobCostEntry {
+  id: string;
+  project_id: string | null;
+  work_order_id: string | null;
+  cost_type_id: string;
+  cost_code_id: string;
+  txn_date: string;
+  qty: number;
+  unit_cost: number;
+  amount: number;
+  description: string | null;
+  source_type: string;
+  source_id: string | null;
+  idempotency_key: string | null;
+  pay_type: LaborPayType | null;
+  created_at: string;
+}
+
+/**
+ * Work order part usage database record type
+ * A part a tech used on a job; voiding returns the stock and reverses the cost
+ */
+export interface WorkOrderPartUsage {
+  id: string;
+  work_order_id: string;
+  part_id: string;
+  qty: number;
+  unit_cost: number;
+  total_cost: number;
+  notes: string | null;
+  used_by: string;
+  used_at: string;
+  stock_location_id: string | null;
+  usage_ledger_id: string | null;
+  return_ledger_id: string | null;
+  job_cost_entry_id: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Vendor database record type
+ * Purchase orders and receipts link to a vendor and keep a copy of its name.
+ */
+export interface Vendor {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  payment_terms_days: number | null;
+  tax_id: string | null;
+  default_cost_code_id: string | null;
+  qbo_vendor_ref: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+}
+
 /**
  * Purchase order status type
  */
@@ -414,6 +1008,7 @@ export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIAL' | 'RECEIVED';
 export interface PurchaseOrder {
   id: string;
   po_no: string;
+  vendor_id: string | null;
   vendor_name: string;
   po_date: string;
   expected_delivery: string | null;
@@ -422,12 +1017,32 @@ export interface PurchaseOrder {
   tax: number;
   total: number;
   notes: string | null;
+  pdf_file_id: string | null;
   created_at: string;
   updated_at: string;
   created_by: string | null;
   updated_by: string | null;
 }
 
+/**
+ * Reorder suggestion database record type
+ * A part at or below its reorder point, counting stock on open purchase orders.
+ * The list is rebuilt by the reorder_suggestions_refresh job.
+ */
+export interface ReorderSuggestion {
+  id: string;
+  part_id: string;
+  vendor_id: string | null;
+  vendor_name: string | null;
+  vendor_sku: string | null;
+  qty_on_hand: number;
+  qty_on_order: number;
+  reorder_point: number;
+  suggested_qty: number;
+  unit_cost: number;
+  generated_at: string;
+}
+
 /**
  * Purchase order line database record type
  */
@@ -460,6 +1075,34 @@ export interface File {
   created_at: string;
 }
 
+/**
+ * Document email delivery status
+ */
+export type DocumentEmailStatus = 'QUEUED' | 'SENT' | 'FAILED';
+
+/**
+ * Document email database record type
+ * One row per message sent for an invoice, quote or purchase order
+ */
+export interface DocumentEmail {
+  id: string;
+  document_type: string;
+  document_id: string;
+  to_emails: string[];
+  cc_emails: string[];
+  subject: string;
+  body: string;
+  status: DocumentEmailStatus;
+  attempts: number;
+  provider_message_id: string | null;
+  error_message: string | null;
+  pdf_file_id: string | null;
+  sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Cost type database record type
  */
@@ -467,6 +1110,7 @@ export interface CostType {
   id: string;
   name: string;
   sort_order: number;
+  burden_percent: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -524,6 +1168,22 @@ export interface Settings {
   created_by: string | null;
   updated_by: string | null;
   default_labor_rate: number;
+  default_bill_rate: number;
+  default_markup_percent: number;
+  invoice_email_subject: string | null;
+  invoice_email_body: string | null;
+  quote_email_subject: string | null;
+  quote_email_body: string | null;
+  purchase_order_email_subject: string | null;
+  purchase_order_email_body: string | null;
+  time_zone: string;
+  default_stock_location_id: string | null;
+  ot_daily_threshold_hours: number | null;
+  dt_daily_threshold_hours: number | null;
+  ot_weekly_threshold_hours: number | null;
+  ot_multiplier: number;
+  dt_multiplier: number;
+  holiday_multiplier: number | null;
 }
 
 /**
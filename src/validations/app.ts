@@ -16,8 +16,46 @@ export const clockOutSchema = z.object({
   notes: z.string().max(1000).optional(),
 });
 
+/**
+ * Validation schema for completing a job from the tech app
+ * Photos and the signature are files already uploaded against the work order
+ * (POST /api/files with entity_type work_order). Checklists are answered item by item
+ * on the work order, not submitted here.
+ */
+export const completeWorkOrderSchema = z
+  .object({
+    resolution_notes: z.string().min(1).max(5000),
+    photo_file_ids: z.array(z.string().uuid()).max(20).optional().default([]),
+    signature_file_id: z.string().uuid().optional(),
+    signer_name: z.string().min(1).max(200).optional(),
+  })
+  .refine((data) => !data.signature_file_id || data.signer_name, {
+    message: 'signer_name is required with a signature',
+    path: ['signer_name'],
+  });
+
+/**
+ * Validation schema for recording a part used on a job
+ */
+export const recordPartUsageSchema = z.object({
+  part_id: z.string().uuid(),
+  qty: z.number().positive(),
+  notes: z.string().max(1000).optional(),
+  stock_location_id: z.string().uuid().optional(),
+});
+
+/**
+ * Validation schema for voiding a part usage line
+ */
+export const voidPartUsageSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
 /**
  * TypeScript types inferred from schemas
  */
 export type ClockInInput = z.infer<typeof clockInSchema>;
 export type ClockOutInput = z.infer<typeof clockOutSchema>;
+export type CompleteWorkOrderInput = z.infer<typeof completeWorkOrderSchema>;
+export type RecordPartUsageInput = z.infer<typeof recordPartUsageSchema>;
+export type VoidPartUsageInput = z.infer<typeof voidPartUsageSchema>;
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+/**
+ * Checklist item answer type enum
+ */
+const checklistItemTypeEnum = z.enum(['PASS_FAIL', 'NUMERIC', 'TEXT']);
+
+/**
+ * Checklist item result enum
+ */
+const checklistItemResultEnum = z.enum(['PASS', 'FAIL', 'NA']);
+
+/**
+ * Validation schema for one template item
+ * unit and min_value/max_value only apply to NUMERIC items
+ */
+export const checklistTemplateItemSchema = z
+  .object({
+    label: z.string().min(1).max(500),
+    item_type: checklistItemTypeEnum.optional().default('PASS_FAIL'),
+    required: z.boolean().optional().default(false),
+    unit: z.string().max(50).optional(),
+    min_value: z.number().optional(),
+    max_value: z.number().optional(),
+  })
+  .refine(
+    (data) =>
+      data.item_type === 'NUMERIC' ||
+      (data.unit === undefined && data.min_value === undefined && data.max_value === undefined),
+    { message: 'unit, min_value and max_value only apply to NUMERIC items' }
+  )
+  .refine(
+    (data) =>
+      data.min_value === undefined ||
+      data.max_value === undefined ||
+      data.max_value >= data.min_value,
+    { message: 'max_value must be greater than or equal to min_value', path: ['max_value'] }
+  );
+
+/**
+ * Validation schema for creating a checklist template
+ * Items are stored in the order given
+ */
+export const createChecklistTemplateSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  work_type: z.string().min(1).max(100).optional(),
+  is_active: z.boolean().optional().default(true),
+  items: z.array(checklistTemplateItemSchema).min(1).max(200),
+});
+
+/**
+ * Validation schema for updating a checklist template
+ * items, when given, replace the template's items (existing work order checklists are
+ * unaffected)
+ */
+export const updateChecklistTemplateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  work_type: z.string().min(1).max(100).nullable().optional(),
+  is_active: z.boolean().optional(),
+  items: z.array(checklistTemplateItemSchema).min(1).max(200).optional(),
+});
+
+/**
+ * Validation schema for attaching a template to a work order
+ */
+export const attachChecklistSchema = z.object({
+  template_id: z.string().uuid(),
+});
+
+/**
+ * Validation schema for a tech recording a checklist item
+ */
+export const recordChecklistItemSchema = z
+  .object({
+    result: checklistItemResultEnum.optional(),
+    numeric_value: z.number().nullable().optional(),
+    text_value: z.string().max(2000).nullable().optional(),
+    notes: z.string().max(1000).nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type ChecklistTemplateItemInput = z.infer<typeof checklistTemplateItemSchema>;
+export type CreateChecklistTemplateInput = z.infer<typeof createChecklistTemplateSchema>;
+export type UpdateChecklistTemplateInput = z.infer<typeof updateChecklistTemplateSchema>;
+export type AttachChecklistInput = z.infer<typeof attachChecklistSchema>;
+export type RecordChecklistItemInput = z.infer<typeof recordChecklistItemSchema>;
@@ -7,6 +7,7 @@ import { z } from 'zod';
 export const createCostTypeSchema = z.object({
   name: z.string().min(1).max(255),
   sort_order: z.number().int().min(0).optional(),
+  burden_percent: z.number().min(0).max(200).nullable().optional(),
 });
 
 /**
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for applying a customer credit to an invoice
+ * When amount is omitted, the lesser of the credit balance and the invoice balance is applied
+ */
+export const applyCreditSchema = z.object({
+  credit_id: z.string().uuid(),
+  amount: z.number().positive().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type ApplyCreditInput = z.infer<typeof applyCreditSchema>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for emailing a document
+ * Recipients default to the customer's email (the vendor's for purchase orders).
+ * Subject and body default to the templates in settings.
+ */
+export const emailDocumentSchema = z.object({
+  to: z.array(z.string().email().max(255)).min(1).max(20).optional(),
+  cc: z.array(z.string().email().max(255)).max(20).optional(),
+  subject: z.string().min(1).max(255).optional(),
+  message: z.string().max(5000).optional(),
+});
+
+/**
+ * Validation schema for the send endpoints (quote, invoice, purchase order)
+ * send_email: false only changes the status, for documents delivered by hand; true requires
+ * a recipient. Left out, the document is emailed when a recipient resolves and otherwise
+ * only its status changes.
+ */
+export const sendDocumentSchema = emailDocumentSchema.extend({
+  send_email: z.boolean().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type EmailDocumentInput = z.infer<typeof emailDocumentSchema>;
+export type SendDocumentInput = z.infer<typeof sendDocumentSchema>;
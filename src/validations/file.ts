@@ -20,10 +20,19 @@ export const ALLOWED_MIME_TYPES = [
 ] as const;
 
 // File entity types (from database enum)
-export const FILE_ENTITY_TYPES = ['settings', 'customer', 'project', 'quote'] as const;
+export const FILE_ENTITY_TYPES = [
+  'settings',
+  'customer',
+  'project',
+  'quote',
+  'invoice',
+  'change_order',
+  'purchase_order',
+  'work_order',
+] as const;
 
 // File kinds (from database enum)
-export const FILE_KINDS = ['photo', 'pdf', 'logo', 'other'] as const;
+export const FILE_KINDS = ['photo', 'pdf', 'logo', 'signature', 'other'] as const;
 
 export type FileEntityType = (typeof FILE_ENTITY_TYPES)[number];
 export type FileKind = (typeof FILE_KINDS)[number];
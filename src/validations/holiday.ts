@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for creating a company holiday
+ */
+export const createHolidaySchema = z.object({
+  holiday_date: z.string().date(),
+  name: z.string().min(1).max(255),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateHolidayInput = z.infer<typeof createHolidaySchema>;
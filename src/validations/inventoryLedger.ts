@@ -15,6 +15,7 @@ export const createInventoryLedgerSchema = z.object({
   unit_cost: z.number().min(0).optional(),
   reference_type: z.string().max(50).optional(),
   reference_id: z.string().uuid().optional(),
+  stock_location_id: z.string().uuid().optional(),
 });
 
 /**
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for moving stock between two locations
+ */
+export const createInventoryTransferSchema = z
+  .object({
+    part_id: z.string().uuid(),
+    from_location_id: z.string().uuid(),
+    to_location_id: z.string().uuid(),
+    qty: z.number().positive(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine((data) => data.from_location_id !== data.to_location_id, {
+    message: 'to_location_id must be different from from_location_id',
+    path: ['to_location_id'],
+  });
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateInventoryTransferInput = z.infer<typeof createInventoryTransferSchema>;
@@ -3,7 +3,13 @@ import { z } from 'zod';
 /**
  * Invoice type enum matching the database enum
  */
-export const invoiceTypeEnum = z.enum(['STANDARD', 'PROGRESS', 'FINAL', 'CHANGE_ORDER']);
+export const invoiceTypeEnum = z.enum([
+  'STANDARD',
+  'PROGRESS',
+  'FINAL',
+  'CHANGE_ORDER',
+  'RETAINAGE_RELEASE',
+]);
 
 /**
  * Invoice status enum matching the database enum
@@ -16,10 +22,12 @@ export const invoiceStatusEnum = z.enum(['DRAFT', 'SENT', 'PAID', 'PARTIAL', 'VO
 export const createInvoiceSchema = z.object({
   project_id: z.string().uuid().optional(),
   work_order_id: z.string().uuid().optional(),
-  invoice_type: invoiceTypeEnum.optional(),
+  // Retainage releases are generated from the project's held balance
+  invoice_type: invoiceTypeEnum.exclude(['RETAINAGE_RELEASE']).optional(),
   invoice_date: z.string().date().optional(),
   due_date: z.string().date().optional(),
   tax_rule_id: z.string().uuid(),
+  retainage_percent: z.number().min(0).max(100).optional(),
 }).refine(data => {
   const hasProject = !!data.project_id;
   const hasWorkOrder = !!data.work_order_id;
@@ -34,6 +42,28 @@ export const updateInvoiceSchema = z.object({
   invoice_date: z.string().date().optional(),
   due_date: z.string().date().optional(),
   tax_rule_id: z.string().uuid().optional(),
+  retainage_percent: z.number().min(0).max(100).optional(),
+});
+
+/**
+ * Validation schema for voiding an invoice
+ */
+export const voidInvoiceSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+/**
+ * Validation schema for generating an invoice from a work order
+ * ACTUALS bills labor, parts, equipment and receipt costs; CONTRACT bills contract_total
+ * labor_rate and markup_percent override the settings defaults
+ */
+export const createWorkOrderInvoiceSchema = z.object({
+  source: z.enum(['ACTUALS', 'CONTRACT']).default('ACTUALS'),
+  tax_rule_id: z.string().uuid(),
+  invoice_date: z.string().date().optional(),
+  due_date: z.string().date().optional(),
+  labor_rate: z.number().min(0).optional(),
+  markup_percent: z.number().min(0).max(1000).optional(),
 });
 
 /**
@@ -41,5 +71,7 @@ export const updateInvoiceSchema = z.object({
  */
 export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>;
 export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>;
+export type VoidInvoiceInput = z.infer<typeof voidInvoiceSchema>;
+export type CreateWorkOrderInvoiceInput = z.infer<typeof createWorkOrderInvoiceSchema>;
 export type InvoiceType = z.infer<typeof invoiceTypeEnum>;
 export type InvoiceStatus = z.infer<typeof invoiceStatusEnum>;
@@ -17,6 +17,13 @@ export const createPartSchema = z.object({
   avg_cost: z.number().min(0).optional(), // Maps to unit_cost concept
   last_cost: z.number().min(0).optional(),
   is_active: z.boolean().optional(),
+  reorder_point: z.number().min(0).nullable().optional(),
+  reorder_qty: z.number().positive().nullable().optional(), // Ordered in multiples when no max_qty
+  max_qty: z.number().positive().nullable().optional(), // Order up to this level
+  preferred_vendor_id: z.string().uuid().nullable().optional(),
+  preferred_vendor_name: z.string().max(255).nullable().optional(),
+  vendor_sku: z.string().max(100).nullable().optional(),
+  vendor_cost: z.number().min(0).nullable().optional(),
 });
 
 /**
@@ -16,8 +16,16 @@ export const recordPaymentSchema = z.object({
   notes: z.string().max(1000).optional(),
 });
 
+/**
+ * Validation schema for voiding or refunding a payment
+ */
+export const reversePaymentSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
 /**
  * TypeScript types inferred from schemas
  */
 export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
+export type ReversePaymentInput = z.infer<typeof reversePaymentSchema>;
 export type PaymentMethod = z.infer<typeof paymentMethodEnum>;
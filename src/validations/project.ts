@@ -17,6 +17,7 @@ export const createProjectSchema = z.object({
   job_state: z.string().max(50).optional(),
   job_zip: z.string().max(20).optional(),
   budget_amount: z.number().min(0).optional(),
+  retainage_percent: z.number().min(0).max(100).optional(),
 });
 
 /**
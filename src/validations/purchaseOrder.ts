@@ -2,19 +2,27 @@ import { z } from 'zod';
 
 /**
  * Validation schema for creating a new purchase order
+ * vendor_name is copied from the vendor when vendor_id is given.
  */
-export const createPurchaseOrderSchema = z.object({
-  vendor_name: z.string().min(1).max(255),
-  po_date: z.string().date().optional(),
-  expected_delivery: z.string().date().optional(),
-  notes: z.string().max(1000).optional(),
-});
+export const createPurchaseOrderSchema = z
+  .object({
+    vendor_id: z.string().uuid().optional(),
+    vendor_name: z.string().min(1).max(255).optional(),
+    po_date: z.string().date().optional(),
+    expected_delivery: z.string().date().optional(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine((data) => data.vendor_id || data.vendor_name, {
+    message: 'Either vendor_id or vendor_name is required',
+    path: ['vendor_id'],
+  });
 
 /**
  * Validation schema for updating an existing purchase order
  * All fields are optional since this is a partial update
  */
 export const updatePurchaseOrderSchema = z.object({
+  vendor_id: z.string().uuid().nullable().optional(),
   vendor_name: z.string().min(1).max(255).optional(),
   po_date: z.string().date().optional(),
   expected_delivery: z.string().date().optional(),
@@ -37,10 +37,25 @@ export const updateQuoteSchema = z.object({
   valid_until: z.string().date().optional(),
 });
 
+/**
+ * Validation schema for invoicing an accepted quote
+ * DEPOSIT bills deposit_percent of the quote; FULL bills whatever percentage is still unbilled
+ */
+export const createQuoteInvoiceSchema = z.object({
+  billing: z.enum(['FULL', 'DEPOSIT']).default('FULL'),
+  deposit_percent: z.number().positive().max(100).optional(),
+  invoice_date: z.string().date().optional(),
+  due_date: z.string().date().optional(),
+}).refine(data => data.billing !== 'DEPOSIT' || data.deposit_percent !== undefined, {
+  message: 'deposit_percent is required when billing a deposit',
+  path: ['deposit_percent'],
+});
+
 /**
  * TypeScript types inferred from schemas
  */
 export type CreateQuoteInput = z.infer<typeof createQuoteSchema>;
 export type UpdateQuoteInput = z.infer<typeof updateQuoteSchema>;
+export type CreateQuoteInvoiceInput = z.infer<typeof createQuoteInvoiceSchema>;
 export type QuoteType = z.infer<typeof quoteTypeEnum>;
 export type QuoteStatus = z.infer<typeof quoteStatusEnum>;
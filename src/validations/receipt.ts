@@ -8,6 +8,7 @@ export const createReceiptSchema = z.object({
   total_amount: z.number().positive(),
   qb_source_entity: z.string().max(100).optional(),
   qb_source_id: z.string().max(100).optional(),
+  vendor_id: z.string().uuid().optional(),
   vendor_name: z.string().min(1).max(255).optional(),
   receipt_date: z.string().date().optional(),
   notes: z.string().max(1000).optional(),
@@ -18,6 +19,7 @@ export const createReceiptSchema = z.object({
  * All fields are optional since this is a partial update
  */
 export const updateReceiptSchema = z.object({
+  vendor_id: z.string().uuid().nullable().optional(),
   vendor_name: z.string().min(1).max(255).optional(),
   receipt_date: z.string().date().optional(),
   total_amount: z.number().positive().optional(),
@@ -13,6 +13,7 @@ export const receiveLineSchema = z.object({
  */
 export const receivePurchaseOrderSchema = z.object({
   lines: z.array(receiveLineSchema).min(1),
+  stock_location_id: z.string().uuid().optional(),
 });
 
 /**
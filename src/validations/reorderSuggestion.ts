@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for generating purchase orders from reorder suggestions
+ * Without part_ids, every suggested part with a preferred vendor is ordered.
+ */
+export const generatePurchaseOrdersSchema = z.object({
+  part_ids: z.array(z.string().uuid()).min(1).optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type GeneratePurchaseOrdersInput = z.infer<typeof generatePurchaseOrdersSchema>;
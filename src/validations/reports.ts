@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { MAX_AVAILABILITY_RANGE_DAYS } from '@/validations/schedule.js';
 
 /**
  * Validation schema for job costing report query parameters
@@ -51,6 +52,25 @@ export const dateRangeSchema = z.object({
   return true;
 }, { message: 'date_to must be after date_from' });
 
+/**
+ * Validation schema for the tech workload dashboard
+ * Available hours are worked out day by day, so the range is capped like availability
+ * queries are.
+ */
+export const techWorkloadQuerySchema = dateRangeSchema.refine(
+  (data) => {
+    if (data.date_from && data.date_to) {
+      const days =
+        (new Date(data.date_to).getTime() - new Date(data.date_from).getTime()) /
+          (24 * 60 * 60 * 1000) +
+        1;
+      return days <= MAX_AVAILABILITY_RANGE_DAYS;
+    }
+    return true;
+  },
+  { message: `Range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days` }
+);
+
 /**
  * Period schema for time-based grouping
  */
@@ -78,6 +98,42 @@ export const reportQuerySchema = dateRangeSchema.extend({
   group_by: groupBySchema.optional(),
 });
 
+/**
+ * Validation schema for the checklist failures report
+ * Dates filter on when the item was answered
+ */
+export const checklistFailuresQuerySchema = dateRangeSchema.extend({
+  template_id: z.string().uuid().optional(),
+  work_type: z.string().optional(),
+});
+
+/**
+ * Validation schema for the inventory valuation report
+ * as_of defaults to today
+ */
+export const inventoryValuationQuerySchema = z.object({
+  as_of: z.string().date().optional(),
+  category_id: z.string().uuid().optional(),
+  cost_type_id: z.string().uuid().optional(),
+});
+
+/**
+ * Validation schema for the stock status report
+ */
+export const stockStatusQuerySchema = z.object({
+  part_id: z.string().uuid().optional(),
+  category_id: z.string().uuid().optional(),
+});
+
+/**
+ * Validation schema for the vendor spend report
+ * Dates filter on po_date and receipt_date; period defaults to month
+ */
+export const vendorSpendQuerySchema = dateRangeSchema.extend({
+  period: periodSchema.optional(),
+  vendor_id: z.string().uuid().optional(),
+});
+
 /**
  * TypeScript types inferred from schemas
  */
@@ -85,5 +141,10 @@ export type JobCostingQuery = z.infer<typeof jobCostingQuerySchema>;
 export type ProfitLossQuery = z.infer<typeof profitLossQuerySchema>;
 export type JobCostDetailQuery = z.infer<typeof jobCostDetailQuerySchema>;
 export type DateRangeQuery = z.infer<typeof dateRangeSchema>;
+export type TechWorkloadQuery = z.infer<typeof techWorkloadQuerySchema>;
 export type DashboardQuery = z.infer<typeof dashboardQuerySchema>;
 export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ChecklistFailuresQuery = z.infer<typeof checklistFailuresQuerySchema>;
+export type InventoryValuationQuery = z.infer<typeof inventoryValuationQuerySchema>;
+export type StockStatusQuery = z.infer<typeof stockStatusQuerySchema>;
+export type VendorSpendQuery = z.infer<typeof vendorSpendQuerySchema>;
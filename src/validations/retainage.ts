@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for generating a retainage release invoice
+ * When amount is omitted, the project's full retainage held is released
+ */
+export const releaseRetainageSchema = z.object({
+  tax_rule_id: z.string().uuid(),
+  invoice_date: z.string().date().optional(),
+  due_date: z.string().date().optional(),
+  amount: z.number().positive().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type ReleaseRetainageInput = z.infer<typeof releaseRetainageSchema>;
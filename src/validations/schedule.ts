@@ -2,12 +2,14 @@ import { z } from 'zod';
 
 /**
  * Validation schema for creating a new schedule entry
+ * override_conflicts (OFFICE/ADMIN only) books the slot even if the tech is already booked
  */
 export const createScheduleSchema = z
   .object({
     tech_user_id: z.string().uuid(),
     start_at: z.string().datetime(),
     end_at: z.string().datetime(),
+    override_conflicts: z.boolean().optional(),
   })
   .refine((data) => new Date(data.end_at) > new Date(data.start_at), {
     message: 'end_at must be after start_at',
@@ -22,6 +24,7 @@ export const updateScheduleSchema = z
     tech_user_id: z.string().uuid().optional(),
     start_at: z.string().datetime().optional(),
     end_at: z.string().datetime().optional(),
+    override_conflicts: z.boolean().optional(),
   })
   .refine(
     (data) => {
@@ -36,8 +39,64 @@ export const updateScheduleSchema = z
     }
   );
 
+/**
+ * Maximum span of an availability query, in days
+ */
+export const MAX_AVAILABILITY_RANGE_DAYS = 31;
+
+/**
+ * Validation schema for technician availability query parameters
+ * tech_user_ids is a comma-separated list; omitted means all active techs
+ */
+export const scheduleAvailabilityQuerySchema = z
+  .object({
+    start_at: z.string().datetime(),
+    end_at: z.string().datetime(),
+    tech_user_ids: z
+      .string()
+      .transform((value) =>
+        value
+          .split(',')
+          .map((id) => id.trim())
+          .filter((id) => id)
+      )
+      .pipe(z.array(z.string().uuid()).min(1))
+      .optional(),
+  })
+  .refine((data) => new Date(data.end_at) > new Date(data.start_at), {
+    message: 'end_at must be after start_at',
+  })
+  .refine(
+    (data) =>
+      new Date(data.end_at).getTime() - new Date(data.start_at).getTime() <=
+      MAX_AVAILABILITY_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    { message: `Range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days` }
+  );
+
+/**
+ * Validation schema for dispatch board query parameters
+ * view=week covers Monday through Sunday of the week containing date (default today in the
+ * company time zone)
+ */
+export const dispatchBoardQuerySchema = z.object({
+  date: z.string().date().optional(),
+  view: z.enum(['day', 'week']).default('day'),
+  tech_user_ids: z
+    .string()
+    .transform((value) =>
+      value
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id)
+    )
+    .pipe(z.array(z.string().uuid()).min(1))
+    .optional(),
+});
+
 /**
  * TypeScript types inferred from schemas
  */
 export type CreateScheduleInput = z.infer<typeof createScheduleSchema>;
 export type UpdateScheduleInput = z.infer<typeof updateScheduleSchema>;
+export type ScheduleAvailabilityQuery = z.infer<typeof scheduleAvailabilityQuerySchema>;
+export type DispatchBoardQuery = z.infer<typeof dispatchBoardQuerySchema>;
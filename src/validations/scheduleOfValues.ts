@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for adding a manual schedule of values line
+ */
+export const createSovLineSchema = z.object({
+  description: z.string().min(1).max(500),
+  scheduled_value: z.number().min(0),
+});
+
+/**
+ * Validation schema for updating a schedule of values line
+ */
+export const updateSovLineSchema = createSovLineSchema.partial();
+
+/**
+ * Validation schema for one line of a progress billing request
+ * Work this period is given either as a cumulative percent complete
+ * or as an amount; stored_materials is the balance presently stored
+ */
+export const progressLineInputSchema = z
+  .object({
+    sov_line_id: z.string().uuid(),
+    percent_complete: z.number().min(0).max(100).optional(),
+    amount_this_period: z.number().min(0).optional(),
+    stored_materials: z.number().min(0).optional(),
+  })
+  .refine((data) => data.percent_complete === undefined || data.amount_this_period === undefined, {
+    message: 'Provide either percent_complete or amount_this_period, not both',
+  });
+
+/**
+ * Validation schema for generating a progress invoice
+ * A FINAL invoice bills the remaining balance of every line, so lines are optional
+ */
+export const createProgressInvoiceSchema = z
+  .object({
+    invoice_type: z.enum(['PROGRESS', 'FINAL']).optional(),
+    invoice_date: z.string().date().optional(),
+    due_date: z.string().date().optional(),
+    tax_rule_id: z.string().uuid(),
+    lines: z.array(progressLineInputSchema).default([]),
+  })
+  .refine((data) => data.invoice_type === 'FINAL' || data.lines.length > 0, {
+    message: 'At least one line is required for a PROGRESS invoice',
+  });
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateSovLineInput = z.infer<typeof createSovLineSchema>;
+export type UpdateSovLineInput = z.infer<typeof updateSovLineSchema>;
+export type ProgressLineInput = z.infer<typeof progressLineInputSchema>;
+export type CreateProgressInvoiceInput = z.infer<typeof createProgressInvoiceSchema>;
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+/**
+ * Service agreement billing frequency enum
+ */
+export const serviceAgreementFrequencyEnum = z.enum([
+  'MONTHLY',
+  'QUARTERLY',
+  'SEMI_ANNUAL',
+  'ANNUAL',
+]);
+
+/**
+ * Service agreement status enum
+ */
+export const serviceAgreementStatusEnum = z.enum(['ACTIVE', 'PAUSED', 'CANCELED']);
+
+/**
+ * Validation schema for one line of an agreement's invoice template
+ */
+export const serviceAgreementLineSchema = z.object({
+  part_id: z.string().uuid().nullable().optional(),
+  description: z.string().min(1).max(500),
+  uom: z.string().max(20).optional(),
+  qty: z.number().positive(),
+  unit_price: z.number().min(0),
+  is_taxable: z.boolean().optional(),
+});
+
+/**
+ * Validation schema for creating a service agreement
+ * Either amount (billed as a single line) or line_template must be provided;
+ * with a template the amount is the sum of its lines
+ */
+export const createServiceAgreementSchema = z
+  .object({
+    customer_id: z.string().uuid(),
+    location_id: z.string().uuid(),
+    name: z.string().min(1).max(255),
+    frequency: serviceAgreementFrequencyEnum,
+    amount: z.number().positive().optional(),
+    line_template: z.array(serviceAgreementLineSchema).min(1).optional(),
+    tax_rule_id: z.string().uuid(),
+    start_date: z.string().date(),
+    end_date: z.string().date().optional(),
+    due_days: z.number().int().min(0).max(365).optional(),
+    auto_send: z.boolean().optional(),
+    notes: z.string().max(5000).optional(),
+  })
+  .refine((data) => data.amount !== undefined || data.line_template !== undefined, {
+    message: 'Either amount or line_template must be provided',
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: 'end_date must be on or after start_date',
+    path: ['end_date'],
+  });
+
+/**
+ * Validation schema for updating a service agreement
+ * next_billing_date can be moved forward to skip periods (e.g. after a pause)
+ */
+export const updateServiceAgreementSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  amount: z.number().positive().optional(),
+  line_template: z.array(serviceAgreementLineSchema).min(1).optional(),
+  tax_rule_id: z.string().uuid().optional(),
+  end_date: z.string().date().nullable().optional(),
+  next_billing_date: z.string().date().optional(),
+  due_days: z.number().int().min(0).max(365).optional(),
+  auto_send: z.boolean().optional(),
+  status: serviceAgreementStatusEnum.optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+/**
+ * Validation schema for triggering agreement billing
+ * Bills every period starting on or before as_of (default: today)
+ */
+export const runAgreementBillingSchema = z.object({
+  service_agreement_id: z.string().uuid().optional(),
+  as_of: z.string().date().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type ServiceAgreementLineInput = z.infer<typeof serviceAgreementLineSchema>;
+export type CreateServiceAgreementInput = z.infer<typeof createServiceAgreementSchema>;
+export type UpdateServiceAgreementInput = z.infer<typeof updateServiceAgreementSchema>;
+export type RunAgreementBillingInput = z.infer<typeof runAgreementBillingSchema>;
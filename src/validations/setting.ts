@@ -4,20 +4,61 @@ import { z } from 'zod';
  * Validation schema for updating settings
  * Settings is a single-row configuration table
  */
-export const updateSettingsSchema = z.object({
-  company_name: z.string().max(255).optional(),
-  company_phone: z.string().max(50).optional(),
-  company_email: z.string().email().max(255).optional(),
-  company_address: z.string().max(500).optional(),
-  default_quote_terms: z.string().max(5000).optional(),
-  default_tax_rule_id: z.string().uuid().optional(),
-  customer_number_prefix: z.string().max(10).optional(),
-  project_number_prefix: z.string().max(10).optional(),
-  quote_number_prefix: z.string().max(10).optional(),
-  work_order_number_prefix: z.string().max(10).optional(),
-  change_order_number_prefix: z.string().max(10).optional(),
-  default_labor_rate: z.number().min(0).optional(),
-});
+export const updateSettingsSchema = z
+  .object({
+    company_name: z.string().max(255).optional(),
+    company_phone: z.string().max(50).optional(),
+    company_email: z.string().email().max(255).optional(),
+    company_address: z.string().max(500).optional(),
+    default_quote_terms: z.string().max(5000).optional(),
+    default_tax_rule_id: z.string().uuid().optional(),
+    customer_number_prefix: z.string().max(10).optional(),
+    project_number_prefix: z.string().max(10).optional(),
+    quote_number_prefix: z.string().max(10).optional(),
+    work_order_number_prefix: z.string().max(10).optional(),
+    change_order_number_prefix: z.string().max(10).optional(),
+    default_labor_rate: z.number().min(0).optional(),
+    default_bill_rate: z.number().min(0).optional(),
+    default_markup_percent: z.number().min(0).max(1000).optional(),
+    ot_daily_threshold_hours: z.number().positive().max(24).nullable().optional(),
+    dt_daily_threshold_hours: z.number().positive().max(24).nullable().optional(),
+    ot_weekly_threshold_hours: z.number().positive().max(168).nullable().optional(),
+    ot_multiplier: z.number().min(1).max(10).optional(),
+    dt_multiplier: z.number().min(1).max(10).optional(),
+    holiday_multiplier: z.number().min(1).max(10).nullable().optional(),
+    invoice_email_subject: z.string().max(255).nullable().optional(),
+    invoice_email_body: z.string().max(5000).nullable().optional(),
+    quote_email_subject: z.string().max(255).nullable().optional(),
+    quote_email_body: z.string().max(5000).nullable().optional(),
+    purchase_order_email_subject: z.string().max(255).nullable().optional(),
+    purchase_order_email_body: z.string().max(5000).nullable().optional(),
+    time_zone: z
+      .string()
+      .max(64)
+      .refine(
+        (value) => {
+          try {
+            new Intl.DateTimeFormat('en-US', { timeZone: value });
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'Must be an IANA time zone, e.g. America/Chicago' }
+      )
+      .optional(),
+    default_stock_location_id: z.string().uuid().nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.ot_daily_threshold_hours == null ||
+      data.dt_daily_threshold_hours == null ||
+      data.dt_daily_threshold_hours > data.ot_daily_threshold_hours,
+    {
+      message: 'dt_daily_threshold_hours must be above ot_daily_threshold_hours',
+      path: ['dt_daily_threshold_hours'],
+    }
+  );
 
 /**
  * TypeScript type inferred from schema
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * Enum for stock location types (matches database enum)
+ */
+const stockLocationTypeEnum = z.enum(['WAREHOUSE', 'TRUCK', 'JOB_SITE']);
+
+/**
+ * Validation schema for creating a stock location
+ * A TRUCK belongs to one tech; a JOB_SITE can be tied to a project.
+ */
+export const createStockLocationSchema = z
+  .object({
+    name: z.string().min(1).max(255),
+    location_type: stockLocationTypeEnum,
+    tech_user_id: z.string().uuid().nullable().optional(),
+    project_id: z.string().uuid().nullable().optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((data) => data.location_type !== 'TRUCK' || data.tech_user_id, {
+    message: 'tech_user_id is required for a TRUCK location',
+    path: ['tech_user_id'],
+  });
+
+/**
+ * Validation schema for updating a stock location
+ * The location type can't change once stock may have moved through it.
+ */
+export const updateStockLocationSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  tech_user_id: z.string().uuid().nullable().optional(),
+  project_id: z.string().uuid().nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateStockLocationInput = z.infer<typeof createStockLocationSchema>;
+export type UpdateStockLocationInput = z.infer<typeof updateStockLocationSchema>;
+export type StockLocationType = z.infer<typeof stockLocationTypeEnum>;
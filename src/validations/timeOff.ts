@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * Time-off request statuses
+ */
+export const timeOffStatusEnum = z.enum(['PENDING', 'APPROVED', 'DENIED']);
+
+/**
+ * Validation schema for requesting time off
+ * employee_id defaults to the requesting employee; only OFFICE/ADMIN may set another
+ */
+export const createTimeOffSchema = z
+  .object({
+    employee_id: z.string().uuid().optional(),
+    start_at: z.string().datetime(),
+    end_at: z.string().datetime(),
+    reason: z.string().max(1000).optional(),
+  })
+  .refine((data) => new Date(data.end_at) > new Date(data.start_at), {
+    message: 'end_at must be after start_at',
+  });
+
+/**
+ * Validation schema for time-off list query parameters
+ */
+export const timeOffQuerySchema = z.object({
+  employee_id: z.string().uuid().optional(),
+  status: timeOffStatusEnum.optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateTimeOffInput = z.infer<typeof createTimeOffSchema>;
+export type TimeOffQuery = z.infer<typeof timeOffQuerySchema>;
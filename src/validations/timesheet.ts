@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+/**
+ * Timesheet statuses
+ */
+export const timesheetStatusEnum = z.enum(['SUBMITTED', 'APPROVED', 'REJECTED']);
+
+/**
+ * Week start date (YYYY-MM-DD, must be a Monday)
+ */
+const weekStartSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)')
+  .refine((value) => new Date(`${value}T00:00:00Z`).getUTCDay() === 1, {
+    message: 'week_start must be a Monday',
+  });
+
+/**
+ * Validation schema for submitting a week's timesheet
+ * tech_user_id defaults to the requesting employee; only OFFICE/ADMIN may set another
+ */
+export const submitTimesheetSchema = z.object({
+  tech_user_id: z.string().uuid().optional(),
+  week_start: weekStartSchema,
+});
+
+/**
+ * Validation schema for approving a timesheet
+ */
+export const approveTimesheetSchema = z.object({
+  review_notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Validation schema for rejecting a timesheet (the tech needs to know what to fix)
+ */
+export const rejectTimesheetSchema = z.object({
+  review_notes: z.string().min(1).max(1000),
+});
+
+/**
+ * Validation schema for timesheet list query parameters
+ */
+export const timesheetQuerySchema = z.object({
+  tech_user_id: z.string().uuid().optional(),
+  status: timesheetStatusEnum.optional(),
+  week_start: weekStartSchema.optional(),
+});
+
+/**
+ * Validation schema for correcting a time entry in a locked week
+ */
+export const createTimeEntryAdjustmentSchema = z
+  .object({
+    clock_in_at: z.string().datetime().optional(),
+    clock_out_at: z.string().datetime().optional(),
+    break_minutes: z.number().int().min(0).max(480).optional(),
+    reason: z.string().min(1).max(1000),
+  })
+  .refine(
+    (data) =>
+      data.clock_in_at !== undefined ||
+      data.clock_out_at !== undefined ||
+      data.break_minutes !== undefined,
+    { message: 'At least one of clock_in_at, clock_out_at or break_minutes must be provided' }
+  );
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type SubmitTimesheetInput = z.infer<typeof submitTimesheetSchema>;
+export type ApproveTimesheetInput = z.infer<typeof approveTimesheetSchema>;
+export type RejectTimesheetInput = z.infer<typeof rejectTimesheetSchema>;
+export type TimesheetQuery = z.infer<typeof timesheetQuerySchema>;
+export type CreateTimeEntryAdjustmentInput = z.infer<typeof createTimeEntryAdjustmentSchema>;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for creating a new vendor
+ */
+export const createVendorSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  contact_name: z.string().max(255).nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  street: z.string().max(255).nullable().optional(),
+  city: z.string().max(100).nullable().optional(),
+  state: z.string().max(50).nullable().optional(),
+  zip: z.string().max(20).nullable().optional(),
+  payment_terms_days: z.number().int().min(0).max(365).nullable().optional(), // Net days
+  tax_id: z.string().max(50).nullable().optional(),
+  default_cost_code_id: z.string().uuid().nullable().optional(),
+  qbo_vendor_ref: z.string().max(100).nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+/**
+ * Validation schema for updating an existing vendor
+ * All fields are optional since this is a partial update
+ */
+export const updateVendorSchema = createVendorSchema.partial();
+
+/**
+ * Validation schema for linking existing vendor_name text to vendor records
+ * With create_missing, names that match no vendor get a new vendor; with dry_run nothing
+ * is written.
+ */
+export const matchVendorNamesSchema = z.object({
+  create_missing: z.boolean().optional(),
+  dry_run: z.boolean().optional(),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateVendorInput = z.infer<typeof createVendorSchema>;
+export type UpdateVendorInput = z.infer<typeof updateVendorSchema>;
+export type MatchVendorNamesInput = z.infer<typeof matchVendorNamesSchema>;
@@ -23,6 +23,7 @@ export const createWorkOrderSchema = z.object({
   priority: z.number().int().min(1).max(5).optional(),
   status: workOrderStatusEnum.optional(),
   assigned_to: z.string().uuid().optional(),
+  work_type: z.string().min(1).max(100).optional(),
   requested_window_start: z.string().datetime().optional(),
   requested_window_end: z.string().datetime().optional(),
 });
@@ -37,6 +38,7 @@ export const updateWorkOrderSchema = z.object({
   priority: z.number().int().min(1).max(5).optional(),
   status: workOrderStatusEnum.optional(),
   assigned_to: z.string().uuid().nullable().optional(),
+  work_type: z.string().min(1).max(100).nullable().optional(),
   requested_window_start: z.string().datetime().nullable().optional(),
   requested_window_end: z.string().datetime().nullable().optional(),
   contract_subtotal: z.number().min(0).optional(),
@@ -44,9 +46,17 @@ export const updateWorkOrderSchema = z.object({
   contract_total: z.number().min(0).optional(),
 });
 
+/**
+ * Validation schema for the office review of a job sign-off
+ */
+export const reviewCompletionSchema = z.object({
+  review_notes: z.string().max(2000).optional(),
+});
+
 /**
  * TypeScript types inferred from schemas
  */
 export type CreateWorkOrderInput = z.infer<typeof createWorkOrderSchema>;
 export type UpdateWorkOrderInput = z.infer<typeof updateWorkOrderSchema>;
+export type ReviewCompletionInput = z.infer<typeof reviewCompletionSchema>;
 export type WorkOrderStatus = z.infer<typeof workOrderStatusEnum>;
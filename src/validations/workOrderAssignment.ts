@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Crew role enum
+ */
+const assignmentRoleEnum = z.enum(['LEAD', 'HELPER']);
+
+/**
+ * Validation schema for adding a crew member to a work order
+ */
+export const createAssignmentSchema = z.object({
+  employee_id: z.string().uuid(),
+  role: assignmentRoleEnum.optional().default('HELPER'),
+});
+
+/**
+ * Validation schema for changing a crew member's role
+ */
+export const updateAssignmentSchema = z.object({
+  role: assignmentRoleEnum,
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>;
+export type UpdateAssignmentInput = z.infer<typeof updateAssignmentSchema>;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be HH:MM (24-hour)');
+
+/**
+ * Validation schema for one weekday shift
+ * weekday: 0 = Sunday ... 6 = Saturday; times are in the company time zone
+ */
+export const workingHoursEntrySchema = z
+  .object({
+    weekday: z.number().int().min(0).max(6),
+    start_time: timeOfDay,
+    end_time: timeOfDay,
+  })
+  .refine((data) => data.end_time > data.start_time, {
+    message: 'end_time must be after start_time',
+  });
+
+/**
+ * Validation schema for replacing an employee's weekly working hours
+ * Weekdays left out are days off; an empty list reverts to the default shift
+ */
+export const setWorkingHoursSchema = z.object({
+  hours: z
+    .array(workingHoursEntrySchema)
+    .max(7)
+    .refine((hours) => new Set(hours.map((entry) => entry.weekday)).size === hours.length, {
+      message: 'Each weekday can only appear once',
+    }),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type WorkingHoursEntryInput = z.infer<typeof workingHoursEntrySchema>;
+export type SetWorkingHoursInput = z.infer<typeof setWorkingHoursSchema>;
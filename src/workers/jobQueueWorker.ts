@@ -1,10 +1,15 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { createServerClient } from '@/db/client.js';
+import { enqueueJob } from '@/services/jobQueue.js';
 import { env } from '@/config/env.js';
 import { processTimeCostPost } from './processors/timeCostPost.js';
 import { processQboWebhookEvent } from './processors/qboWebhook.js';
 import { processQboPushCustomer, processQboPushProject } from './processors/qboPush.js';
 import { processPmAppWebhook } from './processors/pmAppWebhook.js';
+import { processServiceAgreementBilling } from './processors/serviceAgreementBilling.js';
+import { processDocumentPdfRender } from './processors/documentPdf.js';
+import { processDocumentEmailSend } from './processors/documentEmail.js';
+import { processReorderSuggestionsRefresh } from './processors/reorderSuggestions.js';
 import { randomUUID } from 'crypto';
 import os from 'os';
 
@@ -55,10 +60,27 @@ export class JobQueueWorker {
     console.log(`Polling interval: ${this.pollIntervalMs}ms`);
     console.log(`Batch size: ${this.batchSize}`);
 
+    void this.seedRecurringJobs();
+
     // Start polling
     void this.poll();
   }
 
+  /**
+   * Queue the daily service agreement billing sweep and the reorder suggestions refresh
+   * unless one of each is already pending
+   * Each run schedules the next day's, so this only starts the cycles on a fresh queue.
+   */
+  private async seedRecurringJobs(): Promise<void> {
+    for (const jobType of ['service_agreement_billing', 'reorder_suggestions_refresh']) {
+      const { error } = await enqueueJob(this.supabase, jobType, {});
+
+      if (error) {
+        console.error(`Error seeding ${jobType} job:`, error);
+      }
+    }
+  }
+
   /**
    * Stop the worker
    */
@@ -190,6 +212,18 @@ export class JobQueueWorker {
       case 'process_pm_app_webhook':
         await processPmAppWebhook(this.supabase, job.payload);
         break;
+      case 'service_agreement_billing':
+        await processServiceAgreementBilling(this.supabase, job.payload);
+        break;
+      case 'document_pdf_render':
+        await processDocumentPdfRender(this.supabase, job.payload);
+        break;
+      case 'document_email_send':
+        await processDocumentEmailSend(this.supabase, job.payload);
+        break;
+      case 'reorder_suggestions_refresh':
+        await processReorderSuggestionsRefresh(this.supabase, job.payload);
+        break;
       default:
         throw new Error(`Unknown job type: ${job.job_type}`);
     }
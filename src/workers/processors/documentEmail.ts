@@ -0,0 +1,123 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { env } from '@/config/env.js';
+import { DocumentEmail } from '@/types/database.js';
+import { generateDocumentPdf, readStoredFile } from '@/services/documents/index.js';
+import { EmailDocumentType } from '@/services/documents/email.js';
+import { getEmailProvider } from '@/services/email/index.js';
+
+const DOCUMENT_NUMBER_COLUMNS: Record<EmailDocumentType, { table: string; column: string }> = {
+  invoice: { table: 'invoices', column: 'invoice_no' },
+  quote: { table: 'quotes', column: 'quote_no' },
+  purchase_order: { table: 'purchase_orders', column: 'po_no' },
+};
+
+/**
+ * Process document email send job
+ * Renders the document PDF, sends the queued message with it attached and
+ * records the delivery status and the attached file on the document_emails row.
+ */
+export async function processDocumentEmailSend(
+  supabase: SupabaseClient,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const documentEmailId = payload.document_email_id as string | undefined;
+
+  if (!documentEmailId) {
+    throw new Error('Missing document_email_id in payload');
+  }
+
+  const { data: email, error } = await supabase
+    .from('document_emails')
+    .select('*')
+    .eq('id', documentEmailId)
+    .single<DocumentEmail>();
+
+  if (error) {
+    throw new Error(`Failed to fetch document email ${documentEmailId}: ${error.message}`);
+  }
+
+  // Retried jobs must not deliver the same message twice
+  if (email.status === 'SENT') {
+    return;
+  }
+
+  const documentType = email.document_type as EmailDocumentType;
+  const attempts = email.attempts + 1;
+
+  try {
+    const { table, column } = DOCUMENT_NUMBER_COLUMNS[documentType];
+    const { data: document, error: documentError } = await supabase
+      .from(table)
+      .select(column)
+      .eq('id', email.document_id)
+      .single<Record<string, string>>();
+
+    if (documentError) {
+      throw new Error(`Failed to fetch ${documentType}: ${documentError.message}`);
+    }
+
+    // Render now so the attachment reflects the sent document
+    const { data: pdfFile, error: pdfError } = await generateDocumentPdf(
+      supabase,
+      documentType,
+      email.document_id,
+      null
+    );
+
+    if (pdfError || !pdfFile) {
+      throw new Error(`Failed to render PDF: ${pdfError?.message}`);
+    }
+
+    const pdf = await readStoredFile(pdfFile.storage_path);
+
+    const { data: settings } = await supabase
+      .from('settings')
+      .select('company_name, company_email')
+      .limit(1)
+      .single<{ company_name: string; company_email: string | null }>();
+
+    const providerMessageId = await getEmailProvider().sendMail({
+      from: settings?.company_name
+        ? `"${settings.company_name.replace(/"/g, '')}" <${env.EMAIL_FROM}>`
+        : env.EMAIL_FROM,
+      replyTo: settings?.company_email ?? null,
+      to: email.to_emails,
+      cc: email.cc_emails,
+      subject: email.subject,
+      text: email.body,
+      attachments: [
+        {
+          filename: `${document[column]}.pdf`,
+          content: pdf,
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+
+    const { error: updateError } = await supabase
+      .from('document_emails')
+      .update({
+        status: 'SENT',
+        attempts,
+        provider_message_id: providerMessageId,
+        error_message: null,
+        pdf_file_id: pdfFile.id,
+        sent_at: new Date().toISOString(),
+      })
+      .eq('id', email.id);
+
+    if (updateError) {
+      // The message went out; a retry would send it again
+      console.error('Error recording document email delivery:', updateError);
+    }
+  } catch (sendError) {
+    const message = sendError instanceof Error ? sendError.message : String(sendError);
+
+    await supabase
+      .from('document_emails')
+      .update({ status: 'FAILED', attempts, error_message: message })
+      .eq('id', email.id);
+
+    throw new Error(`Failed to send document email ${email.id}: ${message}`);
+  }
+}
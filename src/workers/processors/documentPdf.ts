@@ -0,0 +1,30 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentType, generateDocumentPdf } from '@/services/documents/index.js';
+
+const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'quote', 'change_order', 'purchase_order'];
+
+/**
+ * Process document PDF render job
+ * Re-renders the PDF for an invoice, quote, change order or purchase order
+ */
+export async function processDocumentPdfRender(
+  supabase: SupabaseClient,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const documentType = payload.document_type as DocumentType | undefined;
+  const documentId = payload.document_id as string | undefined;
+
+  if (!documentType || !DOCUMENT_TYPES.includes(documentType)) {
+    throw new Error(`Invalid document_type in payload: ${String(documentType)}`);
+  }
+
+  if (!documentId) {
+    throw new Error('Missing document_id in payload');
+  }
+
+  const { error } = await generateDocumentPdf(supabase, documentType, documentId, null);
+
+  if (error) {
+    throw new Error(`Failed to render ${documentType} ${documentId}: ${error.message}`);
+  }
+}
@@ -0,0 +1,51 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { refreshReorderSuggestions } from '@/services/reorderSuggestions.js';
+
+/**
+ * Queue the next nightly refresh unless one is already waiting
+ */
+async function scheduleNextRefresh(supabase: SupabaseClient): Promise<void> {
+  const now = new Date();
+
+  const { data: pending } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('job_type', 'reorder_suggestions_refresh')
+    .eq('status', 'PENDING')
+    .gt('run_after', now.toISOString())
+    .limit(1);
+
+  if (pending && pending.length > 0) {
+    return;
+  }
+
+  const nextRun = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+  const { error } = await supabase.from('job_queue').insert({
+    job_type: 'reorder_suggestions_refresh',
+    payload: {},
+    status: 'PENDING',
+    run_after: nextRun.toISOString(),
+  });
+
+  if (error) {
+    console.error('Error scheduling next reorder suggestions refresh:', error);
+  }
+}
+
+/**
+ * Process reorder suggestions refresh job
+ * Rebuilds the reorder suggestion list and queues the next nightly run.
+ */
+export async function processReorderSuggestionsRefresh(
+  supabase: SupabaseClient,
+  _payload: Record<string, unknown>
+): Promise<void> {
+  await scheduleNextRefresh(supabase);
+
+  const { error } = await refreshReorderSuggestions(supabase);
+
+  if (error) {
+    throw new Error(`Failed to refresh reorder suggestions: ${error.message}`);
+  }
+}
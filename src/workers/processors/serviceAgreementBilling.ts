@@ -0,0 +1,336 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ServiceAgreement,
+  ServiceAgreementFrequency,
+  ServiceAgreementLineTemplate,
+} from '@/types/database.js';
+import { getNextInvoiceNumber, recalculateInvoiceTotals } from '@/services/invoices.js';
+import { queueDocumentPdf } from '@/services/documents/index.js';
+import { prepareDocumentEmail, queueDocumentEmail } from '@/services/documents/email.js';
+
+const FREQUENCY_MONTHS: Record<ServiceAgreementFrequency, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMI_ANNUAL: 6,
+  ANNUAL: 12,
+};
+
+// Upper bound on periods walked per agreement, guards against bad start dates
+const MAX_PERIODS = 1200;
+
+/**
+ * Add calendar months to a YYYY-MM-DD date, clamping to the last day of the month
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const target = new Date(`${date}T00:00:00Z`);
+  target.setUTCDate(target.getUTCDate() + days);
+  return target.toISOString().split('T')[0];
+}
+
+/**
+ * Queue the next daily billing sweep unless one is already waiting
+ */
+async function scheduleNextSweep(supabase: SupabaseClient): Promise<void> {
+  const now = new Date();
+
+  const { data: pending } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('job_type', 'service_agreement_billing')
+    .eq('status', 'PENDING')
+    .gt('run_after', now.toISOString())
+    .limit(1);
+
+  if (pending && pending.length > 0) {
+    return;
+  }
+
+  const nextRun = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+  const { error } = await supabase.from('job_queue').insert({
+    job_type: 'service_agreement_billing',
+    payload: {},
+    status: 'PENDING',
+    run_after: nextRun.toISOString(),
+  });
+
+  if (error) {
+    console.error('Error scheduling next service agreement billing run:', error);
+  }
+}
+
+/**
+ * Create the invoice for one agreement period and record it in the billing history
+ * Returns false when the period turned out to be billed already
+ */
+async function billPeriod(
+  supabase: SupabaseClient,
+  agreement: ServiceAgreement,
+  periodStart: string,
+  periodEnd: string,
+  idempotencyKey: string
+): Promise<boolean> {
+  const { invoiceNo, error: numberError } = await getNextInvoiceNumber(supabase);
+
+  if (numberError || !invoiceNo) {
+    throw new Error('Failed to generate invoice number');
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .insert({
+      service_agreement_id: agreement.id,
+      invoice_type: 'STANDARD',
+      invoice_date: periodStart,
+      due_date: addDays(periodStart, agreement.due_days ?? 30),
+      tax_rule_id: agreement.tax_rule_id,
+      invoice_no: invoiceNo,
+      created_by: agreement.created_by,
+      updated_by: agreement.created_by,
+    })
+    .select('id')
+    .single<{ id: string }>();
+
+  if (invoiceError || !invoice) {
+    throw new Error(`Failed to create invoice: ${invoiceError?.message}`);
+  }
+
+  const template: ServiceAgreementLineTemplate[] =
+    agreement.line_template && agreement.line_template.length > 0
+      ? agreement.line_template
+      : [
+          {
+            part_id: null,
+            description: agreement.name,
+            uom: 'EA',
+            qty: 1,
+            unit_price: Number(agreement.amount),
+            is_taxable: true,
+          },
+        ];
+
+  const { error: linesError } = await supabase.from('invoice_lines').insert(
+    template.map((line, index) => ({
+      invoice_id: invoice.id,
+      line_no: index + 1,
+      part_id: line.part_id ?? null,
+      description: `${line.description} (${periodStart} to ${periodEnd})`,
+      uom: line.uom,
+      qty: line.qty,
+      unit_price: line.unit_price,
+      is_taxable: line.is_taxable,
+    }))
+  );
+
+  if (linesError) {
+    await supabase.from('invoices').delete().eq('id', invoice.id);
+    throw new Error(`Failed to create invoice lines: ${linesError.message}`);
+  }
+
+  const { error: billingError } = await supabase.from('service_agreement_billings').insert({
+    service_agreement_id: agreement.id,
+    invoice_id: invoice.id,
+    period_start: periodStart,
+    period_end: periodEnd,
+    idempotency_key: idempotencyKey,
+  });
+
+  if (billingError) {
+    // Rollback: another run may have billed this period in the meantime
+    await supabase.from('invoice_lines').delete().eq('invoice_id', invoice.id);
+    await supabase.from('invoices').delete().eq('id', invoice.id);
+
+    if (billingError.code === '23505') {
+      return false;
+    }
+    throw new Error(`Failed to record agreement billing: ${billingError.message}`);
+  }
+
+  const { success, error: recalcError } = await recalculateInvoiceTotals(supabase, invoice.id);
+  if (!success) {
+    console.error('Error recalculating invoice totals:', recalcError);
+  }
+
+  let emailQueued = false;
+
+  if (agreement.auto_send) {
+    const { data: email, error: prepareError } = await prepareDocumentEmail(
+      supabase,
+      'invoice',
+      invoice.id,
+      {}
+    );
+
+    if (prepareError || !email || email.to.length === 0) {
+      // Invoice stays DRAFT for the office to send by hand
+      console.error(
+        `Agreement invoice ${invoice.id} left as DRAFT: ${prepareError?.message ?? 'no recipient email on file'}`
+      );
+    } else {
+      const { data: taxRule } = await supabase
+        .from('tax_rules')
+        .select('rate')
+        .eq('id', agreement.tax_rule_id)
+        .single<{ rate: number }>();
+
+      const { error: sendError } = await supabase
+        .from('invoices')
+        .update({
+          status: 'SENT',
+          sent_at: new Date().toISOString(),
+          tax_rate_snapshot: taxRule?.rate ?? null,
+        })
+        .eq('id', invoice.id);
+
+      if (sendError) {
+        // Invoice stays DRAFT for the office to send by hand
+        console.error('Error auto-sending agreement invoice:', sendError);
+      } else {
+        // The worker renders the PDF it attaches
+        const { error: emailError } = await queueDocumentEmail(
+          supabase,
+          'invoice',
+          invoice.id,
+          email,
+          agreement.created_by
+        );
+
+        if (emailError) {
+          console.error('Error queueing agreement invoice email:', emailError);
+        } else {
+          emailQueued = true;
+        }
+      }
+    }
+  }
+
+  if (!emailQueued) {
+    await queueDocumentPdf(supabase, 'invoice', invoice.id);
+  }
+
+  return true;
+}
+
+/**
+ * Bill every unbilled period of an agreement that starts on or before asOf
+ * Periods are anchored on start_date so month-end clamping never drifts
+ */
+async function billAgreement(
+  supabase: SupabaseClient,
+  agreement: ServiceAgreement,
+  asOf: string
+): Promise<number> {
+  const months = FREQUENCY_MONTHS[agreement.frequency];
+
+  const { data: billings, error: billingsError } = await supabase
+    .from('service_agreement_billings')
+    .select('idempotency_key')
+    .eq('service_agreement_id', agreement.id)
+    .returns<{ idempotency_key: string }[]>();
+
+  if (billingsError) {
+    throw new Error(`Failed to fetch billing history: ${billingsError.message}`);
+  }
+
+  const billedKeys = new Set((billings || []).map((b) => b.idempotency_key));
+  let billedCount = 0;
+
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    const periodStart = addMonths(agreement.start_date, i * months);
+    const nextPeriodStart = addMonths(agreement.start_date, (i + 1) * months);
+
+    if (periodStart > asOf || (agreement.end_date && periodStart > agreement.end_date)) {
+      break;
+    }
+
+    // Periods before next_billing_date were billed or deliberately skipped
+    if (periodStart < agreement.next_billing_date) {
+      continue;
+    }
+
+    const lastDay = addDays(nextPeriodStart, -1);
+    const periodEnd =
+      agreement.end_date && agreement.end_date < lastDay ? agreement.end_date : lastDay;
+    const idempotencyKey = `service_agreement:${agreement.id}:${periodStart}`;
+
+    if (!billedKeys.has(idempotencyKey)) {
+      const billed = await billPeriod(supabase, agreement, periodStart, periodEnd, idempotencyKey);
+      if (billed) {
+        billedCount++;
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('service_agreements')
+      .update({ next_billing_date: nextPeriodStart })
+      .eq('id', agreement.id);
+
+    if (updateError) {
+      throw new Error(`Failed to advance next_billing_date: ${updateError.message}`);
+    }
+  }
+
+  return billedCount;
+}
+
+/**
+ * Process service agreement billing job
+ * Generates invoices for ACTIVE agreements with periods due on or before as_of.
+ * A sweep (no service_agreement_id in payload) also queues the next daily run.
+ */
+export async function processServiceAgreementBilling(
+  supabase: SupabaseClient,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const agreementId = payload.service_agreement_id as string | undefined;
+  const asOf = (payload.as_of as string | undefined) ?? new Date().toISOString().split('T')[0];
+
+  if (!agreementId) {
+    await scheduleNextSweep(supabase);
+  }
+
+  let query = supabase
+    .from('service_agreements')
+    .select('*')
+    .eq('status', 'ACTIVE')
+    .lte('next_billing_date', asOf);
+
+  if (agreementId) {
+    query = query.eq('id', agreementId);
+  }
+
+  const { data: agreements, error } = await query.returns<ServiceAgreement[]>();
+
+  if (error) {
+    throw new Error(`Failed to fetch service agreements: ${error.message}`);
+  }
+
+  const failures: string[] = [];
+
+  for (const agreement of agreements || []) {
+    try {
+      await billAgreement(supabase, agreement, asOf);
+    } catch (billError) {
+      const message = billError instanceof Error ? billError.message : String(billError);
+      failures.push(`${agreement.id}: ${message}`);
+    }
+  }
+
+  // Retrying is safe: already billed periods are skipped by idempotency key
+  if (failures.length > 0) {
+    throw new Error(`Failed to bill service agreement(s): ${failures.join('; ')}`);
+  }
+}
@@ -1,4 +1,17 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import { LaborPayType, TimeEntryAdjustment, WorkOrderTimeEntry } from '@/types/database.js';
+import { roundCurrency } from '@/services/invoicePayments.js';
+import {
+  computeCostLineAmount,
+  computeLaborCostLines,
+  getPayRules,
+  LaborCostLine,
+  PayRules,
+  splitLaborHours,
+} from '@/services/laborCost.js';
+import { computeTimeEntryHours, getWeekStart, getWeekTimeEntries } from '@/services/timesheets.js';
+import { getCompanyTimeZone, toZonedDate } from '@/services/workingCalendar.js';
+import { enqueueJob } from '@/services/jobQueue.js';
 
 interface TimeEntry {
   id: string;
@@ -13,9 +26,10 @@ interface Employee {
   id: string;
   display_name: string;
   labor_rate?: number;
+  labor_burden_percent?: number | null;
 }
 
-interface Settings {
+interface Settings extends Partial<PayRules> {
   default_labor_rate: number;
   labor_cost_type_id?: string;
   labor_cost_code_id?: string;
@@ -26,15 +40,67 @@ interface WorkOrder {
   total_cost?: number;
 }
 
+interface PostedCost {
+  qty: number;
+  unit_cost: number;
+  pay_type: LaborPayType | null;
+}
+
+const PAY_TYPE_LABELS: Record<LaborPayType, string> = {
+  REGULAR: 'Regular',
+  OVERTIME: 'Overtime',
+  DOUBLE_TIME: 'Double time',
+  HOLIDAY: 'Holiday',
+};
+
+/**
+ * Queue a re-post for the tech's clocked-out entries that start after fromMs in the week
+ * Their overtime split counts the hours worked before them, which just changed.
+ */
+async function queueLaterEntryReposts(
+  supabase: SupabaseClient,
+  weekEntries: WorkOrderTimeEntry[],
+  timeEntryId: string,
+  fromMs: number,
+  repostKey: string
+): Promise<void> {
+  const laterEntries = weekEntries.filter(
+    (entry) =>
+      entry.id !== timeEntryId &&
+      entry.clock_out_at &&
+      new Date(entry.clock_in_at).getTime() > fromMs
+  );
+
+  for (const entry of laterEntries) {
+    const { error } = await enqueueJob(supabase, 'time_entry_cost_post', {
+      time_entry_id: entry.id,
+      repost_key: repostKey,
+    });
+
+    if (error) {
+      console.error('Error queueing labor cost re-post:', error);
+      throw new Error(`Failed to queue re-post of time entry ${entry.id}`);
+    }
+  }
+}
+
 /**
  * Process time entry cost posting job
- * Creates a job_cost_entry for labor costs based on time entry data
+ * Splits the entry's hours into regular, overtime, double-time and holiday segments
+ * using the pay rules in settings, and creates a burdened job_cost_entry for each. When
+ * cost was already posted for the entry (an adjustment_id for a correction in a locked
+ * week, or a repost_key after an edit) it posts only the difference: hours at a rate
+ * that no longer applies are reversed and the rest is posted at the current rate.
+ * When the entry's hours change, the tech's later entries that week are queued for a
+ * re-post so their overtime split is worked out again.
  */
 export async function processTimeCostPost(
   supabase: SupabaseClient,
   payload: Record<string, unknown>
 ): Promise<void> {
   const timeEntryId = payload.time_entry_id as string;
+  const adjustmentId = payload.adjustment_id as string | undefined;
+  const repostKey = payload.repost_key as string | undefined;
 
   if (!timeEntryId) {
     throw new Error('Missing time_entry_id in payload');
@@ -56,20 +122,16 @@ export async function processTimeCostPost(
   }
 
   // 2. Calculate hours
-  const clockInMs = new Date(timeEntry.clock_in_at).getTime();
-  const clockOutMs = new Date(timeEntry.clock_out_at).getTime();
-  const totalMinutes = (clockOutMs - clockInMs) / 60000;
-  const workedMinutes = totalMinutes - timeEntry.break_minutes;
-  const hours = workedMinutes / 60;
+  const hours = computeTimeEntryHours(timeEntry) ?? 0;
 
   if (hours <= 0) {
     throw new Error(`Invalid hours calculated: ${hours}`);
   }
 
-  // 3. Fetch employee and labor rate
+  // 3. Fetch employee, labor rate and burden
   const { data: employee, error: employeeError } = await supabase
     .from('employees')
-    .select('id, display_name, labor_rate')
+    .select('id, display_name, labor_rate, labor_burden_percent')
     .eq('id', timeEntry.tech_user_id)
     .single<Employee>();
 
@@ -77,10 +139,12 @@ export async function processTimeCostPost(
     throw new Error(`Employee not found: ${timeEntry.tech_user_id}`);
   }
 
-  // 4. Fetch settings for default labor rate and cost type/code
+  // 4. Fetch settings for default labor rate, cost type/code and pay rules
   const { data: settings, error: settingsError } = await supabase
     .from('settings')
-    .select('default_labor_rate, labor_cost_type_id, labor_cost_code_id')
+    .select(
+      'default_labor_rate, labor_cost_type_id, labor_cost_code_id, ot_daily_threshold_hours, dt_daily_threshold_hours, ot_weekly_threshold_hours, ot_multiplier, dt_multiplier, holiday_multiplier'
+    )
     .limit(1)
     .single<Settings>();
 
@@ -95,11 +159,7 @@ export async function processTimeCostPost(
     throw new Error(`Invalid labor rate: ${laborRate}`);
   }
 
-  // 5. Calculate cost
-  const CURRENCY_PRECISION_MULTIPLIER = 100;
-  const amount = Math.round(hours * laborRate * CURRENCY_PRECISION_MULTIPLIER) / CURRENCY_PRECISION_MULTIPLIER; // Round to 2 decimal places
-
-  // 6. Get cost_type_id and cost_code_id from settings
+  // 5. Get cost_type_id and cost_code_id from settings
   // If not set in settings, we need to find a default labor cost type and code
   let costTypeId = settings.labor_cost_type_id;
   let costCodeId = settings.labor_cost_code_id;
@@ -138,12 +198,73 @@ export async function processTimeCostPost(
     throw new Error('Labor cost type or cost code not configured in settings');
   }
 
-  // 7. Check idempotency
-  const idempotencyKey = `time_entry:${timeEntryId}`;
+
+  // 6. Burden: the employee's percentage, otherwise the labor cost type's
+  let burdenPercent = employee.labor_burden_percent ?? null;
+
+  if (burdenPercent === null) {
+    const { data: costType } = await supabase
+      .from('cost_types')
+      .select('burden_percent')
+      .eq('id', costTypeId)
+      .maybeSingle<{ burden_percent: number | null }>();
+
+    burdenPercent = costType?.burden_percent ?? 0;
+  }
+
+  // 7. Hours the tech worked earlier the same day and week, and whether it's a holiday
+  const timeZone = await getCompanyTimeZone(supabase);
+  const workDate = toZonedDate(new Date(timeEntry.clock_in_at), timeZone);
+
+  const { data: weekEntries, error: weekEntriesError } = await getWeekTimeEntries(
+    supabase,
+    timeEntry.tech_user_id,
+    getWeekStart(workDate),
+    timeZone
+  );
+
+  if (weekEntriesError) {
+    throw new Error(`Failed to load week time entries: ${weekEntriesError.message}`);
+  }
+
+  const clockInMs = new Date(timeEntry.clock_in_at).getTime();
+  const earlierEntries = (weekEntries || []).filter(
+    (entry) => entry.id !== timeEntry.id && new Date(entry.clock_in_at).getTime() < clockInMs
+  );
+  const sumHours = (entries: typeof earlierEntries): number =>
+    entries.reduce((sum, entry) => sum + (computeTimeEntryHours(entry) ?? 0), 0);
+
+  const { data: holidays } = await supabase
+    .from('holidays')
+    .select('id')
+    .eq('holiday_date', workDate)
+    .limit(1);
+
+  const segments = splitLaborHours(
+    hours,
+    {
+      day_hours_before: sumHours(
+        earlierEntries.filter(
+          (entry) => toZonedDate(new Date(entry.clock_in_at), timeZone) === workDate
+        )
+      ),
+      week_hours_before: sumHours(earlierEntries),
+      is_holiday: !!holidays && holidays.length > 0,
+    },
+    getPayRules(settings)
+  );
+  const lines = computeLaborCostLines(segments, laborRate, burdenPercent);
+
+  // 8. Check idempotency (one key per cost line, sharing this prefix)
+  const baseKey = adjustmentId
+    ? `time_entry_adjustment:${adjustmentId}`
+    : repostKey
+      ? `time_entry_repost:${timeEntryId}:${repostKey}`
+      : `time_entry:${timeEntryId}`;
   const { data: existingEntry } = await supabase
     .from('job_cost_entries')
     .select('id')
-    .eq('idempotency_key', idempotencyKey)
+    .like('idempotency_key', `${baseKey}%`)
     .limit(1);
 
   if (existingEntry && existingEntry.length > 0) {
@@ -151,7 +272,96 @@ export async function processTimeCostPost(
     return;
   }
 
-  // 8. Fetch work order to get project_id
+  // 9. Compare with labor already posted for this entry (the original post and earlier
+  // corrections), per pay type and rate. Lines posted before pay types existed count
+  // as REGULAR.
+  const { data: postedCosts, error: postedError } = await supabase
+    .from('job_cost_entries')
+    .select('qty, unit_cost, pay_type')
+    .eq('source_id', timeEntryId)
+    .in('source_type', ['TIME_ENTRY', 'TIME_ENTRY_ADJUSTMENT'])
+    .returns<PostedCost[]>();
+
+  if (postedError) {
+    throw new Error(`Failed to load posted labor cost: ${postedError.message}`);
+  }
+
+  const posted = new Map<string, PostedCost & { pay_type: LaborPayType }>();
+  (postedCosts || []).forEach((cost) => {
+    const payType = cost.pay_type ?? 'REGULAR';
+    const key = `${payType}:${Number(cost.unit_cost)}`;
+    const current = posted.get(key);
+    posted.set(key, {
+      pay_type: payType,
+      unit_cost: Number(cost.unit_cost),
+      qty: (current?.qty ?? 0) + Number(cost.qty),
+    });
+  });
+
+  const deltas: (LaborCostLine & { idempotency_key: string })[] = [];
+  const addDelta = (payType: LaborPayType, qty: number, unitCost: number, key: string): void => {
+    const roundedQty = Math.round(qty * 10000) / 10000;
+    deltas.push({
+      pay_type: payType,
+      qty: roundedQty,
+      unit_cost: unitCost,
+      amount: computeCostLineAmount(roundedQty, unitCost),
+      idempotency_key: key,
+    });
+  };
+
+  // Hours posted at a rate the entry no longer has (the rate, burden or pay type split
+  // changed) are reversed at the rate they were posted at
+  posted.forEach((cost) => {
+    const line = lines.find((l) => l.pay_type === cost.pay_type);
+    if (Math.abs(cost.qty) < 0.0001 || line?.unit_cost === cost.unit_cost) {
+      return;
+    }
+    addDelta(
+      cost.pay_type,
+      -cost.qty,
+      cost.unit_cost,
+      `${baseKey}:${cost.pay_type.toLowerCase()}:reversal:${cost.unit_cost}`
+    );
+  });
+
+  // The rest of each current line is posted at today's rate
+  lines.forEach((line) => {
+    const already = posted.get(`${line.pay_type}:${line.unit_cost}`)?.qty ?? 0;
+    const qtyDelta = line.qty - already;
+    if (Math.abs(qtyDelta) < 0.0001) {
+      return;
+    }
+    addDelta(line.pay_type, qtyDelta, line.unit_cost, `${baseKey}:${line.pay_type.toLowerCase()}`);
+  });
+
+  // Later entries in the week were split against this entry's old hours (and, after an
+  // adjustment, its old clock-in), so they are split again. Their own re-posts only
+  // shift hours between pay types and don't go further.
+  let resplitFromMs = clockInMs;
+  if (adjustmentId) {
+    const { data: adjustment } = await supabase
+      .from('time_entry_adjustments')
+      .select('before_data')
+      .eq('id', adjustmentId)
+      .maybeSingle<Pick<TimeEntryAdjustment, 'before_data'>>();
+
+    if (adjustment?.before_data.clock_in_at) {
+      resplitFromMs = Math.min(clockInMs, new Date(adjustment.before_data.clock_in_at).getTime());
+    }
+  }
+
+  const hoursDelta = deltas.reduce((sum, delta) => sum + delta.qty, 0);
+  if (Math.abs(hoursDelta) >= 0.0001 || resplitFromMs < clockInMs) {
+    await queueLaterEntryReposts(supabase, weekEntries || [], timeEntryId, resplitFromMs, baseKey);
+  }
+
+  if (deltas.length === 0) {
+    // Nothing changed since the last post
+    return;
+  }
+
+  // 10. Fetch work order to get project_id
   const { data: workOrder, error: workOrderError } = await supabase
     .from('work_orders')
     .select('project_id')
@@ -162,32 +372,39 @@ export async function processTimeCostPost(
     throw new Error(`Work order not found: ${timeEntry.work_order_id}`);
   }
 
-  // 9. Insert job_cost_entry
+  // 11. Insert the job_cost_entries in a single insert so a retry never finds half of
+  // them posted
   const txnDate = new Date(timeEntry.clock_out_at).toISOString().split('T')[0];
-  const description = `Labor: ${employee.display_name} on ${txnDate}`;
+  const label = adjustmentId || repostKey ? 'Labor adjustment' : 'Labor';
 
-  const { error: insertError } = await supabase
-    .from('job_cost_entries')
-    .insert({
+  const { error: insertError } = await supabase.from('job_cost_entries').insert(
+    deltas.map((delta) => ({
       project_id: workOrder.project_id,
       work_order_id: timeEntry.work_order_id,
       cost_type_id: costTypeId,
       cost_code_id: costCodeId,
       txn_date: txnDate,
-      qty: hours,
-      unit_cost: laborRate,
-      amount: amount,
-      description: description,
-      source_type: 'TIME_ENTRY',
+      qty: delta.qty,
+      unit_cost: delta.unit_cost,
+      amount: delta.amount,
+      description:
+        delta.pay_type === 'REGULAR'
+          ? `${label}: ${employee.display_name} on ${txnDate}`
+          : `${label} (${PAY_TYPE_LABELS[delta.pay_type]}): ${employee.display_name} on ${txnDate}`,
+      source_type: adjustmentId ? 'TIME_ENTRY_ADJUSTMENT' : 'TIME_ENTRY',
       source_id: timeEntryId,
-      idempotency_key: idempotencyKey,
-    });
+      pay_type: delta.pay_type,
+      idempotency_key: delta.idempotency_key,
+    }))
+  );
 
   if (insertError) {
     throw new Error(`Failed to insert job_cost_entry: ${insertError.message}`);
   }
 
-  // 10. Update work_order total_cost (if column exists)
+  const amountDelta = roundCurrency(deltas.reduce((sum, delta) => sum + delta.amount, 0));
+
+  // 12. Update work_order total_cost (if column exists)
   // Note: This is optional and depends on whether total_cost is tracked
   const { data: workOrderWithCost } = await supabase
     .from('work_orders')
@@ -200,7 +417,7 @@ export async function processTimeCostPost(
     const currentTotal = workOrderWithCost.total_cost ?? 0;
     // Ensure currentTotal is a valid number before arithmetic
     const totalAsNumber = typeof currentTotal === 'number' ? currentTotal : Number(currentTotal) || 0;
-    const newTotal = totalAsNumber + amount;
+    const newTotal = totalAsNumber + amountDelta;
     
     await supabase
       .from('work_orders')